@@ -0,0 +1,170 @@
+#!/usr/bin/env node
+
+// Build a tile-level delta between two releases of an MBTiles file.
+//
+// Usage: node scripts/build-mbtiles-delta.mjs <old.mbtiles> <new.mbtiles> --key <r2-key> [--out dir] [--keep n]
+//
+// Writes the delta blob and updates "<key>.delta.json" in the output directory, then prints
+// the wrangler commands to upload them next to the full file. Requires Node 22.5+ (node:sqlite).
+
+import { createHash } from 'crypto';
+import { createReadStream, existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { DatabaseSync } from 'node:sqlite';
+
+const BUCKET = 'mbtiles';
+
+function parseArgs(argv) {
+	const args = { positional: [], out: './delta-out', keep: 5 };
+	for (let i = 0; i < argv.length; i++) {
+		if (argv[i] === '--key') args.key = argv[++i];
+		else if (argv[i] === '--out') args.out = argv[++i];
+		else if (argv[i] === '--keep') args.keep = Number(argv[++i]);
+		else args.positional.push(argv[i]);
+	}
+	return args;
+}
+
+function md5File(path) {
+	return new Promise((resolve, reject) => {
+		const hash = createHash('md5');
+		createReadStream(path)
+			.on('data', (chunk) => hash.update(chunk))
+			.on('end', () => resolve(hash.digest('hex')))
+			.on('error', reject);
+	});
+}
+
+function readVersion(db) {
+	const row = db.prepare("SELECT value FROM metadata WHERE name = 'version'").get();
+	const version = parseInt(row?.value ?? '0', 10);
+	return Number.isFinite(version) ? version : 0;
+}
+
+function writeVersion(db, version) {
+	db.prepare("DELETE FROM metadata WHERE name = 'version'").run();
+	db.prepare("INSERT INTO metadata (name, value) VALUES ('version', ?)").run(String(version));
+}
+
+function compareTiles(a, b) {
+	return a.zoom_level - b.zoom_level || a.tile_column - b.tile_column || a.tile_row - b.tile_row;
+}
+
+// Merge-join both tile sets in (z, x, y) order, collecting changed and removed tiles
+function diffTiles(oldDb, newDb) {
+	const query =
+		'SELECT zoom_level, tile_column, tile_row, tile_data FROM tiles ORDER BY zoom_level, tile_column, tile_row';
+	const oldTiles = oldDb.prepare(query).iterate();
+	const newTiles = newDb.prepare(query).iterate();
+
+	const puts = [];
+	const deletes = [];
+	let oldTile = oldTiles.next();
+	let newTile = newTiles.next();
+
+	while (!oldTile.done || !newTile.done) {
+		const order = oldTile.done ? 1 : newTile.done ? -1 : compareTiles(oldTile.value, newTile.value);
+
+		if (order < 0) {
+			deletes.push(oldTile.value);
+			oldTile = oldTiles.next();
+		} else if (order > 0) {
+			puts.push(newTile.value);
+			newTile = newTiles.next();
+		} else {
+			if (Buffer.compare(oldTile.value.tile_data, newTile.value.tile_data) !== 0) {
+				puts.push(newTile.value);
+			}
+			oldTile = oldTiles.next();
+			newTile = newTiles.next();
+		}
+	}
+
+	return { puts, deletes };
+}
+
+async function main() {
+	const args = parseArgs(process.argv.slice(2));
+	const [oldPath, newPath] = args.positional;
+
+	if (!oldPath || !newPath || !args.key) {
+		console.error(
+			'Usage: node scripts/build-mbtiles-delta.mjs <old.mbtiles> <new.mbtiles> --key <r2-key> [--out dir] [--keep n]'
+		);
+		process.exit(1);
+	}
+
+	// Hash the old file before anything touches it - clients compare it with their local ETag
+	const fromEtag = await md5File(oldPath);
+
+	const oldDb = new DatabaseSync(oldPath, { readOnly: true });
+	const newDb = new DatabaseSync(newPath);
+
+	const fromVersion = readVersion(oldDb);
+	let toVersion = readVersion(newDb);
+	if (toVersion <= fromVersion) {
+		toVersion = fromVersion + 1;
+		writeVersion(newDb, toVersion);
+		console.log(`🔢 Set version of ${newPath} to ${toVersion}`);
+	}
+
+	const { puts, deletes } = diffTiles(oldDb, newDb);
+	oldDb.close();
+	newDb.close();
+
+	const dataKey = `${args.key}.delta/${fromVersion}-${toVersion}.bin`;
+	const tiles = [];
+	const blobParts = [];
+	let offset = 0;
+
+	for (const tile of puts) {
+		const data = Buffer.from(tile.tile_data);
+		tiles.push({
+			z: tile.zoom_level,
+			x: tile.tile_column,
+			y: tile.tile_row,
+			op: 'put',
+			hash: createHash('sha256').update(data).digest('hex'),
+			offset,
+			length: data.length
+		});
+		blobParts.push(data);
+		offset += data.length;
+	}
+	for (const tile of deletes) {
+		tiles.push({ z: tile.zoom_level, x: tile.tile_column, y: tile.tile_row, op: 'delete' });
+	}
+
+	const blobPath = join(args.out, dataKey);
+	mkdirSync(dirname(blobPath), { recursive: true });
+	writeFileSync(blobPath, Buffer.concat(blobParts));
+
+	// Append to the existing manifest, dropping deltas that no longer lead to the new version
+	const manifestPath = join(args.out, `${args.key}.delta.json`);
+	mkdirSync(dirname(manifestPath), { recursive: true });
+	const previous = existsSync(manifestPath)
+		? JSON.parse(readFileSync(manifestPath, 'utf-8'))
+		: { deltas: [] };
+	const deltas = previous.deltas
+		.filter((delta) => delta.toVersion <= fromVersion)
+		.concat({ fromVersion, toVersion, fromEtag, dataKey, dataSize: offset, tiles })
+		.slice(-args.keep);
+
+	const manifest = { format: 'mbtiles-delta/1', key: args.key, version: toVersion, deltas };
+	writeFileSync(manifestPath, JSON.stringify(manifest));
+
+	console.log(
+		`✅ v${fromVersion}→v${toVersion}: ${puts.length} tiles changed, ${deletes.length} removed, ${offset} bytes`
+	);
+	console.log('\nUpload with:');
+	console.log(`  npx wrangler r2 object put ${BUCKET}/${args.key} --file ${newPath}`);
+	console.log(`  npx wrangler r2 object put ${BUCKET}/${dataKey} --file ${blobPath}`);
+	console.log(
+		`  npx wrangler r2 object put ${BUCKET}/${args.key}.delta.json --file ${manifestPath}`
+	);
+}
+
+main().catch((error) => {
+	console.error('❌ Failed to build delta:', error);
+	process.exit(1);
+});
@@ -8,6 +8,31 @@ declare global {
 		key: string;
 		size: number;
 		lastModified: string;
+		etag?: string; // R2 object ETag (unquoted), used for resume and integrity checks
+	}
+
+	/**
+	 * R2 .mbtiles file described by its MBTiles metadata table (served by /api/manifest),
+	 * so coverage and contents are known before downloading
+	 */
+	interface MBTilesManifestEntry extends R2File {
+		hash?: string; // R2 ETag (MD5 of the object for single-part uploads)
+		version: number; // metadata 'version', 0 when missing
+		name?: string;
+		format?: string; // 'pbf', 'png', ...
+		bounds: [number, number, number, number] | null; // [west, south, east, north]
+		minzoom: number | null;
+		maxzoom: number | null;
+		layers: string[]; // vector_layers ids
+		error?: string; // Set when the metadata could not be read
+	}
+
+	/**
+	 * Area drawn on the map to pick offline files for. A tap gives a zero-size box.
+	 */
+	interface PickedRegion {
+		bounds: [number, number, number, number]; // [west, south, east, north]
+		isPoint: boolean;
 	}
 
 	interface FileComparisonResult {
@@ -16,17 +41,123 @@ declare global {
 		r2File: R2File;
 		status: 'not-downloaded' | 'up-to-date' | 'needs-update';
 		opfsFile?: OPFSFileInfo;
+		manifest?: MBTilesManifestEntry;
 	}
 
 	interface OPFSFileInfo {
 		filename: string;
 		size: number;
 		lastModified: number; // timestamp
+		etag?: string; // ETag of the R2 object this file was downloaded from
 	}
 
 	interface R2FileMetadata {
 		lastModified: string;
 		size: number;
+		etag?: string;
+	}
+
+	/**
+	 * Partially downloaded file kept in OPFS so the download can resume
+	 */
+	interface PendingDownloadInfo {
+		filename: string;
+		key: string; // R2 object key
+		size: number; // Expected total size in bytes
+		etag?: string; // R2 ETag the partial data belongs to
+		lastModified: string;
+		startedAt: string;
+		bytesDownloaded: number;
+	}
+
+	/**
+	 * Per-file download progress shown in the file manager
+	 */
+	interface DownloadProgressState {
+		status: 'downloading' | 'paused' | 'verifying' | 'applying' | 'error';
+		bytesDownloaded: number;
+		totalBytes: number;
+		error?: string;
+	}
+
+	/**
+	 * OPFS bytes used by one .mbtiles file, as reported by the search worker
+	 */
+	interface OPFSFileUsage {
+		filename: string;
+		size: number;
+		sidecarBytes: number; // .r2meta and partial download files
+		lastAccessed: number; // Last time the tile worker served a tile from it, else when saved
+	}
+
+	interface OPFSUsageReport {
+		files: OPFSFileUsage[];
+		pendingDownloadBytes: number; // Partial downloads of files not yet in OPFS
+		otherBytes: number; // Anything else in the OPFS root (access log, journals)
+	}
+
+	interface StorageCategoryUsage {
+		category: string; // basemap, poi, transportation, ...
+		bytes: number;
+		fileCount: number;
+	}
+
+	/**
+	 * All files of one continent/country/region, evicted together
+	 */
+	interface StorageRegionUsage {
+		key: string; // continent_country_region
+		name: string;
+		bytes: number;
+		filenames: string[];
+		lastAccessed: number;
+	}
+
+	interface StorageReport {
+		usage: number | null; // navigator.storage.estimate(), null when unsupported
+		quota: number | null;
+		persisted: boolean;
+		opfsBytes: number;
+		files: Array<OPFSFileUsage & { category: string; regionKey: string }>;
+		categories: StorageCategoryUsage[];
+		regions: StorageRegionUsage[]; // Least recently used first
+		pendingDownloadBytes: number;
+	}
+
+	interface StorageQuotaCheck {
+		fits: boolean;
+		bytesNeeded: number;
+		available: number | null; // Free bytes left under the quota (minus safety margin)
+	}
+
+	/**
+	 * Tile-level delta manifest published next to an R2 .mbtiles object as "<key>.delta.json".
+	 * Lets an outdated local copy be patched instead of re-downloaded.
+	 */
+	interface MBTilesDeltaManifest {
+		format: 'mbtiles-delta/1';
+		key: string; // R2 key of the full .mbtiles file
+		version: number; // Current version (matches the file's metadata 'version')
+		deltas: MBTilesDelta[]; // Ordered oldest to newest
+	}
+
+	interface MBTilesDelta {
+		fromVersion: number;
+		toVersion: number;
+		fromEtag?: string; // MD5 of the full file at fromVersion, to confirm the local base
+		dataKey: string; // R2 key of the blob holding the new tile data
+		dataSize: number;
+		tiles: MBTilesDeltaTile[];
+	}
+
+	interface MBTilesDeltaTile {
+		z: number;
+		x: number;
+		y: number; // TMS row, as stored in the MBTiles tiles table
+		op: 'put' | 'delete';
+		hash?: string; // SHA-256 (hex) of the stored tile_data, for 'put'
+		offset?: number; // Byte offset into the delta blob, for 'put'
+		length?: number;
 	}
 
 	// File hierarchy for categorized display
@@ -119,7 +250,37 @@ declare global {
 		zoom: number;
 		tileX: number;
 		tileY: number;
-		matchType?: 'name' | 'property'; // How this result was matched (for debugging)
+		matchType?: 'name' | 'property' | 'fuzzy' | 'transliterated'; // How this result was matched
+		score?: number; // Match quality from 0 to 1, used to rank results
+		openingHours?: string; // opening_hours tag, for "open at" filters
+	}
+
+	/**
+	 * Filter of the structured search query language (`category:cafe`, `within:2km`, ...).
+	 * `start`/`end` locate the filter in the query string for inline errors.
+	 */
+	type SearchQueryFilter = (
+		| { key: 'category'; value: string }
+		| { key: 'open'; value: 'now' }
+		| { key: 'near'; value: string }
+		| { key: 'within'; value: number } // Meters
+		| { key: 'list'; value: string }
+		| { key: 'visited'; value: boolean }
+	) & { start: number; end: number };
+
+	interface SearchQueryError {
+		start: number;
+		end: number;
+		message: string;
+	}
+
+	/**
+	 * A search query split into free text and filters
+	 */
+	interface ParsedSearchQuery {
+		text: string;
+		filters: SearchQueryFilter[];
+		errors: SearchQueryError[];
 	}
 
 	/**
@@ -148,6 +309,8 @@ declare global {
 
 		// Sync fields
 		lastSyncTimestamp?: number; // When this list was last synced
+		fieldModified?: Record<string, number>; // When each field was last changed, for merging
+		featureIdChanges?: Record<string, number>; // When each feature was last added or removed
 		firestoreId?: string; // Firestore document ID
 		deleted?: boolean; // Soft delete flag for sync
 	}
@@ -176,6 +339,7 @@ declare global {
 		source: string; // Map source
 		sourceLayer?: string; // Source layer if applicable
 		layer?: { id: string }; // Map layer info
+		openingHours?: string; // opening_hours tag, for "open at" filters
 
 		// User action flags
 		bookmarked: boolean;
@@ -186,12 +350,17 @@ declare global {
 		// Relation information
 		relation?: FeatureRelation; // Route relation data if applicable
 
+		// Private notes, sealed while this device doesn't have the notes passphrase
+		note?: FeatureNote | SealedContent;
+
 		// Metadata
 		dateCreated: number;
 		dateModified: number;
 
 		// Sync fields
 		lastSyncTimestamp?: number; // When this feature was last synced
+		fieldModified?: Record<string, number>; // When each field was last changed, for merging
+		listIdChanges?: Record<string, number>; // When each list was last added or removed
 		firestoreId?: string; // Firestore document ID
 		deleted?: boolean; // Soft delete flag for sync
 
@@ -199,6 +368,49 @@ declare global {
 		searchText: string; // Concatenated text for full-text search
 	}
 
+	// ==================== FEATURE NOTES INTERFACES ====================
+
+	/**
+	 * The user's own notes on a place: rich text, a star rating and photos
+	 * Synced as one field, and encrypted as a whole once the user has set a notes passphrase
+	 */
+	interface FeatureNote {
+		text: string; // Sanitized HTML from the notes editor
+		rating?: number; // 1-5 stars
+		photos: FeaturePhoto[];
+	}
+
+	interface FeaturePhoto {
+		id: string; // File name in OPFS and Firebase Storage
+		type: string; // MIME type
+		size: number; // Bytes, before encryption
+		width: number;
+		height: number;
+		dateAdded: number;
+		iv?: string; // Set when the stored file is encrypted
+	}
+
+	/**
+	 * Value encrypted with the keys from the notes passphrase (AES-GCM, base64)
+	 */
+	interface SealedContent {
+		keyId: string; // Passphrase it was sealed with
+		iv: string;
+		ciphertext: string;
+	}
+
+	/**
+	 * What a device needs to turn the notes passphrase into keys, kept in
+	 * users/{userId}/settings/noteEncryption; the passphrase itself never leaves the device
+	 */
+	interface NoteEncryptionSettings {
+		keyId: string;
+		salt: string;
+		iterations: number;
+		verifier: SealedContent; // Known text, to check a passphrase
+		dateCreated: number;
+	}
+
 	// ==================== APP STATE INTERFACES ====================
 
 	interface MapViewState {
@@ -294,12 +506,33 @@ declare global {
 		language: LanguageCode;
 		filterSettings: AppFilterSettings;
 		relationSettings: RelationSettings;
+		routingProfile: RoutingProfileId; // profile for directions and story routes
 		// Future config properties can be added here
 		// theme?: string;
 		// selectedLayers?: string[];
 		// userPreferences?: Record<string, any>;
 	}
 
+	// For storage - filter categories are arrays in IndexedDB and Firestore
+	interface AppConfigStored extends Omit<AppConfig, 'filterSettings'> {
+		filterSettings: {
+			map: CategoryFilterSettingsStored;
+			heat: CategoryFilterSettingsStored;
+			stored: CategoryFilterSettingsStored;
+		};
+	}
+
+	type AppConfigField = keyof AppConfig;
+
+	/**
+	 * App settings synced across devices in Firestore at users/{userId}/settings/appConfig
+	 * Each field is taken from the device that changed it last
+	 */
+	interface SyncedAppSettings extends Partial<AppConfigStored> {
+		fieldModified: Partial<Record<AppConfigField, number>>; // When each field last changed
+		serverTimestamp?: any;
+	}
+
 	// ==================== APP INITIALIZATION INTERFACES ====================
 
 	type InitializationStatus =
@@ -353,6 +586,24 @@ declare global {
 		end: number; // minutes from midnight (0-1440, where 1440 = next day midnight)
 	}
 
+	// A period an opening_hours value is open, or possibly open ('unknown')
+	interface OpenInterval {
+		start: Date;
+		end: Date;
+		state: 'open' | 'unknown';
+		comment?: string;
+		openEnd?: boolean; // Closing time not given ("17:00+")
+	}
+
+	// Where a POI is, to resolve its time zone, holidays and sun times
+	interface OpeningHoursContext {
+		lng?: number;
+		lat?: number;
+		timeZone?: string; // IANA zone, e.g. from the `timezone` tag
+		country?: string; // ISO 3166-1 alpha-2
+		region?: string; // Subdivision for regional holidays, e.g. 'BY'
+	}
+
 	// ==================== PROTOCOL HANDLER INTERFACES ====================
 
 	interface TileRequest {
@@ -432,6 +683,7 @@ declare global {
 		format?: string;
 		name?: string;
 		description?: string;
+		version?: number;
 	}
 
 	interface TileToMerge {
@@ -522,6 +774,8 @@ declare global {
 
 		// Sync fields
 		lastSyncTimestamp?: number; // When this story was last synced
+		fieldModified?: Record<string, number>; // When each field was last changed, for merging
+		categoryChanges?: Record<string, number>; // When each category was last added or removed
 		firestoreId?: string; // Firestore document ID
 		deleted?: boolean; // Soft delete flag for sync
 
@@ -565,8 +819,120 @@ declare global {
 		deleted?: boolean; // Soft delete flag for sync
 	}
 
+	// ==================== TRIPS INTERFACES ====================
+
+	/**
+	 * Place to stay during a trip; each day's route starts there
+	 */
+	interface TripLodging {
+		name: string;
+		feature?: StoredFeature; // Map feature of the lodging, needed to route from it
+		notes?: string; // Address, booking reference, check-in time...
+	}
+
+	/**
+	 * Feature visited on a trip day
+	 */
+	interface TripStop {
+		featureId: string;
+		feature: StoredFeature; // Snapshot of the feature when it was added
+		customText?: string; // User can override display text
+		dwellMinutes?: number; // Time spent at the stop, the trip default if unset
+		notes?: string;
+	}
+
+	/**
+	 * Itinerary of one day of a trip
+	 */
+	interface TripDay {
+		id: string;
+		date: string; // Local date, YYYY-MM-DD
+		stops: TripStop[]; // In the order they were added; routes find the best visiting order
+		startTime: string; // Local time the day starts at the lodging, HH:MM
+		notes?: string;
+		lodging?: TripLodging; // Overrides the trip's lodging, e.g. on multi-city trips
+	}
+
+	/**
+	 * Main trip interface
+	 */
+	interface Trip {
+		id: string; // Unique identifier for the trip
+		userId: string; // User ID from Firebase Auth
+		title: string;
+		startDate: string; // Local date, YYYY-MM-DD
+		endDate: string; // Local date, YYYY-MM-DD, inclusive
+		days: TripDay[]; // One per date from startDate to endDate
+		notes?: string;
+		lodging?: TripLodging;
+		dwellMinutes: number; // Default time spent at each stop
+
+		// Metadata
+		dateCreated: number;
+		dateModified: number;
+
+		// Sync fields
+		lastSyncTimestamp?: number; // When this trip was last synced
+		firestoreId?: string; // Firestore document ID
+		deleted?: boolean; // Soft delete flag for sync
+
+		// Search optimization - denormalized searchable text
+		searchText: string; // Concatenated text for full-text search
+	}
+
+	// ==================== IMPORT / EXPORT INTERFACES ====================
+
+	type ImportFormat = 'gpx' | 'kml' | 'kmz' | 'geojson' | 'csv';
+
+	/**
+	 * Waypoint, track or area read from an imported file
+	 */
+	interface ImportedItem {
+		id: string; // Position in the file, e.g. "wpt-3"
+		name?: string;
+		description?: string;
+		kind: 'point' | 'track' | 'area';
+		geometry: GeoJSON.Geometry;
+	}
+
+	/**
+	 * Contents of an imported file
+	 */
+	interface ImportedFile {
+		format: ImportFormat;
+		name: string; // Document name, or the file name - suggested name of the new list
+		items: ImportedItem[];
+		skipped: number; // Entries without usable coordinates
+	}
+
+	/**
+	 * An imported item and the map feature it becomes: a matching OSM feature from the local
+	 * MBTiles, or a custom feature with the item's own name and geometry
+	 */
+	interface ImportMatch {
+		item: ImportedItem;
+		osmMatch?: SearchResult;
+		distance?: number; // Meters from the item to the OSM feature
+	}
+
+	type ExportFormat = 'gpx' | 'kml' | 'geojson';
+
+	/**
+	 * File made from a bookmark list, a story or the visits, ready to download
+	 */
+	interface ExportedFile {
+		fileName: string;
+		mimeType: string;
+		content: string;
+	}
+
 	// ==================== ROUTING INTERFACES ====================
 
+	/**
+	 * Routing profile: which roads a route may use, how it weighs them and its travel speed
+	 */
+	type RoutingProfileId = 'walking' | 'cycling' | 'wheelchair';
+
 	/**
 	 * Route graph node for walking route calculations
 	 */
@@ -582,9 +948,10 @@ declare global {
 	interface RouteEdge {
 		targetNodeId: string;
 		distance: number; // in meters
-		cost: number; // walking cost (includes distance + road type preferences)
+		cost: number; // routing cost (distance + the profile's road type preferences)
 		roadCategory: string; // highway category (footway, residential, etc.)
 		roadId?: string; // original road segment ID
+		roadNames?: FeatureNames; // street names of the road (name, name:en, ...), if any
 		geometry?: [number, number][]; // intermediate points along the edge
 	}
 
@@ -592,6 +959,8 @@ declare global {
 	 * Complete route graph for walking calculations
 	 */
 	interface RouteGraph {
+		profile?: RoutingProfileId; // profile the graph was built for, walking if unset
+		revision?: number; // bumped whenever nodes or edges are added, invalidates RoutingIndex
 		nodes: Map<string, RouteNode>;
 		spatialIndex: SpatialIndex; // For fast nearest node lookup
 	}
@@ -612,9 +981,95 @@ declare global {
 		success: boolean;
 		path: [number, number][];
 		distance: number; // in meters
-		estimatedWalkingTime: number; // in minutes
+		estimatedWalkingTime: number; // in minutes, at the profile's travel speed
 		roadTypes: string[];
 		fallbackToStraightLine: boolean;
+		profile?: RoutingProfileId;
+		nodePath?: string[]; // graph nodes along the route, for turn-by-turn instructions
+	}
+
+	/**
+	 * Start or end point of walking directions
+	 */
+	interface DirectionsWaypoint {
+		source: 'location' | 'map' | 'search' | 'feature'; // current location, map tap, search result, stored feature
+		name: string;
+		coordinates: [number, number]; // [lng, lat]
+		featureId?: string; // ID of the search result or stored feature
+	}
+
+	type ManeuverType = 'depart' | 'turn' | 'continue' | 'arrive';
+	type ManeuverModifier =
+		| 'straight'
+		| 'slight_left'
+		| 'left'
+		| 'sharp_left'
+		| 'slight_right'
+		| 'right'
+		| 'sharp_right'
+		| 'uturn';
+
+	/**
+	 * One step of turn-by-turn directions
+	 */
+	interface RouteInstruction {
+		type: ManeuverType;
+		modifier?: ManeuverModifier;
+		text: string; // e.g. "Turn left onto Rue de Rivoli"
+		roadName?: string;
+		roadCategory: string;
+		distance: number; // in meters, until the next step
+		duration: number; // in minutes, until the next step
+		coordinates: [number, number]; // where the maneuver happens
+		bearing: number; // heading after the maneuver, degrees clockwise from north
+	}
+
+	/**
+	 * Walking directions between two waypoints
+	 */
+	interface DirectionsResult {
+		success: boolean;
+		error?: string;
+		route: RouteResult;
+		instructions: RouteInstruction[];
+		geoJson: GeoJSON.FeatureCollection; // route line, maneuver points and waypoints
+		totalDistance: number; // in meters
+		totalWalkingTime: number; // in minutes
+		profile: RoutingProfileId;
+	}
+
+	/**
+	 * Constraints for ordering the stops of a story route
+	 */
+	interface StoryRouteOptions {
+		startFeatureId?: string; // fixed first stop (e.g. the hotel), any stop if unset
+		endFeatureId?: string; // fixed last stop (e.g. the station), any stop if unset
+		departureTime?: number; // Unix ms at the first stop, enables opening hours for that day
+		dwellMinutes?: number; // default time spent at each stop
+		featureDwellMinutes?: Record<string, number>; // per-feature overrides of dwellMinutes
+	}
+
+	// Why a stop can't be visited while it's open
+	type InfeasibleStopReason =
+		| 'closed' // not open at all on the day(s) of the route
+		| 'too_late'; // closes before it's reached or before the visit is over
+
+	/**
+	 * One stop of a story route schedule, in visiting order
+	 */
+	interface RouteTimelineEntry {
+		poiIndex: number; // index into the story's features with a location
+		featureId: string;
+		name: string;
+		distance: number; // in meters, from the previous stop
+		travelMinutes: number; // from the previous stop
+		arrivalMinutes: number; // since leaving the first stop
+		waitMinutes: number; // until the stop opens
+		dwellMinutes: number;
+		departureMinutes: number;
+		arrivalTime?: number; // Unix ms, with a departure time
+		departureTime?: number; // Unix ms, with a departure time
+		infeasible?: InfeasibleStopReason;
 	}
 
 	/**
@@ -625,11 +1080,15 @@ declare global {
 		geoJson: GeoJSON.FeatureCollection;
 		totalDistance: number;
 		totalWalkingTime: number;
+		profile?: RoutingProfileId;
 		routeInfo: {
 			segmentCount: number;
 			roadTypesUsed: string[];
 			fallbackSegments: number;
 			visitOrder: number[];
+			timeline?: RouteTimelineEntry[]; // schedule with dwell and waiting times
+			totalMinutes?: number; // travel, waiting and dwell time of the whole route
+			infeasibleStops?: number[]; // poiIndex of stops that can't be visited while open
 		};
 	}
 
@@ -777,6 +1236,7 @@ declare global {
 		localData: any;
 		remoteData: any;
 		conflictType: 'both_modified' | 'local_deleted' | 'remote_deleted';
+		fields?: string[]; // Fields changed on both sides that couldn't be merged
 		timestamp: number;
 	}
 
@@ -785,15 +1245,55 @@ declare global {
 		lastSyncTimestamp: number;
 		deviceId: string;
 		syncVersion: number;
+		serverCursors?: Record<string, number>; // Newest server updatedAt seen per collection
 	}
 
+	/**
+	 * Sync activity since sign-in, shown in the storage settings
+	 */
 	interface SyncStats {
 		featuresUploaded: number;
 		featuresDownloaded: number;
 		listsUploaded: number;
 		listsDownloaded: number;
 		conflictsResolved: number;
-		lastSyncDuration: number;
+		lastSyncDuration: number; // How long catching up with the server took, in ms
+		lastSyncTime: number; // When the last catch-up finished
+		incremental: boolean; // Whether it only downloaded changes since the stored cursor
+	}
+
+	/**
+	 * One Firestore write of an outbox operation
+	 * Data is plain JSON so it can be stored in IndexedDB; server timestamps and increments are
+	 * applied when the write runs
+	 */
+	interface OutboxWrite {
+		type: 'set' | 'update' | 'delete';
+		path: string; // Document path, e.g. "users/{userId}/features/{featureId}"
+		data?: Record<string, unknown>;
+		merge?: boolean; // For set
+		serverTimestamps?: string[]; // Fields set to the server time
+		increments?: Record<string, number>; // Fields incremented by the given amount
+	}
+
+	/**
+	 * Pending change in the outbox, replayed in order until Firestore has it
+	 * Replaying an operation twice has the same result as once: sets write whole documents, and
+	 * increments are applied at most once per operation ID
+	 */
+	interface OutboxOperation {
+		seq?: number; // Order of the operations, assigned by IndexedDB
+		id: string; // Idempotency key
+		userId: string;
+		source: 'features' | 'stories' | 'trips' | 'user' | 'settings';
+		label: string; // What the change is, for the debug view
+		writes: OutboxWrite[];
+		createdAt: number;
+		attempts: number;
+		nextAttemptAt: number; // Not retried before this time
+		status: 'pending' | 'failed'; // Failed operations are kept for review but not retried
+		lastError?: string;
+		timedOut?: boolean; // A replay stopped waiting for its writes, which Firestore may still send
 	}
 
 	// ==================== SVELTEKIT APP INTERFACES ====================
@@ -8,6 +8,7 @@ import {
 	persistentLocalCache,
 	persistentMultipleTabManager
 } from 'firebase/firestore';
+import { getStorage, connectStorageEmulator, type FirebaseStorage } from 'firebase/storage';
 import { browser } from '$app/environment';
 
 // Firebase configuration
@@ -25,6 +26,7 @@ const firebaseConfig = {
 let app: any;
 let auth: Auth;
 let db: Firestore;
+let storage: FirebaseStorage;
 
 try {
 	// Check if Firebase app is already initialized
@@ -69,6 +71,9 @@ try {
 		}
 	}
 
+	// Initialize Cloud Storage, for files too large for Firestore such as photos
+	storage = getStorage(app);
+
 	console.log('✅ Firebase services ready');
 } catch (error) {
 	console.error('❌ Failed to initialize Firebase:', error);
@@ -99,6 +104,10 @@ if (
 		connectAuthEmulator(auth, 'http://localhost:9099', { disableWarnings: true });
 		console.log('🔐 Connected to Auth emulator on localhost:9099');
 
+		// Connect to Storage emulator
+		connectStorageEmulator(storage, 'localhost', 9199);
+		console.log('📦 Connected to Storage emulator on localhost:9199');
+
 		emulatorsConnected = true;
 	} catch (error: any) {
 		// Emulators might already be connected, which is fine
@@ -110,5 +119,5 @@ if (
 }
 
 // Export the instances
-export { auth, db };
+export { auth, db, storage };
 export default app;
@@ -0,0 +1,154 @@
+import type { R2Bucket, R2Object } from '@cloudflare/workers-types';
+import { readMBTilesMetadata } from '$lib/server/mbtiles-metadata';
+
+// Metadata reads run in small batches to stay under the Workers concurrent request limit
+const METADATA_CONCURRENCY = 6;
+
+// Entries are keyed by object ETag, so a cached entry never goes stale - a re-upload changes the key
+const CACHE_KEY_ORIGIN = 'https://mbtiles-manifest.internal';
+const ENTRY_CACHE_TTL = 60 * 60 * 24 * 30;
+
+// Per-isolate memo in front of the Cache API
+const entryMemo = new Map<string, MBTilesManifestEntry>();
+
+function parseNumber(value: string | undefined): number | null {
+	if (value === undefined) return null;
+	const parsed = Number(value);
+	return Number.isFinite(parsed) ? parsed : null;
+}
+
+function parseBounds(value: string | undefined): [number, number, number, number] | null {
+	if (!value) return null;
+	const parts = value.split(',').map((part) => Number(part.trim()));
+	if (parts.length !== 4 || parts.some((part) => !Number.isFinite(part))) return null;
+	return parts as [number, number, number, number];
+}
+
+function parseLayers(json: string | undefined): string[] {
+	if (!json) return [];
+	try {
+		const parsed = JSON.parse(json);
+		return Array.isArray(parsed?.vector_layers)
+			? parsed.vector_layers.map((layer: { id: string }) => layer.id).filter(Boolean)
+			: [];
+	} catch {
+		return [];
+	}
+}
+
+function baseEntry(object: R2Object): MBTilesManifestEntry {
+	return {
+		key: object.key,
+		size: object.size,
+		lastModified: object.uploaded.toISOString(),
+		etag: object.etag,
+		hash: object.etag,
+		version: 0,
+		bounds: null,
+		minzoom: null,
+		maxzoom: null,
+		layers: []
+	};
+}
+
+/**
+ * Build a manifest entry from the object's MBTiles metadata table
+ */
+export async function buildManifestEntry(
+	bucket: R2Bucket,
+	object: R2Object
+): Promise<MBTilesManifestEntry> {
+	const metadata = await readMBTilesMetadata(bucket, object.key);
+
+	return {
+		...baseEntry(object),
+		name: metadata.name,
+		format: metadata.format,
+		version: parseNumber(metadata.version) ?? 0,
+		bounds: parseBounds(metadata.bounds),
+		minzoom: parseNumber(metadata.minzoom),
+		maxzoom: parseNumber(metadata.maxzoom),
+		layers: parseLayers(metadata.json)
+	};
+}
+
+function cacheKey(object: R2Object): string {
+	return `${CACHE_KEY_ORIGIN}/${encodeURIComponent(object.key)}?etag=${object.etag}`;
+}
+
+/**
+ * Get a manifest entry, reading the MBTiles metadata only when this object version
+ * hasn't been seen before. Failures are reported on the entry and not cached.
+ */
+export async function getManifestEntry(
+	bucket: R2Bucket,
+	object: R2Object,
+	cache?: Cache
+): Promise<MBTilesManifestEntry> {
+	const key = cacheKey(object);
+
+	const memoized = entryMemo.get(key);
+	if (memoized) return memoized;
+
+	if (cache) {
+		const cached = await cache.match(key);
+		if (cached) {
+			try {
+				const entry = (await cached.json()) as MBTilesManifestEntry;
+				entryMemo.set(key, entry);
+				return entry;
+			} catch (error) {
+				// A corrupt cache entry is rebuilt below
+				console.warn(`Ignoring unreadable cached metadata for ${object.key}:`, error);
+			}
+		}
+	}
+
+	let entry: MBTilesManifestEntry;
+	try {
+		entry = await buildManifestEntry(bucket, object);
+	} catch (error) {
+		console.error(`Failed to read metadata for ${object.key}:`, error);
+		return {
+			...baseEntry(object),
+			error: error instanceof Error ? error.message : 'Failed to read metadata'
+		};
+	}
+
+	entryMemo.set(key, entry);
+	if (cache) {
+		// Caching is best-effort; the entry was read either way
+		try {
+			await cache.put(
+				key,
+				new Response(JSON.stringify(entry), {
+					headers: {
+						'Content-Type': 'application/json',
+						'Cache-Control': `public, max-age=${ENTRY_CACHE_TTL}`
+					}
+				})
+			);
+		} catch (error) {
+			console.warn(`Failed to cache metadata for ${object.key}:`, error);
+		}
+	}
+	return entry;
+}
+
+/**
+ * Build manifest entries for a list of MBTiles objects
+ */
+export async function buildManifest(
+	bucket: R2Bucket,
+	objects: R2Object[],
+	cache?: Cache
+): Promise<MBTilesManifestEntry[]> {
+	const entries: MBTilesManifestEntry[] = [];
+
+	for (let i = 0; i < objects.length; i += METADATA_CONCURRENCY) {
+		const batch = objects.slice(i, i + METADATA_CONCURRENCY);
+		entries.push(...(await Promise.all(batch.map((obj) => getManifestEntry(bucket, obj, cache)))));
+	}
+
+	return entries;
+}
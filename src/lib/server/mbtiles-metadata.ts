@@ -0,0 +1,268 @@
+import type { R2Bucket } from '@cloudflare/workers-types';
+
+/**
+ * Read the `metadata` table of an MBTiles file stored in R2 without downloading it.
+ *
+ * MBTiles are SQLite databases, so this walks just enough of the SQLite file format
+ * (header, sqlite_master, one table b-tree and its overflow pages) using R2 range reads.
+ * A metadata table usually fits in one or two pages, so this costs a handful of requests
+ * regardless of the file size.
+ */
+
+const SQLITE_HEADER = 'SQLite format 3\u0000';
+const HEADER_SIZE = 100;
+
+const PAGE_INTERIOR_TABLE = 0x05;
+const PAGE_LEAF_TABLE = 0x0d;
+
+type SqlValue = string | number | Uint8Array | null;
+
+class RangePageReader {
+	private pages = new Map<number, Uint8Array>();
+
+	constructor(
+		private bucket: R2Bucket,
+		private key: string,
+		public pageSize: number,
+		public usableSize: number
+	) {}
+
+	async readPage(pageNumber: number): Promise<Uint8Array> {
+		const cached = this.pages.get(pageNumber);
+		if (cached) return cached;
+
+		const page = await readRange(
+			this.bucket,
+			this.key,
+			(pageNumber - 1) * this.pageSize,
+			this.pageSize
+		);
+		this.pages.set(pageNumber, page);
+		return page;
+	}
+}
+
+async function readRange(
+	bucket: R2Bucket,
+	key: string,
+	offset: number,
+	length: number
+): Promise<Uint8Array> {
+	const object = await bucket.get(key, { range: { offset, length } });
+	if (!object) {
+		throw new Error(`Object not found: ${key}`);
+	}
+	const data = new Uint8Array(await object.arrayBuffer());
+	if (data.length !== length) {
+		throw new Error(`Short read at ${offset} in ${key}`);
+	}
+	return data;
+}
+
+function readVarint(data: Uint8Array, offset: number): [value: number, length: number] {
+	let value = 0;
+	for (let i = 0; i < 8; i++) {
+		const byte = data[offset + i];
+		value = value * 128 + (byte & 0x7f);
+		if ((byte & 0x80) === 0) {
+			return [value, i + 1];
+		}
+	}
+	// The ninth byte contributes all 8 bits
+	return [value * 256 + data[offset + 8], 9];
+}
+
+function readUint32(data: Uint8Array, offset: number): number {
+	return new DataView(data.buffer, data.byteOffset).getUint32(offset);
+}
+
+// Assemble a cell payload, following overflow pages when it doesn't fit locally
+async function readPayload(
+	reader: RangePageReader,
+	page: Uint8Array,
+	offset: number,
+	payloadSize: number
+): Promise<Uint8Array> {
+	const usable = reader.usableSize;
+	const maxLocal = usable - 35;
+
+	if (payloadSize <= maxLocal) {
+		return page.subarray(offset, offset + payloadSize);
+	}
+
+	const minLocal = Math.floor(((usable - 12) * 32) / 255) - 23;
+	const k = minLocal + ((payloadSize - minLocal) % (usable - 4));
+	const localSize = k <= maxLocal ? k : minLocal;
+
+	const payload = new Uint8Array(payloadSize);
+	payload.set(page.subarray(offset, offset + localSize));
+
+	let written = localSize;
+	let overflowPage = readUint32(page, offset + localSize);
+	while (written < payloadSize && overflowPage !== 0) {
+		const overflow = await reader.readPage(overflowPage);
+		const take = Math.min(usable - 4, payloadSize - written);
+		payload.set(overflow.subarray(4, 4 + take), written);
+		written += take;
+		overflowPage = readUint32(overflow, 0);
+	}
+
+	return payload;
+}
+
+function decodeRecord(payload: Uint8Array): SqlValue[] {
+	const [headerSize, headerSizeLength] = readVarint(payload, 0);
+	const serialTypes: number[] = [];
+	let offset = headerSizeLength;
+	while (offset < headerSize) {
+		const [serialType, length] = readVarint(payload, offset);
+		serialTypes.push(serialType);
+		offset += length;
+	}
+
+	const view = new DataView(payload.buffer, payload.byteOffset, payload.byteLength);
+	const decoder = new TextDecoder();
+	const values: SqlValue[] = [];
+	let body = headerSize;
+
+	for (const serialType of serialTypes) {
+		switch (serialType) {
+			case 0:
+				values.push(null);
+				break;
+			case 1:
+				values.push(view.getInt8(body));
+				body += 1;
+				break;
+			case 2:
+				values.push(view.getInt16(body));
+				body += 2;
+				break;
+			case 3:
+				values.push((view.getInt8(body) << 16) | view.getUint16(body + 1));
+				body += 3;
+				break;
+			case 4:
+				values.push(view.getInt32(body));
+				body += 4;
+				break;
+			case 5:
+				values.push(view.getInt16(body) * 0x100000000 + view.getUint32(body + 2));
+				body += 6;
+				break;
+			case 6:
+				values.push(Number(view.getBigInt64(body)));
+				body += 8;
+				break;
+			case 7:
+				values.push(view.getFloat64(body));
+				body += 8;
+				break;
+			case 8:
+				values.push(0);
+				break;
+			case 9:
+				values.push(1);
+				break;
+			default:
+				if (serialType >= 12 && serialType % 2 === 0) {
+					const length = (serialType - 12) / 2;
+					values.push(payload.subarray(body, body + length));
+					body += length;
+				} else if (serialType >= 13) {
+					const length = (serialType - 13) / 2;
+					values.push(decoder.decode(payload.subarray(body, body + length)));
+					body += length;
+				} else {
+					throw new Error(`Unsupported serial type ${serialType}`);
+				}
+		}
+	}
+
+	return values;
+}
+
+// Visit every row of a rowid table b-tree in order
+async function readTableRows(reader: RangePageReader, rootPage: number): Promise<SqlValue[][]> {
+	const rows: SqlValue[][] = [];
+	const stack = [rootPage];
+
+	while (stack.length > 0) {
+		const pageNumber = stack.pop()!;
+		const page = await reader.readPage(pageNumber);
+		const headerOffset = pageNumber === 1 ? HEADER_SIZE : 0;
+		const pageType = page[headerOffset];
+		const view = new DataView(page.buffer, page.byteOffset);
+		const cellCount = view.getUint16(headerOffset + 3);
+
+		if (pageType === PAGE_INTERIOR_TABLE) {
+			const children: number[] = [];
+			for (let i = 0; i < cellCount; i++) {
+				const cellOffset = view.getUint16(headerOffset + 12 + i * 2);
+				children.push(view.getUint32(cellOffset));
+			}
+			children.push(view.getUint32(headerOffset + 8)); // Right-most pointer
+			// Push in reverse so children are visited left to right
+			for (let i = children.length - 1; i >= 0; i--) {
+				stack.push(children[i]);
+			}
+		} else if (pageType === PAGE_LEAF_TABLE) {
+			for (let i = 0; i < cellCount; i++) {
+				let cellOffset = view.getUint16(headerOffset + 8 + i * 2);
+				const [payloadSize, payloadSizeLength] = readVarint(page, cellOffset);
+				cellOffset += payloadSizeLength;
+				const [, rowidLength] = readVarint(page, cellOffset);
+				cellOffset += rowidLength;
+
+				const payload = await readPayload(reader, page, cellOffset, payloadSize);
+				rows.push(decodeRecord(payload));
+			}
+		} else {
+			throw new Error(`Unexpected b-tree page type ${pageType} on page ${pageNumber}`);
+		}
+	}
+
+	return rows;
+}
+
+/**
+ * Return the name/value pairs of the MBTiles metadata table
+ */
+export async function readMBTilesMetadata(
+	bucket: R2Bucket,
+	key: string
+): Promise<Record<string, string>> {
+	const header = await readRange(bucket, key, 0, HEADER_SIZE);
+
+	if (new TextDecoder().decode(header.subarray(0, 16)) !== SQLITE_HEADER) {
+		throw new Error(`${key} is not an SQLite database`);
+	}
+
+	const view = new DataView(header.buffer, header.byteOffset);
+	const rawPageSize = view.getUint16(16);
+	const pageSize = rawPageSize === 1 ? 65536 : rawPageSize;
+	const reservedBytes = header[20];
+	const textEncoding = view.getUint32(56);
+
+	if (textEncoding > 1) {
+		throw new Error(`Unsupported text encoding in ${key}`);
+	}
+
+	const reader = new RangePageReader(bucket, key, pageSize, pageSize - reservedBytes);
+
+	// sqlite_master: type, name, tbl_name, rootpage, sql
+	const schema = await readTableRows(reader, 1);
+	const metadataTable = schema.find((row) => row[0] === 'table' && row[1] === 'metadata');
+	if (!metadataTable || typeof metadataTable[3] !== 'number') {
+		throw new Error(`${key} has no metadata table`);
+	}
+
+	const metadata: Record<string, string> = {};
+	for (const [name, value] of await readTableRows(reader, metadataTable[3])) {
+		if (typeof name === 'string' && value !== null && !(value instanceof Uint8Array)) {
+			metadata[name] = String(value);
+		}
+	}
+
+	return metadata;
+}
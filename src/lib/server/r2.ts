@@ -0,0 +1,50 @@
+import type { R2Bucket, R2Object } from '@cloudflare/workers-types';
+
+// R2 returns at most 1000 objects per list call
+export const R2_MAX_LIST_LIMIT = 1000;
+
+export interface R2ListPage {
+	objects: R2Object[];
+	truncated: boolean;
+	cursor?: string;
+}
+
+/**
+ * List a single page of objects, continuing from `cursor` when given
+ */
+export async function listObjectsPage(
+	bucket: R2Bucket,
+	options: { prefix?: string; limit?: number; cursor?: string }
+): Promise<R2ListPage> {
+	const result = await bucket.list({
+		prefix: options.prefix,
+		limit: Math.min(options.limit ?? R2_MAX_LIST_LIMIT, R2_MAX_LIST_LIMIT),
+		cursor: options.cursor
+	});
+
+	return {
+		objects: result.objects,
+		truncated: result.truncated,
+		cursor: result.truncated ? result.cursor : undefined
+	};
+}
+
+/**
+ * Follow list cursors until every object under `prefix` has been returned
+ */
+export async function listAllObjects(bucket: R2Bucket, prefix = ''): Promise<R2Object[]> {
+	const objects: R2Object[] = [];
+	let cursor: string | undefined;
+
+	do {
+		const page = await listObjectsPage(bucket, { prefix, cursor });
+		objects.push(...page.objects);
+		cursor = page.cursor;
+	} while (cursor);
+
+	return objects;
+}
+
+export function isMBTilesKey(key: string): boolean {
+	return key.toLowerCase().endsWith('.mbtiles');
+}
@@ -1,17 +1,12 @@
 import {
 	doc,
 	getDoc,
-	setDoc,
-	updateDoc,
-	deleteDoc,
 	collection,
 	query,
 	where,
 	orderBy,
 	limit,
 	getDocs,
-	writeBatch,
-	increment,
 	serverTimestamp,
 	onSnapshot,
 	type Unsubscribe
@@ -19,6 +14,7 @@ import {
 import { db } from '$lib/firebase';
 import { authState } from '$lib/stores/auth.svelte';
 import { storiesDB } from '$lib/stores/StoriesDB.svelte';
+import { syncOutbox } from '$lib/stores/SyncOutbox.svelte';
 
 /**
  * Service for managing user profiles and social features
@@ -60,7 +56,12 @@ export class UserService {
 				lastSyncTimestamp: now
 			});
 
-			await updateDoc(profileRef, updateData);
+			await syncOutbox.enqueue({
+				userId: currentUser.uid,
+				source: 'user',
+				label: 'Update profile',
+				writes: [{ type: 'update', path: `userProfiles/${currentUser.uid}`, data: updateData }]
+			});
 
 			profile = {
 				...(existingProfile.data() as UserProfile),
@@ -92,9 +93,16 @@ export class UserService {
 			if (profileData.website) baseProfile.website = profileData.website;
 
 			profile = baseProfile;
-			await setDoc(profileRef, profile);
+			await syncOutbox.enqueue({
+				userId: currentUser.uid,
+				source: 'user',
+				label: 'Create profile',
+				writes: [{ type: 'set', path: `userProfiles/${currentUser.uid}`, data: { ...profile } }]
+			});
 		}
 
+		// Callers read the profile back, so wait for the write when online
+		await syncOutbox.flush();
 		return profile;
 	}
 
@@ -276,56 +284,51 @@ export class UserService {
 			firestoreId: followId
 		};
 
-		console.log('Creating follow document:', followId);
+		console.log('Queueing follow document:', followId);
 
-		try {
-			// Try simple document creation first
-			const followRef = doc(db, 'userFollows', followId);
-			await setDoc(followRef, this.filterUndefinedValues(followData));
-			console.log('Follow document created successfully');
-		} catch (error) {
-			console.error('Error creating follow document:', error);
-			throw error;
-		}
+		// The follow and the follower counts are separate operations, so a failed count update
+		// doesn't undo the follow
+		await syncOutbox.enqueue({
+			userId: currentUser.uid,
+			source: 'user',
+			label: `Follow ${followeeProfile.displayName}`,
+			writes: [
+				{
+					type: 'set',
+					path: `userFollows/${followId}`,
+					data: this.filterUndefinedValues(followData)
+				}
+			]
+		});
 
 		// Update follower counts (always updated since follows are always accepted)
-		console.log('Updating follower counts');
-		try {
-			// Update followee's follower count
-			const followeeRef = doc(db, 'userProfiles', followeeId);
-			await updateDoc(followeeRef, {
-				followerCount: increment(1),
-				dateModified: now
-			});
-			console.log('Updated followee follower count');
-
-			// Update current user's following count
-			const currentUserRef = doc(db, 'userProfiles', currentUser.uid);
-			await updateDoc(currentUserRef, {
-				followingCount: increment(1),
-				dateModified: now
-			});
-			console.log('Updated current user following count');
+		await syncOutbox.enqueue({
+			userId: currentUser.uid,
+			source: 'user',
+			label: `Update follower counts for ${followeeProfile.displayName}`,
+			writes: [
+				{
+					type: 'update',
+					path: `userProfiles/${followeeId}`,
+					data: { dateModified: now },
+					increments: { followerCount: 1 }
+				},
+				{
+					type: 'update',
+					path: `userProfiles/${currentUser.uid}`,
+					data: { dateModified: now },
+					increments: { followingCount: 1 }
+				}
+			]
+		});
+		await syncOutbox.flush();
 
-			// Create activity feed item (background operation - don't wait)
-			try {
-				this.createActivityItem('user_followed', {
-					targetUserId: followeeId
-				})
-					.then(() => {
-						console.log('Created activity feed item');
-					})
-					.catch((error) => {
-						console.error('Error creating activity:', error);
-					});
-			} catch (error) {
-				console.error('Error queueing activity creation:', error);
-				// Don't throw - follow was successful
-			}
-		} catch (error) {
-			console.error('Error updating follower counts:', error);
-			// Don't throw - the follow was created successfully
-		}
+		// Create activity feed item (background operation - don't wait)
+		this.createActivityItem('user_followed', {
+			targetUserId: followeeId
+		}).catch((error) => {
+			console.error('Error creating activity:', error);
+		});
 
 		return followData;
 	}
@@ -360,41 +363,40 @@ export class UserService {
 		const followData = followDoc.data() as UserFollow;
 		console.log('Follow status:', followData.status);
 
-		try {
-			// Delete follow relationship
-			await deleteDoc(followRef);
-			console.log('Follow relationship deleted successfully');
-		} catch (error) {
-			console.error('Error deleting follow document:', error);
-			throw error;
-		}
+		// Delete follow relationship
+		await syncOutbox.enqueue({
+			userId: currentUser.uid,
+			source: 'user',
+			label: `Unfollow ${followeeId}`,
+			writes: [{ type: 'delete', path: `userFollows/${followId}` }]
+		});
 
 		// Update counts if the follow was accepted
 		if (followData.status === 'accepted') {
-			console.log('Updating follower counts after unfollow');
-			try {
-				// Decrement followee's follower count
-				const followeeRef = doc(db, 'userProfiles', followeeId);
-				await updateDoc(followeeRef, {
-					followerCount: increment(-1),
-					dateModified: Date.now()
-				});
-				console.log('Updated followee follower count (-1)');
-
-				// Decrement current user's following count
-				const currentUserRef = doc(db, 'userProfiles', currentUser.uid);
-				await updateDoc(currentUserRef, {
-					followingCount: increment(-1),
-					dateModified: Date.now()
-				});
-				console.log('Updated current user following count (-1)');
-			} catch (error) {
-				console.error('Error updating follower counts:', error);
-				// Don't throw - the unfollow was successful
-			}
+			const now = Date.now();
+			await syncOutbox.enqueue({
+				userId: currentUser.uid,
+				source: 'user',
+				label: `Update follower counts for ${followeeId}`,
+				writes: [
+					{
+						type: 'update',
+						path: `userProfiles/${followeeId}`,
+						data: { dateModified: now },
+						increments: { followerCount: -1 }
+					},
+					{
+						type: 'update',
+						path: `userProfiles/${currentUser.uid}`,
+						data: { dateModified: now },
+						increments: { followingCount: -1 }
+					}
+				]
+			});
 		} else {
 			console.log('Follow was pending, no count updates needed');
 		}
+		await syncOutbox.flush();
 	}
 
 	/**
@@ -582,10 +584,11 @@ export class UserService {
 
 		// Save to Firestore in background (non-blocking)
 		try {
-			const activityRef = doc(db, 'activityFeed', activityId);
-			setDoc(activityRef, activityData).catch((error) => {
-				console.error('Background activity creation failed:', error);
-				// Activity creation failure doesn't affect main operations
+			await syncOutbox.enqueue({
+				userId: currentUser.uid,
+				source: 'user',
+				label: `Activity: ${type}`,
+				writes: [{ type: 'set', path: `activityFeed/${activityId}`, data: activityData }]
 			});
 			console.log('Activity creation queued in background');
 		} catch (error) {
@@ -639,6 +642,11 @@ export class UserService {
 			message: string;
 		}
 	): Promise<void> {
+		const currentUser = authState.user;
+		if (!currentUser) {
+			throw new Error('User must be authenticated');
+		}
+
 		const notificationId = `${userId}_${type}_${Date.now()}`;
 		let fromUserData: Partial<UserProfile> = {};
 
@@ -669,8 +677,18 @@ export class UserService {
 			firestoreId: notificationId
 		};
 
-		const notificationRef = doc(db, 'userNotifications', notificationId);
-		await setDoc(notificationRef, notificationData);
+		await syncOutbox.enqueue({
+			userId: currentUser.uid,
+			source: 'user',
+			label: `Notify ${userId}: ${type}`,
+			writes: [
+				{
+					type: 'set',
+					path: `userNotifications/${notificationId}`,
+					data: this.filterUndefinedValues(notificationData)
+				}
+			]
+		});
 	}
 
 	/**
@@ -701,10 +719,20 @@ export class UserService {
 	 * Mark notification as read
 	 */
 	async markNotificationAsRead(notificationId: string): Promise<void> {
-		const notificationRef = doc(db, 'userNotifications', notificationId);
-		await updateDoc(notificationRef, {
-			read: true,
-			dateModified: Date.now()
+		const currentUser = authState.user;
+		if (!currentUser) return;
+
+		await syncOutbox.enqueue({
+			userId: currentUser.uid,
+			source: 'user',
+			label: 'Mark notification as read',
+			writes: [
+				{
+					type: 'update',
+					path: `userNotifications/${notificationId}`,
+					data: { read: true, dateModified: Date.now() }
+				}
+			]
 		});
 	}
 
@@ -722,16 +750,20 @@ export class UserService {
 		);
 
 		const querySnapshot = await getDocs(q);
-		const batch = writeBatch(db);
+		if (querySnapshot.empty) return;
 
-		querySnapshot.docs.forEach((doc) => {
-			batch.update(doc.ref, {
-				read: true,
-				dateModified: Date.now()
-			});
+		// One operation, so the notifications are marked in a single batch
+		const now = Date.now();
+		await syncOutbox.enqueue({
+			userId: currentUser.uid,
+			source: 'user',
+			label: `Mark ${querySnapshot.size} notifications as read`,
+			writes: querySnapshot.docs.map((doc) => ({
+				type: 'update' as const,
+				path: doc.ref.path,
+				data: { read: true, dateModified: now }
+			}))
 		});
-
-		await batch.commit();
 	}
 
 	// ==================== HELPER METHODS ====================
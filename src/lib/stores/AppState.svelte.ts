@@ -1,7 +1,10 @@
 import { browser } from '$app/environment';
 import { authState } from '$lib/stores/auth.svelte';
 import { _CATEGORY } from '$lib/assets/class_subclass_category';
+import { db } from '$lib/firebase';
+import { syncOutbox } from '$lib/stores/SyncOutbox.svelte';
 import type { User } from 'firebase/auth';
+import { doc, onSnapshot, type DocumentSnapshot, type Unsubscribe } from 'firebase/firestore';
 import { ROUTE_SOURCE_LAYERS } from '$lib/constants';
 
 const DEFAULT_RELATION_SETTINGS: RelationSettings = {
@@ -53,12 +56,27 @@ const DEFAULT_CONFIG: AppConfig = {
 	colorMappings: DEFAULT_COLOR_MAPPINGS,
 	language: 'name', // Default to local names
 	filterSettings: DEFAULT_FILTER_SETTINGS,
-	relationSettings: DEFAULT_RELATION_SETTINGS
+	relationSettings: DEFAULT_RELATION_SETTINGS,
+	routingProfile: 'walking'
 };
 
+// Settings synced across devices, each taken from the device that changed it last
+const SYNCED_FIELDS: AppConfigField[] = [
+	'mapView',
+	'colorMappings',
+	'language',
+	'filterSettings',
+	'relationSettings',
+	'routingProfile'
+];
+
+// The map view is saved on every move, so uploads wait for changes to settle
+const SETTINGS_UPLOAD_DELAY = 3000;
+
 /**
  * App State management class using Svelte 5 runes
  * Handles persistent storage of application configuration
+ * Signed-in users' settings sync across devices through users/{userId}/settings/appConfig
  * Only initializes in browser environment
  */
 class AppState {
@@ -68,6 +86,7 @@ class AppState {
 	private _language = $state<LanguageCode>(DEFAULT_CONFIG.language);
 	private _filterSettings = $state<AppFilterSettings>(DEFAULT_CONFIG.filterSettings);
 	private _relationSettings = $state<RelationSettings>(DEFAULT_CONFIG.relationSettings);
+	private _routingProfile = $state<RoutingProfileId>(DEFAULT_CONFIG.routingProfile);
 
 	// Storage configuration - user-based local storage
 	private readonly DB_NAME = 'AppStateDB';
@@ -80,6 +99,14 @@ class AppState {
 	private initPromise: Promise<void> | null = null;
 	private currentUser: User | null = null;
 
+	// Cross-device sync
+	private fieldModified: Partial<Record<AppConfigField, number>> = {}; // When each field last changed
+	private _syncMapView = $state(true); // Per device, not synced itself
+	private remoteSettings: SyncedAppSettings | null = null;
+	private settingsUnsubscribe: Unsubscribe | null = null;
+	private pendingUploadFields = new Set<AppConfigField>();
+	private uploadTimer: ReturnType<typeof setTimeout> | null = null;
+
 	constructor() {
 		// Only initialize in browser environment
 		if (browser) {
@@ -108,6 +135,10 @@ class AppState {
 		// If user changed, reinitialize storage for new user
 		if (previousUser?.uid !== newUser?.uid) {
 			this.isLoading = true; // Set loading state
+
+			// Upload the previous user's last changes before switching
+			this.uploadPendingSettings();
+			this.stopSettingsSync();
 			this.currentUser = newUser;
 
 			// Reset promise to allow re-initialization for new user
@@ -121,6 +152,10 @@ class AppState {
 
 				console.log(`✅ AppState loaded for user: ${newUser?.uid || 'anonymous'}`);
 				console.log(`🗺️ Map view: [${this._mapView.center.join(', ')}] @ z${this._mapView.zoom}`);
+
+				if (newUser) {
+					this.startSettingsSync();
+				}
 			} finally {
 				this.isLoading = false; // Clear loading state
 			}
@@ -136,7 +171,8 @@ class AppState {
 			colorMappings: this._colorMappings,
 			language: this._language,
 			filterSettings: this._filterSettings,
-			relationSettings: this._relationSettings
+			relationSettings: this._relationSettings,
+			routingProfile: this._routingProfile
 		};
 	}
 
@@ -150,6 +186,11 @@ class AppState {
 		return this._language;
 	}
 
+	// Getter for routing profile setting
+	get routingProfile(): RoutingProfileId {
+		return this._routingProfile;
+	}
+
 	// Getter for filter settings
 	get filterSettings(): AppFilterSettings {
 		return this._filterSettings;
@@ -170,6 +211,10 @@ class AppState {
 		return this._relationSettings;
 	}
 
+	get syncMapView(): boolean {
+		return this._syncMapView;
+	}
+
 	// Getter for initialization status
 	get initialized(): boolean {
 		return this.isInitialized;
@@ -282,6 +327,8 @@ class AppState {
 
 			if (result && result.value) {
 				console.log('✅ Found saved config:', result.value);
+				this.fieldModified = result.fieldModified ?? {};
+				this._syncMapView = result.syncMapView ?? true;
 
 				// Load and merge saved config with defaults, updating separate states
 				this._mapView = {
@@ -289,38 +336,13 @@ class AppState {
 					...result.value.mapView
 				};
 
-				// Ensure colorMappings are always strings, not arrays
-				const loadedColorMappings = result.value.colorMappings || {};
-				const cleanColorMappings: ColorMappings = { ...DEFAULT_COLOR_MAPPINGS };
-
-				// Clean and validate each color mapping
-				for (const [key, value] of Object.entries(loadedColorMappings)) {
-					if (typeof value === 'string' && value.length > 0) {
-						// Valid string value
-						cleanColorMappings[key as keyof ColorMappings] = value;
-					} else if (Array.isArray(value) && value.length > 0) {
-						// If it's an array, take the last element (most recent)
-						console.warn(
-							`Color mapping for ${key} was corrupted as array:`,
-							value,
-							'using last value'
-						);
-						const lastValue = value[value.length - 1];
-						if (typeof lastValue === 'string' && lastValue.length > 0) {
-							cleanColorMappings[key as keyof ColorMappings] = lastValue;
-						}
-					} else {
-						console.warn(`Invalid color mapping for ${key}:`, value, 'using default');
-						// Keep default value
-					}
-				}
-
-				this._colorMappings = cleanColorMappings;
+				this._colorMappings = this.cleanColorMappings(result.value.colorMappings);
 				console.log(
 					'[snapshot] 🎨 Loaded and cleaned color mappings:',
 					$state.snapshot(this._colorMappings)
 				);
 				this._language = result.value.language || DEFAULT_CONFIG.language;
+				this._routingProfile = result.value.routingProfile || DEFAULT_CONFIG.routingProfile;
 
 				// Load relation settings
 				if (
@@ -340,17 +362,7 @@ class AppState {
 					console.log('📂 Loading existing filterSettings from storage');
 
 					// Load filterSettings in new format
-					this._filterSettings = {
-						map: {
-							categories: new Set(result.value.filterSettings.map?.categories || _CATEGORY)
-						},
-						heat: {
-							categories: new Set(result.value.filterSettings.heat?.categories || [])
-						},
-						stored: {
-							categories: new Set(result.value.filterSettings.stored?.categories || _CATEGORY)
-						}
-					};
+					this._filterSettings = this.toFilterSettings(result.value.filterSettings);
 				} else {
 					// Old config without filterSettings - initialize with defaults (all selected)
 					console.log(
@@ -378,6 +390,8 @@ class AppState {
 				});
 			} else {
 				console.log('⚠️ No saved config found, using defaults');
+				this.fieldModified = {};
+				this._syncMapView = true;
 				// Only set defaults if switching from completely uninitialized state
 				// (Check if mapView exactly matches the default values - indicates uninitialized)
 				const isDefaultState =
@@ -417,9 +431,10 @@ class AppState {
 
 	/**
 	 * Save configuration to local storage for current user
+	 * Fields listed as changed are stamped with the current time and uploaded for other devices
 	 * Only saves in browser environment
 	 */
-	private async saveConfig(): Promise<void> {
+	private async saveConfig(changedFields: AppConfigField[] = []): Promise<void> {
 		console.log(
 			'🔄 saveConfig() called - browser:',
 			browser,
@@ -429,6 +444,12 @@ class AppState {
 			this.isInitialized
 		);
 
+		if (browser && changedFields.length > 0) {
+			const now = Date.now();
+			changedFields.forEach((field) => (this.fieldModified[field] = now));
+			this.queueSettingsUpload(changedFields);
+		}
+
 		if (!browser || !this.db || !this.isInitialized) {
 			console.warn('❌ saveConfig() aborted - missing requirements');
 			return;
@@ -442,38 +463,7 @@ class AppState {
 			const store = transaction.objectStore(this.STORE_NAME);
 
 			// Create a plain object copy to avoid cloning issues with Svelte state
-			const plainConfig = {
-				mapView: {
-					center: [this._mapView.center[0], this._mapView.center[1]] as [number, number],
-					zoom: this._mapView.zoom,
-					bearing: this._mapView.bearing,
-					pitch: this._mapView.pitch
-				},
-				colorMappings: JSON.parse(JSON.stringify(this._colorMappings)),
-				language: this._language,
-				filterSettings: {
-					map: {
-						categories: Array.from(this._filterSettings.map.categories)
-					},
-					heat: {
-						categories: Array.from(this._filterSettings.heat.categories)
-					},
-					stored: {
-						categories: Array.from(this._filterSettings.stored.categories)
-					}
-				},
-				relationSettings: {
-					// Ensure route objects are plain and cloneable
-					childRoute: this._relationSettings.childRoute.map((route) => ({
-						id: String(route.id), // Ensure string
-						names: JSON.parse(JSON.stringify(route.names)), // Deep clone names object
-						class: route.class ? String(route.class) : undefined, // Ensure string or undefined
-						subclass: route.subclass ? String(route.subclass) : undefined,
-						category: route.category ? String(route.category) : undefined,
-						bbox: route.bbox ? ([...route.bbox] as [number, number, number, number]) : undefined // Copy bbox array if exists
-					}))
-				}
-			};
+			const plainConfig = this.toPlainConfig();
 
 			console.log('📝 Saving config data:', plainConfig);
 
@@ -482,6 +472,8 @@ class AppState {
 					key: storageKey,
 					userID: this.currentUser?.uid || 'anonymous',
 					value: plainConfig,
+					fieldModified: { ...this.fieldModified },
+					syncMapView: this._syncMapView,
 					timestamp: Date.now()
 				});
 
@@ -499,6 +491,250 @@ class AppState {
 		}
 	}
 
+	/**
+	 * Plain copy of the configuration for IndexedDB and Firestore
+	 */
+	private toPlainConfig(): AppConfigStored {
+		return {
+			mapView: {
+				center: [this._mapView.center[0], this._mapView.center[1]] as [number, number],
+				zoom: this._mapView.zoom,
+				bearing: this._mapView.bearing,
+				pitch: this._mapView.pitch
+			},
+			colorMappings: JSON.parse(JSON.stringify(this._colorMappings)),
+			language: this._language,
+			routingProfile: this._routingProfile,
+			filterSettings: {
+				map: {
+					categories: Array.from(this._filterSettings.map.categories)
+				},
+				heat: {
+					categories: Array.from(this._filterSettings.heat.categories)
+				},
+				stored: {
+					categories: Array.from(this._filterSettings.stored.categories)
+				}
+			},
+			relationSettings: {
+				// Ensure route objects are plain and cloneable
+				childRoute: this._relationSettings.childRoute.map((route) => ({
+					id: String(route.id), // Ensure string
+					names: JSON.parse(JSON.stringify(route.names)), // Deep clone names object
+					class: route.class ? String(route.class) : undefined, // Ensure string or undefined
+					subclass: route.subclass ? String(route.subclass) : undefined,
+					category: route.category ? String(route.category) : undefined,
+					bbox: route.bbox ? ([...route.bbox] as [number, number, number, number]) : undefined // Copy bbox array if exists
+				}))
+			}
+		};
+	}
+
+	/**
+	 * Clean color mappings loaded from storage, keeping defaults for missing or invalid values
+	 */
+	private cleanColorMappings(loadedColorMappings: any): ColorMappings {
+		const cleanColorMappings: ColorMappings = { ...DEFAULT_COLOR_MAPPINGS };
+
+		// Clean and validate each color mapping
+		for (const [key, value] of Object.entries(loadedColorMappings || {})) {
+			if (typeof value === 'string' && value.length > 0) {
+				// Valid string value
+				cleanColorMappings[key as keyof ColorMappings] = value;
+			} else if (Array.isArray(value) && value.length > 0) {
+				// If it's an array, take the last element (most recent)
+				console.warn(`Color mapping for ${key} was corrupted as array:`, value, 'using last value');
+				const lastValue = value[value.length - 1];
+				if (typeof lastValue === 'string' && lastValue.length > 0) {
+					cleanColorMappings[key as keyof ColorMappings] = lastValue;
+				}
+			} else {
+				console.warn(`Invalid color mapping for ${key}:`, value, 'using default');
+				// Keep default value
+			}
+		}
+
+		return cleanColorMappings;
+	}
+
+	/**
+	 * Convert stored filter settings (arrays) to Sets
+	 */
+	private toFilterSettings(
+		filterSettings: Partial<Record<keyof AppFilterSettings, { categories: Iterable<string> }>>
+	): AppFilterSettings {
+		return {
+			map: {
+				categories: new Set(filterSettings.map?.categories || _CATEGORY)
+			},
+			heat: {
+				categories: new Set(filterSettings.heat?.categories || [])
+			},
+			stored: {
+				categories: new Set(filterSettings.stored?.categories || _CATEGORY)
+			}
+		};
+	}
+
+	// ==================== CROSS-DEVICE SYNC ====================
+
+	/**
+	 * Listen to the user's settings in Firestore
+	 */
+	private startSettingsSync(): void {
+		if (!this.currentUser) return;
+
+		this.stopSettingsSync(); // Clean up any existing subscription
+
+		const settingsRef = doc(db, 'users', this.currentUser.uid, 'settings', 'appConfig');
+		this.settingsUnsubscribe = onSnapshot(
+			settingsRef,
+			(snapshot) => this.handleSettingsSnapshot(snapshot),
+			(error) => {
+				console.error('Firestore settings sync error:', error);
+			}
+		);
+		console.log('Started Firestore sync for settings');
+	}
+
+	private stopSettingsSync(): void {
+		if (this.settingsUnsubscribe) {
+			this.settingsUnsubscribe();
+			this.settingsUnsubscribe = null;
+			console.log('Stopped Firestore sync for settings');
+		}
+		this.remoteSettings = null;
+	}
+
+	private handleSettingsSnapshot(snapshot: DocumentSnapshot): void {
+		// A missing document in the offline cache may still exist on the server
+		if (!snapshot.exists() && snapshot.metadata.fromCache) return;
+
+		this.remoteSettings = snapshot.exists()
+			? (snapshot.data() as SyncedAppSettings)
+			: { fieldModified: {} };
+		this.reconcileSettings();
+	}
+
+	/**
+	 * Take the fields changed last on another device and upload the ones changed last here
+	 */
+	private reconcileSettings(): void {
+		const remote = this.remoteSettings;
+		if (!remote) return;
+
+		const applied: AppConfigField[] = [];
+		const newer: AppConfigField[] = [];
+		const plainConfig = this.toPlainConfig();
+
+		for (const field of SYNCED_FIELDS) {
+			if (field === 'mapView' && !this._syncMapView) continue;
+
+			const localTime = this.fieldModified[field] ?? 0;
+			const remoteTime = remote.fieldModified?.[field] ?? 0;
+			// Settings from before sync on both devices: the uploaded ones win, so they agree
+			const preSyncConflict =
+				localTime === 0 &&
+				remoteTime === 0 &&
+				JSON.stringify(plainConfig[field]) !== JSON.stringify(remote[field]);
+
+			if ((remoteTime > localTime || preSyncConflict) && remote[field] !== undefined) {
+				this.applyRemoteField(field, remote[field]);
+				this.fieldModified[field] = remoteTime;
+				applied.push(field);
+			} else if (localTime > remoteTime || remote[field] === undefined) {
+				// Includes settings from before sync, uploaded once as they are
+				newer.push(field);
+			}
+		}
+
+		if (applied.length > 0) {
+			console.log('☁️ Applied settings from another device:', applied);
+			this.saveConfig();
+		}
+		if (newer.length > 0) {
+			this.queueSettingsUpload(newer);
+		}
+	}
+
+	private applyRemoteField(field: AppConfigField, value: any): void {
+		switch (field) {
+			case 'mapView':
+				this._mapView = { ...DEFAULT_CONFIG.mapView, ...value };
+				break;
+			case 'colorMappings':
+				this._colorMappings = this.cleanColorMappings(value);
+				break;
+			case 'language':
+				this._language = value || DEFAULT_CONFIG.language;
+				break;
+			case 'routingProfile':
+				this._routingProfile = value || DEFAULT_CONFIG.routingProfile;
+				break;
+			case 'filterSettings':
+				this._filterSettings = this.toFilterSettings(value);
+				break;
+			case 'relationSettings':
+				this._relationSettings = Array.isArray(value?.childRoute)
+					? { childRoute: value.childRoute }
+					: { ...DEFAULT_RELATION_SETTINGS };
+				break;
+		}
+	}
+
+	private queueSettingsUpload(fields: AppConfigField[]): void {
+		if (!this.currentUser) return;
+
+		fields
+			.filter((field) => field !== 'mapView' || this._syncMapView)
+			.forEach((field) => this.pendingUploadFields.add(field));
+		if (this.pendingUploadFields.size === 0) return;
+
+		if (this.uploadTimer) clearTimeout(this.uploadTimer);
+		this.uploadTimer = setTimeout(() => this.uploadPendingSettings(), SETTINGS_UPLOAD_DELAY);
+	}
+
+	/**
+	 * Upload changed fields with their timestamps through the sync outbox
+	 */
+	private uploadPendingSettings(): void {
+		if (this.uploadTimer) {
+			clearTimeout(this.uploadTimer);
+			this.uploadTimer = null;
+		}
+
+		const fields = [...this.pendingUploadFields];
+		this.pendingUploadFields.clear();
+		if (!this.currentUser || fields.length === 0) return;
+
+		const userId = this.currentUser.uid;
+		const plainConfig = this.toPlainConfig();
+		const settings: SyncedAppSettings = { fieldModified: {} };
+		for (const field of fields) {
+			(settings as any)[field] = plainConfig[field];
+			// A field never changed here is uploaded as the oldest version, so any real change on
+			// another device wins over it
+			settings.fieldModified[field] = this.fieldModified[field] ?? 0;
+		}
+
+		syncOutbox
+			.enqueue({
+				userId,
+				source: 'settings',
+				label: `Save settings: ${fields.join(', ')}`,
+				writes: [
+					{
+						type: 'set',
+						path: `users/${userId}/settings/appConfig`,
+						data: JSON.parse(JSON.stringify(settings)), // Drop undefined values
+						merge: true,
+						serverTimestamps: ['serverTimestamp']
+					}
+				]
+			})
+			.catch((error) => console.error('Failed to queue settings for Firestore:', error));
+	}
+
 	/**
 	 * Update map view state
 	 */
@@ -508,7 +744,7 @@ class AppState {
 			...this._mapView,
 			...mapView
 		};
-		this.saveConfig(); // Auto-save changes
+		this.saveConfig(['mapView']); // Auto-save changes
 	}
 
 	/**
@@ -550,7 +786,7 @@ class AppState {
 				...filterSettings
 			}
 		};
-		this.saveConfig(); // Auto-save changes
+		this.saveConfig(['filterSettings']); // Auto-save changes
 	}
 
 	/**
@@ -567,7 +803,7 @@ class AppState {
 				...filterSettings
 			}
 		};
-		this.saveConfig(); // Auto-save changes
+		this.saveConfig(['filterSettings']); // Auto-save changes
 	}
 
 	/**
@@ -575,7 +811,15 @@ class AppState {
 	 */
 	updateLanguage(language: LanguageCode): void {
 		this._language = language;
-		this.saveConfig(); // Auto-save changes
+		this.saveConfig(['language']); // Auto-save changes
+	}
+
+	/**
+	 * Update routing profile used for directions and story routes
+	 */
+	updateRoutingProfile(profile: RoutingProfileId): void {
+		this._routingProfile = profile;
+		this.saveConfig(['routingProfile']); // Auto-save changes
 	}
 
 	/**
@@ -597,7 +841,20 @@ class AppState {
 		};
 
 		console.log(`✅ Color mapping updated. New mappings:`, $state.snapshot(this._colorMappings));
-		this.saveConfig(); // Auto-save changes
+		this.saveConfig(['colorMappings']); // Auto-save changes
+	}
+
+	/**
+	 * Turn syncing of the map position with other devices on or off for this device
+	 */
+	updateSyncMapView(enabled: boolean): void {
+		this._syncMapView = enabled;
+		this.saveConfig();
+
+		// Catch up with the position saved while syncing was off, on either side
+		if (enabled) {
+			this.reconcileSettings();
+		}
 	}
 
 	/**
@@ -605,7 +862,7 @@ class AppState {
 	 */
 	resetColorMappings(): void {
 		this._colorMappings = { ...DEFAULT_COLOR_MAPPINGS };
-		this.saveConfig();
+		this.saveConfig(['colorMappings']);
 	}
 
 	/**
@@ -616,7 +873,7 @@ class AppState {
 			...this._relationSettings,
 			...relationSettings
 		};
-		this.saveConfig(); // Auto-save changes
+		this.saveConfig(['relationSettings']); // Auto-save changes
 	}
 
 	/**
@@ -727,7 +984,7 @@ class AppState {
 				`  ${index + 1}. ${route.id}: ${route.names.name || 'unnamed'}${classification ? ` (${classification})` : ''}`
 			);
 		});
-		this.saveConfig();
+		this.saveConfig(['relationSettings']);
 	}
 
 	/**
@@ -1184,7 +1441,7 @@ class AppState {
 				childRoute: newRoutes
 			};
 			console.log(`Route ${routeId} removed from relation settings`);
-			this.saveConfig();
+			this.saveConfig(['relationSettings']);
 		}
 	}
 
@@ -1213,7 +1470,8 @@ class AppState {
 		this._language = DEFAULT_CONFIG.language;
 		this._filterSettings = { ...DEFAULT_FILTER_SETTINGS };
 		this._relationSettings = { ...DEFAULT_RELATION_SETTINGS };
-		await this.saveConfig();
+		this._routingProfile = DEFAULT_CONFIG.routingProfile;
+		await this.saveConfig(SYNCED_FIELDS);
 	}
 
 	/**
@@ -1237,20 +1495,11 @@ class AppState {
 			...config.colorMappings
 		};
 		this._language = config.language || DEFAULT_CONFIG.language;
+		this._routingProfile = config.routingProfile || DEFAULT_CONFIG.routingProfile;
 
 		// Handle filter settings import with Set conversion
 		if (config.filterSettings) {
-			this._filterSettings = {
-				map: {
-					categories: new Set(config.filterSettings.map?.categories || _CATEGORY)
-				},
-				heat: {
-					categories: new Set(config.filterSettings.heat?.categories || [])
-				},
-				stored: {
-					categories: new Set(config.filterSettings.stored?.categories || _CATEGORY)
-				}
-			};
+			this._filterSettings = this.toFilterSettings(config.filterSettings);
 		} else {
 			this._filterSettings = { ...DEFAULT_FILTER_SETTINGS };
 		}
@@ -1264,7 +1513,7 @@ class AppState {
 			this._relationSettings = { ...DEFAULT_RELATION_SETTINGS };
 		}
 
-		await this.saveConfig();
+		await this.saveConfig(SYNCED_FIELDS);
 	}
 
 	/**
@@ -1272,6 +1521,8 @@ class AppState {
 	 */
 	destroy(): void {
 		// Effects clean up automatically in Svelte 5
+		this.uploadPendingSettings();
+		this.stopSettingsSync();
 	}
 
 	/**
@@ -0,0 +1,297 @@
+/**
+ * DirectionsStore.svelte.ts
+ *
+ * Walking, cycling or wheelchair directions between two waypoints: the current location, a
+ * tap on the map, a search result or a stored feature. The route is recalculated whenever a
+ * waypoint or the routing profile changes.
+ */
+
+import { browser } from '$app/environment';
+import type { MapGeoJSONFeature } from 'svelte-maplibre';
+import { mapControl } from '$lib/stores/MapControl.svelte';
+import { appState } from '$lib/stores/AppState.svelte';
+import { DirectionsRouter } from '$lib/utils/routing';
+import { getDisplayName } from '$lib/utils/language';
+import { getFeatureLngLat } from '$lib/utils/search-query';
+
+// Types
+export type DirectionsTarget = 'origin' | 'destination';
+
+interface DirectionsState {
+	origin: DirectionsWaypoint | null;
+	destination: DirectionsWaypoint | null;
+	isCalculating: boolean;
+	error: string | null;
+	pickingTarget: DirectionsTarget | null; // Waypoint set by the next map tap
+	locatingTarget: DirectionsTarget | null; // Waypoint waiting for the device location
+}
+
+class DirectionsStore {
+	drawerOpen = $state(false);
+
+	private _state = $state<DirectionsState>({
+		origin: null,
+		destination: null,
+		isCalculating: false,
+		error: null,
+		pickingTarget: null,
+		locatingTarget: null
+	});
+
+	// Routes hold large coordinate arrays, so they aren't made deeply reactive
+	private _result = $state.raw<DirectionsResult | null>(null);
+
+	private router = new DirectionsRouter();
+	private calculationId = 0;
+
+	// Getters for state (reactive)
+	get origin() {
+		return this._state.origin;
+	}
+	get destination() {
+		return this._state.destination;
+	}
+	get result() {
+		return this._result;
+	}
+	get instructions(): RouteInstruction[] {
+		return this._result?.instructions ?? [];
+	}
+	get isCalculating() {
+		return this._state.isCalculating;
+	}
+	get error() {
+		return this._state.error;
+	}
+	get pickingTarget() {
+		return this._state.pickingTarget;
+	}
+	get locatingTarget() {
+		return this._state.locatingTarget;
+	}
+	// The profile is a user setting shared with story routes
+	get profile(): RoutingProfileId {
+		return appState.routingProfile;
+	}
+	get hasWaypoints() {
+		return this._state.origin !== null || this._state.destination !== null;
+	}
+
+	/**
+	 * Route, maneuvers and waypoints for the map; just the waypoints until a route is found
+	 */
+	get geoJSON(): GeoJSON.FeatureCollection {
+		if (this._result) return this._result.geoJson;
+		return {
+			type: 'FeatureCollection',
+			features: this.router.createWaypointFeatures(this._state.origin, this._state.destination)
+		};
+	}
+
+	setWaypoint(target: DirectionsTarget, waypoint: DirectionsWaypoint | null) {
+		this._state[target] = waypoint;
+		this.calculate();
+	}
+
+	/**
+	 * Open directions to a feature, starting from the current location unless a start
+	 * point was already chosen
+	 */
+	async directionsTo(feature: StoredFeature | SearchResult | MapGeoJSONFeature) {
+		const waypoint = this.createWaypoint(feature);
+		if (!waypoint) return;
+
+		this.drawerOpen = true;
+		if (this._state.origin) {
+			this.setWaypoint('destination', waypoint);
+		} else {
+			this._state.destination = waypoint;
+			await this.useCurrentLocation('origin');
+		}
+	}
+
+	/**
+	 * Set a waypoint from the device's current position
+	 */
+	async useCurrentLocation(target: DirectionsTarget) {
+		if (!browser || !navigator.geolocation) {
+			this._state.error = 'Location is not available on this device';
+			return;
+		}
+
+		this._state.locatingTarget = target;
+		this._state.error = null;
+		try {
+			const position = await new Promise<GeolocationPosition>((resolve, reject) =>
+				navigator.geolocation.getCurrentPosition(resolve, reject, {
+					enableHighAccuracy: true,
+					timeout: 10000,
+					maximumAge: 60000
+				})
+			);
+			this.setWaypoint(target, {
+				source: 'location',
+				name: 'Your location',
+				coordinates: [position.coords.longitude, position.coords.latitude]
+			});
+		} catch (error) {
+			console.warn('Directions: Failed to get current location:', error);
+			this._state.error = 'Could not get your location';
+		} finally {
+			this._state.locatingTarget = null;
+		}
+	}
+
+	/**
+	 * Let the next map tap set a waypoint
+	 */
+	startPicking(target: DirectionsTarget) {
+		this._state.pickingTarget = target;
+	}
+
+	cancelPicking() {
+		this._state.pickingTarget = null;
+	}
+
+	/**
+	 * Handle a map tap; returns true when it was used to set a waypoint
+	 */
+	handleMapPick(lngLat: { lng: number; lat: number }): boolean {
+		const target = this._state.pickingTarget;
+		if (!target) return false;
+
+		this._state.pickingTarget = null;
+		this.setWaypoint(target, {
+			source: 'map',
+			name: `${lngLat.lat.toFixed(5)}, ${lngLat.lng.toFixed(5)}`,
+			coordinates: [lngLat.lng, lngLat.lat]
+		});
+		return true;
+	}
+
+	setProfile(profile: RoutingProfileId) {
+		appState.updateRoutingProfile(profile);
+		this.calculate();
+	}
+
+	swapWaypoints() {
+		const { origin, destination } = this._state;
+		this._state.origin = destination;
+		this._state.destination = origin;
+		this.calculate();
+	}
+
+	clear() {
+		this.calculationId++;
+		this._state.origin = null;
+		this._state.destination = null;
+		this._state.isCalculating = false;
+		this._state.error = null;
+		this._state.pickingTarget = null;
+		this._result = null;
+	}
+
+	/**
+	 * Zoom the map to where a step's maneuver happens
+	 */
+	showStep(index: number) {
+		const instruction = this.instructions[index];
+		if (!instruction) return;
+		mapControl.zoomToLocation(instruction.coordinates[0], instruction.coordinates[1], 18);
+	}
+
+	/**
+	 * Fit the map to the whole route
+	 */
+	showRoute() {
+		const path = this._result?.route.path;
+		if (!path || path.length === 0) return;
+
+		const lngs = path.map(([lng]) => lng);
+		const lats = path.map(([, lat]) => lat);
+		mapControl.fitToExtent([
+			Math.min(...lngs),
+			Math.min(...lats),
+			Math.max(...lngs),
+			Math.max(...lats)
+		]);
+	}
+
+	/**
+	 * Create a waypoint from a stored feature, a search result or a map feature
+	 */
+	createWaypoint(
+		feature: StoredFeature | SearchResult | MapGeoJSONFeature
+	): DirectionsWaypoint | null {
+		// SearchResult
+		if ('lng' in feature && 'lat' in feature) {
+			return {
+				source: 'search',
+				name: getDisplayName(feature.names) || 'Search result',
+				coordinates: [feature.lng, feature.lat],
+				featureId: feature.id
+			};
+		}
+
+		const location = getFeatureLngLat(feature.geometry);
+		if (!location) return null;
+
+		// StoredFeature keeps its names separately, map features in their properties
+		const names: FeatureNames =
+			'names' in feature
+				? feature.names
+				: Object.fromEntries(
+						Object.entries(feature.properties ?? {}).filter(
+							([key, value]) => key.startsWith('name') && typeof value === 'string'
+						)
+					);
+
+		return {
+			source: 'feature',
+			name: getDisplayName(names) || 'Selected place',
+			coordinates: [location.lng, location.lat],
+			featureId: feature.id !== undefined ? String(feature.id) : undefined
+		};
+	}
+
+	private async calculate() {
+		const id = ++this.calculationId;
+		const { origin, destination } = this._state;
+		this._result = null;
+		this._state.error = null;
+
+		if (!origin || !destination) {
+			this._state.isCalculating = false;
+			return;
+		}
+
+		this._state.isCalculating = true;
+		try {
+			const result = await this.router.getDirections(
+				$state.snapshot(origin),
+				$state.snapshot(destination),
+				this.profile
+			);
+			// A newer calculation was started meanwhile
+			if (id !== this.calculationId) return;
+
+			this._result = result;
+			if (result.success) {
+				this.showRoute();
+			} else {
+				this._state.error = result.error ?? 'No route found';
+			}
+		} catch (error) {
+			if (id !== this.calculationId) return;
+			console.error('Directions: Failed to calculate route:', error);
+			this._state.error = 'Could not calculate a route';
+		} finally {
+			if (id === this.calculationId) {
+				this._state.isCalculating = false;
+			}
+		}
+	}
+}
+
+// Create singleton instance
+export const directionsStore = new DirectionsStore();
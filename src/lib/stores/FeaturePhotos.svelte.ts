@@ -0,0 +1,291 @@
+import { browser } from '$app/environment';
+import { storage } from '$lib/firebase';
+import { noteEncryption } from '$lib/stores/NoteEncryption.svelte';
+import type { User } from 'firebase/auth';
+import { deleteObject, getBytes, ref, uploadBytes } from 'firebase/storage';
+
+// Longest side of a stored photo; a menu stays readable, a phone photo shrinks about tenfold
+const MAX_PHOTO_SIZE = 1600;
+const PHOTO_QUALITY = 0.85;
+
+interface PendingPhotoTransfer {
+	photoId: string;
+	action: 'upload' | 'delete';
+	fileName?: string; // Local file to upload
+}
+
+/**
+ * Feature Photos using Svelte 5 runes
+ * Photos attached to feature notes. The files are kept in the origin private file system (OPFS)
+ * and uploaded to Cloud Storage under users/{userId}/featurePhotos; the note only holds their
+ * metadata. Files are stored the way they're uploaded, encrypted when notes are, and other
+ * devices download a photo the first time it's shown. The local file name changes with the IV,
+ * so a file cached before a photo was encrypted or decrypted on another device isn't misread
+ */
+class FeaturePhotos {
+	private currentUser: User | null = null;
+	private isOnline = $state(navigator?.onLine ?? true);
+	private pending = $state<PendingPhotoTransfer[]>([]);
+	private flushPromise: Promise<void> | null = null;
+	private objectUrls = new Map<string, string>();
+
+	constructor() {
+		if (browser) {
+			window.addEventListener('online', () => {
+				this.isOnline = true;
+				this.flush();
+			});
+
+			window.addEventListener('offline', () => {
+				this.isOnline = false;
+			});
+		}
+	}
+
+	/**
+	 * Handle user change - called from components when auth state changes
+	 */
+	async handleUserChange(newUser: User | null): Promise<void> {
+		if (!browser) return;
+
+		this.currentUser = newUser;
+		this.objectUrls.forEach((url) => URL.revokeObjectURL(url));
+		this.objectUrls.clear();
+		this.pending = newUser ? this.loadPending(newUser.uid) : [];
+
+		if (newUser) {
+			this.flush();
+		}
+	}
+
+	get pendingCount(): number {
+		return this.pending.length;
+	}
+
+	/**
+	 * Store a photo on this device and queue its upload
+	 */
+	async addPhoto(file: File): Promise<FeaturePhoto> {
+		if (!this.currentUser) throw new Error('Sign in to add photos');
+
+		const { blob, width, height } = await this.compressImage(file);
+		const { iv, data } = await noteEncryption.encryptPhoto(await blob.arrayBuffer());
+		const photo: FeaturePhoto = {
+			id: crypto.randomUUID(),
+			type: blob.type,
+			size: blob.size,
+			width,
+			height,
+			dateAdded: Date.now(),
+			...(iv ? { iv } : {})
+		};
+
+		await this.writeLocalFile(this.getFileName(photo), data);
+		this.queue({ photoId: photo.id, action: 'upload', fileName: this.getFileName(photo) });
+		return photo;
+	}
+
+	/**
+	 * Object URL of a photo, downloaded and kept on this device the first time it's shown
+	 */
+	async getPhotoUrl(photo: FeaturePhoto): Promise<string> {
+		const cached = this.objectUrls.get(photo.id);
+		if (cached) return cached;
+
+		const data = await noteEncryption.decryptPhoto(photo, await this.readPhotoFile(photo));
+		const url = URL.createObjectURL(new Blob([data], { type: photo.type }));
+		this.objectUrls.set(photo.id, url);
+		return url;
+	}
+
+	/**
+	 * Remove photos from this device and Cloud Storage
+	 */
+	async deletePhotos(photos: FeaturePhoto[]): Promise<void> {
+		await this.forgetPhotos(photos);
+		for (const photo of photos) {
+			this.queue({ photoId: photo.id, action: 'delete' });
+		}
+	}
+
+	/**
+	 * Remove photos from this device only, e.g. when another device deleted them
+	 */
+	async forgetPhotos(photos: FeaturePhoto[]): Promise<void> {
+		for (const photo of photos) {
+			const url = this.objectUrls.get(photo.id);
+			if (url) {
+				URL.revokeObjectURL(url);
+				this.objectUrls.delete(photo.id);
+			}
+			await this.deleteLocalFile(this.getFileName(photo));
+		}
+	}
+
+	/**
+	 * Photo encrypted or decrypted to match whether notes are encrypted now, e.g. after the
+	 * passphrase was set; the converted file replaces the stored one
+	 */
+	async convertPhoto(photo: FeaturePhoto): Promise<FeaturePhoto> {
+		if (!!photo.iv === noteEncryption.enabled) return photo;
+
+		const data = await noteEncryption.decryptPhoto(photo, await this.readPhotoFile(photo));
+		const { iv, data: stored } = await noteEncryption.encryptPhoto(data);
+		const { iv: _iv, ...rest } = photo;
+		const converted: FeaturePhoto = iv ? { ...rest, iv } : rest;
+
+		await this.writeLocalFile(this.getFileName(converted), stored);
+		await this.deleteLocalFile(this.getFileName(photo));
+		this.queue({ photoId: photo.id, action: 'upload', fileName: this.getFileName(converted) });
+		return converted;
+	}
+
+	/**
+	 * Upload and delete queued photos, in order; stops at the first failure and continues when
+	 * the connection is back
+	 */
+	flush(): Promise<void> {
+		this.flushPromise ??= this.transferPending().finally(() => {
+			this.flushPromise = null;
+		});
+		return this.flushPromise;
+	}
+
+	private async transferPending(): Promise<void> {
+		while (this.currentUser && this.isOnline && this.pending.length > 0) {
+			const userId = this.currentUser.uid;
+			const [transfer] = this.pending;
+
+			try {
+				const photoRef = ref(storage, this.storagePath(userId, transfer.photoId));
+				if (transfer.action === 'upload') {
+					const data = await this.readLocalFile(transfer.fileName ?? transfer.photoId);
+					// Deleted before it was uploaded
+					if (data) {
+						await uploadBytes(photoRef, data, { contentType: 'application/octet-stream' });
+					}
+				} else {
+					await deleteObject(photoRef).catch((error) => {
+						if (error?.code !== 'storage/object-not-found') throw error;
+					});
+				}
+			} catch (error) {
+				console.warn(`⏳ Photo ${transfer.action} failed, retrying later:`, error);
+				return;
+			}
+
+			if (this.currentUser?.uid !== userId) return;
+			this.pending = this.pending.slice(1);
+			this.savePending(userId);
+		}
+	}
+
+	private queue(transfer: PendingPhotoTransfer): void {
+		if (!this.currentUser) return;
+
+		// A newer transfer of the same photo replaces the queued one
+		this.pending = [
+			...this.pending.filter((queued) => queued.photoId !== transfer.photoId),
+			transfer
+		];
+		this.savePending(this.currentUser.uid);
+		this.flush();
+	}
+
+	private loadPending(userId: string): PendingPhotoTransfer[] {
+		try {
+			return JSON.parse(localStorage.getItem(`featurePhotoQueue:${userId}`) ?? '[]');
+		} catch {
+			return [];
+		}
+	}
+
+	private savePending(userId: string): void {
+		localStorage.setItem(`featurePhotoQueue:${userId}`, JSON.stringify(this.pending));
+	}
+
+	private storagePath(userId: string, photoId: string): string {
+		return `users/${userId}/featurePhotos/${photoId}`;
+	}
+
+	private getFileName(photo: FeaturePhoto): string {
+		return photo.iv ? `${photo.id}.${photo.iv.replace(/[^a-zA-Z0-9]/g, '')}` : photo.id;
+	}
+
+	/**
+	 * Stored file of a photo, from this device or else from Cloud Storage
+	 */
+	private async readPhotoFile(photo: FeaturePhoto): Promise<ArrayBuffer> {
+		const fileName = this.getFileName(photo);
+		const local = await this.readLocalFile(fileName);
+		if (local) return local;
+
+		if (!this.currentUser) throw new Error('Sign in to see photos');
+		const data = await getBytes(ref(storage, this.storagePath(this.currentUser.uid, photo.id)));
+		await this.writeLocalFile(fileName, data);
+		return data;
+	}
+
+	/**
+	 * Scale a photo down and store it as JPEG
+	 */
+	private async compressImage(file: File): Promise<{ blob: Blob; width: number; height: number }> {
+		const bitmap = await createImageBitmap(file);
+		const scale = Math.min(1, MAX_PHOTO_SIZE / Math.max(bitmap.width, bitmap.height));
+		const width = Math.round(bitmap.width * scale);
+		const height = Math.round(bitmap.height * scale);
+
+		const canvas = document.createElement('canvas');
+		canvas.width = width;
+		canvas.height = height;
+		canvas.getContext('2d')?.drawImage(bitmap, 0, 0, width, height);
+		bitmap.close();
+
+		const blob = await new Promise<Blob | null>((resolve) =>
+			canvas.toBlob(resolve, 'image/jpeg', PHOTO_QUALITY)
+		);
+		if (!blob) throw new Error('Could not read the photo');
+		return { blob, width, height };
+	}
+
+	// ==================== OPFS ====================
+
+	private async getPhotoDirectory(): Promise<FileSystemDirectoryHandle> {
+		if (!this.currentUser) throw new Error('Sign in to use photos');
+
+		const root = await navigator.storage.getDirectory();
+		const photos = await root.getDirectoryHandle('feature-photos', { create: true });
+		return photos.getDirectoryHandle(this.currentUser.uid, { create: true });
+	}
+
+	private async readLocalFile(fileName: string): Promise<ArrayBuffer | null> {
+		try {
+			const directory = await this.getPhotoDirectory();
+			const handle = await directory.getFileHandle(fileName);
+			return await (await handle.getFile()).arrayBuffer();
+		} catch (error: any) {
+			if (error?.name === 'NotFoundError') return null;
+			throw error;
+		}
+	}
+
+	private async writeLocalFile(fileName: string, data: ArrayBuffer): Promise<void> {
+		const directory = await this.getPhotoDirectory();
+		const handle = await directory.getFileHandle(fileName, { create: true });
+		const writable = await handle.createWritable();
+		await writable.write(data);
+		await writable.close();
+	}
+
+	private async deleteLocalFile(fileName: string): Promise<void> {
+		try {
+			const directory = await this.getPhotoDirectory();
+			await directory.removeEntry(fileName);
+		} catch (error: any) {
+			if (error?.name !== 'NotFoundError') throw error;
+		}
+	}
+}
+
+// Export singleton instance
+export const featurePhotos = new FeaturePhotos();
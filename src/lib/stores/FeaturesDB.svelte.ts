@@ -1,23 +1,47 @@
 import { browser } from '$app/environment';
 import { authState } from '$lib/stores/auth.svelte';
 import { db } from '$lib/firebase';
+import { syncOutbox } from '$lib/stores/SyncOutbox.svelte';
+import { noteEncryption } from '$lib/stores/NoteEncryption.svelte';
+import { featurePhotos } from '$lib/stores/FeaturePhotos.svelte';
 import type { User } from 'firebase/auth';
 import {
 	collection,
 	doc,
 	getDoc,
-	setDoc,
-	deleteDoc,
-	query,
-	where,
 	onSnapshot,
-	serverTimestamp,
-	orderBy,
 	limit as firestoreLimit,
 	type DocumentData,
 	type QuerySnapshot,
 	type Unsubscribe
 } from 'firebase/firestore';
+import {
+	getFeatureLngLat,
+	getPlaceFilters,
+	matchesPlaceFilters,
+	matchesStoredFilters
+} from '$lib/utils/search-query';
+import {
+	FEATURE_MERGE_SPEC,
+	LIST_MERGE_SPEC,
+	fieldTimestamp,
+	getChangedFields,
+	isSameVersion,
+	mergeVersions,
+	recordChanges,
+	stampResolvedFields,
+	type MergeSpec
+} from '$lib/utils/sync-merge';
+import {
+	advanceCursor,
+	changedSinceQuery,
+	isTombstone,
+	tombstoneWrite,
+	UPDATED_AT_FIELD,
+	withoutServerFields
+} from '$lib/utils/sync-cursor';
+import { isSealed } from '$lib/utils/note-crypto';
+import { isEmptyNote, noteToPlainText } from '$lib/utils/feature-notes';
 
 /**
  * Features Database management class using Svelte 5 runes
@@ -54,6 +78,11 @@ class FeaturesDB {
 	private isOnline = $state(navigator?.onLine ?? true);
 	private syncConflicts = $state<SyncConflict[]>([]);
 	private lastSyncTimestamp = $state<number>(0);
+	private serverCursors: Record<string, number> = {}; // Newest server updatedAt per collection
+	private syncStartedAt = 0;
+	private awaitingServerSnapshot = new Set<string>(); // Listeners the server hasn't answered yet
+	private uploadPromise: Promise<void> | null = null;
+	private _syncStats = $state<SyncStats>(this.emptySyncStats());
 
 	// Reactive state for features count and stats
 	private _stats = $state({
@@ -75,7 +104,8 @@ class FeaturesDB {
 				console.log('🌐 FeaturesDB: Connection restored - starting sync');
 				if (this.currentUser) {
 					this.startFirestoreSync();
-					// IMPORTANT: Force upload of local changes when coming back online
+					// The outbox replays queued changes; this catches changes that never reached it,
+					// e.g. ones made while signed out
 					await this.uploadPendingLocalChanges();
 				}
 			});
@@ -114,6 +144,8 @@ class FeaturesDB {
 			this._bookmarksVersion++;
 			this.syncConflicts = [];
 			this.lastSyncTimestamp = 0;
+			this.serverCursors = {};
+			this._syncStats = this.emptySyncStats();
 
 			await this.initializeDatabase();
 
@@ -123,6 +155,15 @@ class FeaturesDB {
 			if (newUser && this.isOnline) {
 				this.startFirestoreSync();
 			}
+
+			// Notes are held back until it's known whether they're encrypted, e.g. on a fresh sign-in
+			if (newUser && !noteEncryption.settingsKnown) {
+				noteEncryption.whenSettingsKnown().then(() => {
+					if (this.currentUser?.uid === newUser.uid) {
+						this.uploadPendingLocalChanges();
+					}
+				});
+			}
 		}
 	}
 
@@ -157,6 +198,10 @@ class FeaturesDB {
 		return this.lastSyncTimestamp;
 	}
 
+	get syncStats(): SyncStats {
+		return this._syncStats;
+	}
+
 	/**
 	 * Get current user ID or 'anonymous' if not logged in
 	 */
@@ -338,6 +383,7 @@ class FeaturesDB {
 		names: FeatureNames;
 		source: string;
 		sourceLayer?: string;
+		note?: FeatureNote | SealedContent;
 	}): string {
 		const searchParts: string[] = [];
 
@@ -359,6 +405,12 @@ class FeaturesDB {
 			searchParts.push(feature.sourceLayer.toLowerCase());
 		}
 
+		// Add the note text, once this device can read it
+		if (feature.note && !isSealed(feature.note)) {
+			const noteText = noteToPlainText(feature.note.text);
+			if (noteText) searchParts.push(noteText.toLowerCase());
+		}
+
 		return searchParts.join(' ');
 	}
 
@@ -396,6 +448,48 @@ class FeaturesDB {
 		return names;
 	}
 
+	/**
+	 * Get the stored version of a map feature, or an unsaved snapshot of it
+	 * Used to embed features elsewhere (e.g. trip stops) without bookmarking them; leave out the
+	 * note there, as it would be copied unencrypted
+	 */
+	async getFeatureSnapshot(mapFeature: any, includeNote = true): Promise<StoredFeature> {
+		const featureId = this.getFeatureId(mapFeature);
+		const existingFeature = await this.getFeatureById(featureId);
+		if (existingFeature && !includeNote && existingFeature.note) {
+			const { note: _note, ...feature } = existingFeature;
+			return { ...feature, searchText: this.generateSearchText(feature) };
+		}
+		if (existingFeature) return existingFeature;
+
+		const now = Date.now();
+		const snapshot: StoredFeature = {
+			userId: this.getCurrentUserId(),
+			id: featureId,
+			class: mapFeature.properties?.class,
+			subclass: mapFeature.properties?.subclass,
+			category: mapFeature.properties?.category,
+			names: this.extractNames(mapFeature.properties),
+			geometry: mapFeature.geometry,
+			source: mapFeature.source || 'unknown',
+			sourceLayer: mapFeature.sourceLayer,
+			layer: mapFeature.layer ? { id: mapFeature.layer.id } : undefined,
+			openingHours: mapFeature.properties?.opening_hours,
+			relation: this.extractRelationData(mapFeature),
+			bookmarked: false,
+			listIds: [],
+			visitedDates: [],
+			todo: false,
+			dateCreated: now,
+			dateModified: now,
+			searchText: ''
+		};
+		snapshot.searchText = this.generateSearchText(snapshot);
+
+		// Map features can hold non-cloneable values
+		return JSON.parse(JSON.stringify(snapshot));
+	}
+
 	/**
 	 * Store or update a feature for current user with Firestore sync
 	 */
@@ -443,9 +537,11 @@ class FeaturesDB {
 			source: mapFeature.source || 'unknown',
 			sourceLayer: mapFeature.sourceLayer,
 			layer: mapFeature.layer ? { id: mapFeature.layer.id } : undefined,
+			openingHours: mapFeature.properties?.opening_hours ?? existingFeature?.openingHours,
 
 			// Always store relation data if available from either source
 			relation: finalRelationData,
+			note: existingFeature?.note,
 
 			// Update user actions based on existing state
 			bookmarked: willBeBookmarked,
@@ -465,6 +561,7 @@ class FeaturesDB {
 
 		// Generate searchable text
 		storedFeature.searchText = this.generateSearchText(storedFeature);
+		recordChanges(existingFeature, storedFeature, FEATURE_MERGE_SPEC, now);
 
 		// Store in database with better error handling
 		const transaction = this.db.transaction([this.FEATURES_STORE_NAME], 'readwrite');
@@ -614,6 +711,29 @@ class FeaturesDB {
 		}
 	}
 
+	/**
+	 * Set the note of a bookmarked feature; an empty note removes it
+	 */
+	async updateNote(mapFeature: any, note: FeatureNote): Promise<StoredFeature> {
+		const featureId = this.getFeatureId(mapFeature);
+		const existingFeature = await this.getFeatureById(featureId);
+
+		// Only allow notes on bookmarked features
+		if (!existingFeature?.bookmarked) {
+			throw new Error('Cannot add a note to an unbookmarked feature');
+		}
+		if (noteEncryption.locked) {
+			throw new Error('Unlock notes to edit them');
+		}
+
+		if (isEmptyNote(note)) {
+			delete existingFeature.note;
+		} else {
+			existingFeature.note = note;
+		}
+		return await this.updateFeature(existingFeature);
+	}
+
 	/**
 	 * Update an existing feature for current user with Firestore sync
 	 */
@@ -627,6 +747,14 @@ class FeaturesDB {
 		feature.dateModified = Date.now();
 		feature.lastSyncTimestamp = Date.now(); // Track for sync
 
+		// Record which fields changed, for merging with edits from other devices
+		recordChanges(
+			await this.getFeatureById(feature.id),
+			feature,
+			FEATURE_MERGE_SPEC,
+			feature.dateModified
+		);
+
 		// Preserve relation data - never remove it once stored
 		// If feature doesn't have relation data but should, this doesn't add it
 		// Relation data is only added during initial storage from map features
@@ -699,6 +827,9 @@ class FeaturesDB {
 			todoOnly?: boolean;
 			categoryFilter?: string;
 			classFilter?: string;
+			// Filters of a structured search query; within: is measured from `center`
+			queryFilters?: SearchQueryFilter[];
+			center?: { lng: number; lat: number };
 		} = {}
 	): Promise<FeatureSearchResult[]> {
 		await this.ensureInitialized();
@@ -711,7 +842,9 @@ class FeaturesDB {
 			visitedOnly = false,
 			todoOnly = false,
 			categoryFilter,
-			classFilter
+			classFilter,
+			queryFilters = [],
+			center
 		} = options;
 
 		const transaction = this.db.transaction([this.FEATURES_STORE_NAME], 'readonly');
@@ -738,6 +871,20 @@ class FeaturesDB {
 		if (classFilter) {
 			features = features.filter((f) => f.class === classFilter);
 		}
+		if (queryFilters.length > 0) {
+			const lists = queryFilters.some((filter) => filter.key === 'list')
+				? await this.getAllBookmarkLists()
+				: [];
+			const placeFilters = getPlaceFilters(queryFilters);
+			features = features.filter((f) => {
+				if (!matchesStoredFilters(f, queryFilters, lists)) return false;
+				if (placeFilters.length === 0) return true;
+				const location = getFeatureLngLat(f.geometry);
+				return (
+					location !== null && matchesPlaceFilters({ ...f, ...location }, placeFilters, center)
+				);
+			});
+		}
 
 		// Apply text search and scoring
 		const queryLower = query.toLowerCase().trim();
@@ -1126,7 +1273,27 @@ class FeaturesDB {
 		await this.ensureInitialized();
 		if (!this.db) return;
 
+		const feature = await this.deleteFeatureLocally(id);
+
+		// The note's photos go with it
+		if (feature?.note && !isSealed(feature.note) && feature.note.photos.length > 0) {
+			featurePhotos.deletePhotos(feature.note.photos);
+		}
+
+		// Firestore handles sync automatically
+		if (this.currentUser) {
+			this.deleteFeatureFromFirestore(id);
+		}
+	}
+
+	/**
+	 * Remove a feature from this device only, returning what was stored
+	 */
+	private async deleteFeatureLocally(id: string): Promise<StoredFeature | null> {
+		if (!this.db) return null;
+
 		const userId = this.getCurrentUserId();
+		const feature = await this.getFeatureById(id);
 		const transaction = this.db.transaction([this.FEATURES_STORE_NAME], 'readwrite');
 		const store = transaction.objectStore(this.FEATURES_STORE_NAME);
 
@@ -1138,11 +1305,7 @@ class FeaturesDB {
 
 		await this.updateStats();
 		this.triggerBookmarkChange(); // Trigger reactivity
-
-		// Firestore handles sync automatically
-		if (this.currentUser) {
-			this.deleteFeatureFromFirestore(id);
-		}
+		return feature;
 	}
 
 	/**
@@ -1403,6 +1566,14 @@ class FeaturesDB {
 		list.dateModified = Date.now();
 		list.lastSyncTimestamp = Date.now(); // Track for sync
 
+		// Record which fields and features changed, for merging with edits from other devices
+		recordChanges(
+			await this.getBookmarkListById(list.id),
+			list,
+			LIST_MERGE_SPEC,
+			list.dateModified
+		);
+
 		// Mark for upload if offline
 		if (!this.isOnline || !this.currentUser) {
 			(list as any).pendingUpload = true;
@@ -1452,6 +1623,21 @@ class FeaturesDB {
 		}
 
 		// Then delete the list itself
+		await this.deleteBookmarkListLocally(listId);
+
+		// Firestore handles sync automatically
+		if (this.currentUser) {
+			this.deleteBookmarkListFromFirestore(listId);
+		}
+	}
+
+	/**
+	 * Remove a bookmark list from this device only
+	 */
+	private async deleteBookmarkListLocally(listId: string): Promise<void> {
+		if (!this.db) return;
+
+		const userId = this.getCurrentUserId();
 		const transaction = this.db.transaction([this.LISTS_STORE_NAME], 'readwrite');
 		const store = transaction.objectStore(this.LISTS_STORE_NAME);
 
@@ -1461,12 +1647,8 @@ class FeaturesDB {
 			request.onerror = () => reject(request.error);
 		});
 
-		// Firestore handles sync automatically
-		if (this.currentUser) {
-			this.deleteBookmarkListFromFirestore(listId);
-		}
-
 		await this.updateStats();
+		this.triggerBookmarkChange(); // Trigger reactivity
 	}
 
 	/**
@@ -1504,6 +1686,71 @@ class FeaturesDB {
 		return storedFeature;
 	}
 
+	/**
+	 * Add many map features to one bookmark list, e.g. the places of an imported file
+	 * Features are written in one transaction and the list is updated once
+	 */
+	async addFeaturesToList(mapFeatures: any[], listId: string): Promise<StoredFeature[]> {
+		await this.ensureInitialized();
+		if (!this.db) throw new Error('Database not initialized');
+
+		const list = await this.getBookmarkListById(listId);
+		if (!list) throw new Error(`Bookmark list ${listId} not found`);
+
+		const now = Date.now();
+		const featuresById = new Map<string, StoredFeature>();
+
+		for (const mapFeature of mapFeatures) {
+			const feature = await this.getFeatureSnapshot(mapFeature);
+			featuresById.set(
+				feature.id,
+				recordChanges(
+					feature,
+					{
+						...feature,
+						bookmarked: true,
+						listIds: Array.from(new Set([...feature.listIds, listId])),
+						dateModified: now,
+						lastSyncTimestamp: now // Track for sync
+					},
+					FEATURE_MERGE_SPEC,
+					now
+				)
+			);
+		}
+
+		const features = Array.from(featuresById.values());
+		const transaction = this.db.transaction([this.FEATURES_STORE_NAME], 'readwrite');
+		const store = transaction.objectStore(this.FEATURES_STORE_NAME);
+
+		await Promise.all(
+			features.map(
+				(feature) =>
+					new Promise<void>((resolve, reject) => {
+						// Mark for upload if offline
+						if (!this.isOnline || !this.currentUser) {
+							(feature as any).pendingUpload = true;
+						}
+						const request = store.put(JSON.parse(JSON.stringify(feature)));
+						request.onsuccess = () => resolve();
+						request.onerror = () => reject(request.error);
+					})
+			)
+		);
+
+		list.featureIds = Array.from(new Set([...list.featureIds, ...featuresById.keys()]));
+		await this.updateBookmarkList(list);
+		this.triggerBookmarkChange(); // Trigger reactivity
+
+		// Firestore handles sync automatically
+		if (this.currentUser) {
+			features.forEach((feature) => this.syncFeatureToFirestore(feature));
+		}
+
+		console.log(`✅ Added ${features.length} features to bookmark list "${list.name}"`);
+		return features;
+	}
+
 	/**
 	 * Remove feature from bookmark lists
 	 */
@@ -1604,31 +1851,40 @@ class FeaturesDB {
 
 	/**
 	 * Start Firestore real-time sync for current user
+	 * Listens only to documents changed since the stored server cursors; a device that hasn't
+	 * synced yet downloads everything once
 	 */
-	private startFirestoreSync(): void {
+	private async startFirestoreSync(): Promise<void> {
 		if (!this.currentUser || !this.isOnline) return;
 
+		const userId = this.currentUser.uid;
+		const metadata = await this.loadSyncMetadata();
+		if (this.currentUser?.uid !== userId || !this.isOnline) return;
+
 		this.stopFirestoreSync(); // Clean up any existing subscription
 
 		try {
-			const userId = this.currentUser.uid;
+			this.serverCursors = { ...metadata?.serverCursors };
+			const featuresCursor = this.serverCursors.features ?? 0;
+			const listsCursor = this.serverCursors.lists ?? 0;
+
+			this.syncStartedAt = Date.now();
+			this.awaitingServerSnapshot = new Set(['features', 'lists']);
+			this._syncStats.incremental = featuresCursor > 0 && listsCursor > 0;
 
 			// Listen to real-time changes in user's features collection
-			const featuresQuery = query(
+			const featuresQuery = changedSinceQuery(
 				collection(db, 'users', userId, 'features'),
-				orderBy('dateModified', 'desc')
+				featuresCursor
 			);
 
 			// Listen to real-time changes in user's lists collection
-			const listsQuery = query(
-				collection(db, 'users', userId, 'lists'),
-				orderBy('dateModified', 'desc')
-			);
+			const listsQuery = changedSinceQuery(collection(db, 'users', userId, 'lists'), listsCursor);
 
 			// Subscribe to features changes
 			const featuresUnsubscribe = onSnapshot(
 				featuresQuery,
-				(snapshot) => this.handleFirestoreSnapshot(snapshot, 'features'),
+				(snapshot) => this.handleFirestoreSnapshot(snapshot, 'features', featuresCursor > 0),
 				(error) => {
 					console.error('Firestore features sync error:', error);
 					this.isSyncing = false;
@@ -1638,7 +1894,7 @@ class FeaturesDB {
 			// Subscribe to lists changes
 			const listsUnsubscribe = onSnapshot(
 				listsQuery,
-				(snapshot) => this.handleFirestoreSnapshot(snapshot, 'lists'),
+				(snapshot) => this.handleFirestoreSnapshot(snapshot, 'lists', listsCursor > 0),
 				(error) => {
 					console.error('Firestore lists sync error:', error);
 					this.isSyncing = false;
@@ -1651,7 +1907,9 @@ class FeaturesDB {
 				listsUnsubscribe();
 			};
 
-			console.log('Started Firestore sync for both features and lists');
+			console.log(
+				`Started Firestore sync for features and lists (${this._syncStats.incremental ? 'changes since last sync' : 'full download'})`
+			);
 
 			// Initial sync
 			this.performInitialSync();
@@ -1673,10 +1931,13 @@ class FeaturesDB {
 
 	/**
 	 * Handle Firestore snapshot changes
+	 * Deletions arrive as tombstones; in an incremental query a document also leaves the results
+	 * while its own pending write has no server time yet, so only tombstones count there
 	 */
 	private async handleFirestoreSnapshot(
 		snapshot: QuerySnapshot<DocumentData>,
-		type: 'features' | 'lists' = 'features'
+		type: 'features' | 'lists' = 'features',
+		incremental = false
 	): Promise<void> {
 		if (!this.currentUser) return;
 
@@ -1687,27 +1948,43 @@ class FeaturesDB {
 				const firestoreData = change.doc.data();
 				const docId = change.doc.id;
 
-				switch (change.type) {
-					case 'added':
-					case 'modified':
-						if (type === 'features') {
-							await this.handleRemoteFeatureChange(firestoreData, docId);
-						} else {
-							await this.handleRemoteListChange(firestoreData, docId);
-						}
-						break;
-					case 'removed':
-						if (type === 'features') {
-							await this.handleRemoteFeatureDeletion(docId);
-						} else {
-							await this.handleRemoteListDeletion(docId);
-						}
-						break;
+				if (!snapshot.metadata.fromCache && !change.doc.metadata.hasPendingWrites) {
+					if (type === 'features') {
+						this._syncStats.featuresDownloaded++;
+					} else {
+						this._syncStats.listsDownloaded++;
+					}
+				}
+
+				if (change.type === 'removed' ? !incremental : isTombstone(firestoreData)) {
+					if (type === 'features') {
+						await this.handleRemoteFeatureDeletion(docId);
+					} else {
+						await this.handleRemoteListDeletion(docId);
+					}
+				} else if (change.type !== 'removed') {
+					if (type === 'features') {
+						await this.handleRemoteFeatureChange(
+							await this.fromFirestoreFeature(firestoreData),
+							docId
+						);
+					} else {
+						await this.handleRemoteListChange(this.fromFirestoreList(firestoreData), docId);
+					}
 				}
 			}
 
+			this.serverCursors[type] = advanceCursor(this.serverCursors[type] ?? 0, snapshot);
 			this.lastSyncTimestamp = Date.now();
 			await this.updateSyncMetadata();
+
+			// The first answer from the server on both listeners completes the catch-up
+			if (!snapshot.metadata.fromCache && this.awaitingServerSnapshot.delete(type)) {
+				if (this.awaitingServerSnapshot.size === 0) {
+					this._syncStats.lastSyncTime = Date.now();
+					this._syncStats.lastSyncDuration = this._syncStats.lastSyncTime - this.syncStartedAt;
+				}
+			}
 		} catch (error) {
 			console.error('Error handling Firestore snapshot:', error);
 		} finally {
@@ -1733,46 +2010,74 @@ class FeaturesDB {
 
 			await this.storeFeatureLocally(feature);
 		} else {
-			// Check for conflicts
-			const localTimestamp = localFeature.lastSyncTimestamp || 0;
-			const remoteTimestamp = remoteData.lastSyncTimestamp || 0;
-
-			if (localTimestamp > remoteTimestamp && localFeature.dateModified > remoteData.dateModified) {
-				// Local is newer, upload to Firestore
-				this.syncFeatureToFirestore(localFeature);
-			} else if (remoteTimestamp > localTimestamp) {
-				// Remote is newer, update local
-				const updatedFeature: StoredFeature = {
-					...remoteData,
-					firestoreId,
-					lastSyncTimestamp: Date.now()
-				};
+			// Merge field by field; fields changed on both sides without a last writer need review
+			const [local, remote] = this.alignNoteForms(localFeature, remoteData as StoredFeature);
+			const { merged, conflicts } = mergeVersions(local, remote, FEATURE_MERGE_SPEC);
 
-				await this.storeFeatureLocally(updatedFeature);
-			} else {
-				// Conflict detected
+			if (conflicts.length > 0) {
 				this.addSyncConflict({
 					id: remoteData.id,
 					type: 'feature',
 					localData: localFeature,
 					remoteData,
 					conflictType: 'both_modified',
+					fields: conflicts,
 					timestamp: Date.now()
 				});
+				return;
 			}
+
+			const mergedFeature: StoredFeature = {
+				...merged,
+				firestoreId,
+				lastSyncTimestamp: Date.now()
+			};
+			mergedFeature.searchText = this.generateSearchText(mergedFeature);
+
+			if (!isSameVersion(mergedFeature, localFeature, FEATURE_MERGE_SPEC)) {
+				await this.storeFeatureLocally(mergedFeature);
+			}
+			// Upload what the remote version was missing, e.g. visits made offline
+			if (!isSameVersion(mergedFeature, remote, FEATURE_MERGE_SPEC)) {
+				this.syncFeatureToFirestore(mergedFeature);
+			}
+		}
+	}
+
+	/**
+	 * A note uploaded again after the passphrase was set or removed is the same version in
+	 * another form, not a conflict; both sides get the form this device can read
+	 */
+	private alignNoteForms(
+		local: StoredFeature,
+		remote: StoredFeature
+	): [StoredFeature, StoredFeature] {
+		if (!local.note || !remote.note || isSealed(local.note) === isSealed(remote.note)) {
+			return [local, remote];
+		}
+		if (fieldTimestamp(local, 'note') !== fieldTimestamp(remote, 'note')) {
+			return [local, remote];
 		}
+		return isSealed(local.note)
+			? [{ ...local, note: remote.note }, remote]
+			: [local, { ...remote, note: local.note }];
 	}
 
 	/**
 	 * Handle remote feature deletion
 	 */
 	private async handleRemoteFeatureDeletion(firestoreId: string): Promise<void> {
-		// Find local feature by Firestore ID and delete it
-		const allFeatures = await this.exportFeatures();
-		const featureToDelete = allFeatures.find((f) => (f as any).firestoreId === firestoreId);
+		// Features are stored under their own ID in Firestore
+		const featureToDelete = await this.getFeatureById(firestoreId);
 
-		if (featureToDelete) {
-			await this.deleteFeature(featureToDelete.id);
+		if (!featureToDelete) return;
+
+		// The deletion is already synced, so nothing is uploaded; the device that deleted the
+		// feature also removed its photos from Cloud Storage
+		await this.deleteFeatureLocally(featureToDelete.id);
+		const note = featureToDelete.note;
+		if (note && !isSealed(note) && note.photos.length > 0) {
+			featurePhotos.forgetPhotos(note.photos);
 		}
 	}
 
@@ -1794,32 +2099,37 @@ class FeaturesDB {
 
 			await this.storeBookmarkListLocally(list);
 		} else {
-			// Check for conflicts
-			const localTimestamp = localList.lastSyncTimestamp || 0;
-			const remoteTimestamp = remoteData.lastSyncTimestamp || 0;
-
-			if (localTimestamp > remoteTimestamp && localList.dateModified > remoteData.dateModified) {
-				// Local is newer, upload to Firestore
-				this.syncBookmarkListToFirestore(localList);
-			} else if (remoteTimestamp > localTimestamp) {
-				// Remote is newer, update local
-				const updatedList: BookmarkList = {
-					...remoteData,
-					firestoreId,
-					lastSyncTimestamp: Date.now()
-				};
+			// Merge field by field; fields changed on both sides without a last writer need review
+			const { merged, conflicts } = mergeVersions(
+				localList,
+				remoteData as BookmarkList,
+				LIST_MERGE_SPEC
+			);
 
-				await this.storeBookmarkListLocally(updatedList);
-			} else {
-				// Conflict detected
+			if (conflicts.length > 0) {
 				this.addSyncConflict({
 					id: remoteData.id,
 					type: 'list',
 					localData: localList,
 					remoteData,
 					conflictType: 'both_modified',
+					fields: conflicts,
 					timestamp: Date.now()
 				});
+				return;
+			}
+
+			const mergedList: BookmarkList = {
+				...merged,
+				firestoreId,
+				lastSyncTimestamp: Date.now()
+			};
+
+			if (!isSameVersion(mergedList, localList, LIST_MERGE_SPEC)) {
+				await this.storeBookmarkListLocally(mergedList);
+			}
+			if (!isSameVersion(mergedList, remoteData, LIST_MERGE_SPEC)) {
+				this.syncBookmarkListToFirestore(mergedList);
 			}
 		}
 	}
@@ -1828,13 +2138,23 @@ class FeaturesDB {
 	 * Handle remote list deletion
 	 */
 	private async handleRemoteListDeletion(firestoreId: string): Promise<void> {
-		// Find local list by Firestore ID and delete it
-		const allLists = await this.getAllBookmarkLists();
-		const listToDelete = allLists.find((l) => (l as any).firestoreId === firestoreId);
+		// Lists are stored under their own ID in Firestore
+		const listToDelete = await this.getBookmarkListById(firestoreId);
 
-		if (listToDelete) {
-			await this.deleteBookmarkList(listToDelete.id);
+		if (!listToDelete) return;
+
+		// The device that deleted the list also uploaded its features without it, so they're
+		// only updated here
+		const features = await this.getFeaturesByListId(listToDelete.id);
+		for (const feature of features) {
+			feature.listIds = feature.listIds.filter((id) => id !== listToDelete.id);
+			feature.bookmarked = feature.listIds.length > 0;
+			if (!feature.bookmarked) {
+				feature.todo = false;
+			}
 		}
+		await this.storeAllLocally(this.FEATURES_STORE_NAME, features);
+		await this.deleteBookmarkListLocally(listToDelete.id);
 	}
 
 	/**
@@ -1857,6 +2177,30 @@ class FeaturesDB {
 		this.triggerBookmarkChange();
 	}
 
+	/**
+	 * Store many features or lists locally in one transaction, without triggering sync
+	 */
+	private async storeAllLocally(
+		storeName: string,
+		records: (StoredFeature | BookmarkList)[]
+	): Promise<void> {
+		if (!this.db || records.length === 0) return;
+
+		const transaction = this.db.transaction([storeName], 'readwrite');
+		const store = transaction.objectStore(storeName);
+
+		await new Promise<void>((resolve, reject) => {
+			transaction.oncomplete = () => resolve();
+			transaction.onerror = () => reject(transaction.error);
+			for (const record of records) {
+				store.put(JSON.parse(JSON.stringify(record)));
+			}
+		});
+
+		await this.updateStats();
+		this.triggerBookmarkChange();
+	}
+
 	/**
 	 * Store bookmark list locally without triggering sync
 	 */
@@ -1903,162 +2247,196 @@ class FeaturesDB {
 	}
 
 	/**
-	 * Determine if error should trigger a retry
+	 * Firestore can't store nested arrays, so the coordinates of lines and areas (e.g. imported
+	 * tracks) are stored as JSON
 	 */
-	private shouldRetry(error: any): boolean {
-		// Don't retry authentication/permission errors
-		if (error.code === 'permission-denied' || error.code === 'unauthenticated') {
-			return false;
-		}
+	private toFirestoreGeometry(geometry: any): any {
+		if (!geometry || !Array.isArray(geometry.coordinates?.[0])) return geometry;
+		return { type: geometry.type, coordinatesJson: JSON.stringify(geometry.coordinates) };
+	}
 
-		// Don't retry invalid data errors
-		if (error.code === 'invalid-argument') {
-			return false;
-		}
+	private fromFirestoreGeometry(geometry: any): any {
+		if (typeof geometry.coordinatesJson !== 'string') return geometry;
+		return { type: geometry.type, coordinates: JSON.parse(geometry.coordinatesJson) };
+	}
+
+	/**
+	 * Compact Firestore document of a feature
+	 * Leaves out what each device rebuilds on download: the search text, the map layer, and the
+	 * user and document IDs given by the document path. The note is sealed when notes are
+	 * encrypted; null when it can't be because this device is locked
+	 */
+	private async toFirestoreFeature(
+		feature: StoredFeature
+	): Promise<Record<string, unknown> | null> {
+		const {
+			searchText: _searchText,
+			layer: _layer,
+			userId: _userId,
+			firestoreId: _firestoreId,
+			lastSyncTimestamp: _lastSyncTimestamp,
+			pendingUpload: _pendingUpload,
+			note,
+			...data
+		} = feature as any;
+
+		const uploadedNote = note ? await noteEncryption.sealNote(note) : undefined;
+		if (uploadedNote === null) return null;
+
+		return this.cleanForFirestore({
+			...data,
+			note: uploadedNote,
+			geometry: this.toFirestoreGeometry(feature.geometry)
+		});
+	}
 
-		// Retry network-related errors
-		if (
-			error.code === 'unavailable' ||
-			error.code === 'deadline-exceeded' ||
-			error.code === 'internal'
-		) {
-			return true;
+	/**
+	 * Feature from its Firestore document, with the fields left out of the document restored
+	 * and the note opened if this device has the passphrase
+	 */
+	private async fromFirestoreFeature(data: DocumentData): Promise<StoredFeature> {
+		const feature = withoutServerFields(data) as StoredFeature;
+		if (feature.geometry) {
+			feature.geometry = this.fromFirestoreGeometry(feature.geometry);
+		}
+		if (feature.note) {
+			feature.note = await noteEncryption.openNote(feature.note);
 		}
+		feature.userId = this.getCurrentUserId();
+		feature.searchText = this.generateSearchText(feature);
+		return feature;
+	}
+
+	private toFirestoreList(list: BookmarkList): Record<string, unknown> {
+		const {
+			userId: _userId,
+			firestoreId: _firestoreId,
+			lastSyncTimestamp: _lastSyncTimestamp,
+			pendingUpload: _pendingUpload,
+			...data
+		} = list as any;
+		return this.cleanForFirestore(data);
+	}
 
-		// Default to not retrying unknown errors
-		return false;
+	private fromFirestoreList(data: DocumentData): BookmarkList {
+		const list = withoutServerFields(data) as BookmarkList;
+		list.userId = this.getCurrentUserId();
+		return list;
 	}
 
 	/**
-	 * Sync feature to Firestore with enhanced error handling
+	 * Outbox write replacing a feature's Firestore document, or null if it has to wait until
+	 * this device is unlocked
 	 */
-	private async syncFeatureToFirestore(feature: StoredFeature, retryCount = 0): Promise<void> {
-		if (!this.currentUser || !this.isOnline) {
-			console.warn(`Cannot sync feature ${feature.id}: user not authenticated or offline`);
-			// Mark feature for upload when back online
+	private async toFeatureWrite(
+		userId: string,
+		feature: StoredFeature
+	): Promise<OutboxWrite | null> {
+		const data = await this.toFirestoreFeature(feature);
+		if (!data) return null;
+
+		return {
+			type: 'set',
+			path: `users/${userId}/features/${feature.id}`,
+			data,
+			serverTimestamps: [UPDATED_AT_FIELD]
+		};
+	}
+
+	/**
+	 * Outbox write replacing a bookmark list's Firestore document
+	 */
+	private toListWrite(userId: string, list: BookmarkList): OutboxWrite {
+		return {
+			type: 'set',
+			path: `users/${userId}/lists/${list.id}`,
+			data: this.toFirestoreList(list),
+			serverTimestamps: [UPDATED_AT_FIELD]
+		};
+	}
+
+	/**
+	 * Sync feature to Firestore through the outbox, which replays it when online
+	 */
+	private async syncFeatureToFirestore(feature: StoredFeature): Promise<void> {
+		if (!this.currentUser) {
+			console.warn(`Cannot sync feature ${feature.id}: user not authenticated`);
+			// Mark feature for upload when signed in
 			(feature as any).pendingUpload = true;
 			return;
 		}
 
-		const MAX_RETRIES = 3;
-		const RETRY_DELAY = 1000; // 1 second
-
 		try {
 			const userId = this.currentUser.uid;
-			console.log(`📤 Syncing feature "${feature.id}" to Firestore (attempt ${retryCount + 1})`);
-
-			// Clean feature data for Firestore (remove undefined values)
-			const cleanFeature = this.cleanForFirestore({
-				...feature,
-				serverTimestamp: serverTimestamp(),
-				lastSyncTimestamp: Date.now()
-			});
+			const lastSyncTimestamp = Date.now();
+			const write = await this.toFeatureWrite(userId, feature);
+			if (!write) {
+				console.log(`🔒 Feature "${feature.id}" waits until its note can be encrypted`);
+				(feature as any).pendingUpload = true;
+				await this.storeFeatureLocally(feature);
+				return;
+			}
+			console.log(`📤 Queueing feature "${feature.id}" for Firestore`);
 
 			// Use feature ID as Firestore document ID
-			const docRef = doc(db, 'users', userId, 'features', feature.id);
-			await setDoc(docRef, cleanFeature, { merge: true });
-
-			// Update local feature with sync timestamp
-			feature.lastSyncTimestamp = Date.now();
-			await this.storeFeatureLocally(feature);
+			await syncOutbox.enqueue({
+				userId,
+				source: 'features',
+				label: `Save place "${feature.id}"`,
+				writes: [write]
+			});
 
-			console.log(`✅ Successfully synced feature "${feature.id}" to Firestore`);
-			// Clear pending upload flag on success
+			// The outbox owns the upload from here on
 			delete (feature as any).pendingUpload;
+			feature.lastSyncTimestamp = lastSyncTimestamp;
+			await this.storeFeatureLocally(feature);
+			this._syncStats.featuresUploaded++;
 		} catch (error: any) {
-			console.error(
-				`❌ Failed to sync feature "${feature.id}" to Firestore (attempt ${retryCount + 1}):`,
-				error
-			);
-
-			// Mark for retry even on error
+			console.error(`❌ Failed to queue feature "${feature.id}" for Firestore:`, error);
+			// Keep the pending upload flag for the next upload of local changes
 			(feature as any).pendingUpload = true;
-
-			// Retry logic for transient errors
-			if (retryCount < MAX_RETRIES && this.shouldRetry(error)) {
-				console.log(`⏳ Retrying sync in ${RETRY_DELAY}ms...`);
-				setTimeout(() => {
-					this.syncFeatureToFirestore(feature, retryCount + 1);
-				}, RETRY_DELAY);
-			} else {
-				// Log final failure but keep pendingUpload flag for later retry
-				console.error(
-					`💥 Failed to sync feature "${feature.id}" after ${MAX_RETRIES} attempts:`,
-					error.message
-				);
-				console.warn('Feature will be retried when connection is restored.');
-			}
 		}
 	}
 
 	/**
-	 * Sync bookmark list to Firestore with enhanced error handling
+	 * Sync bookmark list to Firestore through the outbox, which replays it when online
 	 */
-	private async syncBookmarkListToFirestore(list: BookmarkList, retryCount = 0): Promise<void> {
-		if (!this.currentUser || !this.isOnline) {
-			console.warn(`Cannot sync bookmark list ${list.name}: user not authenticated or offline`);
-			// Mark list for upload when back online
+	private async syncBookmarkListToFirestore(list: BookmarkList): Promise<void> {
+		if (!this.currentUser) {
+			console.warn(`Cannot sync bookmark list ${list.name}: user not authenticated`);
+			// Mark list for upload when signed in
 			(list as any).pendingUpload = true;
 			return;
 		}
 
-		const MAX_RETRIES = 3;
-		const RETRY_DELAY = 1000; // 1 second
-
 		try {
 			const userId = this.currentUser.uid;
-			console.log(
-				`📤 Syncing bookmark list "${list.name}" to Firestore (attempt ${retryCount + 1})`
-			);
-
-			// Clean list data for Firestore (remove undefined values)
-			const cleanList = this.cleanForFirestore({
-				...list,
-				serverTimestamp: serverTimestamp(),
-				lastSyncTimestamp: Date.now()
-			});
-
-			console.log('Clean list data for Firestore:', cleanList);
+			const lastSyncTimestamp = Date.now();
+			console.log(`📤 Queueing bookmark list "${list.name}" for Firestore`);
 
 			// Use list ID as Firestore document ID
-			const docRef = doc(db, 'users', userId, 'lists', list.id);
-			await setDoc(docRef, cleanList, { merge: true });
-
-			// Update local list with sync timestamp
-			list.lastSyncTimestamp = Date.now();
-			await this.storeBookmarkListLocally(list);
+			await syncOutbox.enqueue({
+				userId,
+				source: 'features',
+				label: `Save list "${list.name}"`,
+				writes: [this.toListWrite(userId, list)]
+			});
 
-			console.log(`✅ Successfully synced bookmark list "${list.name}" to Firestore`);
-			// Clear pending upload flag on success
+			// The outbox owns the upload from here on
 			delete (list as any).pendingUpload;
+			list.lastSyncTimestamp = lastSyncTimestamp;
+			await this.storeBookmarkListLocally(list);
+			this._syncStats.listsUploaded++;
 		} catch (error: any) {
-			console.error(
-				`❌ Failed to sync bookmark list "${list.name}" to Firestore (attempt ${retryCount + 1}):`,
-				error
-			);
-
-			// Mark for retry even on error
+			console.error(`❌ Failed to queue bookmark list "${list.name}" for Firestore:`, error);
+			// Keep the pending upload flag for the next upload of local changes
 			(list as any).pendingUpload = true;
-
-			// Retry logic for transient errors
-			if (retryCount < MAX_RETRIES && this.shouldRetry(error)) {
-				console.log(`⏳ Retrying sync in ${RETRY_DELAY}ms...`);
-				setTimeout(() => {
-					this.syncBookmarkListToFirestore(list, retryCount + 1);
-				}, RETRY_DELAY);
-			} else {
-				// Log final failure but keep pendingUpload flag for later retry
-				console.error(
-					`💥 Failed to sync bookmark list "${list.name}" after ${MAX_RETRIES} attempts:`,
-					error.message
-				);
-				console.warn('Bookmark list will be retried when connection is restored.');
-			}
 		}
 	}
 
 	/**
 	 * Perform initial sync when user connects
+	 * Remote changes arrive through the snapshot listeners
 	 */
 	private async performInitialSync(): Promise<void> {
 		if (!this.currentUser || !this.isOnline) return;
@@ -2069,9 +2447,6 @@ class FeaturesDB {
 			// Upload local changes to Firestore
 			await this.uploadLocalChanges();
 
-			// Download and apply remote changes
-			await this.downloadRemoteChanges();
-
 			this.lastSyncTimestamp = Date.now();
 			await this.updateSyncMetadata();
 		} catch (error) {
@@ -2083,177 +2458,159 @@ class FeaturesDB {
 
 	/**
 	 * Upload local changes to Firestore
+	 * Sign-in and reconnecting can both start an upload; they share it, so nothing is queued twice
 	 */
-	private async uploadLocalChanges(): Promise<void> {
-		if (!this.currentUser) return;
-
-		console.log('📤 Uploading local features changes to Firestore...');
-		const localFeatures = await this.exportFeatures();
-		const userId = this.currentUser.uid;
-		let uploadedCount = 0;
-
-		for (const feature of localFeatures) {
-			const lastSyncTimestamp = feature.lastSyncTimestamp || 0;
-
-			// Upload if never synced or modified since last sync
-			if (lastSyncTimestamp === 0 || feature.dateModified > lastSyncTimestamp) {
-				console.log(
-					`📤 Uploading feature: ${feature.id} (modified: ${new Date(feature.dateModified)}, lastSync: ${new Date(lastSyncTimestamp)})`
-				);
-				await this.syncFeatureToFirestore(feature);
-				uploadedCount++;
-			}
-		}
-
-		console.log(`📤 Uploaded ${uploadedCount}/${localFeatures.length} features to Firestore`);
-
-		// Upload local bookmark lists
-		const localLists = await this.getAllBookmarkLists();
-		let uploadedListsCount = 0;
-
-		for (const list of localLists) {
-			const lastSyncTimestamp = list.lastSyncTimestamp || 0;
-
-			// Upload if never synced or modified since last sync
-			if (lastSyncTimestamp === 0 || list.dateModified > lastSyncTimestamp) {
-				console.log(`📤 Uploading bookmark list: ${list.name}`);
-				await this.syncBookmarkListToFirestore(list);
-				uploadedListsCount++;
-			}
-		}
-
-		console.log(`📤 Uploaded ${uploadedListsCount} bookmark lists to Firestore`);
+	private uploadLocalChanges(): Promise<void> {
+		this.uploadPromise ??= this.queueLocalChanges().finally(() => {
+			this.uploadPromise = null;
+		});
+		return this.uploadPromise;
 	}
 
 	/**
-	 * Download remote changes from Firestore
+	 * Queue the features and lists changed since their last sync, in write batches
 	 */
-	private async downloadRemoteChanges(): Promise<void> {
+	private async queueLocalChanges(): Promise<void> {
 		if (!this.currentUser) return;
 
+		console.log('📤 Uploading local features changes to Firestore...');
 		const userId = this.currentUser.uid;
-		const lastSync = await this.getLastSyncTimestamp();
+		const localFeatures = await this.exportFeatures();
+		const localLists = await this.getAllBookmarkLists();
 
-		try {
-			// Query for features modified since last sync
-			const featuresQuery = query(
-				collection(db, 'users', userId, 'features'),
-				where('dateModified', '>', lastSync),
-				orderBy('dateModified', 'asc')
-			);
+		// Upload if never synced, modified since last sync or explicitly marked for upload
+		const needsUpload = (record: StoredFeature | BookmarkList) =>
+			!record.lastSyncTimestamp ||
+			record.dateModified > record.lastSyncTimestamp ||
+			!!(record as any).pendingUpload;
+		const lists = localLists.filter(needsUpload);
+
+		// Features with notes this device can't encrypt while locked stay marked for upload
+		const features: StoredFeature[] = [];
+		const featureWrites: OutboxWrite[] = [];
+		for (const feature of localFeatures.filter(needsUpload)) {
+			const write = await this.toFeatureWrite(userId, feature);
+			if (write) {
+				features.push(feature);
+				featureWrites.push(write);
+			}
+		}
 
-			// Query for lists modified since last sync
-			const listsQuery = query(
-				collection(db, 'users', userId, 'lists'),
-				where('dateModified', '>', lastSync),
-				orderBy('dateModified', 'asc')
-			);
+		if (features.length === 0 && lists.length === 0) {
+			console.log('📤 No local features changes to upload');
+			return;
+		}
 
-			console.log('Downloading remote changes since:', new Date(lastSync));
+		await syncOutbox.enqueueBatched({
+			userId,
+			source: 'features',
+			label: `Upload ${features.length} places and ${lists.length} lists`,
+			writes: [...featureWrites, ...lists.map((list) => this.toListWrite(userId, list))]
+		});
 
-			// The snapshot listeners will handle the actual downloads
-			// This method just sets up the queries for initial sync
-		} catch (error) {
-			console.error('Failed to set up download queries:', error);
+		// The outbox owns the upload from here on
+		const lastSyncTimestamp = Date.now();
+		for (const record of [...features, ...lists]) {
+			delete (record as any).pendingUpload;
+			record.lastSyncTimestamp = lastSyncTimestamp;
 		}
+		await this.storeAllLocally(this.FEATURES_STORE_NAME, features);
+		await this.storeAllLocally(this.LISTS_STORE_NAME, lists);
+
+		this._syncStats.featuresUploaded += features.length;
+		this._syncStats.listsUploaded += lists.length;
+		console.log(
+			`📤 Queued ${features.length}/${localFeatures.length} features and ${lists.length}/${localLists.length} bookmark lists for Firestore`
+		);
 	}
 
 	/**
-	 * Add sync conflict to queue
+	 * Add sync conflict to queue, replacing an older conflict of the same record
 	 */
 	private addSyncConflict(conflict: SyncConflict): void {
-		this.syncConflicts = [...this.syncConflicts, conflict];
+		this.syncConflicts = [
+			...this.syncConflicts.filter((c) => c.id !== conflict.id || c.type !== conflict.type),
+			conflict
+		];
 	}
 
 	/**
 	 * Resolve sync conflict
+	 * Keep mine and keep theirs take one version as a whole; merge applies the field-level merge
+	 * with the given choices for the fields that couldn't be merged
 	 */
 	async resolveSyncConflict(
 		conflictId: string,
-		resolution: 'local' | 'remote' | 'merge'
+		resolution: 'local' | 'remote' | 'merge',
+		choices: Record<string, 'local' | 'remote'> = {}
 	): Promise<void> {
 		const conflict = this.syncConflicts.find((c) => c.id === conflictId);
 		if (!conflict) return;
 
 		try {
-			switch (resolution) {
-				case 'local':
-					// Keep local version, upload to Firestore
-					if (conflict.type === 'feature') {
-						await this.syncFeatureToFirestore(conflict.localData);
-					} else if (conflict.type === 'list') {
-						await this.syncBookmarkListToFirestore(conflict.localData);
-					}
-					break;
-				case 'remote':
-					// Accept remote version, update local
-					if (conflict.type === 'feature') {
-						await this.storeFeatureLocally(conflict.remoteData);
-					} else if (conflict.type === 'list') {
-						await this.storeBookmarkListLocally(conflict.remoteData);
-					}
-					break;
-				case 'merge':
-					// Intelligent merge
-					if (conflict.type === 'feature') {
-						const merged = this.mergeFeatures(conflict.localData, conflict.remoteData);
-						await this.storeFeatureLocally(merged);
-						await this.syncFeatureToFirestore(merged);
-					} else if (conflict.type === 'list') {
-						const merged = this.mergeBookmarkLists(conflict.localData, conflict.remoteData);
-						await this.storeBookmarkListLocally(merged);
-						await this.syncBookmarkListToFirestore(merged);
-					}
-					break;
+			if (conflict.type === 'feature') {
+				const resolved = this.resolveVersions<StoredFeature>(
+					conflict,
+					resolution,
+					choices,
+					FEATURE_MERGE_SPEC
+				);
+				resolved.searchText = this.generateSearchText(resolved);
+				await this.storeFeatureLocally(resolved);
+				await this.syncFeatureToFirestore(resolved);
+			} else if (conflict.type === 'list') {
+				const resolved = this.resolveVersions<BookmarkList>(
+					conflict,
+					resolution,
+					choices,
+					LIST_MERGE_SPEC
+				);
+				await this.storeBookmarkListLocally(resolved);
+				await this.syncBookmarkListToFirestore(resolved);
 			}
 
 			// Remove resolved conflict
 			this.syncConflicts = this.syncConflicts.filter((c) => c.id !== conflictId);
+			this._syncStats.conflictsResolved++;
 		} catch (error) {
 			console.error('Failed to resolve sync conflict:', error);
 		}
 	}
 
 	/**
-	 * Intelligent merge of two feature versions
+	 * Version that resolves a conflict, with the decided fields marked as changed now so other
+	 * devices take it over
 	 */
-	private mergeFeatures(local: StoredFeature, remote: StoredFeature): StoredFeature {
-		return {
-			...local,
-			// Use most recent modification time
-			dateModified: Math.max(local.dateModified, remote.dateModified),
-			// Merge visit dates (combine and deduplicate)
-			visitedDates: Array.from(new Set([...local.visitedDates, ...remote.visitedDates])).sort(),
-			// Keep bookmark status if either is bookmarked
-			bookmarked: local.bookmarked || remote.bookmarked,
-			// Keep todo status if either is todo
-			todo: local.todo || remote.todo,
-			// Merge list IDs
-			listIds: Array.from(new Set([...local.listIds, ...remote.listIds])),
-			// Update sync timestamp
-			lastSyncTimestamp: Date.now()
-		};
-	}
+	private resolveVersions<T extends StoredFeature | BookmarkList>(
+		conflict: SyncConflict,
+		resolution: 'local' | 'remote' | 'merge',
+		choices: Record<string, 'local' | 'remote'>,
+		spec: MergeSpec
+	): T {
+		const local = conflict.localData as T;
+		const remote = conflict.remoteData as T;
+		const now = Date.now();
 
-	/**
-	 * Intelligent merge of two bookmark list versions
-	 */
-	private mergeBookmarkLists(local: BookmarkList, remote: BookmarkList): BookmarkList {
+		if (resolution === 'merge') {
+			const fields = conflict.fields ?? [];
+			const fieldChoices = Object.fromEntries(
+				fields.map((field) => [field, choices[field] ?? 'local'])
+			);
+			const { merged } = mergeVersions(local, remote, spec, fieldChoices);
+			return {
+				...stampResolvedFields(merged, remote, fields, spec, now),
+				firestoreId: local.firestoreId ?? remote.firestoreId,
+				lastSyncTimestamp: now
+			};
+		}
+
+		const [kept, other] = resolution === 'local' ? [local, remote] : [remote, local];
 		return {
-			...local,
-			// Use most recent modification time
-			dateModified: Math.max(local.dateModified, remote.dateModified),
-			// Merge feature IDs (combine and deduplicate)
-			featureIds: Array.from(new Set([...local.featureIds, ...remote.featureIds])),
-			// Keep most recent metadata (name, description, etc.)
-			name: local.dateModified > remote.dateModified ? local.name : remote.name,
-			description:
-				local.dateModified > remote.dateModified ? local.description : remote.description,
-			color: local.dateModified > remote.dateModified ? local.color : remote.color,
-			category: local.dateModified > remote.dateModified ? local.category : remote.category,
-			// Update sync timestamp
-			lastSyncTimestamp: Date.now()
-		};
+			...stampResolvedFields({ ...kept }, other, getChangedFields(kept, other, spec), spec, now),
+			dateModified: now,
+			firestoreId: local.firestoreId ?? remote.firestoreId,
+			lastSyncTimestamp: now
+		} as T;
 	}
 
 	/**
@@ -2267,7 +2624,8 @@ class FeaturesDB {
 			userId,
 			lastSyncTimestamp: this.lastSyncTimestamp,
 			deviceId: this.getDeviceId(),
-			syncVersion: 1
+			syncVersion: 2,
+			serverCursors: { ...this.serverCursors }
 		};
 
 		const transaction = this.db.transaction([this.SYNC_STORE_NAME], 'readwrite');
@@ -2281,10 +2639,10 @@ class FeaturesDB {
 	}
 
 	/**
-	 * Get last sync timestamp
+	 * Load the current user's sync metadata
 	 */
-	private async getLastSyncTimestamp(): Promise<number> {
-		if (!this.db || !this.currentUser) return 0;
+	private async loadSyncMetadata(): Promise<SyncMetadata | null> {
+		if (!this.db || !this.currentUser) return null;
 
 		const userId = this.currentUser.uid;
 		const transaction = this.db.transaction([this.SYNC_STORE_NAME], 'readonly');
@@ -2292,11 +2650,8 @@ class FeaturesDB {
 
 		return new Promise((resolve) => {
 			const request = store.get(userId);
-			request.onsuccess = () => {
-				const metadata = request.result as SyncMetadata;
-				resolve(metadata?.lastSyncTimestamp || 0);
-			};
-			request.onerror = () => resolve(0);
+			request.onsuccess = () => resolve((request.result as SyncMetadata) ?? null);
+			request.onerror = () => resolve(null);
 		});
 	}
 
@@ -2312,33 +2667,55 @@ class FeaturesDB {
 		return deviceId;
 	}
 
+	private emptySyncStats(): SyncStats {
+		return {
+			featuresUploaded: 0,
+			featuresDownloaded: 0,
+			listsUploaded: 0,
+			listsDownloaded: 0,
+			conflictsResolved: 0,
+			lastSyncDuration: 0,
+			lastSyncTime: 0,
+			incremental: false
+		};
+	}
+
 	/**
-	 * Delete feature from Firestore
+	 * Delete feature from Firestore through the outbox
+	 * The document is replaced with a tombstone, so devices syncing incrementally see the deletion
 	 */
 	private async deleteFeatureFromFirestore(featureId: string): Promise<void> {
 		if (!this.currentUser) return;
 
 		try {
 			const userId = this.currentUser.uid;
-			const docRef = doc(db, 'users', userId, 'features', featureId);
-			await deleteDoc(docRef);
+			await syncOutbox.enqueue({
+				userId,
+				source: 'features',
+				label: `Delete place "${featureId}"`,
+				writes: [tombstoneWrite(`users/${userId}/features/${featureId}`, featureId)]
+			});
 		} catch (error) {
-			console.error('Failed to delete feature from Firestore:', error);
+			console.error('Failed to queue feature deletion for Firestore:', error);
 		}
 	}
 
 	/**
-	 * Delete bookmark list from Firestore
+	 * Delete bookmark list from Firestore through the outbox
 	 */
 	private async deleteBookmarkListFromFirestore(listId: string): Promise<void> {
 		if (!this.currentUser) return;
 
 		try {
 			const userId = this.currentUser.uid;
-			const docRef = doc(db, 'users', userId, 'lists', listId);
-			await deleteDoc(docRef);
+			await syncOutbox.enqueue({
+				userId,
+				source: 'features',
+				label: `Delete list "${listId}"`,
+				writes: [tombstoneWrite(`users/${userId}/lists/${listId}`, listId)]
+			});
 		} catch (error) {
-			console.error('Failed to delete bookmark list from Firestore:', error);
+			console.error('Failed to queue bookmark list deletion for Firestore:', error);
 		}
 	}
 
@@ -2383,62 +2760,7 @@ class FeaturesDB {
 		this.isSyncing = true;
 
 		try {
-			// Get all local features and force upload any that have been modified
-			const localFeatures = await this.exportFeatures();
-			let uploadedCount = 0;
-
-			for (const feature of localFeatures) {
-				// Check if feature needs to be uploaded
-				const lastSyncTimestamp = feature.lastSyncTimestamp || 0;
-				const needsUpload =
-					lastSyncTimestamp === 0 ||
-					feature.dateModified > lastSyncTimestamp ||
-					(feature as any).pendingUpload;
-
-				if (needsUpload) {
-					console.log(`📤 Force uploading feature: ${feature.id}`);
-					try {
-						await this.syncFeatureToFirestore(feature);
-						uploadedCount++;
-						// Clear pending upload flag
-						delete (feature as any).pendingUpload;
-					} catch (error) {
-						console.error(`Failed to upload feature ${feature.id}:`, error);
-						// Mark for retry
-						(feature as any).pendingUpload = true;
-					}
-				}
-			}
-
-			console.log(`✅ Force uploaded ${uploadedCount}/${localFeatures.length} features`);
-
-			// Upload local bookmark lists
-			const localLists = await this.getAllBookmarkLists();
-			let uploadedListsCount = 0;
-
-			for (const list of localLists) {
-				const lastSyncTimestamp = list.lastSyncTimestamp || 0;
-				const needsUpload =
-					lastSyncTimestamp === 0 ||
-					list.dateModified > lastSyncTimestamp ||
-					(list as any).pendingUpload;
-
-				if (needsUpload) {
-					console.log(`📤 Force uploading bookmark list: ${list.name}`);
-					try {
-						await this.syncBookmarkListToFirestore(list);
-						uploadedListsCount++;
-						// Clear pending upload flag
-						delete (list as any).pendingUpload;
-					} catch (error) {
-						console.error(`Failed to upload bookmark list ${list.name}:`, error);
-						// Mark for retry
-						(list as any).pendingUpload = true;
-					}
-				}
-			}
-
-			console.log(`✅ Force uploaded ${uploadedListsCount} bookmark lists`);
+			await this.uploadLocalChanges();
 
 			this.lastSyncTimestamp = Date.now();
 			await this.updateSyncMetadata();
@@ -2450,6 +2772,90 @@ class FeaturesDB {
 		}
 	}
 
+	/**
+	 * Open the notes that arrived sealed once this device is unlocked, and upload the ones that
+	 * waited for it
+	 */
+	async openSealedNotes(): Promise<void> {
+		await this.ensureInitialized();
+
+		const opened: StoredFeature[] = [];
+		for (const feature of await this.exportFeatures()) {
+			if (!feature.note || !isSealed(feature.note)) continue;
+
+			const note = await noteEncryption.openNote(feature.note);
+			if (!isSealed(note)) {
+				feature.note = note;
+				feature.searchText = this.generateSearchText(feature);
+				opened.push(feature);
+			}
+		}
+		await this.storeAllLocally(this.FEATURES_STORE_NAME, opened);
+
+		if (this.currentUser && this.isOnline) {
+			await this.uploadPendingLocalChanges();
+		}
+	}
+
+	/**
+	 * Keep only sealed notes on this device, before it's locked
+	 */
+	async sealLocalNotes(): Promise<void> {
+		await this.ensureInitialized();
+
+		const sealed: StoredFeature[] = [];
+		for (const feature of await this.exportFeatures()) {
+			if (!feature.note || isSealed(feature.note)) continue;
+
+			const note = await noteEncryption.sealNote(feature.note);
+			if (note && isSealed(note)) {
+				feature.note = note;
+				feature.searchText = this.generateSearchText(feature);
+				sealed.push(feature);
+			}
+		}
+		await this.storeAllLocally(this.FEATURES_STORE_NAME, sealed);
+	}
+
+	/**
+	 * Upload every note again after the passphrase was set or removed, so notes and their photos
+	 * are encrypted or decrypted to match
+	 */
+	async reuploadNotes(): Promise<void> {
+		await this.ensureInitialized();
+
+		const now = Date.now();
+		const features: StoredFeature[] = [];
+		for (const feature of await this.exportFeatures()) {
+			if (!feature.note || isSealed(feature.note)) continue;
+
+			const previous = { ...feature };
+			const photos: FeaturePhoto[] = [];
+			for (const photo of feature.note.photos) {
+				try {
+					photos.push(await featurePhotos.convertPhoto(photo));
+				} catch (error) {
+					console.error(`Failed to convert photo ${photo.id}:`, error);
+					photos.push(photo);
+				}
+			}
+
+			// Converted photos have a new IV, which makes this a newer version of the note
+			feature.note = { ...feature.note, photos };
+			recordChanges(previous, feature, FEATURE_MERGE_SPEC, now);
+			if (feature.fieldModified?.note === now) {
+				feature.dateModified = now;
+			}
+			(feature as any).pendingUpload = true;
+			features.push(feature);
+		}
+		await this.storeAllLocally(this.FEATURES_STORE_NAME, features);
+
+		if (this.currentUser && this.isOnline) {
+			await this.uploadPendingLocalChanges();
+		}
+	}
+
 	/**
 	 * Get sync status
 	 */
@@ -21,6 +21,28 @@ class MapControl {
 	});
 	showStoryConnections = $state(false);
 
+	// Trip day state - route and stops of the trip day open in the trips drawer
+	tripDayGeoJSON = $state<GeoJSON.FeatureCollection>({
+		type: 'FeatureCollection',
+		features: []
+	});
+	showTripDay = $state(false);
+
+	// MBTiles coverage state - R2 file bounds from the manifest, shown before download
+	coverageGeoJSON = $state<GeoJSON.FeatureCollection>({
+		type: 'FeatureCollection',
+		features: []
+	});
+	showCoverage = $state(false);
+
+	// Region picker state - an area drawn on the map to choose offline files for
+	regionPickerActive = $state(false);
+	regionPickerGeoJSON = $state<GeoJSON.FeatureCollection>({
+		type: 'FeatureCollection',
+		features: []
+	});
+	pickedRegion = $state<PickedRegion | null>(null);
+
 	// Getters for reactive state
 	get storyInsertionMode(): boolean {
 		return this._storyInsertionMode;
@@ -68,6 +90,87 @@ class MapControl {
 		this.showStoryConnections = false;
 	}
 
+	// Trip day methods
+	setTripDay(geoJSON: GeoJSON.FeatureCollection, show: boolean = true) {
+		this.tripDayGeoJSON = geoJSON;
+		this.showTripDay = show;
+	}
+
+	clearTripDay() {
+		this.tripDayGeoJSON = {
+			type: 'FeatureCollection',
+			features: []
+		};
+		this.showTripDay = false;
+	}
+
+	// Coverage methods
+	setCoverage(geoJSON: GeoJSON.FeatureCollection, show: boolean = true) {
+		this.coverageGeoJSON = geoJSON;
+		this.showCoverage = show;
+	}
+
+	clearCoverage() {
+		this.coverageGeoJSON = {
+			type: 'FeatureCollection',
+			features: []
+		};
+		this.showCoverage = false;
+	}
+
+	// Region picker methods
+	startRegionPicker() {
+		this.pickedRegion = null;
+		this.regionPickerGeoJSON = { type: 'FeatureCollection', features: [] };
+		this.regionPickerActive = true;
+	}
+
+	cancelRegionPicker() {
+		this.regionPickerActive = false;
+		this.regionPickerGeoJSON = { type: 'FeatureCollection', features: [] };
+	}
+
+	setRegionPickerGeoJSON(geoJSON: GeoJSON.FeatureCollection) {
+		this.regionPickerGeoJSON = geoJSON;
+	}
+
+	completeRegionPicker(region: PickedRegion) {
+		this.regionPickerActive = false;
+		this.pickedRegion = region;
+	}
+
+	/**
+	 * Take the picked region, clearing it so it's only handled once
+	 */
+	consumePickedRegion(): PickedRegion | null {
+		const region = this.pickedRegion;
+		this.pickedRegion = null;
+		return region;
+	}
+
+	/**
+	 * Fit the map to a [west, south, east, north] extent
+	 */
+	fitToExtent(extent: [number, number, number, number]) {
+		if (!this.mapInstance) {
+			console.warn('Map instance not available');
+			return;
+		}
+
+		const [west, south, east, north] = extent;
+		this.mapInstance.fitBounds(
+			[
+				[west, south],
+				[east, north]
+			],
+			{
+				padding: 50,
+				duration: 1000,
+				essential: true
+			}
+		);
+	}
+
 	// Register map instance
 	setMapInstance(map: MapStore | undefined) {
 		// Clean up previous instance if exists
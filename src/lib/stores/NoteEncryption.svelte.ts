@@ -0,0 +1,397 @@
+import { browser } from '$app/environment';
+import { db } from '$lib/firebase';
+import { syncOutbox } from '$lib/stores/SyncOutbox.svelte';
+import type { User } from 'firebase/auth';
+import { doc, onSnapshot, type DocumentSnapshot, type Unsubscribe } from 'firebase/firestore';
+import {
+	NOTE_KEY_ITERATIONS,
+	checkVerifier,
+	createSalt,
+	createVerifier,
+	decryptBytes,
+	deriveNoteKeys,
+	encryptBytes,
+	isSealed,
+	openValue,
+	sealValue,
+	type NoteKeys
+} from '$lib/utils/note-crypto';
+
+/**
+ * Note Encryption using Svelte 5 runes
+ * Optional end-to-end encryption of feature notes and photos with a passphrase. The passphrase
+ * settings are synced in users/{userId}/settings/noteEncryption; the keys derived from the
+ * passphrase stay in this device's IndexedDB until the user locks it, and are never uploaded
+ */
+class NoteEncryption {
+	private readonly DB_NAME = 'NoteKeys';
+	private readonly DB_VERSION = 1;
+	private readonly STORE_NAME = 'keys';
+
+	private currentUser: User | null = null;
+	private keysDb: Promise<IDBDatabase> | null = null;
+	private settingsUnsubscribe: Unsubscribe | null = null;
+
+	private _settings = $state<NoteEncryptionSettings | null>(null);
+	private keys = $state.raw<NoteKeys | null>(null);
+
+	// Resolves once the settings are known and the stored keys loaded, so nothing is uploaded
+	// unencrypted or left sealed by mistake
+	private ready: Promise<void> = Promise.resolve();
+	private resolveSettingsReady: (() => void) | null = null;
+
+	// Whether the settings came from the server, this device's cache or a change made here; a
+	// missing document in Firestore's offline cache doesn't prove notes aren't encrypted
+	private _settingsKnown = false;
+	private settingsKnownPromise: Promise<void> = Promise.resolve();
+	private resolveSettingsKnown: (() => void) | null = null;
+
+	/**
+	 * Handle user change - called from components when auth state changes
+	 * Must run before FeaturesDB's, which waits for the settings before uploading notes
+	 */
+	async handleUserChange(newUser: User | null): Promise<void> {
+		if (!browser || newUser?.uid === this.currentUser?.uid) return;
+
+		this.stopSettingsSync();
+		this.currentUser = newUser;
+		this._settings = null;
+		this.keys = null;
+		this.resolveSettingsReady?.();
+		this.resolveSettingsReady = null;
+		this.ready = Promise.resolve();
+		this._settingsKnown = false;
+		this.settingsKnownPromise = new Promise<void>(
+			(resolve) => (this.resolveSettingsKnown = resolve)
+		);
+
+		if (!newUser) return;
+
+		this._settings = this.loadCachedSettings(newUser.uid);
+		if (this._settings) this.markSettingsKnown();
+		const settingsKnown = this._settings
+			? Promise.resolve()
+			: new Promise<void>((resolve) => (this.resolveSettingsReady = resolve));
+		const keysLoaded = this.loadStoredKeys(newUser.uid)
+			.then((keys) => {
+				if (this.currentUser?.uid === newUser.uid) this.keys = keys;
+			})
+			.catch((error) => console.error('Failed to load notes keys:', error));
+
+		this.ready = Promise.all([settingsKnown, keysLoaded]).then(() => {});
+		this.startSettingsSync();
+		await this.ready;
+	}
+
+	// Getters
+	get settings(): NoteEncryptionSettings | null {
+		return this._settings;
+	}
+
+	get enabled(): boolean {
+		return !!this._settings;
+	}
+
+	/**
+	 * Whether notes can be read and written on this device
+	 */
+	get unlocked(): boolean {
+		return !this._settings || this.keys?.keyId === this._settings.keyId;
+	}
+
+	get locked(): boolean {
+		return !this.unlocked;
+	}
+
+	/**
+	 * Whether it's known that notes are encrypted or not; until then notes aren't uploaded
+	 */
+	get settingsKnown(): boolean {
+		return this._settingsKnown;
+	}
+
+	/**
+	 * Wait until the settings and keys this device has are loaded
+	 */
+	whenReady(): Promise<void> {
+		return this.ready;
+	}
+
+	/**
+	 * Wait until it's known whether notes are encrypted, e.g. to upload the notes held back
+	 */
+	whenSettingsKnown(): Promise<void> {
+		return this.settingsKnownPromise;
+	}
+
+	/**
+	 * Set a passphrase and keep this device unlocked
+	 * Existing notes are encrypted when FeaturesDB uploads them again
+	 */
+	async enable(passphrase: string): Promise<void> {
+		if (!this.currentUser) throw new Error('Sign in to encrypt notes');
+		if (this._settings) throw new Error('Notes are already encrypted');
+		if (!this._settingsKnown) throw new Error('Go online to set a passphrase');
+
+		const userId = this.currentUser.uid;
+		const salt = createSalt();
+		const keys = await deriveNoteKeys(passphrase, salt, NOTE_KEY_ITERATIONS, crypto.randomUUID());
+		const settings: NoteEncryptionSettings = {
+			keyId: keys.keyId,
+			salt,
+			iterations: NOTE_KEY_ITERATIONS,
+			verifier: await createVerifier(keys),
+			dateCreated: Date.now()
+		};
+
+		await syncOutbox.enqueue({
+			userId,
+			source: 'settings',
+			label: 'Turn on notes encryption',
+			writes: [
+				{
+					type: 'set',
+					path: this.settingsPath(userId),
+					data: { ...settings },
+					serverTimestamps: ['serverTimestamp']
+				}
+			]
+		});
+
+		await this.storeKeys(userId, keys);
+		this.keys = keys;
+		this.applySettings(settings);
+	}
+
+	/**
+	 * Unlock this device with the passphrase; throws if it's the wrong one
+	 */
+	async unlock(passphrase: string): Promise<void> {
+		if (!this.currentUser || !this._settings) return;
+
+		const { salt, iterations, keyId, verifier } = this._settings;
+		const keys = await deriveNoteKeys(passphrase, salt, iterations, keyId);
+		if (!(await checkVerifier(keys, verifier))) {
+			throw new Error('Wrong passphrase');
+		}
+
+		await this.storeKeys(this.currentUser.uid, keys);
+		this.keys = keys;
+	}
+
+	/**
+	 * Forget the keys on this device, after FeaturesDB sealed the notes stored here
+	 */
+	async lock(): Promise<void> {
+		if (!this.currentUser) return;
+
+		await this.deleteKeys(this.currentUser.uid);
+		this.keys = null;
+	}
+
+	/**
+	 * Remove the passphrase; notes are uploaded unencrypted the next time they're synced
+	 * The keys stay in memory until then, to decrypt the photos
+	 */
+	async disable(): Promise<void> {
+		if (!this.currentUser || !this._settings) return;
+		if (this.locked) throw new Error('Unlock notes before turning off encryption');
+
+		const userId = this.currentUser.uid;
+		await syncOutbox.enqueue({
+			userId,
+			source: 'settings',
+			label: 'Turn off notes encryption',
+			writes: [{ type: 'delete', path: this.settingsPath(userId) }]
+		});
+
+		await this.deleteKeys(userId);
+		this.applySettings(null);
+	}
+
+	/**
+	 * Note as it's uploaded: sealed when notes are encrypted, or null when this device can't
+	 * seal it because it's locked or doesn't know yet whether notes are encrypted
+	 */
+	async sealNote(note: FeatureNote | SealedContent): Promise<FeatureNote | SealedContent | null> {
+		await this.whenReady();
+		if (isSealed(note)) {
+			return this._settings && note.keyId !== this._settings.keyId ? null : note;
+		}
+		if (!this._settings) return this._settingsKnown ? note : null;
+		if (!this.keys || this.locked) return null;
+
+		return sealValue(this.keys, note);
+	}
+
+	/**
+	 * Note as this device stores it: opened when the keys match, otherwise still sealed
+	 */
+	async openNote(note: FeatureNote | SealedContent): Promise<FeatureNote | SealedContent> {
+		if (!isSealed(note)) return note;
+
+		await this.whenReady();
+		if (!this.keys || note.keyId !== this.keys.keyId) return note;
+
+		try {
+			return await openValue<FeatureNote>(this.keys, note);
+		} catch (error) {
+			console.error('Failed to open note:', error);
+			return note;
+		}
+	}
+
+	/**
+	 * Photo contents as they're uploaded, with the IV to store in the photo when encrypted
+	 */
+	async encryptPhoto(data: ArrayBuffer): Promise<{ iv?: string; data: ArrayBuffer }> {
+		if (!this._settings) {
+			if (!this._settingsKnown) throw new Error('Go online to add photos');
+			return { data };
+		}
+		if (!this.keys || this.locked) throw new Error('Unlock notes to add photos');
+
+		return encryptBytes(this.keys, data);
+	}
+
+	async decryptPhoto(photo: FeaturePhoto, data: ArrayBuffer): Promise<ArrayBuffer> {
+		if (!photo.iv) return data;
+		if (!this.keys) throw new Error('Unlock notes to see photos');
+
+		return decryptBytes(this.keys, photo.iv, data);
+	}
+
+	// ==================== SETTINGS SYNC ====================
+
+	private settingsPath(userId: string): string {
+		return `users/${userId}/settings/noteEncryption`;
+	}
+
+	private startSettingsSync(): void {
+		if (!this.currentUser) return;
+
+		const userId = this.currentUser.uid;
+		this.settingsUnsubscribe = onSnapshot(
+			doc(db, this.settingsPath(userId)),
+			(snapshot) => this.handleSettingsSnapshot(snapshot),
+			(error) => {
+				console.error('Firestore notes encryption sync error:', error);
+				this.resolveSettingsReady?.();
+			}
+		);
+	}
+
+	private stopSettingsSync(): void {
+		if (this.settingsUnsubscribe) {
+			this.settingsUnsubscribe();
+			this.settingsUnsubscribe = null;
+		}
+	}
+
+	private handleSettingsSnapshot(snapshot: DocumentSnapshot): void {
+		// Firestore reports a missing document from the offline cache before asking the server;
+		// keep what this device knew, and hold notes back if it knew nothing
+		if (!snapshot.exists() && snapshot.metadata.fromCache) {
+			this.resolveSettingsReady?.();
+			this.resolveSettingsReady = null;
+			return;
+		}
+
+		const data = snapshot.data();
+		this.applySettings(
+			data
+				? {
+						keyId: data.keyId,
+						salt: data.salt,
+						iterations: data.iterations,
+						verifier: data.verifier,
+						dateCreated: data.dateCreated
+					}
+				: null
+		);
+	}
+
+	private applySettings(settings: NoteEncryptionSettings | null): void {
+		this._settings = settings;
+		if (this.currentUser) {
+			const key = `noteEncryption:${this.currentUser.uid}`;
+			if (settings) {
+				localStorage.setItem(key, JSON.stringify(settings));
+			} else {
+				localStorage.removeItem(key);
+			}
+		}
+		this.resolveSettingsReady?.();
+		this.resolveSettingsReady = null;
+		this.markSettingsKnown();
+	}
+
+	private markSettingsKnown(): void {
+		this._settingsKnown = true;
+		this.resolveSettingsKnown?.();
+		this.resolveSettingsKnown = null;
+	}
+
+	private loadCachedSettings(userId: string): NoteEncryptionSettings | null {
+		try {
+			const cached = localStorage.getItem(`noteEncryption:${userId}`);
+			return cached ? JSON.parse(cached) : null;
+		} catch {
+			return null;
+		}
+	}
+
+	// ==================== KEY STORAGE ====================
+
+	private openKeysDatabase(): Promise<IDBDatabase> {
+		this.keysDb ??= new Promise<IDBDatabase>((resolve, reject) => {
+			const request = indexedDB.open(this.DB_NAME, this.DB_VERSION);
+			request.onupgradeneeded = () => {
+				if (!request.result.objectStoreNames.contains(this.STORE_NAME)) {
+					request.result.createObjectStore(this.STORE_NAME, { keyPath: 'userId' });
+				}
+			};
+			request.onsuccess = () => resolve(request.result);
+			request.onerror = () => {
+				this.keysDb = null;
+				reject(request.error);
+			};
+		});
+		return this.keysDb;
+	}
+
+	private async loadStoredKeys(userId: string): Promise<NoteKeys | null> {
+		const record = await this.runKeysRequest<(NoteKeys & { userId: string }) | undefined>(
+			'readonly',
+			(store) => store.get(userId)
+		);
+		if (!record) return null;
+
+		const { userId: _userId, ...keys } = record;
+		return keys;
+	}
+
+	private async storeKeys(userId: string, keys: NoteKeys): Promise<void> {
+		await this.runKeysRequest('readwrite', (store) => store.put({ userId, ...keys }));
+	}
+
+	private async deleteKeys(userId: string): Promise<void> {
+		await this.runKeysRequest('readwrite', (store) => store.delete(userId));
+	}
+
+	private async runKeysRequest<T>(
+		mode: IDBTransactionMode,
+		makeRequest: (store: IDBObjectStore) => IDBRequest
+	): Promise<T> {
+		const keysDb = await this.openKeysDatabase();
+		return new Promise<T>((resolve, reject) => {
+			const transaction = keysDb.transaction(this.STORE_NAME, mode);
+			const request = makeRequest(transaction.objectStore(this.STORE_NAME));
+			transaction.oncomplete = () => resolve(request.result as T);
+			transaction.onerror = () => reject(transaction.error ?? request.error);
+		});
+	}
+}
+
+// Export singleton instance
+export const noteEncryption = new NoteEncryption();
@@ -0,0 +1,258 @@
+/**
+ * OpenAtFilterStore.svelte.ts
+ *
+ * "Open at" filter for the map and the features tables: evaluates each feature's
+ * opening_hours at a chosen time and dims or hides the closed ones. Features without
+ * opening hours, or whose hours are unknown at that time, are left as they are.
+ */
+
+import { browser } from '$app/environment';
+import { POI_SOURCE_LAYERS } from '$lib/constants';
+import { isOpenFor } from '$lib/utils/opening-hours-parser';
+import { getFeatureLngLat } from '$lib/utils/search-query';
+
+// Types
+export type OpenAtMode = 'off' | 'now' | 'at' | 'for';
+export type ClosedDisplay = 'dim' | 'hide';
+
+interface OpenAtFilterState {
+	mode: OpenAtMode;
+	at: number; // Timestamp used by 'at' and 'for'
+	minMinutes: number; // Minimum time left open, used by 'for'
+	closedDisplay: ClosedDisplay;
+}
+
+// Opacity of closed POIs when dimmed
+export const CLOSED_OPACITY = 0.35;
+
+class OpenAtFilterStore {
+	private _state = $state<OpenAtFilterState>({
+		mode: 'off',
+		at: Date.now(),
+		minMinutes: 60,
+		closedDisplay: 'dim'
+	});
+
+	// Current minute for 'now', so the filter follows the clock
+	private _now = $state(Date.now());
+	private _clock: ReturnType<typeof setInterval> | null = null;
+
+	// Map instance for updating POI feature states
+	private _map: any = null;
+	private _handleMapIdle: (() => void) | null = null;
+
+	// POIs already evaluated for the current filter settings, by source layer and id
+	private _evaluated = new Set<string>();
+
+	// Getters for state (reactive)
+	get mode() {
+		return this._state.mode;
+	}
+	get at() {
+		return this._state.at;
+	}
+	get minMinutes() {
+		return this._state.minMinutes;
+	}
+	get closedDisplay() {
+		return this._state.closedDisplay;
+	}
+	get isActive() {
+		return this._state.mode !== 'off';
+	}
+
+	/**
+	 * The time features are evaluated at
+	 */
+	get referenceTime(): Date {
+		return new Date(this._state.mode === 'now' ? this._now : this._state.at);
+	}
+
+	/**
+	 * Short description of the active filter, e.g. "Open for 60 min from Sat 14:00"
+	 */
+	get label(): string {
+		const time = this.referenceTime.toLocaleString(undefined, {
+			weekday: 'short',
+			hour: '2-digit',
+			minute: '2-digit'
+		});
+		switch (this._state.mode) {
+			case 'off':
+				return 'Any time';
+			case 'now':
+				return 'Open now';
+			case 'at':
+				return `Open ${time}`;
+			case 'for':
+				return `Open for ${this._state.minMinutes} min from ${time}`;
+		}
+	}
+
+	setMode(mode: OpenAtMode) {
+		this._state.mode = mode;
+		this.updateClock();
+		this.refreshMap();
+	}
+
+	setTime(at: number) {
+		if (Number.isNaN(at)) return;
+		this._state.at = at;
+		this.refreshMap();
+	}
+
+	setMinMinutes(minutes: number) {
+		this._state.minMinutes = Math.max(1, Math.round(minutes) || 1);
+		this.refreshMap();
+	}
+
+	setClosedDisplay(display: ClosedDisplay) {
+		this._state.closedDisplay = display;
+	}
+
+	clear() {
+		this.setMode('off');
+	}
+
+	/**
+	 * Open, closed, or null when the filter is off or the hours are missing or unknown
+	 */
+	getStatus(
+		openingHours: string | undefined,
+		location?: { lng: number; lat: number } | null
+	): 'open' | 'closed' | null {
+		if (this._state.mode === 'off' || !openingHours) return null;
+
+		const open = isOpenFor(
+			openingHours,
+			this.referenceTime,
+			this._state.mode === 'for' ? this._state.minMinutes : 0,
+			location ? { lng: location.lng, lat: location.lat } : {}
+		);
+		return open === null ? null : open ? 'open' : 'closed';
+	}
+
+	isClosed(
+		openingHours: string | undefined,
+		location?: { lng: number; lat: number } | null
+	): boolean {
+		return this.getStatus(openingHours, location) === 'closed';
+	}
+
+	/**
+	 * Mark closed features of a GeoJSON collection with a `closed` property, or drop them
+	 * when closed features are hidden. Reads opening hours from `opening_hours`.
+	 */
+	applyToGeoJSON<T extends GeoJSON.FeatureCollection>(collection: T): T {
+		if (!this.isActive) return collection;
+
+		const features = collection.features
+			.map((feature) => ({
+				...feature,
+				properties: {
+					...feature.properties,
+					closed: this.isClosed(
+						feature.properties?.opening_hours,
+						getFeatureLngLat(feature.geometry)
+					)
+				}
+			}))
+			.filter((feature) => this._state.closedDisplay === 'dim' || !feature.properties.closed);
+
+		return { ...collection, features };
+	}
+
+	/**
+	 * Set the map instance for updating POI feature states
+	 */
+	setMap(map: any) {
+		if (this._map === map) return;
+
+		if (this._map && this._handleMapIdle) {
+			this._map.off('idle', this._handleMapIdle);
+		}
+
+		this._map = map;
+		this._evaluated.clear();
+		if (!map) return;
+
+		// New tiles are loaded by the time the map is idle
+		this._handleMapIdle = () => this.updatePoiStates();
+		map.on('idle', this._handleMapIdle);
+		this.updatePoiStates();
+	}
+
+	/**
+	 * Re-evaluate all POIs, e.g. after the filter changed
+	 */
+	private refreshMap() {
+		this._evaluated.clear();
+		if (!this._map) return;
+
+		if (!this.isActive) {
+			if (!this._map.getSource('poi')) return;
+
+			// Vector sources need the source layer, or nothing is removed
+			for (const sourceLayer of POI_SOURCE_LAYERS) {
+				try {
+					this._map.removeFeatureState({ source: 'poi', sourceLayer });
+				} catch (error) {
+					console.warn(`OpenAtFilter: Failed to reset POI states in ${sourceLayer}:`, error);
+				}
+			}
+			return;
+		}
+		this.updatePoiStates();
+	}
+
+	// Feature state can't be used in layer filters, so POI layers read `closed` in paint
+	private updatePoiStates() {
+		if (!this._map || !this.isActive || !this._map.getSource('poi')) return;
+
+		for (const sourceLayer of POI_SOURCE_LAYERS) {
+			let features: any[];
+			try {
+				features = this._map.querySourceFeatures('poi', { sourceLayer, validate: false });
+			} catch (error) {
+				console.warn(`OpenAtFilter: Failed to query ${sourceLayer}:`, error);
+				continue;
+			}
+
+			for (const feature of features) {
+				if (feature.id === undefined) continue;
+				const key = `${sourceLayer}:${feature.id}`;
+				if (this._evaluated.has(key)) continue;
+				this._evaluated.add(key);
+
+				this._map.setFeatureState(
+					{ source: 'poi', sourceLayer, id: feature.id },
+					{
+						closed: this.isClosed(
+							feature.properties?.opening_hours,
+							getFeatureLngLat(feature.geometry)
+						)
+					}
+				);
+			}
+		}
+	}
+
+	// Tick once a minute while following the clock
+	private updateClock() {
+		if (!browser) return;
+
+		if (this._state.mode === 'now' && !this._clock) {
+			this._now = Date.now();
+			this._clock = setInterval(() => {
+				this._now = Date.now();
+				this.refreshMap();
+			}, 60000);
+		} else if (this._state.mode !== 'now' && this._clock) {
+			clearInterval(this._clock);
+			this._clock = null;
+		}
+	}
+}
+
+// Create singleton instance
+export const openAtFilterStore = new OpenAtFilterStore();
@@ -1,5 +1,16 @@
 import { appState } from './AppState.svelte';
 import { mapControl } from './MapControl.svelte';
+import { featuresDB } from './FeaturesDB.svelte';
+import {
+	findListByName,
+	getFeatureLngLat,
+	getPlaceFilters,
+	parseSearchQuery,
+	requiresStoredFeatures
+} from '$lib/utils/search-query';
+
+// Zoom level of the search worker's tiles, used for results built from stored features
+const SEARCH_ZOOM_LEVEL = 14;
 
 /**
  * Search Control store for managing search functionality
@@ -13,6 +24,8 @@ class SearchControl {
 	isSearching = $state(false);
 	drawerOpen = $state(false);
 	currentSearchingDatabase = $state<string | undefined>(undefined);
+	// Errors of the last submitted query (syntax, unknown list, unresolved near: place)
+	queryErrors = $state<SearchQueryError[]>([]);
 
 	// Temporary POI visibility control (only affects display while search drawer is open)
 	poiVisible = $state(true);
@@ -86,7 +99,8 @@ class SearchControl {
 	}
 
 	/**
-	 * Perform a search with location-aware prioritization
+	 * Perform a search with location-aware prioritization. The query may mix free text with
+	 * filters (category:, open:now, near:, within:, list:, visited:) - see search-query.ts.
 	 */
 	async search(query: string) {
 		console.log('🔍 Starting search for:', query);
@@ -94,8 +108,15 @@ class SearchControl {
 		// Cancel any existing search
 		await this.cancelSearch();
 
-		// Set search state
+		const parsedQuery = parseSearchQuery(query);
 		this.query = query;
+		this.queryErrors = parsedQuery.errors;
+		if (parsedQuery.errors.length > 0) {
+			console.log('❌ Invalid search query:', parsedQuery.errors);
+			return;
+		}
+
+		// Set search state
 		this.isSearching = true;
 		this.drawerOpen = true;
 		this.results = []; // Clear previous results
@@ -133,9 +154,60 @@ class SearchControl {
 				);
 			}
 
+			const { text, filters } = parsedQuery;
+
+			// near: searches around the best match for the place instead of the map center
+			const near = filters.find((filter) => filter.key === 'near');
+			if (near) {
+				const [place] = await worker.searchFeatures(
+					near.value as string,
+					20,
+					currentLanguage,
+					userLocation
+				);
+				if (!place) {
+					this.queryErrors = [
+						{ start: near.start, end: near.end, message: `No place found for "${near.value}"` }
+					];
+					return;
+				}
+				userLocation = { lng: place.lng, lat: place.lat };
+				console.log(`📍 Searching near ${Object.values(place.names)[0] ?? near.value}`);
+			}
+
+			const list = filters.find((filter) => filter.key === 'list');
+			if (list && !findListByName(await featuresDB.getAllBookmarkLists(), list.value as string)) {
+				this.queryErrors = [
+					{ start: list.start, end: list.end, message: `No bookmark list named "${list.value}"` }
+				];
+				return;
+			}
+
+			// list: and visited:yes only match the user's own features
+			if (requiresStoredFeatures(filters)) {
+				const storedResults = await featuresDB.searchFeatures(text, {
+					limit: 1000,
+					queryFilters: filters,
+					center: userLocation
+				});
+				this.results = storedResults
+					.map(({ feature }) => this.createSearchResultFromStoredFeature(feature))
+					.filter((result): result is SearchResult => result !== null);
+				console.log(`✅ Stored feature search complete: ${this.results.length} results`);
+				return;
+			}
+
+			// visited:no removes visited features from the worker's results
+			const visited = filters.find((filter) => filter.key === 'visited');
+			const excludedIds = visited
+				? new Set((await featuresDB.getVisitedFeatures()).map((feature) => feature.id))
+				: null;
+			const applyStoredFilters = (results: SearchResult[]) =>
+				excludedIds ? results.filter((result) => !excludedIds.has(String(result.id))) : results;
+
 			// Start search with progress callback
 			this.currentSearchPromise = worker.searchFeatures(
-				query,
+				text,
 				1000, // 1000 results max
 				currentLanguage,
 				userLocation,
@@ -144,13 +216,14 @@ class SearchControl {
 					const { results, isComplete, currentDatabase, total } = progressData;
 
 					// Update search results progressively - create new array reference for reactivity
-					this.results = [...results]; // Ensure new array reference
+					this.results = applyStoredFilters(results); // Ensure new array reference
 					this.currentSearchingDatabase = currentDatabase;
-				}
+				},
+				getPlaceFilters(filters)
 			);
 
 			// Wait for final results
-			const finalResults = await this.currentSearchPromise;
+			const finalResults = applyStoredFilters(await this.currentSearchPromise);
 
 			// Final results (should be same as last progress update) - ensure new array reference
 			this.results = [...finalResults];
@@ -177,6 +250,36 @@ class SearchControl {
 		}
 	}
 
+	/**
+	 * Build a search result for a stored feature, so list:/visited: searches can be shown
+	 * like worker results
+	 */
+	private createSearchResultFromStoredFeature(feature: StoredFeature): SearchResult | null {
+		const location = getFeatureLngLat(feature.geometry);
+		if (!location) return null;
+
+		const n = 1 << SEARCH_ZOOM_LEVEL;
+		const latRad = (location.lat * Math.PI) / 180;
+		return {
+			id: feature.id,
+			names: feature.names,
+			class: feature.class ?? 'poi',
+			subclass: feature.subclass,
+			category: feature.category,
+			lng: location.lng,
+			lat: location.lat,
+			database: `${feature.source}.mbtiles`,
+			layer: feature.sourceLayer ?? '',
+			zoom: SEARCH_ZOOM_LEVEL,
+			tileX: Math.floor(((location.lng + 180) / 360) * n),
+			tileY: Math.floor(
+				((1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2) * n
+			),
+			openingHours: feature.openingHours,
+			matchType: 'name'
+		};
+	}
+
 	/**
 	 * Cancel ongoing search
 	 */
@@ -223,6 +326,7 @@ class SearchControl {
 		this.results = [];
 		this.filteredResults = [];
 		this.query = '';
+		this.queryErrors = [];
 		this.isSearching = false;
 		this.drawerOpen = false;
 		this.currentSearchingDatabase = undefined;
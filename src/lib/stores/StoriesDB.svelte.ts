@@ -1,6 +1,7 @@
 import { browser } from '$app/environment';
 import { authState } from '$lib/stores/auth.svelte';
 import { db } from '$lib/firebase';
+import { syncOutbox } from '$lib/stores/SyncOutbox.svelte';
 import { userStore } from '$lib/stores/UserStore.svelte';
 import { userService } from '$lib/services/userService';
 import type { User } from 'firebase/auth';
@@ -8,13 +9,9 @@ import {
 	collection,
 	doc,
 	getDoc,
-	setDoc,
-	updateDoc,
-	deleteDoc,
 	query,
 	where,
 	onSnapshot,
-	serverTimestamp,
 	orderBy,
 	limit as firestoreLimit,
 	getDocs,
@@ -27,6 +24,22 @@ import {
 	generateSearchText,
 	isDefaultCategory
 } from '$lib/utils/stories';
+import {
+	STORY_MERGE_SPEC,
+	getChangedFields,
+	isSameVersion,
+	mergeVersions,
+	recordChanges,
+	stampResolvedFields
+} from '$lib/utils/sync-merge';
+import {
+	advanceCursor,
+	changedSinceQuery,
+	isTombstone,
+	tombstoneWrite,
+	UPDATED_AT_FIELD,
+	withoutServerFields
+} from '$lib/utils/sync-cursor';
 
 /**
  * Stories Database management class using Svelte 5 runes
@@ -61,6 +74,8 @@ class StoriesDB {
 	private isOnline = $state(navigator?.onLine ?? true);
 	private syncConflicts = $state<SyncConflict[]>([]);
 	private lastSyncTimestamp = $state<number>(0);
+	private serverCursors: Record<string, number> = {}; // Newest server updatedAt per collection
+	private uploadPromise: Promise<void> | null = null;
 
 	// Reactive state for stories count and stats
 	private _stats = $state({
@@ -81,7 +96,8 @@ class StoriesDB {
 				console.log('🌐 StoriesDB: Connection restored - starting sync');
 				if (this.currentUser) {
 					this.startFirestoreSync();
-					// IMPORTANT: Force upload of local changes when coming back online
+					// The outbox replays queued changes; this catches changes that never reached it,
+					// e.g. ones made while signed out
 					await this.uploadPendingLocalChanges();
 				}
 			});
@@ -170,6 +186,7 @@ class StoriesDB {
 			this._changeSignal++;
 			this.syncConflicts = [];
 			this.lastSyncTimestamp = 0;
+			this.serverCursors = {};
 
 			await this.initializeDatabase();
 
@@ -487,18 +504,24 @@ class StoriesDB {
 	/**
 	 * Start Firestore real-time sync for current user
 	 */
-	private startFirestoreSync(): void {
+	private async startFirestoreSync(): Promise<void> {
 		if (!this.currentUser || !this.isOnline) return;
 
+		const userId = this.currentUser.uid;
+		const metadata = await this.loadSyncMetadata();
+		if (this.currentUser?.uid !== userId || !this.isOnline) return;
+
 		this.stopFirestoreSync(); // Clean up any existing subscription
 
 		try {
-			const userId = this.currentUser.uid;
+			this.serverCursors = { ...metadata?.serverCursors };
+			const storiesCursor = this.serverCursors.stories ?? 0;
 
-			// Listen to real-time changes in user's stories collection
-			const storiesQuery = query(
+			// Listen to stories changed since the stored server cursor, or all of them on a device
+			// that hasn't synced yet
+			const storiesQuery = changedSinceQuery(
 				collection(db, 'users', userId, 'stories'),
-				orderBy('dateModified', 'desc')
+				storiesCursor
 			);
 
 			// Listen to real-time changes in user's story categories collection
@@ -516,7 +539,7 @@ class StoriesDB {
 			// Subscribe to stories changes
 			const storiesUnsubscribe = onSnapshot(
 				storiesQuery,
-				(snapshot) => this.handleFirestoreSnapshot(snapshot, 'stories'),
+				(snapshot) => this.handleFirestoreSnapshot(snapshot, 'stories', storiesCursor > 0),
 				(error) => {
 					console.error('Firestore stories sync error:', error);
 					this.isSyncing = false;
@@ -892,96 +915,77 @@ class StoriesDB {
 	}
 
 	/**
-	 * Sync story to Firestore with enhanced error handling
+	 * Sync story to Firestore through the outbox, which replays it when online
 	 */
-	private async syncStoryToFirestore(story: Story, retryCount = 0): Promise<void> {
-		if (!this.currentUser || !this.isOnline) {
-			console.warn(`Cannot sync story ${story.title}: user not authenticated or offline`);
-			// Mark story for upload when back online
+	private async syncStoryToFirestore(story: Story): Promise<void> {
+		if (!this.currentUser) {
+			console.warn(`Cannot sync story ${story.title}: user not authenticated`);
+			// Mark story for upload when signed in
 			(story as any).pendingUpload = true;
 			return;
 		}
 
-		const MAX_RETRIES = 3;
-		const RETRY_DELAY = 1000; // 1 second
-
 		try {
 			const userId = this.currentUser.uid;
-			console.log(`📤 Syncing story "${story.title}" to Firestore (attempt ${retryCount + 1})`);
-
-			// Clean story data for Firestore (remove undefined values)
-			const cleanStory = this.cleanForFirestore({
-				...story,
-				serverTimestamp: serverTimestamp(),
-				lastSyncTimestamp: Date.now()
-			});
+			const lastSyncTimestamp = Date.now();
+			console.log(`📤 Queueing story "${story.title}" for Firestore`);
 
 			// Use story ID as Firestore document ID
-			const docRef = doc(db, 'users', userId, 'stories', story.id);
-			await setDoc(docRef, cleanStory, { merge: true });
-
-			// Update local story with sync timestamp
-			story.lastSyncTimestamp = Date.now();
-			await this.storeStoryLocally(story);
+			await syncOutbox.enqueue({
+				userId,
+				source: 'stories',
+				label: `Save story "${story.title}"`,
+				writes: [this.toStoryWrite(userId, story)]
+			});
 
-			console.log(`✅ Successfully synced story "${story.title}" to Firestore`);
-			// Clear pending upload flag on success
+			// The outbox owns the upload from here on
 			delete (story as any).pendingUpload;
+			story.lastSyncTimestamp = lastSyncTimestamp;
+			await this.storeStoryLocally(story);
 		} catch (error: any) {
-			console.error(
-				`❌ Failed to sync story "${story.title}" to Firestore (attempt ${retryCount + 1}):`,
-				error
-			);
-
-			// Mark for retry even on error
+			console.error(`❌ Failed to queue story "${story.title}" for Firestore:`, error);
+			// Keep the pending upload flag for the next upload of local changes
 			(story as any).pendingUpload = true;
-
-			// Retry logic for transient errors
-			if (retryCount < MAX_RETRIES && this.shouldRetry(error)) {
-				console.log(`⏳ Retrying sync in ${RETRY_DELAY}ms...`);
-				setTimeout(() => {
-					this.syncStoryToFirestore(story, retryCount + 1);
-				}, RETRY_DELAY);
-			} else {
-				// Log final failure but keep pendingUpload flag for later retry
-				console.error(
-					`💥 Failed to sync story "${story.title}" after ${MAX_RETRIES} attempts:`,
-					error.message
-				);
-				console.warn('Story will be retried when connection is restored.');
-			}
 		}
 	}
 
 	/**
-	 * Delete category from Firestore
+	 * Delete category from Firestore through the outbox
 	 */
 	private async deleteCategoryFromFirestore(categoryId: string): Promise<void> {
 		if (!this.currentUser) return;
 
 		try {
 			const userId = this.currentUser.uid;
-			const docRef = doc(db, 'users', userId, 'storyCategories', categoryId);
-			await deleteDoc(docRef);
-			console.log(`Successfully deleted category ${categoryId} from Firestore`);
+			await syncOutbox.enqueue({
+				userId,
+				source: 'stories',
+				label: `Delete category "${categoryId}"`,
+				writes: [{ type: 'delete', path: `users/${userId}/storyCategories/${categoryId}` }]
+			});
 		} catch (error) {
-			console.error('Failed to delete category from Firestore:', error);
+			console.error('Failed to queue category deletion for Firestore:', error);
 		}
 	}
 
 	/**
-	 * Delete story from Firestore (placeholder)
+	 * Delete story from Firestore through the outbox
+	 * The document is replaced with a tombstone, so devices syncing incrementally see the deletion
+	 * and followers' public story listeners drop it
 	 */
 	private async deleteStoryFromFirestore(storyId: string): Promise<void> {
 		if (!this.currentUser) return;
 
 		try {
 			const userId = this.currentUser.uid;
-			const docRef = doc(db, 'users', userId, 'stories', storyId);
-			await deleteDoc(docRef);
-			console.log(`Successfully deleted story ${storyId} from Firestore`);
+			await syncOutbox.enqueue({
+				userId,
+				source: 'stories',
+				label: `Delete story "${storyId}"`,
+				writes: [tombstoneWrite(`users/${userId}/stories/${storyId}`, storyId)]
+			});
 		} catch (error) {
-			console.error('Failed to delete story from Firestore:', error);
+			console.error('Failed to queue story deletion for Firestore:', error);
 		}
 	}
 
@@ -1536,48 +1540,7 @@ class StoriesDB {
 		this.isSyncing = true;
 
 		try {
-			// Get all local stories and force upload any that have been modified
-			const localStories = await this.exportStories();
-			let uploadedCount = 0;
-
-			for (const story of localStories) {
-				// Check if story needs to be uploaded
-				// Upload if: never synced, or modified after last sync, or explicitly marked for upload
-				const lastSyncTimestamp = story.lastSyncTimestamp || 0;
-				const needsUpload =
-					lastSyncTimestamp === 0 ||
-					story.dateModified > lastSyncTimestamp ||
-					(story as any).pendingUpload;
-
-				if (needsUpload) {
-					console.log(`📤 Force uploading story: ${story.title}`);
-					try {
-						await this.syncStoryToFirestore(story);
-						uploadedCount++;
-						// Clear pending upload flag
-						delete (story as any).pendingUpload;
-					} catch (error) {
-						console.error(`Failed to upload story ${story.title}:`, error);
-						// Mark for retry
-						(story as any).pendingUpload = true;
-					}
-				}
-			}
-
-			console.log(`✅ Force uploaded ${uploadedCount}/${localStories.length} stories`);
-
-			// Upload local categories
-			const localCategories = await this.getAllCategories();
-			for (const category of localCategories) {
-				const lastSyncTimestamp = (category as any).lastSyncTimestamp || 0;
-				if (lastSyncTimestamp === 0 && !isDefaultCategory(category.id)) {
-					try {
-						await this.syncCategoryToFirestore(category);
-					} catch (error) {
-						console.error(`Failed to upload category ${category.name}:`, error);
-					}
-				}
-			}
+			await this.uploadLocalChanges();
 
 			this.lastSyncTimestamp = Date.now();
 			await this.updateSyncMetadata();
@@ -1659,6 +1622,9 @@ class StoriesDB {
 		// Regenerate searchable text
 		updatedStory.searchText = generateSearchText(updatedStory);
 
+		// Record which fields changed, for merging with edits from other devices
+		recordChanges(existingStory, updatedStory, STORY_MERGE_SPEC, updatedStory.dateModified);
+
 		// Store updated story
 		const transaction = this.db.transaction([this.STORIES_STORE_NAME], 'readwrite');
 		const store = transaction.objectStore(this.STORIES_STORE_NAME);
@@ -1701,6 +1667,20 @@ class StoriesDB {
 		await this.ensureInitialized();
 		if (!this.db) return;
 
+		await this.deleteStoryLocally(id);
+
+		// Firestore handles sync automatically
+		if (this.currentUser) {
+			this.deleteStoryFromFirestore(id);
+		}
+	}
+
+	/**
+	 * Remove a story from this device only
+	 */
+	private async deleteStoryLocally(id: string): Promise<void> {
+		if (!this.db) return;
+
 		const userId = this.getCurrentUserId();
 		const transaction = this.db.transaction([this.STORIES_STORE_NAME], 'readwrite');
 		const store = transaction.objectStore(this.STORIES_STORE_NAME);
@@ -1715,11 +1695,6 @@ class StoriesDB {
 
 		await this.updateStats();
 		this.triggerChange();
-
-		// Firestore handles sync automatically
-		if (this.currentUser) {
-			this.deleteStoryFromFirestore(id);
-		}
 	}
 
 	async searchStories(
@@ -1883,10 +1858,13 @@ class StoriesDB {
 
 	/**
 	 * Handle Firestore snapshot changes
+	 * Story deletions arrive as tombstones; in an incremental query a story also leaves the
+	 * results while its own pending write has no server time yet, so only tombstones count there
 	 */
 	private async handleFirestoreSnapshot(
 		snapshot: QuerySnapshot<DocumentData>,
-		type: 'stories' | 'categories' | 'followedStories' = 'stories'
+		type: 'stories' | 'categories' | 'followedStories' = 'stories',
+		incremental = false
 	): Promise<void> {
 		if (!this.currentUser) return;
 
@@ -1897,21 +1875,26 @@ class StoriesDB {
 				const firestoreData = change.doc.data();
 				const docId = change.doc.id;
 
+				if (type === 'stories') {
+					if (change.type === 'removed' ? !incremental : isTombstone(firestoreData)) {
+						await this.handleRemoteStoryDeletion(docId);
+					} else if (change.type !== 'removed') {
+						await this.handleRemoteStoryChange(this.fromFirestoreStory(firestoreData), docId);
+					}
+					continue;
+				}
+
 				switch (change.type) {
 					case 'added':
 					case 'modified':
-						if (type === 'stories') {
-							await this.handleRemoteStoryChange(firestoreData, docId);
-						} else if (type === 'categories') {
+						if (type === 'categories') {
 							await this.handleRemoteCategoryChange(firestoreData, docId);
 						} else if (type === 'followedStories') {
 							await this.handleRemoteFollowedStoryChange(firestoreData, docId);
 						}
 						break;
 					case 'removed':
-						if (type === 'stories') {
-							await this.handleRemoteStoryDeletion(docId);
-						} else if (type === 'categories') {
+						if (type === 'categories') {
 							await this.handleRemoteCategoryDeletion(docId);
 						} else if (type === 'followedStories') {
 							await this.handleRemoteFollowedStoryDeletion(docId);
@@ -1920,6 +1903,9 @@ class StoriesDB {
 				}
 			}
 
+			if (type === 'stories') {
+				this.serverCursors.stories = advanceCursor(this.serverCursors.stories ?? 0, snapshot);
+			}
 			this.lastSyncTimestamp = Date.now();
 			await this.updateSyncMetadata();
 		} catch (error) {
@@ -1947,32 +1933,38 @@ class StoriesDB {
 
 			await this.storeStoryLocally(story);
 		} else {
-			// Check for conflicts
-			const localTimestamp = localStory.lastSyncTimestamp || 0;
-			const remoteTimestamp = remoteData.lastSyncTimestamp || 0;
-
-			if (localTimestamp > remoteTimestamp && localStory.dateModified > remoteData.dateModified) {
-				// Local is newer, upload to Firestore
-				this.syncStoryToFirestore(localStory);
-			} else if (remoteTimestamp > localTimestamp) {
-				// Remote is newer, update local
-				const updatedStory: Story = {
-					...remoteData,
-					firestoreId,
-					lastSyncTimestamp: Date.now()
-				};
+			// Merge field by field; fields changed on both sides without a last writer need review
+			const { merged, conflicts } = mergeVersions(
+				localStory,
+				remoteData as Story,
+				STORY_MERGE_SPEC
+			);
 
-				await this.storeStoryLocally(updatedStory);
-			} else {
-				// Conflict detected
+			if (conflicts.length > 0) {
 				this.addSyncConflict({
 					id: remoteData.id,
 					type: 'story',
 					localData: localStory,
 					remoteData,
 					conflictType: 'both_modified',
+					fields: conflicts,
 					timestamp: Date.now()
 				});
+				return;
+			}
+
+			const mergedStory: Story = {
+				...merged,
+				firestoreId,
+				lastSyncTimestamp: Date.now()
+			};
+			mergedStory.searchText = generateSearchText(mergedStory);
+
+			if (!isSameVersion(mergedStory, localStory, STORY_MERGE_SPEC)) {
+				await this.storeStoryLocally(mergedStory);
+			}
+			if (!isSameVersion(mergedStory, remoteData, STORY_MERGE_SPEC)) {
+				this.syncStoryToFirestore(mergedStory);
 			}
 		}
 	}
@@ -1981,12 +1973,12 @@ class StoriesDB {
 	 * Handle remote story deletion
 	 */
 	private async handleRemoteStoryDeletion(firestoreId: string): Promise<void> {
-		// Find local story by Firestore ID and delete it
-		const allStories = await this.exportStories();
-		const storyToDelete = allStories.find((s) => (s as any).firestoreId === firestoreId);
+		// Stories are stored under their own ID in Firestore
+		const storyToDelete = await this.getStoryById(firestoreId);
 
+		// The deletion is already synced, so nothing is uploaded
 		if (storyToDelete) {
-			await this.deleteStory(storyToDelete.id);
+			await this.deleteStoryLocally(storyToDelete.id);
 		}
 	}
 
@@ -2202,11 +2194,20 @@ class StoriesDB {
 			console.log(`✅ Stored followed story in followedStories IndexedDB: ${followedStoryId}`);
 
 			// Step 2: Store in Firestore (for cross-device sync)
-			if (this.isOnline) {
-				const docRef = doc(db, 'users', userId, 'followedStories', followedStoryId);
-				await setDoc(docRef, this.cleanForFirestore(followedStoryData), { merge: true });
-				console.log(`📤 Stored followed story in Firestore: ${followedStoryId}`);
-			}
+			await syncOutbox.enqueue({
+				userId,
+				source: 'stories',
+				label: `Follow story "${story.title}"`,
+				writes: [
+					{
+						type: 'set',
+						path: `users/${userId}/followedStories/${followedStoryId}`,
+						data: this.cleanForFirestore(followedStoryData),
+						merge: true
+					}
+				]
+			});
+			console.log(`📤 Queued followed story for Firestore: ${followedStoryId}`);
 		} catch (error) {
 			console.error('Failed to store followed story:', error);
 		}
@@ -2234,8 +2235,10 @@ class StoriesDB {
 		const store = transaction.objectStore(this.FOLLOWED_STORIES_STORE_NAME);
 
 		// Use compound key structure that matches the store definition
+		// Authors' story documents leave out the search text, so it's rebuilt here
 		const storyWithCompoundKey = {
 			...story,
+			searchText: story.searchText || generateSearchText(story),
 			viewerUserId: this.currentUser.uid, // First part of compound key
 			authorUserId: authorUserId, // Second part of compound key
 			id: story.id // Third part of compound key (the full prefixed ID)
@@ -2450,20 +2453,23 @@ class StoriesDB {
 			console.log(`✅ Updated followed story in IndexedDB: ${storyData.title}`);
 
 			// Update in Firestore (full story sync but with preserved categories)
-			if (this.isOnline) {
-				try {
-					const docRef = doc(db, 'users', userId, 'followedStories', followedStoryId);
-					// Use setDoc with merge to ensure all fields are updated properly
-					await setDoc(docRef, this.cleanForFirestore(updatedStory), { merge: true });
-					console.log(
-						`📤 Updated followed story in Firestore with preserved categories: ${storyData.title}`
-					);
-				} catch (firestoreError) {
-					console.warn(
-						'Failed to update in Firestore but IndexedDB update succeeded:',
-						firestoreError
-					);
-				}
+			try {
+				// Set with merge to ensure all fields are updated properly
+				await syncOutbox.enqueue({
+					userId,
+					source: 'stories',
+					label: `Update followed story "${storyData.title}"`,
+					writes: [
+						{
+							type: 'set',
+							path: `users/${userId}/followedStories/${followedStoryId}`,
+							data: this.cleanForFirestore(updatedStory),
+							merge: true
+						}
+					]
+				});
+			} catch (firestoreError) {
+				console.warn('Failed to queue followed story for Firestore:', firestoreError);
 			}
 
 			// Trigger UI update
@@ -2499,21 +2505,75 @@ class StoriesDB {
 			}
 
 			// Step 2: Remove from Firestore
-			if (this.isOnline) {
-				const docRef = doc(db, 'users', userId, 'followedStories', followedStoryId);
-				await deleteDoc(docRef);
-				console.log(`🗑️ Removed followed story from Firestore: ${followedStoryId}`);
-			}
+			await syncOutbox.enqueue({
+				userId,
+				source: 'stories',
+				label: `Unfollow story "${followedStoryId}"`,
+				writes: [{ type: 'delete', path: `users/${userId}/followedStories/${followedStoryId}` }]
+			});
+			console.log(`🗑️ Queued followed story removal for Firestore: ${followedStoryId}`);
 		} catch (error) {
 			console.error('Failed to remove followed story:', error);
 		}
 	}
 
 	/**
-	 * Add sync conflict to queue
+	 * Add sync conflict to queue, replacing an older conflict of the same story
 	 */
 	private addSyncConflict(conflict: SyncConflict): void {
-		this.syncConflicts = [...this.syncConflicts, conflict];
+		this.syncConflicts = [...this.syncConflicts.filter((c) => c.id !== conflict.id), conflict];
+	}
+
+	/**
+	 * Resolve a story sync conflict
+	 * Keep mine and keep theirs take one version as a whole; merge applies the field-level merge
+	 * with the given choices for the fields that couldn't be merged
+	 */
+	async resolveSyncConflict(
+		conflictId: string,
+		resolution: 'local' | 'remote' | 'merge',
+		choices: Record<string, 'local' | 'remote'> = {}
+	): Promise<void> {
+		const conflict = this.syncConflicts.find((c) => c.id === conflictId);
+		if (!conflict) return;
+
+		try {
+			const local = conflict.localData as Story;
+			const remote = conflict.remoteData as Story;
+			const now = Date.now();
+			let resolved: Story;
+
+			if (resolution === 'merge') {
+				const fields = conflict.fields ?? [];
+				const fieldChoices = Object.fromEntries(
+					fields.map((field) => [field, choices[field] ?? 'local'])
+				);
+				const { merged } = mergeVersions(local, remote, STORY_MERGE_SPEC, fieldChoices);
+				resolved = stampResolvedFields(merged, remote, fields, STORY_MERGE_SPEC, now);
+			} else {
+				// Mark every differing field as changed now, so other devices take this version
+				const [kept, other] = resolution === 'local' ? [local, remote] : [remote, local];
+				resolved = stampResolvedFields(
+					{ ...kept, dateModified: now },
+					other,
+					getChangedFields(kept, other, STORY_MERGE_SPEC),
+					STORY_MERGE_SPEC,
+					now
+				);
+			}
+
+			resolved.firestoreId = local.firestoreId ?? remote.firestoreId;
+			resolved.lastSyncTimestamp = now;
+			resolved.searchText = generateSearchText(resolved);
+
+			await this.storeStoryLocally(resolved);
+			await this.syncStoryToFirestore(resolved);
+
+			// Remove resolved conflict
+			this.syncConflicts = this.syncConflicts.filter((c) => c.id !== conflictId);
+		} catch (error) {
+			console.error('Failed to resolve story sync conflict:', error);
+		}
 	}
 
 	/**
@@ -2542,34 +2602,59 @@ class StoriesDB {
 	}
 
 	/**
-	 * Determine if error should trigger a retry
+	 * Outbox write replacing a story's compact Firestore document
+	 * The search text is left out, as each device rebuilds it on download
 	 */
-	private shouldRetry(error: any): boolean {
-		// Don't retry authentication/permission errors
-		if (error.code === 'permission-denied' || error.code === 'unauthenticated') {
-			return false;
-		}
+	private toStoryWrite(userId: string, story: Story): OutboxWrite {
+		const {
+			searchText: _searchText,
+			firestoreId: _firestoreId,
+			lastSyncTimestamp: _lastSyncTimestamp,
+			pendingUpload: _pendingUpload,
+			...data
+		} = story as any;
 
-		// Don't retry invalid data errors
-		if (error.code === 'invalid-argument') {
-			return false;
-		}
+		return {
+			type: 'set',
+			path: `users/${userId}/stories/${story.id}`,
+			data: this.cleanForFirestore(data),
+			serverTimestamps: [UPDATED_AT_FIELD]
+		};
+	}
 
-		// Retry network-related errors
-		if (
-			error.code === 'unavailable' ||
-			error.code === 'deadline-exceeded' ||
-			error.code === 'internal'
-		) {
-			return true;
-		}
+	/**
+	 * Story from its Firestore document, with the search text restored
+	 */
+	private fromFirestoreStory(data: DocumentData): Story {
+		const story = withoutServerFields(data) as Story;
+		story.searchText = generateSearchText(story);
+		return story;
+	}
+
+	/**
+	 * Store many stories locally in one transaction, without triggering sync
+	 */
+	private async storeStoriesLocally(stories: Story[]): Promise<void> {
+		if (!this.db || stories.length === 0) return;
 
-		// Default to not retrying unknown errors
-		return false;
+		const transaction = this.db.transaction([this.STORIES_STORE_NAME], 'readwrite');
+		const store = transaction.objectStore(this.STORIES_STORE_NAME);
+
+		await new Promise<void>((resolve, reject) => {
+			transaction.oncomplete = () => resolve();
+			transaction.onerror = () => reject(transaction.error);
+			for (const story of stories) {
+				store.put(JSON.parse(JSON.stringify(story)));
+			}
+		});
+
+		await this.updateStats();
+		this.triggerChange();
 	}
 
 	/**
 	 * Perform initial sync when user connects
+	 * Remote changes arrive through the snapshot listeners
 	 */
 	private async performInitialSync(): Promise<void> {
 		if (!this.currentUser || !this.isOnline) return;
@@ -2580,9 +2665,6 @@ class StoriesDB {
 			// Upload local changes to Firestore
 			await this.uploadLocalChanges();
 
-			// Download and apply remote changes
-			await this.downloadRemoteChanges();
-
 			this.lastSyncTimestamp = Date.now();
 			await this.updateSyncMetadata();
 		} catch (error) {
@@ -2594,28 +2676,52 @@ class StoriesDB {
 
 	/**
 	 * Upload local changes to Firestore
+	 * Sign-in and reconnecting can both start an upload; they share it, so nothing is queued twice
 	 */
-	private async uploadLocalChanges(): Promise<void> {
+	private uploadLocalChanges(): Promise<void> {
+		this.uploadPromise ??= this.queueLocalChanges().finally(() => {
+			this.uploadPromise = null;
+		});
+		return this.uploadPromise;
+	}
+
+	/**
+	 * Queue the stories changed since their last sync in write batches, and custom categories
+	 * that were never synced
+	 */
+	private async queueLocalChanges(): Promise<void> {
 		if (!this.currentUser) return;
 
 		console.log('📤 Uploading local stories changes to Firestore...');
+		const userId = this.currentUser.uid;
 		const localStories = await this.exportStories();
-		let uploadedCount = 0;
 
-		for (const story of localStories) {
-			const lastSyncTimestamp = story.lastSyncTimestamp || 0;
+		// Upload if never synced, modified since last sync or explicitly marked for upload
+		const stories = localStories.filter(
+			(story) =>
+				!story.lastSyncTimestamp ||
+				story.dateModified > story.lastSyncTimestamp ||
+				!!(story as any).pendingUpload
+		);
 
-			// Upload if never synced or modified since last sync
-			if (lastSyncTimestamp === 0 || story.dateModified > lastSyncTimestamp) {
-				console.log(
-					`📤 Uploading story: ${story.title} (modified: ${new Date(story.dateModified)}, lastSync: ${new Date(lastSyncTimestamp)})`
-				);
-				await this.syncStoryToFirestore(story);
-				uploadedCount++;
+		if (stories.length > 0) {
+			await syncOutbox.enqueueBatched({
+				userId,
+				source: 'stories',
+				label: `Upload ${stories.length} stories`,
+				writes: stories.map((story) => this.toStoryWrite(userId, story))
+			});
+
+			// The outbox owns the upload from here on
+			const lastSyncTimestamp = Date.now();
+			for (const story of stories) {
+				delete (story as any).pendingUpload;
+				story.lastSyncTimestamp = lastSyncTimestamp;
 			}
+			await this.storeStoriesLocally(stories);
 		}
 
-		console.log(`📤 Uploaded ${uploadedCount}/${localStories.length} stories to Firestore`);
+		console.log(`📤 Queued ${stories.length}/${localStories.length} stories for Firestore`);
 
 		// Upload local categories (if any custom ones)
 		const localCategories = await this.getAllCategories();
@@ -2636,50 +2742,34 @@ class StoriesDB {
 	}
 
 	/**
-	 * Download remote changes from Firestore
-	 */
-	private async downloadRemoteChanges(): Promise<void> {
-		if (!this.currentUser) return;
-
-		const userId = this.currentUser.uid;
-		const lastSync = await this.getLastSyncTimestamp();
-
-		try {
-			// Query for stories modified since last sync
-			const storiesQuery = query(
-				collection(db, 'users', userId, 'stories'),
-				where('dateModified', '>', lastSync),
-				orderBy('dateModified', 'asc')
-			);
-
-			console.log('Downloading remote changes since:', new Date(lastSync));
-
-			// The snapshot listeners will handle the actual downloads
-			// This method just sets up the queries for initial sync
-		} catch (error) {
-			console.error('Failed to set up download queries:', error);
-		}
-	}
-
-	/**
-	 * Sync category to Firestore
+	 * Sync category to Firestore through the outbox
 	 */
 	private async syncCategoryToFirestore(category: StoryCategory): Promise<void> {
-		if (!this.currentUser || !this.isOnline) return;
+		if (!this.currentUser) return;
 
 		try {
 			const userId = this.currentUser.uid;
 			const cleanCategory = this.cleanForFirestore({
 				...category,
-				serverTimestamp: serverTimestamp(),
 				lastSyncTimestamp: Date.now()
 			});
 
-			const docRef = doc(db, 'users', userId, 'storyCategories', category.id);
-			await setDoc(docRef, cleanCategory, { merge: true });
-			console.log(`Successfully synced category ${category.id} to Firestore`);
+			await syncOutbox.enqueue({
+				userId,
+				source: 'stories',
+				label: `Save category "${category.name}"`,
+				writes: [
+					{
+						type: 'set',
+						path: `users/${userId}/storyCategories/${category.id}`,
+						data: cleanCategory,
+						merge: true,
+						serverTimestamps: ['serverTimestamp']
+					}
+				]
+			});
 		} catch (error) {
-			console.error('Failed to sync category to Firestore:', error);
+			console.error('Failed to queue category for Firestore:', error);
 		}
 	}
 
@@ -2694,7 +2784,8 @@ class StoriesDB {
 			userId,
 			lastSyncTimestamp: this.lastSyncTimestamp,
 			deviceId: this.getDeviceId(),
-			syncVersion: 1
+			syncVersion: 2,
+			serverCursors: { ...this.serverCursors }
 		};
 
 		const transaction = this.db.transaction([this.SYNC_STORE_NAME], 'readwrite');
@@ -2708,10 +2799,10 @@ class StoriesDB {
 	}
 
 	/**
-	 * Get last sync timestamp
+	 * Load the current user's sync metadata
 	 */
-	private async getLastSyncTimestamp(): Promise<number> {
-		if (!this.db || !this.currentUser) return 0;
+	private async loadSyncMetadata(): Promise<SyncMetadata | null> {
+		if (!this.db || !this.currentUser) return null;
 
 		const userId = this.currentUser.uid;
 		const transaction = this.db.transaction([this.SYNC_STORE_NAME], 'readonly');
@@ -2719,11 +2810,8 @@ class StoriesDB {
 
 		return new Promise((resolve) => {
 			const request = store.get(userId);
-			request.onsuccess = () => {
-				const metadata = request.result as SyncMetadata;
-				resolve(metadata?.lastSyncTimestamp || 0);
-			};
-			request.onerror = () => resolve(0);
+			request.onsuccess = () => resolve((request.result as SyncMetadata) ?? null);
+			request.onerror = () => resolve(null);
 		});
 	}
 
@@ -2901,21 +2989,22 @@ class StoriesDB {
 			);
 
 			// Step 2: Update in Firestore (for cross-device sync)
-			if (this.isOnline) {
-				try {
-					const docRef = doc(db, 'users', userId, 'followedStories', followedStoryId);
-					await updateDoc(docRef, {
-						categories: categories,
-						dateModified: Date.now()
-					});
-					console.log(`📤 Updated followed story categories in Firestore: ${updatedStory.title}`);
-				} catch (firestoreError) {
-					console.warn(
-						'Failed to update followed story in Firestore, but IndexedDB update succeeded:',
-						firestoreError
-					);
-					// Continue - IndexedDB update succeeded
-				}
+			try {
+				await syncOutbox.enqueue({
+					userId,
+					source: 'stories',
+					label: `Update categories of followed story "${updatedStory.title}"`,
+					writes: [
+						{
+							type: 'update',
+							path: `users/${userId}/followedStories/${followedStoryId}`,
+							data: { categories: [...categories], dateModified: updatedStory.dateModified }
+						}
+					]
+				});
+			} catch (firestoreError) {
+				console.warn('Failed to queue followed story categories for Firestore:', firestoreError);
+				// Continue - IndexedDB update succeeded
 			}
 
 			return updatedStory;
@@ -2944,11 +3033,12 @@ class StoriesDB {
 			const storyRef = doc(db, 'users', userId, 'stories', storyId);
 			const storyDoc = await getDoc(storyRef);
 
-			if (!storyDoc.exists()) {
+			// Deleted stories leave a tombstone
+			if (!storyDoc.exists() || isTombstone(storyDoc.data())) {
 				return null;
 			}
 
-			const storyData = storyDoc.data();
+			const storyData = withoutServerFields(storyDoc.data());
 
 			// Only return if story is public (unless it's our own story)
 			if (!storyData.isPublic && userId !== this.currentUser.uid) {
@@ -2969,7 +3059,7 @@ class StoriesDB {
 				dateModified: storyData.dateModified || Date.now(),
 				isPublic: storyData.isPublic || false,
 				currentVersion: storyData.currentVersion || 1,
-				searchText: storyData.searchText || '',
+				searchText: storyData.searchText || generateSearchText(storyData),
 				categories: [], // Clear categories for followed stories
 				// Add author metadata
 				authorName: authorProfile?.displayName || 'Unknown',
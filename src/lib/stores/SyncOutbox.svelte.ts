@@ -0,0 +1,274 @@
+import { browser } from '$app/environment';
+import { db } from '$lib/firebase';
+import type { User } from 'firebase/auth';
+import {
+	MAX_BATCH_WRITES,
+	OUTBOX_SYNC_TAG,
+	appendOperation,
+	deleteOperation,
+	getOperations,
+	replayOutbox,
+	updateOperation,
+	type ReplayResult
+} from '$lib/utils/outbox';
+
+/**
+ * Sync Outbox using Svelte 5 runes
+ * Durable, ordered log of the Firestore writes made by FeaturesDB, StoriesDB and userService.
+ * Writes are stored in IndexedDB first and replayed in order with retry and backoff, from the
+ * app while it's open and from the service worker's Background Sync after the tab was closed
+ */
+class SyncOutbox {
+	private currentUser: User | null = null;
+	private isOnline = $state(navigator?.onLine ?? true);
+	private isReplaying = $state(false);
+	private replayPromise: Promise<ReplayResult | null> | null = null;
+	private retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+	// All operations in the outbox, for the debug view
+	private _operations = $state<OutboxOperation[]>([]);
+	private _lastReplay = $state<{ time: number; result: ReplayResult } | null>(null);
+
+	constructor() {
+		if (browser) {
+			window.addEventListener('online', () => {
+				this.isOnline = true;
+				console.log('🌐 SyncOutbox: Connection restored - replaying outbox');
+				this.flush();
+			});
+
+			window.addEventListener('offline', () => {
+				this.isOnline = false;
+				this.clearRetryTimer();
+			});
+
+			// The service worker replayed the outbox in the background
+			navigator.serviceWorker?.addEventListener('message', (event) => {
+				if (event.data?.type === 'OUTBOX_REPLAYED') {
+					this.refresh();
+				}
+			});
+
+			this.refresh();
+		}
+	}
+
+	/**
+	 * Handle user change - called from components when auth state changes
+	 */
+	async handleUserChange(newUser: User | null): Promise<void> {
+		if (!browser) return;
+
+		this.currentUser = newUser;
+		this.clearRetryTimer();
+		await this.refresh();
+
+		if (newUser) {
+			this.flush();
+		}
+	}
+
+	// Getters
+	get operations(): OutboxOperation[] {
+		return this._operations;
+	}
+
+	get pendingCount(): number {
+		return this._operations.filter((operation) => operation.status === 'pending').length;
+	}
+
+	get failedCount(): number {
+		return this._operations.filter((operation) => operation.status === 'failed').length;
+	}
+
+	get replaying(): boolean {
+		return this.isReplaying;
+	}
+
+	get lastReplay() {
+		return this._lastReplay;
+	}
+
+	/**
+	 * Append an operation to the outbox and start replaying it
+	 * Resolves once the operation is stored, not when it reaches Firestore; use flush() to wait
+	 * for that
+	 */
+	async enqueue(
+		operation: Pick<OutboxOperation, 'userId' | 'source' | 'label' | 'writes'>
+	): Promise<OutboxOperation> {
+		const stored = await appendOperation({
+			...operation,
+			id: crypto.randomUUID(),
+			createdAt: Date.now(),
+			attempts: 0,
+			nextAttemptAt: 0,
+			status: 'pending'
+		});
+
+		await this.refresh();
+		this.flush();
+		return stored;
+	}
+
+	/**
+	 * Append many writes as operations of at most one write batch each, e.g. to upload thousands
+	 * of changed places after sign-in
+	 */
+	async enqueueBatched(
+		operation: Pick<OutboxOperation, 'userId' | 'source' | 'label' | 'writes'>
+	): Promise<OutboxOperation[]> {
+		const chunkCount = Math.ceil(operation.writes.length / MAX_BATCH_WRITES);
+		const stored: OutboxOperation[] = [];
+
+		for (let chunk = 0; chunk < chunkCount; chunk++) {
+			stored.push(
+				await appendOperation({
+					...operation,
+					id: crypto.randomUUID(),
+					label:
+						chunkCount > 1 ? `${operation.label} (${chunk + 1}/${chunkCount})` : operation.label,
+					writes: operation.writes.slice(chunk * MAX_BATCH_WRITES, (chunk + 1) * MAX_BATCH_WRITES),
+					createdAt: Date.now(),
+					attempts: 0,
+					nextAttemptAt: 0,
+					status: 'pending'
+				})
+			);
+		}
+
+		await this.refresh();
+		this.flush();
+		return stored;
+	}
+
+	/**
+	 * Replay the current user's pending operations now
+	 * Concurrent calls share one replay
+	 */
+	async flush(): Promise<ReplayResult | null> {
+		if (!browser || !this.currentUser || !this.isOnline) {
+			await this.registerBackgroundSync();
+			return null;
+		}
+
+		if (this.replayPromise) {
+			return this.replayPromise;
+		}
+
+		this.clearRetryTimer();
+		this.isReplaying = true;
+		const userId = this.currentUser.uid;
+
+		this.replayPromise = (async () => {
+			try {
+				const result = await replayOutbox(db, userId);
+				this._lastReplay = { time: Date.now(), result };
+
+				if (result.replayed > 0 || result.failed > 0) {
+					console.log(
+						`📮 SyncOutbox: Replayed ${result.replayed} operations, ${result.failed} failed, ${result.pending} pending`
+					);
+				}
+
+				if (result.nextAttemptAt) {
+					this.scheduleRetry(result.nextAttemptAt);
+				}
+				if (result.pending > 0) {
+					await this.registerBackgroundSync();
+				}
+				return result;
+			} catch (error) {
+				console.error('💥 SyncOutbox: Replay failed:', error);
+				await this.registerBackgroundSync();
+				return null;
+			} finally {
+				this.isReplaying = false;
+				this.replayPromise = null;
+				await this.refresh();
+			}
+		})();
+
+		return this.replayPromise;
+	}
+
+	/**
+	 * Queue failed operations for another attempt
+	 */
+	async retryFailed(): Promise<void> {
+		const failed = this._operations.filter((operation) => operation.status === 'failed');
+		for (const operation of failed) {
+			await updateOperation({
+				...$state.snapshot(operation),
+				status: 'pending',
+				attempts: 0,
+				nextAttemptAt: 0,
+				lastError: undefined
+			});
+		}
+		await this.refresh();
+		await this.flush();
+	}
+
+	/**
+	 * Drop failed operations; their changes stay on this device only
+	 */
+	async discardFailed(): Promise<void> {
+		const failed = this._operations.filter((operation) => operation.status === 'failed');
+		for (const operation of failed) {
+			await deleteOperation(operation.seq!);
+		}
+		await this.refresh();
+	}
+
+	/**
+	 * Reload the operations from IndexedDB
+	 */
+	async refresh(): Promise<void> {
+		if (!browser) return;
+
+		try {
+			this._operations = await getOperations();
+		} catch (error) {
+			console.error('Failed to load sync outbox:', error);
+		}
+	}
+
+	/**
+	 * Ask the service worker to replay the outbox once there's a connection, even if the tab is
+	 * closed by then; browsers without Background Sync replay when the app is opened again
+	 */
+	private async registerBackgroundSync(): Promise<void> {
+		if (!browser || !('serviceWorker' in navigator) || this.pendingCount === 0) return;
+
+		try {
+			const registration = (await navigator.serviceWorker.getRegistration()) as
+				| (ServiceWorkerRegistration & { sync?: { register(tag: string): Promise<void> } })
+				| undefined;
+			await registration?.sync?.register(OUTBOX_SYNC_TAG);
+		} catch (error) {
+			console.warn('Background Sync unavailable:', error);
+		}
+	}
+
+	private scheduleRetry(nextAttemptAt: number) {
+		this.clearRetryTimer();
+		this.retryTimer = setTimeout(
+			() => {
+				this.retryTimer = null;
+				this.flush();
+			},
+			Math.max(nextAttemptAt - Date.now(), 0)
+		);
+	}
+
+	private clearRetryTimer() {
+		if (this.retryTimer) {
+			clearTimeout(this.retryTimer);
+			this.retryTimer = null;
+		}
+	}
+}
+
+// Export singleton instance
+export const syncOutbox = new SyncOutbox();
@@ -0,0 +1,884 @@
+import { browser } from '$app/environment';
+import { db } from '$lib/firebase';
+import { syncOutbox } from '$lib/stores/SyncOutbox.svelte';
+import { getOperations } from '$lib/utils/outbox';
+import type { User } from 'firebase/auth';
+import {
+	collection,
+	doc,
+	setDoc,
+	query,
+	onSnapshot,
+	serverTimestamp,
+	orderBy,
+	type DocumentData,
+	type QuerySnapshot,
+	type Unsubscribe
+} from 'firebase/firestore';
+import {
+	DEFAULT_TRIP_DWELL_MINUTES,
+	createTripDays,
+	generateTripSearchText,
+	toDateString,
+	toPointFeature
+} from '$lib/utils/trips';
+
+/**
+ * Trips Database management class using Svelte 5 runes
+ * Handles persistent storage of user trips (dates, day-by-day itineraries, notes and
+ * lodging) with Firestore sync under users/{userId}/trips
+ * Similar to StoriesDB, without sharing or version history
+ */
+class TripsDB {
+	// Storage configuration - with Firestore sync
+	private readonly DB_NAME = 'TripsDB';
+	private readonly DB_VERSION = 1;
+	private readonly TRIPS_STORE_NAME = 'userTrips';
+	private readonly SYNC_STORE_NAME = 'syncMetadata';
+
+	// Index names
+	private readonly INDEX_USER_ID = 'userId';
+	private readonly INDEX_START_DATE = 'startDate';
+	private readonly INDEX_LAST_SYNC = 'lastSync';
+	private readonly INDEX_DATE_MODIFIED = 'dateModified';
+
+	private db: IDBDatabase | null = null;
+	private isInitialized = $state(false);
+	private initPromise: Promise<void> | null = null;
+	private currentUser: User | null = null;
+	private firestoreUnsubscribe: Unsubscribe | null = null;
+	private isSyncing = $state(false);
+	private isOnline = $state(navigator?.onLine ?? true);
+	private lastSyncTimestamp = $state<number>(0);
+
+	// Reactive state for trips count and stats
+	private _stats = $state({
+		total: 0,
+		upcoming: 0,
+		stops: 0
+	});
+
+	// Reactive trigger for changes - increment when trips change
+	private _changeSignal = $state(0);
+
+	constructor() {
+		if (browser) {
+			// Listen to online/offline events
+			window.addEventListener('online', async () => {
+				this.isOnline = true;
+				console.log('🌐 TripsDB: Connection restored - starting sync');
+				if (this.currentUser) {
+					this.startFirestoreSync();
+					await this.uploadPendingLocalChanges();
+				}
+			});
+
+			window.addEventListener('offline', () => {
+				this.isOnline = false;
+				console.log('📴 TripsDB: Connection lost - sync paused');
+				this.stopFirestoreSync();
+			});
+		} else {
+			this.isInitialized = true;
+		}
+	}
+
+	/**
+	 * Handle user change - called from components when auth state changes
+	 */
+	async handleUserChange(newUser: User | null): Promise<void> {
+		if (!browser) return;
+
+		const previousUser = this.currentUser;
+		this.currentUser = newUser;
+
+		// If user changed, reinitialize storage for new user
+		if (previousUser?.uid !== newUser?.uid || !this.initPromise) {
+			this.stopFirestoreSync(); // Stop previous user's sync
+			this.isInitialized = false;
+			this.initPromise = null;
+
+			// Reset stats when user changes
+			this._stats = { total: 0, upcoming: 0, stops: 0 };
+			this._changeSignal++;
+			this.lastSyncTimestamp = 0;
+
+			await this.initializeDatabase();
+
+			// Start sync for new authenticated user
+			if (newUser && this.isOnline) {
+				this.startFirestoreSync();
+			}
+		}
+	}
+
+	// Getters
+	get initialized(): boolean {
+		return this.isInitialized;
+	}
+
+	get stats() {
+		return this._stats;
+	}
+
+	// Reactive trigger for changes
+	get changeSignal(): number {
+		return this._changeSignal;
+	}
+
+	// Sync status getters
+	get syncing(): boolean {
+		return this.isSyncing;
+	}
+
+	get online(): boolean {
+		return this.isOnline;
+	}
+
+	get lastSync(): number {
+		return this.lastSyncTimestamp;
+	}
+
+	/**
+	 * Get current user ID or 'anonymous' if not logged in
+	 */
+	private getCurrentUserId(): string {
+		return this.currentUser?.uid || 'anonymous';
+	}
+
+	/**
+	 * Trigger reactivity - call whenever trips change
+	 */
+	private triggerChange(): void {
+		this._changeSignal++;
+	}
+
+	/**
+	 * Initialize IndexedDB database
+	 */
+	private async initializeDatabase(): Promise<void> {
+		if (this.initPromise) {
+			return this.initPromise;
+		}
+
+		this.initPromise = this._initializeDatabase();
+		return this.initPromise;
+	}
+
+	private async _initializeDatabase(): Promise<void> {
+		if (!browser || typeof indexedDB === 'undefined') {
+			console.warn('IndexedDB not available for TripsDB');
+			this.isInitialized = true;
+			return;
+		}
+
+		try {
+			this.db ??= await this.openDatabase();
+			await this.updateStats();
+			this.isInitialized = true;
+		} catch (error) {
+			console.error('Failed to initialize TripsDB:', error);
+			this.isInitialized = true;
+		}
+	}
+
+	/**
+	 * Open IndexedDB with indexes for per-user queries
+	 */
+	private openDatabase(): Promise<IDBDatabase> {
+		if (!browser || typeof indexedDB === 'undefined') {
+			throw new Error('IndexedDB not available');
+		}
+
+		return new Promise((resolve, reject) => {
+			const request = indexedDB.open(this.DB_NAME, this.DB_VERSION);
+
+			request.onerror = () => reject(request.error);
+			request.onsuccess = () => resolve(request.result);
+
+			request.onupgradeneeded = (event) => {
+				const db = (event.target as IDBOpenDBRequest).result;
+
+				// Create user trips object store
+				let tripsStore: IDBObjectStore;
+				if (!db.objectStoreNames.contains(this.TRIPS_STORE_NAME)) {
+					tripsStore = db.createObjectStore(this.TRIPS_STORE_NAME, {
+						keyPath: ['userId', 'id'] // Compound key: userId + tripId
+					});
+				} else {
+					tripsStore = request.transaction!.objectStore(this.TRIPS_STORE_NAME);
+				}
+
+				// Create sync metadata store
+				if (!db.objectStoreNames.contains(this.SYNC_STORE_NAME)) {
+					db.createObjectStore(this.SYNC_STORE_NAME, { keyPath: 'userId' });
+				}
+
+				// Create indexes for trips store
+				const tripIndexesToCreate = [
+					{ name: this.INDEX_USER_ID, keyPath: 'userId', options: { unique: false } },
+					{ name: this.INDEX_START_DATE, keyPath: 'startDate', options: { unique: false } },
+					{ name: this.INDEX_DATE_MODIFIED, keyPath: 'dateModified', options: { unique: false } },
+					{ name: this.INDEX_LAST_SYNC, keyPath: 'lastSyncTimestamp', options: { unique: false } }
+				];
+
+				tripIndexesToCreate.forEach(({ name, keyPath, options }) => {
+					if (!tripsStore.indexNames.contains(name)) {
+						tripsStore.createIndex(name, keyPath, options);
+					}
+				});
+			};
+		});
+	}
+
+	/**
+	 * Ensure database is initialized
+	 */
+	async ensureInitialized(): Promise<void> {
+		if (!browser) return;
+		if (this.isInitialized) return;
+		if (!this.initPromise) {
+			// Used before the app passed the user in, e.g. from a dialog
+			await this.initializeDatabase();
+			return;
+		}
+		await this.initPromise;
+	}
+
+	/**
+	 * Clean up resources when component is destroyed
+	 */
+	destroy(): void {
+		this.stopFirestoreSync();
+	}
+
+	/**
+	 * Update statistics for current user
+	 */
+	private async updateStats(): Promise<void> {
+		if (!this.db) return;
+
+		try {
+			const trips = await this.getAllTripsFromStore();
+			const today = toDateString(Date.now());
+
+			this._stats = {
+				total: trips.length,
+				upcoming: trips.filter((trip) => trip.endDate >= today).length,
+				stops: trips.reduce(
+					(count, trip) => count + trip.days.reduce((sum, day) => sum + day.stops.length, 0),
+					0
+				)
+			};
+		} catch (error) {
+			console.error('Failed to update trip stats:', error);
+		}
+	}
+
+	// ==================== FIRESTORE SYNC ====================
+
+	/**
+	 * Start Firestore real-time sync for current user
+	 */
+	private startFirestoreSync(): void {
+		if (!this.currentUser || !this.isOnline) return;
+
+		this.stopFirestoreSync(); // Clean up any existing subscription
+
+		try {
+			const userId = this.currentUser.uid;
+
+			// Listen to real-time changes in user's trips collection
+			const tripsQuery = query(
+				collection(db, 'users', userId, 'trips'),
+				orderBy('dateModified', 'desc')
+			);
+
+			this.firestoreUnsubscribe = onSnapshot(
+				tripsQuery,
+				(snapshot) => this.handleFirestoreSnapshot(snapshot),
+				(error) => {
+					console.error('Firestore trips sync error:', error);
+					this.isSyncing = false;
+				}
+			);
+
+			console.log('Started Firestore sync for trips');
+
+			// Initial sync
+			this.uploadPendingLocalChanges();
+		} catch (error) {
+			console.error('Failed to start Firestore trips sync:', error);
+		}
+	}
+
+	/**
+	 * Stop Firestore real-time sync
+	 */
+	private stopFirestoreSync(): void {
+		if (this.firestoreUnsubscribe) {
+			this.firestoreUnsubscribe();
+			this.firestoreUnsubscribe = null;
+			console.log('Stopped Firestore sync for trips');
+		}
+	}
+
+	/**
+	 * Handle Firestore snapshot changes
+	 */
+	private async handleFirestoreSnapshot(snapshot: QuerySnapshot<DocumentData>): Promise<void> {
+		if (!this.currentUser) return;
+
+		this.isSyncing = true;
+
+		try {
+			for (const change of snapshot.docChanges()) {
+				const firestoreData = change.doc.data();
+				const docId = change.doc.id;
+
+				switch (change.type) {
+					case 'added':
+					case 'modified':
+						await this.handleRemoteTripChange(firestoreData, docId);
+						break;
+					case 'removed':
+						await this.handleRemoteTripDeletion(docId);
+						break;
+				}
+			}
+
+			this.lastSyncTimestamp = Date.now();
+			await this.updateSyncMetadata();
+		} catch (error) {
+			console.error('Error handling Firestore trips snapshot:', error);
+		} finally {
+			this.isSyncing = false;
+		}
+	}
+
+	/**
+	 * Handle remote trip changes from Firestore - the most recently modified version wins
+	 */
+	private async handleRemoteTripChange(remoteData: any, firestoreId: string): Promise<void> {
+		if (!remoteData.id) return;
+
+		// Deleted here, and the deletion hasn't reached Firestore yet
+		if (await this.hasPendingDeletion(remoteData.id)) return;
+
+		const localTrip = await this.getTripById(remoteData.id);
+		// Server timestamps aren't part of the trip
+		const { serverTimestamp: _serverTimestamp, ...remoteTrip } = remoteData;
+
+		if (!localTrip || remoteTrip.dateModified > localTrip.dateModified) {
+			await this.storeTripLocally({
+				...remoteTrip,
+				userId: this.getCurrentUserId(),
+				firestoreId,
+				lastSyncTimestamp: Date.now()
+			});
+		} else if (localTrip.dateModified > remoteTrip.dateModified) {
+			// Local is newer, upload to Firestore
+			this.syncTripToFirestore(localTrip);
+		}
+	}
+
+	/**
+	 * Handle remote trip deletion
+	 */
+	private async handleRemoteTripDeletion(firestoreId: string): Promise<void> {
+		const trips = await this.getAllTrips();
+		const tripToDelete = trips.find((trip) => (trip.firestoreId ?? trip.id) === firestoreId);
+
+		if (tripToDelete) {
+			await this.deleteTripLocally(tripToDelete.id);
+		}
+	}
+
+	/**
+	 * Sync trip to Firestore
+	 */
+	private async syncTripToFirestore(trip: Trip): Promise<void> {
+		if (!this.currentUser || !this.isOnline) {
+			console.warn(`Cannot sync trip ${trip.title}: user not authenticated or offline`);
+			return;
+		}
+
+		try {
+			const userId = this.currentUser.uid;
+			console.log(`📤 Syncing trip "${trip.title}" to Firestore`);
+
+			const now = Date.now();
+			const cleanTrip = this.cleanForFirestore({
+				...trip,
+				userId,
+				firestoreId: undefined,
+				pendingUpload: undefined,
+				serverTimestamp: serverTimestamp(),
+				lastSyncTimestamp: now
+			});
+
+			// Use trip ID as Firestore document ID
+			const docRef = doc(db, 'users', userId, 'trips', trip.id);
+			await setDoc(docRef, cleanTrip);
+
+			// Update local trip with sync timestamp
+			await this.storeTripLocally({ ...trip, lastSyncTimestamp: now });
+
+			console.log(`✅ Successfully synced trip "${trip.title}" to Firestore`);
+		} catch (error) {
+			console.error(`❌ Failed to sync trip "${trip.title}" to Firestore:`, error);
+		}
+	}
+
+	/**
+	 * Delete trip from Firestore through the outbox, which replays it when online
+	 */
+	private async deleteTripFromFirestore(tripId: string): Promise<void> {
+		if (!this.currentUser) return;
+
+		try {
+			const userId = this.currentUser.uid;
+			await syncOutbox.enqueue({
+				userId,
+				source: 'trips',
+				label: `Delete trip "${tripId}"`,
+				writes: [{ type: 'delete', path: this.tripPath(userId, tripId) }]
+			});
+		} catch (error) {
+			console.error('Failed to queue trip deletion for Firestore:', error);
+		}
+	}
+
+	/**
+	 * Whether the outbox still holds a deletion of the trip, so it isn't restored from Firestore
+	 */
+	private async hasPendingDeletion(tripId: string): Promise<boolean> {
+		if (!this.currentUser) return false;
+
+		const path = this.tripPath(this.currentUser.uid, tripId);
+		const operations = await getOperations(this.currentUser.uid);
+		return operations.some(
+			(operation) =>
+				operation.status === 'pending' &&
+				operation.writes.some((write) => write.type === 'delete' && write.path === path)
+		);
+	}
+
+	private tripPath(userId: string, tripId: string): string {
+		return `users/${userId}/trips/${tripId}`;
+	}
+
+	/**
+	 * Upload trips changed while offline (called on sign-in and when coming back online)
+	 */
+	async uploadPendingLocalChanges(): Promise<void> {
+		if (!this.currentUser || !this.isOnline) return;
+
+		this.isSyncing = true;
+
+		try {
+			const trips = await this.getAllTrips();
+			let uploadedCount = 0;
+
+			for (const trip of trips) {
+				// Upload if never synced or modified after last sync
+				const lastSyncTimestamp = trip.lastSyncTimestamp || 0;
+				if (lastSyncTimestamp === 0 || trip.dateModified > lastSyncTimestamp) {
+					await this.syncTripToFirestore(trip);
+					uploadedCount++;
+				}
+			}
+
+			if (uploadedCount > 0) {
+				console.log(`📤 Uploaded ${uploadedCount}/${trips.length} trips to Firestore`);
+			}
+
+			this.lastSyncTimestamp = Date.now();
+			await this.updateSyncMetadata();
+		} catch (error) {
+			console.error('❌ Failed to upload pending trip changes:', error);
+		} finally {
+			this.isSyncing = false;
+		}
+	}
+
+	/**
+	 * Update sync metadata
+	 */
+	private async updateSyncMetadata(): Promise<void> {
+		if (!this.db || !this.currentUser) return;
+
+		const metadata: SyncMetadata = {
+			userId: this.currentUser.uid,
+			lastSyncTimestamp: this.lastSyncTimestamp,
+			deviceId: this.getDeviceId(),
+			syncVersion: 1
+		};
+
+		const transaction = this.db.transaction([this.SYNC_STORE_NAME], 'readwrite');
+		const store = transaction.objectStore(this.SYNC_STORE_NAME);
+
+		await new Promise<void>((resolve, reject) => {
+			const request = store.put(metadata);
+			request.onsuccess = () => resolve();
+			request.onerror = () => reject(request.error);
+		});
+	}
+
+	/**
+	 * Get unique device ID
+	 */
+	private getDeviceId(): string {
+		let deviceId = localStorage.getItem('deviceId');
+		if (!deviceId) {
+			deviceId = `device-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+			localStorage.setItem('deviceId', deviceId);
+		}
+		return deviceId;
+	}
+
+	/**
+	 * Clean object by removing undefined values (Firestore doesn't allow undefined)
+	 */
+	private cleanForFirestore(obj: any): any {
+		if (obj === null || obj === undefined) {
+			return null;
+		}
+
+		if (Array.isArray(obj)) {
+			return obj.map((item) => this.cleanForFirestore(item));
+		}
+
+		if (typeof obj === 'object' && obj.constructor === Object) {
+			const cleaned: any = {};
+			for (const [key, value] of Object.entries(obj)) {
+				if (value !== undefined) {
+					cleaned[key] = this.cleanForFirestore(value);
+				}
+			}
+			return cleaned;
+		}
+
+		return obj;
+	}
+
+	// ==================== HELPER METHODS ====================
+
+	/**
+	 * Get all trips of the current user, soonest first
+	 */
+	private async getAllTripsFromStore(): Promise<Trip[]> {
+		if (!this.db) return [];
+
+		const userId = this.getCurrentUserId();
+		const transaction = this.db.transaction([this.TRIPS_STORE_NAME], 'readonly');
+		const index = transaction.objectStore(this.TRIPS_STORE_NAME).index(this.INDEX_USER_ID);
+
+		return new Promise((resolve, reject) => {
+			const request = index.getAll(IDBKeyRange.only(userId));
+			request.onsuccess = () =>
+				resolve(
+					(request.result as Trip[]).sort(
+						(a, b) => a.startDate.localeCompare(b.startDate) || b.dateModified - a.dateModified
+					)
+				);
+			request.onerror = () => reject(request.error);
+		});
+	}
+
+	/**
+	 * Store trip locally without triggering sync
+	 */
+	private async storeTripLocally(trip: Trip): Promise<void> {
+		if (!this.db) return;
+
+		const transaction = this.db.transaction([this.TRIPS_STORE_NAME], 'readwrite');
+		const store = transaction.objectStore(this.TRIPS_STORE_NAME);
+
+		await new Promise<void>((resolve, reject) => {
+			try {
+				const cleanTrip = JSON.parse(JSON.stringify(trip));
+				const request = store.put(cleanTrip);
+				request.onsuccess = () => resolve();
+				request.onerror = () => reject(request.error);
+			} catch (jsonError) {
+				reject(new Error(`Trip serialization failed: ${jsonError}`));
+			}
+		});
+
+		await this.updateStats();
+		this.triggerChange();
+	}
+
+	/**
+	 * Delete trip locally without triggering sync
+	 */
+	private async deleteTripLocally(id: string): Promise<void> {
+		if (!this.db) return;
+
+		const userId = this.getCurrentUserId();
+		const transaction = this.db.transaction([this.TRIPS_STORE_NAME], 'readwrite');
+		const store = transaction.objectStore(this.TRIPS_STORE_NAME);
+
+		await new Promise<void>((resolve, reject) => {
+			const request = store.delete([userId, id]); // Use compound key
+			request.onsuccess = () => resolve();
+			request.onerror = () => reject(request.error);
+		});
+
+		await this.updateStats();
+		this.triggerChange();
+	}
+
+	/**
+	 * Store a changed trip and sync it
+	 */
+	private async saveTrip(trip: Trip): Promise<Trip> {
+		await this.ensureInitialized();
+		if (!this.db) throw new Error('Database not initialized');
+
+		const savedTrip: Trip = {
+			...trip,
+			lodging: this.toPointLodging(trip.lodging),
+			days: trip.days.map((day) => ({
+				...day,
+				lodging: this.toPointLodging(day.lodging),
+				stops: day.stops.map((stop) => ({
+					...stop,
+					feature: toPointFeature(stop.feature) ?? stop.feature
+				}))
+			})),
+			dateModified: Date.now(),
+			searchText: generateTripSearchText(trip)
+		};
+
+		await this.storeTripLocally(savedTrip);
+
+		// Firestore handles sync automatically; offline changes are uploaded when back online
+		if (this.currentUser) {
+			this.syncTripToFirestore(savedTrip);
+		}
+
+		return savedTrip;
+	}
+
+	private toPointLodging(lodging: TripLodging | undefined): TripLodging | undefined {
+		if (!lodging?.feature) return lodging;
+		return { ...lodging, feature: toPointFeature(lodging.feature) ?? lodging.feature };
+	}
+
+	// ==================== PUBLIC API ====================
+
+	async createTrip(
+		title: string,
+		startDate: string,
+		endDate: string,
+		options?: {
+			notes?: string;
+			lodging?: TripLodging;
+			dwellMinutes?: number;
+		}
+	): Promise<Trip> {
+		if (endDate < startDate) {
+			throw new Error('A trip must end on or after its start date');
+		}
+
+		const now = Date.now();
+		const trip: Trip = {
+			id: `trip-${now}-${Math.random().toString(36).substr(2, 9)}`,
+			userId: this.getCurrentUserId(),
+			title: title.trim(),
+			startDate,
+			endDate,
+			days: createTripDays(startDate, endDate),
+			notes: options?.notes?.trim() || undefined,
+			lodging: options?.lodging,
+			dwellMinutes: options?.dwellMinutes ?? DEFAULT_TRIP_DWELL_MINUTES,
+			dateCreated: now,
+			dateModified: now,
+			searchText: ''
+		};
+
+		return this.saveTrip(trip);
+	}
+
+	async getAllTrips(): Promise<Trip[]> {
+		await this.ensureInitialized();
+		return this.getAllTripsFromStore();
+	}
+
+	async getTripById(id: string): Promise<Trip | null> {
+		await this.ensureInitialized();
+		if (!this.db) return null;
+
+		const userId = this.getCurrentUserId();
+		const transaction = this.db.transaction([this.TRIPS_STORE_NAME], 'readonly');
+		const store = transaction.objectStore(this.TRIPS_STORE_NAME);
+
+		return new Promise((resolve, reject) => {
+			const request = store.get([userId, id]); // Use compound key
+			request.onsuccess = () => resolve(request.result || null);
+			request.onerror = () => reject(request.error);
+		});
+	}
+
+	/**
+	 * Update trip details; changing the dates keeps the itineraries of the remaining days
+	 */
+	async updateTrip(
+		id: string,
+		updates: Partial<
+			Pick<Trip, 'title' | 'startDate' | 'endDate' | 'notes' | 'lodging' | 'dwellMinutes'>
+		>
+	): Promise<Trip> {
+		const existingTrip = await this.getTripById(id);
+		if (!existingTrip) {
+			throw new Error(`Trip with ID ${id} not found`);
+		}
+
+		const trip: Trip = { ...existingTrip, ...updates };
+		if (trip.endDate < trip.startDate) {
+			throw new Error('A trip must end on or after its start date');
+		}
+		if (updates.startDate !== undefined || updates.endDate !== undefined) {
+			trip.days = createTripDays(trip.startDate, trip.endDate, existingTrip.days);
+		}
+
+		return this.saveTrip(trip);
+	}
+
+	/**
+	 * Update a day's start time, notes or lodging
+	 */
+	async updateDay(
+		tripId: string,
+		dayId: string,
+		updates: Partial<Pick<TripDay, 'startTime' | 'notes' | 'lodging'>>
+	): Promise<Trip> {
+		return this.updateDayStops(tripId, dayId, (day) => ({ ...day, ...updates }));
+	}
+
+	/**
+	 * Add stops to a day, skipping features that are already on it
+	 */
+	async addStops(tripId: string, dayId: string, features: StoredFeature[]): Promise<Trip> {
+		return this.updateDayStops(tripId, dayId, (day) => {
+			const featureIds = new Set(day.stops.map((stop) => stop.featureId));
+			const newStops = features
+				.filter((feature) => !featureIds.has(feature.id))
+				.map((feature) => ({ featureId: feature.id, feature }));
+			return { ...day, stops: [...day.stops, ...newStops] };
+		});
+	}
+
+	async updateStop(
+		tripId: string,
+		dayId: string,
+		featureId: string,
+		updates: Partial<Pick<TripStop, 'customText' | 'dwellMinutes' | 'notes'>>
+	): Promise<Trip> {
+		return this.updateDayStops(tripId, dayId, (day) => ({
+			...day,
+			stops: day.stops.map((stop) =>
+				stop.featureId === featureId ? { ...stop, ...updates } : stop
+			)
+		}));
+	}
+
+	async removeStop(tripId: string, dayId: string, featureId: string): Promise<Trip> {
+		return this.updateDayStops(tripId, dayId, (day) => ({
+			...day,
+			stops: day.stops.filter((stop) => stop.featureId !== featureId)
+		}));
+	}
+
+	/**
+	 * Move a stop to another day of the same trip
+	 */
+	async moveStop(
+		tripId: string,
+		fromDayId: string,
+		toDayId: string,
+		featureId: string
+	): Promise<Trip> {
+		const trip = await this.getTripById(tripId);
+		if (!trip) {
+			throw new Error(`Trip with ID ${tripId} not found`);
+		}
+
+		const stop = trip.days
+			.find((day) => day.id === fromDayId)
+			?.stops.find((stop) => stop.featureId === featureId);
+		if (!stop || fromDayId === toDayId) return trip;
+
+		trip.days = trip.days.map((day) => {
+			if (day.id === fromDayId) {
+				return { ...day, stops: day.stops.filter((s) => s.featureId !== featureId) };
+			}
+			if (day.id === toDayId && !day.stops.some((s) => s.featureId === featureId)) {
+				return { ...day, stops: [...day.stops, stop] };
+			}
+			return day;
+		});
+
+		return this.saveTrip(trip);
+	}
+
+	private async updateDayStops(
+		tripId: string,
+		dayId: string,
+		update: (day: TripDay) => TripDay
+	): Promise<Trip> {
+		const trip = await this.getTripById(tripId);
+		if (!trip) {
+			throw new Error(`Trip with ID ${tripId} not found`);
+		}
+		if (!trip.days.some((day) => day.id === dayId)) {
+			throw new Error(`Day ${dayId} is not part of trip ${trip.title}`);
+		}
+
+		trip.days = trip.days.map((day) => (day.id === dayId ? update(day) : day));
+		return this.saveTrip(trip);
+	}
+
+	async deleteTrip(id: string): Promise<void> {
+		await this.ensureInitialized();
+		await this.deleteTripLocally(id);
+
+		// Firestore handles sync automatically
+		if (this.currentUser) {
+			this.deleteTripFromFirestore(id);
+		}
+	}
+
+	/**
+	 * Force full sync
+	 */
+	async forceSyncNow(): Promise<void> {
+		if (!this.currentUser || !this.isOnline) {
+			throw new Error('Cannot sync: user not authenticated or offline');
+		}
+
+		await this.uploadPendingLocalChanges();
+	}
+
+	/**
+	 * Get sync status
+	 */
+	getSyncStatus(): {
+		online: boolean;
+		syncing: boolean;
+		lastSync: number;
+		authenticated: boolean;
+	} {
+		return {
+			online: this.isOnline,
+			syncing: this.isSyncing,
+			lastSync: this.lastSyncTimestamp,
+			authenticated: !!this.currentUser
+		};
+	}
+}
+
+// Create and export singleton instance
+export const tripsDB = new TripsDB();
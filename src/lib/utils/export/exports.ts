@@ -0,0 +1,291 @@
+import { getCategoryDisplayName } from '$lib/utils/categories';
+import { getNameInLanguage } from '$lib/utils/language';
+import { getFeatureLngLat } from '$lib/utils/search-query';
+import { writeExport, type ExportFolder, type ExportPath, type ExportWaypoint } from './writers';
+
+/**
+ * Exports of the user's data: bookmark lists, stories with their routes, and the visits
+ * Names are written in the chosen language, with the same fallbacks as on the map
+ */
+
+/**
+ * Export bookmark lists, one KML folder per list
+ * GeoJSON keeps each feature's full geometry and its visits, GPX and KML get a point per place
+ */
+export function exportBookmarkLists(
+	lists: { list: BookmarkList; features: StoredFeature[] }[],
+	format: ExportFormat,
+	language: LanguageCode,
+	name = lists.length === 1 ? lists[0].list.name : 'Saved places'
+): ExportedFile {
+	return writeExport(
+		{
+			name,
+			description: lists.length === 1 ? lists[0].list.description : undefined,
+			folders: lists.map(({ list, features }) => featuresToFolder(list, features, language))
+		},
+		format
+	);
+}
+
+/**
+ * Export a story as a route through its stops, plus the track along the roads when the route
+ * was generated with a routing profile
+ * Without a route result the stops are written in the story's order
+ */
+export function exportStory(
+	story: Story,
+	routeResult: StoryRouteResult | null,
+	format: ExportFormat,
+	language: LanguageCode
+): ExportedFile {
+	const stops = getStoryStops(story, language);
+	const timeline = routeResult?.routeInfo.timeline;
+	const order =
+		timeline?.map((entry) => entry.poiIndex) ??
+		(routeResult?.routeInfo.visitOrder.length
+			? routeResult.routeInfo.visitOrder
+			: stops.map((_, index) => index));
+
+	const waypoints: ExportWaypoint[] = order
+		.filter((index) => stops[index])
+		.map((index, position) => {
+			const entry = timeline?.[position];
+			return {
+				...stops[index],
+				time: entry?.arrivalTime,
+				description: entry ? describeTimelineEntry(entry) : undefined,
+				properties: { stop: position + 1, featureId: stops[index].featureId }
+			};
+		});
+
+	const routes: ExportPath[] =
+		waypoints.length > 1
+			? [
+					{
+						name: story.title,
+						description: story.description,
+						points: waypoints.map((waypoint) => ({
+							name: waypoint.name,
+							coordinates: waypoint.coordinates
+						}))
+					}
+				]
+			: [];
+
+	const trackCoordinates = routeResult ? getRouteCoordinates(routeResult.geoJson) : [];
+	const tracks: ExportPath[] =
+		trackCoordinates.length > 1
+			? [
+					{
+						name: story.title,
+						points: trackCoordinates.map((coordinates) => ({ coordinates })),
+						properties: withoutUndefined({
+							profile: routeResult?.profile,
+							distance: Math.round(routeResult?.totalDistance ?? 0),
+							travelMinutes: Math.round(routeResult?.totalWalkingTime ?? 0)
+						})
+					}
+				]
+			: [];
+
+	return writeExport(
+		{
+			name: story.title,
+			description: story.description,
+			folders: [{ name: story.title, waypoints, routes, tracks }]
+		},
+		format
+	);
+}
+
+/**
+ * Export the visited timeline, a dated waypoint per visit in chronological order
+ */
+export function exportVisits(
+	timeline: { date: number; features: StoredFeature[] }[],
+	format: ExportFormat,
+	language: LanguageCode
+): ExportedFile {
+	const waypoints = timeline.flatMap(({ date, features }) =>
+		features.flatMap((feature) => {
+			const waypoint = featureToWaypoint(feature, language);
+			return waypoint ? [{ ...waypoint, time: date }] : [];
+		})
+	);
+
+	return writeExport(
+		{
+			name: 'Visited places',
+			folders: [{ name: 'Visited places', waypoints, routes: [], tracks: [] }]
+		},
+		format
+	);
+}
+
+/**
+ * Save an exported file through the browser's download
+ */
+export function downloadExport(file: ExportedFile): void {
+	const url = URL.createObjectURL(new Blob([file.content], { type: file.mimeType }));
+	const link = document.createElement('a');
+	link.href = url;
+	link.download = file.fileName;
+	document.body.appendChild(link);
+	link.click();
+	link.remove();
+
+	// Revoking right away can cancel the download in some browsers
+	setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+function featuresToFolder(
+	list: BookmarkList,
+	features: StoredFeature[],
+	language: LanguageCode
+): ExportFolder {
+	const folder: ExportFolder = {
+		name: list.name,
+		description: list.description,
+		waypoints: [],
+		routes: [],
+		tracks: []
+	};
+
+	for (const feature of features) {
+		// Imported tracks stay tracks; places with an outline get a point
+		const lines = getLines(feature.geometry);
+		if (lines.length > 0) {
+			const name = getNameInLanguage(feature.names, language) || 'Track';
+			folder.tracks.push(
+				...lines.map((line) => ({
+					name,
+					points: line.map((coordinates) => ({ coordinates })),
+					properties: { id: feature.id }
+				}))
+			);
+			continue;
+		}
+
+		const waypoint = featureToWaypoint(feature, language);
+		if (waypoint) {
+			folder.waypoints.push(waypoint);
+		}
+	}
+
+	return folder;
+}
+
+function featureToWaypoint(feature: StoredFeature, language: LanguageCode): ExportWaypoint | null {
+	const location = getFeatureLngLat(feature.geometry);
+	if (!location) return null;
+
+	return {
+		name: getNameInLanguage(feature.names, language) || 'Unnamed place',
+		type: feature.category ? getCategoryDisplayName(feature.category) : undefined,
+		coordinates: [location.lng, location.lat],
+		geometry: feature.geometry,
+		properties: withoutUndefined({
+			id: feature.id,
+			category: feature.category,
+			openingHours: feature.openingHours,
+			todo: feature.todo || undefined,
+			visitedDates: feature.visitedDates.length
+				? feature.visitedDates.map((date) => new Date(date).toISOString())
+				: undefined
+		})
+	};
+}
+
+// The same stops, in the same order, as StoryRouter's poiIndex refers to
+function getStoryStops(
+	story: Story,
+	language: LanguageCode
+): (ExportWaypoint & { featureId: string })[] {
+	const stops: (ExportWaypoint & { featureId: string })[] = [];
+
+	for (const node of story.content) {
+		if (node.type !== 'feature' || !node.feature) continue;
+
+		let coordinates: [number, number] | null = null;
+		if ('geometry' in node.feature) {
+			if (node.feature.geometry?.type === 'Point') {
+				coordinates = node.feature.geometry.coordinates as [number, number];
+			}
+		} else if ('lng' in node.feature && 'lat' in node.feature) {
+			coordinates = [node.feature.lng, node.feature.lat];
+		}
+		if (!coordinates) continue;
+
+		stops.push({
+			featureId: node.featureId,
+			name:
+				getNameInLanguage(node.feature.names, language) ||
+				node.customText ||
+				node.displayText ||
+				'Stop',
+			type: node.feature.category ? getCategoryDisplayName(node.feature.category) : undefined,
+			coordinates
+		});
+	}
+
+	return stops;
+}
+
+// The combined route when there is one, otherwise the segments joined in order
+function getRouteCoordinates(geoJson: GeoJSON.FeatureCollection): [number, number][] {
+	const lines = geoJson.features.filter(
+		(feature): feature is GeoJSON.Feature<GeoJSON.LineString> =>
+			feature.geometry?.type === 'LineString'
+	);
+
+	const combined = lines.find(
+		(feature) => feature.properties?.connectionType === 'walking_route_combined'
+	);
+	if (combined) {
+		return combined.geometry.coordinates as [number, number][];
+	}
+
+	const coordinates: [number, number][] = [];
+	const segments = [...lines].sort(
+		(a, b) => (a.properties?.segmentIndex ?? 0) - (b.properties?.segmentIndex ?? 0)
+	);
+	for (const segment of segments) {
+		const path = segment.geometry.coordinates as [number, number][];
+		coordinates.push(...(coordinates.length > 0 ? path.slice(1) : path));
+	}
+	return coordinates;
+}
+
+function getLines(geometry: GeoJSON.Geometry | undefined): [number, number][][] {
+	if (geometry?.type === 'LineString') {
+		return [geometry.coordinates as [number, number][]];
+	}
+	if (geometry?.type === 'MultiLineString') {
+		return geometry.coordinates as [number, number][][];
+	}
+	return [];
+}
+
+function describeTimelineEntry(entry: RouteTimelineEntry): string {
+	const parts = [
+		entry.arrivalTime !== undefined
+			? `Arrive ${formatClock(entry.arrivalTime)}`
+			: `Arrive after ${Math.round(entry.arrivalMinutes)} min`
+	];
+	if (entry.waitMinutes > 0) {
+		parts.push(`wait ${Math.round(entry.waitMinutes)} min`);
+	}
+	if (entry.dwellMinutes > 0) {
+		parts.push(`stay ${Math.round(entry.dwellMinutes)} min`);
+	}
+	return parts.join(', ');
+}
+
+function formatClock(time: number): string {
+	return new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+function withoutUndefined(properties: Record<string, unknown>): Record<string, unknown> {
+	return Object.fromEntries(Object.entries(properties).filter(([, value]) => value !== undefined));
+}
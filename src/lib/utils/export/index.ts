@@ -0,0 +1,18 @@
+/**
+ * Export of bookmark lists, stories and visits for other apps - Main exports
+ * Note: ExportFormat and ExportedFile are globally declared in app.d.ts
+ */
+
+export { exportBookmarkLists, exportStory, exportVisits, downloadExport } from './exports';
+export {
+	EXPORT_FORMATS,
+	writeExport,
+	writeGpx,
+	writeKml,
+	writeGeoJSON,
+	escapeXml,
+	type ExportDocument,
+	type ExportFolder,
+	type ExportWaypoint,
+	type ExportPath
+} from './writers';
@@ -0,0 +1,306 @@
+/**
+ * Writers for the formats other map apps read: GPX for GPS devices, KML for Google Earth and
+ * GeoJSON for GIS tools
+ * Every writer takes the same ExportDocument, with WGS84 [lng, lat] coordinates
+ */
+
+const CREATOR = 'BuzPlanet';
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string; extension: string }[] = [
+	{ format: 'gpx', label: 'GPX', extension: 'gpx' },
+	{ format: 'kml', label: 'KML', extension: 'kml' },
+	{ format: 'geojson', label: 'GeoJSON', extension: 'geojson' }
+];
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+	gpx: 'application/gpx+xml',
+	kml: 'application/vnd.google-earth.kml+xml',
+	geojson: 'application/geo+json'
+};
+
+/**
+ * A place: a GPX waypoint, a KML point placemark or a GeoJSON feature
+ */
+export interface ExportWaypoint {
+	name: string;
+	description?: string;
+	type?: string; // Category, e.g. "Museum"
+	coordinates: [number, number];
+	time?: number; // Timestamp, e.g. of a visit
+	geometry?: GeoJSON.Geometry; // Full geometry for GeoJSON, e.g. a building's outline
+	properties?: Record<string, unknown>; // Extra GeoJSON properties
+}
+
+/**
+ * A path: a GPX route or track, a KML line placemark or a GeoJSON LineString
+ */
+export interface ExportPath {
+	name: string;
+	description?: string;
+	points: { name?: string; coordinates: [number, number] }[];
+	properties?: Record<string, unknown>;
+}
+
+/**
+ * Group of places and paths, a KML folder
+ * GPX has no groups, so the folders' contents are written one after the other
+ */
+export interface ExportFolder {
+	name: string;
+	description?: string;
+	waypoints: ExportWaypoint[];
+	routes: ExportPath[]; // Planned paths through named stops
+	tracks: ExportPath[]; // Recorded or routed paths along roads
+}
+
+export interface ExportDocument {
+	name: string;
+	description?: string;
+	folders: ExportFolder[];
+}
+
+/**
+ * Write a document in the given format
+ */
+export function writeExport(document: ExportDocument, format: ExportFormat): ExportedFile {
+	const extension = EXPORT_FORMATS.find((entry) => entry.format === format)?.extension ?? format;
+	const content =
+		format === 'gpx'
+			? writeGpx(document)
+			: format === 'kml'
+				? writeKml(document)
+				: writeGeoJSON(document);
+
+	return {
+		fileName: `${toFileName(document.name)}.${extension}`,
+		mimeType: MIME_TYPES[format],
+		content
+	};
+}
+
+/**
+ * GPX 1.1: waypoints, then routes, then tracks, as the schema orders them
+ */
+export function writeGpx(document: ExportDocument): string {
+	const waypoints = document.folders.flatMap((folder) => folder.waypoints);
+	const routes = document.folders.flatMap((folder) => folder.routes);
+	const tracks = document.folders.flatMap((folder) => folder.tracks);
+
+	const lines = [
+		'<?xml version="1.0" encoding="UTF-8"?>',
+		`<gpx version="1.1" creator="${CREATOR}" xmlns="http://www.topografix.com/GPX/1/1">`,
+		'\t<metadata>',
+		`\t\t<name>${escapeXml(document.name)}</name>`,
+		...optionalElement('desc', document.description, 2),
+		`\t\t<time>${new Date().toISOString()}</time>`,
+		'\t</metadata>'
+	];
+
+	for (const waypoint of waypoints) {
+		lines.push(`\t<wpt ${gpxCoordinates(waypoint.coordinates)}>`);
+		if (waypoint.time !== undefined) {
+			lines.push(`\t\t<time>${new Date(waypoint.time).toISOString()}</time>`);
+		}
+		lines.push(
+			`\t\t<name>${escapeXml(waypoint.name)}</name>`,
+			...optionalElement('desc', waypoint.description, 2),
+			...optionalElement('type', waypoint.type, 2),
+			'\t</wpt>'
+		);
+	}
+
+	for (const route of routes) {
+		lines.push(
+			'\t<rte>',
+			`\t\t<name>${escapeXml(route.name)}</name>`,
+			...optionalElement('desc', route.description, 2)
+		);
+		for (const point of route.points) {
+			if (point.name) {
+				lines.push(
+					`\t\t<rtept ${gpxCoordinates(point.coordinates)}>`,
+					`\t\t\t<name>${escapeXml(point.name)}</name>`,
+					'\t\t</rtept>'
+				);
+			} else {
+				lines.push(`\t\t<rtept ${gpxCoordinates(point.coordinates)} />`);
+			}
+		}
+		lines.push('\t</rte>');
+	}
+
+	for (const track of tracks) {
+		lines.push(
+			'\t<trk>',
+			`\t\t<name>${escapeXml(track.name)}</name>`,
+			...optionalElement('desc', track.description, 2),
+			'\t\t<trkseg>',
+			...track.points.map((point) => `\t\t\t<trkpt ${gpxCoordinates(point.coordinates)} />`),
+			'\t\t</trkseg>',
+			'\t</trk>'
+		);
+	}
+
+	lines.push('</gpx>', '');
+	return lines.join('\n');
+}
+
+/**
+ * KML 2.2 with a folder per ExportFolder
+ */
+export function writeKml(document: ExportDocument): string {
+	const lines = [
+		'<?xml version="1.0" encoding="UTF-8"?>',
+		'<kml xmlns="http://www.opengis.net/kml/2.2">',
+		'\t<Document>',
+		`\t\t<name>${escapeXml(document.name)}</name>`,
+		...optionalElement('description', document.description, 2)
+	];
+
+	for (const folder of document.folders) {
+		lines.push(
+			'\t\t<Folder>',
+			`\t\t\t<name>${escapeXml(folder.name)}</name>`,
+			...optionalElement('description', folder.description, 3)
+		);
+
+		for (const waypoint of folder.waypoints) {
+			lines.push(
+				'\t\t\t<Placemark>',
+				`\t\t\t\t<name>${escapeXml(waypoint.name)}</name>`,
+				...optionalElement('description', waypoint.description, 4)
+			);
+			if (waypoint.time !== undefined) {
+				lines.push(
+					`\t\t\t\t<TimeStamp><when>${new Date(waypoint.time).toISOString()}</when></TimeStamp>`
+				);
+			}
+			if (waypoint.type) {
+				lines.push(
+					'\t\t\t\t<ExtendedData>',
+					`\t\t\t\t\t<Data name="type"><value>${escapeXml(waypoint.type)}</value></Data>`,
+					'\t\t\t\t</ExtendedData>'
+				);
+			}
+			lines.push(
+				`\t\t\t\t<Point><coordinates>${kmlCoordinates(waypoint.coordinates)}</coordinates></Point>`,
+				'\t\t\t</Placemark>'
+			);
+		}
+
+		for (const path of [...folder.routes, ...folder.tracks]) {
+			lines.push(
+				'\t\t\t<Placemark>',
+				`\t\t\t\t<name>${escapeXml(path.name)}</name>`,
+				...optionalElement('description', path.description, 4),
+				'\t\t\t\t<LineString>',
+				'\t\t\t\t\t<tessellate>1</tessellate>',
+				`\t\t\t\t\t<coordinates>${path.points.map((point) => kmlCoordinates(point.coordinates)).join(' ')}</coordinates>`,
+				'\t\t\t\t</LineString>',
+				'\t\t\t</Placemark>'
+			);
+		}
+
+		lines.push('\t\t</Folder>');
+	}
+
+	lines.push('\t</Document>', '</kml>', '');
+	return lines.join('\n');
+}
+
+/**
+ * GeoJSON FeatureCollection; each feature's "folder" property keeps the grouping
+ */
+export function writeGeoJSON(document: ExportDocument): string {
+	const features: GeoJSON.Feature[] = [];
+
+	for (const folder of document.folders) {
+		for (const waypoint of folder.waypoints) {
+			features.push({
+				type: 'Feature',
+				properties: withoutEmpty({
+					name: waypoint.name,
+					description: waypoint.description,
+					type: waypoint.type,
+					time: waypoint.time !== undefined ? new Date(waypoint.time).toISOString() : undefined,
+					folder: folder.name,
+					...waypoint.properties
+				}),
+				geometry: waypoint.geometry ?? { type: 'Point', coordinates: waypoint.coordinates }
+			});
+		}
+
+		for (const [kind, paths] of [
+			['route', folder.routes],
+			['track', folder.tracks]
+		] as const) {
+			for (const path of paths) {
+				features.push({
+					type: 'Feature',
+					properties: withoutEmpty({
+						name: path.name,
+						description: path.description,
+						kind,
+						folder: folder.name,
+						...path.properties
+					}),
+					geometry: {
+						type: 'LineString',
+						coordinates: path.points.map((point) => point.coordinates)
+					}
+				});
+			}
+		}
+	}
+
+	const collection = {
+		type: 'FeatureCollection',
+		name: document.name,
+		features
+	};
+	return JSON.stringify(collection);
+}
+
+export function escapeXml(text: string): string {
+	return text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&apos;');
+}
+
+function optionalElement(tag: string, text: string | undefined, depth: number): string[] {
+	return text ? [`${'\t'.repeat(depth)}<${tag}>${escapeXml(text)}</${tag}>`] : [];
+}
+
+function gpxCoordinates([lng, lat]: [number, number]): string {
+	return `lat="${roundCoordinate(lat)}" lon="${roundCoordinate(lng)}"`;
+}
+
+function kmlCoordinates([lng, lat]: [number, number]): string {
+	return `${roundCoordinate(lng)},${roundCoordinate(lat)}`;
+}
+
+// 7 decimals is about 1 cm, more than any GPS receiver resolves
+function roundCoordinate(value: number): number {
+	return Math.round(value * 1e7) / 1e7;
+}
+
+function withoutEmpty(properties: Record<string, unknown>): Record<string, unknown> {
+	return Object.fromEntries(
+		Object.entries(properties).filter(
+			([, value]) => value !== undefined && value !== '' && value !== null
+		)
+	);
+}
+
+// Keep letters of any script, so names like "東京" still make a readable file name
+function toFileName(name: string): string {
+	const fileName = name
+		.trim()
+		.replace(/[\\/:*?"<>|\u0000-\u001f]+/g, '')
+		.replace(/\s+/g, '-')
+		.slice(0, 80);
+	return fileName || 'export';
+}
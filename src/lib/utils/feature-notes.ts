@@ -0,0 +1,98 @@
+/**
+ * Rich text of feature notes
+ * The notes editor is a contenteditable element, so its HTML is reduced to a few formatting
+ * tags before it's stored, and again before it's rendered, as notes sync from other devices
+ */
+
+// Tags kept from the editor; everything else is replaced by its text
+const ALLOWED_TAGS = new Set([
+	'B',
+	'STRONG',
+	'I',
+	'EM',
+	'U',
+	'S',
+	'UL',
+	'OL',
+	'LI',
+	'BR',
+	'P',
+	'DIV'
+]);
+
+// Tags dropped together with their content
+const DROPPED_TAGS = new Set(['SCRIPT', 'STYLE', 'TEMPLATE', 'IFRAME', 'OBJECT', 'SVG', 'MATH']);
+
+export const MAX_RATING = 5;
+
+/**
+ * Note HTML with only the allowed tags and no attributes
+ */
+export function sanitizeNoteHtml(html: string): string {
+	const source = new DOMParser().parseFromString(html, 'text/html').body;
+	const target = document.createElement('div');
+	copyAllowedNodes(source, target);
+
+	const text = target.textContent?.trim() ?? '';
+	return text ? target.innerHTML : '';
+}
+
+function copyAllowedNodes(source: Node, target: Node) {
+	for (const node of Array.from(source.childNodes)) {
+		if (node.nodeType === Node.TEXT_NODE) {
+			target.appendChild(document.createTextNode(node.textContent ?? ''));
+		} else if (node.nodeType === Node.ELEMENT_NODE) {
+			const tag = (node as Element).tagName;
+			if (DROPPED_TAGS.has(tag)) continue;
+
+			if (ALLOWED_TAGS.has(tag)) {
+				const copy = document.createElement(tag.toLowerCase());
+				copyAllowedNodes(node, copy);
+				target.appendChild(copy);
+			} else {
+				copyAllowedNodes(node, target);
+			}
+		}
+	}
+}
+
+/**
+ * Plain text of note HTML, for search and previews
+ */
+export function noteToPlainText(html: string): string {
+	return html
+		.replace(/<(br|\/p|\/div|\/li)\s*\/?>/gi, ' ')
+		.replace(/<[^>]*>/g, '')
+		.replace(/&nbsp;/g, ' ')
+		.replace(/&lt;/g, '<')
+		.replace(/&gt;/g, '>')
+		.replace(/&quot;/g, '"')
+		.replace(/&#39;/g, "'")
+		.replace(/&amp;/g, '&')
+		.replace(/\s+/g, ' ')
+		.trim();
+}
+
+/**
+ * Whether a note has nothing in it, so the feature can drop it
+ */
+export function isEmptyNote(note: FeatureNote): boolean {
+	return !noteToPlainText(note.text) && !note.rating && note.photos.length === 0;
+}
+
+/**
+ * Short description of a note, e.g. for the sync conflict review
+ */
+export function getNotePreview(note: FeatureNote, maxLength = 120): string {
+	const parts: string[] = [];
+	if (note.rating) parts.push('★'.repeat(note.rating));
+
+	const text = noteToPlainText(note.text);
+	if (text) {
+		parts.push(text.length > maxLength ? `${text.slice(0, maxLength)}...` : text);
+	}
+	if (note.photos.length > 0) {
+		parts.push(`${note.photos.length} ${note.photos.length === 1 ? 'photo' : 'photos'}`);
+	}
+	return parts.join(' · ');
+}
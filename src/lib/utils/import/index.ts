@@ -0,0 +1,22 @@
+/**
+ * Import of places and tracks from other apps - Main exports
+ * Note: ImportedItem, ImportedFile and ImportMatch are globally declared in app.d.ts
+ */
+
+export {
+	ImportError,
+	IMPORT_FILE_ACCEPT,
+	detectImportFormat,
+	parseImportFile,
+	parseGpx,
+	parseKml,
+	parseGeoJSON,
+	parseCsv
+} from './parsers';
+export {
+	MATCH_RADIUS_METERS,
+	IMPORT_SOURCE,
+	matchImportedItems,
+	createCustomMapFeature
+} from './matching';
+export { readZipEntries, readZipEntry, type ZipEntry } from './zip';
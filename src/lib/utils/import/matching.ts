@@ -0,0 +1,126 @@
+import { distance } from '@turf/distance';
+import { point } from '@turf/helpers';
+import { rankByQualityAndDistance } from '$lib/utils/search-matching';
+import { getFeatureLngLat } from '$lib/utils/search-query';
+import type { WorkerManager } from '$lib/utils/worker';
+
+/**
+ * Matching of imported items to OSM features in the local MBTiles
+ * A named point becomes the OSM feature with the same name nearby, so it gets the feature's
+ * category, opening hours and map icon; anything else becomes a custom feature
+ */
+
+// How far an OSM feature may be from the imported point and still be the same place
+export const MATCH_RADIUS_METERS = 150;
+
+// Name, prefix and concatenated word matches; fuzzy and category matches are too loose
+const MIN_MATCH_SCORE = 0.8;
+
+// Source of custom features made from imported items
+export const IMPORT_SOURCE = 'import';
+
+/**
+ * Find the OSM feature of each named point, one search at a time so the map's own searches
+ * aren't starved
+ */
+export async function matchImportedItems(
+	items: ImportedItem[],
+	options: {
+		language?: string;
+		onProgress?: (done: number, total: number) => void;
+		signal?: AbortSignal;
+	} = {}
+): Promise<ImportMatch[]> {
+	const { getWorker } = await import('$lib/utils/worker');
+	const worker = getWorker();
+	const matches: ImportMatch[] = [];
+
+	for (const [index, item] of items.entries()) {
+		if (options.signal?.aborted) {
+			matches.push(...items.slice(index).map((item) => ({ item })));
+			break;
+		}
+
+		matches.push(await matchItem(worker, item, options.language));
+		options.onProgress?.(index + 1, items.length);
+	}
+
+	return matches;
+}
+
+async function matchItem(
+	worker: WorkerManager,
+	item: ImportedItem,
+	language?: string
+): Promise<ImportMatch> {
+	const location = getFeatureLngLat(item.geometry);
+	if (item.kind !== 'point' || !item.name || item.name.trim().length < 2 || !location) {
+		return { item };
+	}
+
+	try {
+		const results: SearchResult[] = await worker.searchFeatures(
+			item.name,
+			10,
+			language,
+			location,
+			undefined,
+			[{ key: 'within', value: MATCH_RADIUS_METERS, start: 0, end: 0 }]
+		);
+
+		const [best] = rankByQualityAndDistance(
+			results.filter(
+				(result) => result.matchType !== 'property' && (result.score ?? 0) >= MIN_MATCH_SCORE
+			),
+			location
+		);
+		if (!best) return { item };
+
+		return {
+			item,
+			osmMatch: best,
+			distance: distance(point([location.lng, location.lat]), point([best.lng, best.lat]), {
+				units: 'meters'
+			})
+		};
+	} catch (error) {
+		console.warn(`Failed to match imported item "${item.name}":`, error);
+		return { item };
+	}
+}
+
+/**
+ * Map feature for an imported item without an OSM match
+ * The ID is derived from the item's name and geometry, so importing the same file again
+ * updates the same features instead of duplicating them
+ */
+export function createCustomMapFeature(item: ImportedItem, fallbackName: string): any {
+	const name = item.name || fallbackName;
+
+	return {
+		id: `custom-${hashString(`${item.kind}|${name}|${JSON.stringify(item.geometry)}`)}`,
+		type: 'Feature',
+		properties: {
+			name,
+			class: 'custom',
+			subclass: item.kind
+		},
+		geometry: item.geometry,
+		source: IMPORT_SOURCE,
+		sourceLayer: item.kind
+	};
+}
+
+// Two FNV-1a hashes with different offsets, as a short base-36 string
+function hashString(text: string): string {
+	return [0x811c9dc5, 0x01234567]
+		.map((offset) => {
+			let hash = offset;
+			for (let i = 0; i < text.length; i++) {
+				hash ^= text.charCodeAt(i);
+				hash = Math.imul(hash, 0x01000193);
+			}
+			return (hash >>> 0).toString(36);
+		})
+		.join('');
+}
@@ -0,0 +1,503 @@
+import { readZipEntries, readZipEntry } from './zip';
+
+/**
+ * Readers for files exported by other map apps: GPX waypoints, routes and tracks, KML/KMZ
+ * placemarks, GeoJSON and CSV with latitude/longitude columns
+ * Every reader returns the same ImportedFile shape, with WGS84 [lng, lat] coordinates
+ */
+
+const FORMATS_BY_EXTENSION: Record<string, ImportFormat> = {
+	gpx: 'gpx',
+	kml: 'kml',
+	kmz: 'kmz',
+	geojson: 'geojson',
+	json: 'geojson',
+	csv: 'csv',
+	tsv: 'csv',
+	txt: 'csv'
+};
+
+// File types for <input type="file" accept>
+export const IMPORT_FILE_ACCEPT = '.gpx,.kml,.kmz,.geojson,.json,.csv,.tsv,.txt';
+
+// CSV header names of the coordinate and name columns (lowercase)
+const LATITUDE_COLUMNS = ['lat', 'latitude', 'y', 'breitengrad'];
+const LONGITUDE_COLUMNS = ['lon', 'lng', 'long', 'longitude', 'x', 'längengrad'];
+const NAME_COLUMNS = ['name', 'title', 'label', 'place'];
+const DESCRIPTION_COLUMNS = ['description', 'desc', 'notes', 'note', 'comment'];
+
+// GeoJSON property names used for names and descriptions by common exporters
+const NAME_PROPERTIES = ['name', 'Name', 'title', 'Title', 'label'];
+const DESCRIPTION_PROPERTIES = ['description', 'Description', 'desc', 'notes'];
+
+export class ImportError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'ImportError';
+	}
+}
+
+/**
+ * Format of a file from its extension, or from its content for unknown extensions
+ */
+export function detectImportFormat(fileName: string, text?: string): ImportFormat | null {
+	const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+	if (extension === 'json' && text !== undefined) {
+		return text.trimStart().startsWith('{') ? 'geojson' : null;
+	}
+	if (FORMATS_BY_EXTENSION[extension]) return FORMATS_BY_EXTENSION[extension];
+	if (text === undefined) return null;
+
+	const start = text.trimStart().slice(0, 500);
+	if (start.startsWith('{')) return 'geojson';
+	if (/<gpx[\s>]/i.test(start)) return 'gpx';
+	if (/<kml[\s>]/i.test(start)) return 'kml';
+	return null;
+}
+
+/**
+ * Read an imported file
+ */
+export async function parseImportFile(file: File): Promise<ImportedFile> {
+	const baseName = file.name.replace(/\.[^.]+$/, '');
+	let format = detectImportFormat(file.name);
+
+	if (format === 'kmz') {
+		return { ...parseKml(await readKmz(file), baseName), format: 'kmz' };
+	}
+
+	const text = await file.text();
+	format = detectImportFormat(file.name, text);
+
+	switch (format) {
+		case 'gpx':
+			return parseGpx(text, baseName);
+		case 'kml':
+			return parseKml(text, baseName);
+		case 'geojson':
+			return parseGeoJSON(text, baseName);
+		case 'csv':
+			return parseCsv(text, baseName);
+		default:
+			throw new ImportError(`Unsupported file type: ${file.name}`);
+	}
+}
+
+// ==================== GPX ====================
+
+/**
+ * GPX waypoints become points; routes and tracks become lines
+ */
+export function parseGpx(text: string, fallbackName: string): ImportedFile {
+	const doc = parseXml(text, 'gpx');
+	const root = doc.documentElement;
+	const metadata = getChildren(root, 'metadata')[0];
+	const items: ImportedItem[] = [];
+	let skipped = 0;
+
+	getChildren(root, 'wpt').forEach((wpt, index) => {
+		const position = readGpxPoint(wpt);
+		if (!position) {
+			skipped++;
+			return;
+		}
+		items.push({
+			id: `wpt-${index}`,
+			...readNameAndDescription(wpt),
+			kind: 'point',
+			geometry: { type: 'Point', coordinates: position }
+		});
+	});
+
+	getChildren(root, 'rte').forEach((rte, index) => {
+		const line = getChildren(rte, 'rtept')
+			.map(readGpxPoint)
+			.filter((position) => position !== null);
+		if (line.length < 2) {
+			skipped++;
+			return;
+		}
+		items.push({
+			id: `rte-${index}`,
+			...readNameAndDescription(rte),
+			kind: 'track',
+			geometry: { type: 'LineString', coordinates: line }
+		});
+	});
+
+	getChildren(root, 'trk').forEach((trk, index) => {
+		const segments = getChildren(trk, 'trkseg')
+			.map((segment) =>
+				getChildren(segment, 'trkpt')
+					.map(readGpxPoint)
+					.filter((position) => position !== null)
+			)
+			.filter((segment) => segment.length >= 2);
+		if (segments.length === 0) {
+			skipped++;
+			return;
+		}
+		items.push({
+			id: `trk-${index}`,
+			...readNameAndDescription(trk),
+			kind: 'track',
+			geometry:
+				segments.length === 1
+					? { type: 'LineString', coordinates: segments[0] }
+					: { type: 'MultiLineString', coordinates: segments }
+		});
+	});
+
+	return {
+		format: 'gpx',
+		name: (metadata && getChildText(metadata, 'name')) || fallbackName,
+		items,
+		skipped
+	};
+}
+
+function readGpxPoint(element: Element): number[] | null {
+	return toPosition(element.getAttribute('lon'), element.getAttribute('lat'));
+}
+
+// ==================== KML / KMZ ====================
+
+/**
+ * KML placemarks: points, lines, polygons, multi-geometries and gx:Track
+ */
+export function parseKml(text: string, fallbackName: string): ImportedFile {
+	const doc = parseXml(text, 'kml');
+	const documentElement = getElementsByLocalName(doc, 'Document')[0];
+	const items: ImportedItem[] = [];
+	let skipped = 0;
+
+	getElementsByLocalName(doc, 'Placemark').forEach((placemark, index) => {
+		const geometry = readKmlGeometry(placemark);
+		if (!geometry) {
+			skipped++;
+			return;
+		}
+		items.push({
+			id: `placemark-${index}`,
+			...readNameAndDescription(placemark),
+			kind: getItemKind(geometry),
+			geometry
+		});
+	});
+
+	return {
+		format: 'kml',
+		name: (documentElement && getChildText(documentElement, 'name')) || fallbackName,
+		items,
+		skipped
+	};
+}
+
+/**
+ * The KML document of a KMZ archive: doc.kml, or its first .kml file
+ */
+async function readKmz(file: File): Promise<string> {
+	const buffer = await file.arrayBuffer();
+	const entries = readZipEntries(buffer).filter((entry) =>
+		entry.name.toLowerCase().endsWith('.kml')
+	);
+	const entry = entries.find((entry) => entry.name.toLowerCase() === 'doc.kml') ?? entries[0];
+	if (!entry) {
+		throw new ImportError('The KMZ file contains no KML document');
+	}
+	return new TextDecoder().decode(await readZipEntry(buffer, entry));
+}
+
+function readKmlGeometry(placemark: Element): GeoJSON.Geometry | null {
+	const points: number[][] = [];
+	const lines: number[][][] = [];
+	const polygons: number[][][][] = [];
+
+	for (const point of getElementsByLocalName(placemark, 'Point')) {
+		const [position] = readKmlCoordinates(point);
+		if (position) points.push(position);
+	}
+	for (const line of getElementsByLocalName(placemark, 'LineString')) {
+		const positions = readKmlCoordinates(line);
+		if (positions.length >= 2) lines.push(positions);
+	}
+	for (const track of getElementsByLocalName(placemark, 'Track')) {
+		// gx:Track positions are space separated: "lng lat alt"
+		const positions = getElementsByLocalName(track, 'coord')
+			.map((coord) => {
+				const [lng, lat] = (coord.textContent ?? '').trim().split(/\s+/);
+				return toPosition(lng, lat);
+			})
+			.filter((position) => position !== null);
+		if (positions.length >= 2) lines.push(positions);
+	}
+	for (const polygon of getElementsByLocalName(placemark, 'Polygon')) {
+		const rings = ['outerBoundaryIs', 'innerBoundaryIs']
+			.flatMap((boundary) => getElementsByLocalName(polygon, boundary))
+			.map(readKmlCoordinates)
+			.filter((ring) => ring.length >= 4);
+		if (rings.length > 0) polygons.push(rings);
+	}
+
+	// Lines and areas describe a placemark better than its label point
+	if (polygons.length > 0) {
+		return polygons.length === 1
+			? { type: 'Polygon', coordinates: polygons[0] }
+			: { type: 'MultiPolygon', coordinates: polygons };
+	}
+	if (lines.length > 0) {
+		return lines.length === 1
+			? { type: 'LineString', coordinates: lines[0] }
+			: { type: 'MultiLineString', coordinates: lines };
+	}
+	if (points.length > 0) {
+		return { type: 'Point', coordinates: points[0] };
+	}
+	return null;
+}
+
+// "lng,lat[,alt] lng,lat[,alt] ..." of the element's <coordinates>
+function readKmlCoordinates(element: Element): number[][] {
+	const coordinates = getElementsByLocalName(element, 'coordinates')[0];
+	return (coordinates?.textContent ?? '')
+		.trim()
+		.split(/\s+/)
+		.map((tuple) => {
+			const [lng, lat] = tuple.split(',');
+			return toPosition(lng, lat);
+		})
+		.filter((position) => position !== null);
+}
+
+// ==================== GEOJSON ====================
+
+/**
+ * GeoJSON feature collections, single features or bare geometries
+ */
+export function parseGeoJSON(text: string, fallbackName: string): ImportedFile {
+	let data: any;
+	try {
+		data = JSON.parse(text);
+	} catch {
+		throw new ImportError('The file is not valid JSON');
+	}
+
+	const features: any[] =
+		data?.type === 'FeatureCollection'
+			? (data.features ?? [])
+			: data?.type === 'Feature'
+				? [data]
+				: data?.coordinates
+					? [{ type: 'Feature', properties: {}, geometry: data }]
+					: null;
+	if (!features) {
+		throw new ImportError('The file is not GeoJSON');
+	}
+
+	const items: ImportedItem[] = [];
+	let skipped = 0;
+
+	features.forEach((feature, index) => {
+		const geometry = feature?.geometry;
+		if (!isValidGeometry(geometry)) {
+			skipped++;
+			return;
+		}
+		const properties = feature.properties ?? {};
+		items.push({
+			id: `feature-${index}`,
+			name: findProperty(properties, NAME_PROPERTIES),
+			description: findProperty(properties, DESCRIPTION_PROPERTIES),
+			kind: getItemKind(geometry),
+			geometry:
+				geometry.type === 'MultiPoint'
+					? { type: 'Point', coordinates: geometry.coordinates[0] }
+					: geometry
+		});
+	});
+
+	return {
+		format: 'geojson',
+		name: (typeof data.name === 'string' && data.name) || fallbackName,
+		items,
+		skipped
+	};
+}
+
+function isValidGeometry(geometry: any): geometry is GeoJSON.Geometry {
+	if (!geometry || !Array.isArray(geometry.coordinates)) return false;
+	return [
+		'Point',
+		'MultiPoint',
+		'LineString',
+		'MultiLineString',
+		'Polygon',
+		'MultiPolygon'
+	].includes(geometry.type);
+}
+
+function findProperty(properties: Record<string, any>, names: string[]): string | undefined {
+	for (const name of names) {
+		const value = properties[name];
+		if (typeof value === 'string' && value.trim()) return value.trim();
+	}
+	return undefined;
+}
+
+// ==================== CSV ====================
+
+/**
+ * CSV (or TSV/semicolon separated) with a header row naming latitude and longitude columns
+ */
+export function parseCsv(text: string, fallbackName: string): ImportedFile {
+	const firstLine = text.slice(0, text.indexOf('\n') === -1 ? undefined : text.indexOf('\n'));
+	const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+		firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+	);
+
+	const [header, ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ''), delimiter);
+	const columns = (header ?? []).map((column) => column.trim().toLowerCase());
+	const findColumn = (names: string[]) => columns.findIndex((column) => names.includes(column));
+
+	const latitudeColumn = findColumn(LATITUDE_COLUMNS);
+	const longitudeColumn = findColumn(LONGITUDE_COLUMNS);
+	if (latitudeColumn === -1 || longitudeColumn === -1) {
+		throw new ImportError(
+			'The CSV file needs "lat" and "lon" (or "latitude" and "longitude") columns'
+		);
+	}
+	const nameColumn = findColumn(NAME_COLUMNS);
+	const descriptionColumn = findColumn(DESCRIPTION_COLUMNS);
+
+	const items: ImportedItem[] = [];
+	let skipped = 0;
+
+	rows.forEach((row, index) => {
+		if (row.every((cell) => !cell.trim())) return; // Blank line
+		// Decimal commas only appear when the delimiter isn't a comma
+		const readNumber = (cell: string | undefined) => cell?.trim().replace(',', '.');
+		const position = toPosition(readNumber(row[longitudeColumn]), readNumber(row[latitudeColumn]));
+		if (!position) {
+			skipped++;
+			return;
+		}
+		items.push({
+			id: `row-${index + 1}`,
+			name: nameColumn !== -1 ? row[nameColumn]?.trim() || undefined : undefined,
+			description:
+				descriptionColumn !== -1 ? row[descriptionColumn]?.trim() || undefined : undefined,
+			kind: 'point',
+			geometry: { type: 'Point', coordinates: position }
+		});
+	});
+
+	return { format: 'csv', name: fallbackName, items, skipped };
+}
+
+// Rows of cells, with quoted cells that may contain delimiters, quotes ("") and line breaks
+function parseCsvRows(text: string, delimiter: string): string[][] {
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let cell = '';
+	let quoted = false;
+
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i];
+
+		if (quoted) {
+			if (char === '"' && text[i + 1] === '"') {
+				cell += '"';
+				i++;
+			} else if (char === '"') {
+				quoted = false;
+			} else {
+				cell += char;
+			}
+		} else if (char === '"' && cell === '') {
+			quoted = true;
+		} else if (char === delimiter) {
+			row.push(cell);
+			cell = '';
+		} else if (char === '\n' || char === '\r') {
+			if (char === '\r' && text[i + 1] === '\n') i++;
+			row.push(cell);
+			rows.push(row);
+			row = [];
+			cell = '';
+		} else {
+			cell += char;
+		}
+	}
+
+	if (cell !== '' || row.length > 0) {
+		row.push(cell);
+		rows.push(row);
+	}
+
+	return rows;
+}
+
+// ==================== HELPERS ====================
+
+function parseXml(text: string, rootName: string): Document {
+	const doc = new DOMParser().parseFromString(text, 'application/xml');
+	if (doc.getElementsByTagName('parsererror').length > 0) {
+		throw new ImportError('The file is not valid XML');
+	}
+	if (doc.documentElement.localName.toLowerCase() !== rootName) {
+		throw new ImportError(`The file is not ${rootName.toUpperCase()}`);
+	}
+	return doc;
+}
+
+// Namespace-agnostic lookups: GPX 1.0/1.1 and KML 2.1/2.2 use different namespaces
+function getElementsByLocalName(parent: Document | Element, localName: string): Element[] {
+	return Array.from(parent.getElementsByTagNameNS('*', localName));
+}
+
+function getChildren(parent: Element, localName: string): Element[] {
+	return Array.from(parent.children).filter((child) => child.localName === localName);
+}
+
+function getChildText(parent: Element, localName: string): string | undefined {
+	return getChildren(parent, localName)[0]?.textContent?.trim() || undefined;
+}
+
+function readNameAndDescription(element: Element): { name?: string; description?: string } {
+	return {
+		name: getChildText(element, 'name'),
+		description: stripHtml(getChildText(element, 'desc') ?? getChildText(element, 'description'))
+	};
+}
+
+// KML descriptions are often HTML
+function stripHtml(text: string | undefined): string | undefined {
+	if (!text || !text.includes('<')) return text;
+	const doc = new DOMParser().parseFromString(text, 'text/html');
+	return doc.body.textContent?.trim() || undefined;
+}
+
+function toPosition(
+	lng: string | null | undefined,
+	lat: string | null | undefined
+): number[] | null {
+	const longitude = Number(lng);
+	const latitude = Number(lat);
+	if (lng == null || lat == null || lng === '' || lat === '') return null;
+	if (!Number.isFinite(longitude) || !Number.isFinite(latitude)) return null;
+	if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+	return [longitude, latitude];
+}
+
+function getItemKind(geometry: GeoJSON.Geometry): ImportedItem['kind'] {
+	switch (geometry.type) {
+		case 'Polygon':
+		case 'MultiPolygon':
+			return 'area';
+		case 'LineString':
+		case 'MultiLineString':
+			return 'track';
+		default:
+			return 'point';
+	}
+}
@@ -0,0 +1,95 @@
+/**
+ * Minimal ZIP reader for KMZ files
+ * Reads the central directory and inflates entries with the browser's DecompressionStream,
+ * which covers the stored and deflated entries KMZ files use
+ */
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+
+export interface ZipEntry {
+	name: string;
+	method: number;
+	compressedSize: number;
+	localHeaderOffset: number;
+}
+
+/**
+ * List the entries of a ZIP archive
+ */
+export function readZipEntries(buffer: ArrayBuffer): ZipEntry[] {
+	const view = new DataView(buffer);
+
+	// The end of central directory record is in the last 22 bytes plus an optional comment
+	let end = -1;
+	for (
+		let offset = buffer.byteLength - 22;
+		offset >= Math.max(0, buffer.byteLength - 65557);
+		offset--
+	) {
+		if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) {
+			end = offset;
+			break;
+		}
+	}
+	if (end === -1) {
+		throw new Error('Not a ZIP archive');
+	}
+
+	const entryCount = view.getUint16(end + 10, true);
+	let offset = view.getUint32(end + 16, true);
+	const decoder = new TextDecoder();
+	const entries: ZipEntry[] = [];
+
+	for (let i = 0; i < entryCount; i++) {
+		if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) {
+			throw new Error('Corrupt ZIP central directory');
+		}
+
+		const nameLength = view.getUint16(offset + 28, true);
+		const extraLength = view.getUint16(offset + 30, true);
+		const commentLength = view.getUint16(offset + 32, true);
+
+		entries.push({
+			name: decoder.decode(new Uint8Array(buffer, offset + 46, nameLength)),
+			method: view.getUint16(offset + 10, true),
+			compressedSize: view.getUint32(offset + 20, true),
+			localHeaderOffset: view.getUint32(offset + 42, true)
+		});
+
+		offset += 46 + nameLength + extraLength + commentLength;
+	}
+
+	return entries;
+}
+
+/**
+ * Uncompressed bytes of a ZIP entry
+ */
+export async function readZipEntry(buffer: ArrayBuffer, entry: ZipEntry): Promise<Uint8Array> {
+	const view = new DataView(buffer);
+	const offset = entry.localHeaderOffset;
+
+	if (view.getUint32(offset, true) !== LOCAL_FILE_HEADER) {
+		throw new Error(`Corrupt ZIP entry ${entry.name}`);
+	}
+
+	// The local header's name and extra field lengths can differ from the central directory's
+	const dataStart =
+		offset + 30 + view.getUint16(offset + 26, true) + view.getUint16(offset + 28, true);
+	const data = new Uint8Array(buffer, dataStart, entry.compressedSize);
+
+	if (entry.method === METHOD_STORED) {
+		return data.slice();
+	}
+	if (entry.method !== METHOD_DEFLATED) {
+		throw new Error(`Unsupported compression method ${entry.method} in ${entry.name}`);
+	}
+
+	const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+	return new Uint8Array(await new Response(stream).arrayBuffer());
+}
@@ -7,6 +7,22 @@ export function getCurrentLanguageProperty(): LanguageCode {
 	return appState.language;
 }
 
+// Languages that users can select for place names
+export const LANGUAGE_OPTIONS: LanguageOption[] = [
+	{ code: 'name', label: 'Local' },
+	{ code: 'name:en', label: 'English' },
+	{ code: 'name:fr', label: 'French' },
+	{ code: 'name:de', label: 'German' },
+	{ code: 'name:es', label: 'Spanish' },
+	{ code: 'name:it', label: 'Italian' },
+	{ code: 'name:pt', label: 'Portuguese' },
+	{ code: 'name:zh', label: 'Chinese' },
+	{ code: 'name:ja', label: 'Japanese' },
+	{ code: 'name:ko', label: 'Korean' },
+	{ code: 'name:ar', label: 'Arabic' },
+	{ code: 'name:ru', label: 'Russian' }
+];
+
 /**
  * Get the display name for a feature based on the current language setting
  * Falls back to other available names if the preferred language is not available
@@ -14,15 +30,21 @@ export function getCurrentLanguageProperty(): LanguageCode {
  * @returns The best available name for display
  */
 export function getDisplayName(names: FeatureNames): string {
+	return getNameInLanguage(names, getCurrentLanguageProperty());
+}
+
+/**
+ * Get the name of a feature in the given language, e.g. for exports in another language than
+ * the app's, with the same fallbacks as getDisplayName
+ */
+export function getNameInLanguage(names: FeatureNames, language: LanguageCode): string {
 	if (!names || typeof names !== 'object') {
 		return '';
 	}
 
-	const currentLanguage = getCurrentLanguageProperty();
-
-	// Try the current language setting first
-	if (names[currentLanguage]) {
-		return names[currentLanguage];
+	// Try the requested language first
+	if (names[language]) {
+		return names[language];
 	}
 
 	// Fallback hierarchy: local name -> English -> first available name
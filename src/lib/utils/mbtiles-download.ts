@@ -0,0 +1,436 @@
+/**
+ * Resumable MBTiles downloads from R2 into OPFS.
+ *
+ * Files are fetched from /api/download in HTTP Range chunks and appended to an OPFS
+ * temp file by the search worker. Progress lives in OPFS, so a download can be paused,
+ * survive a reload or a dropped connection, and continue from the last written byte.
+ * Once complete, the worker checks the file against the R2 size/ETag before moving it
+ * into place where scanDatabases will pick it up.
+ *
+ * Outdated files can instead be patched from a tile-level delta ("<key>.delta.json",
+ * see scripts/build-mbtiles-delta.mjs) when one is published for the local version.
+ */
+
+import type { DualWorkerManager } from '$lib/utils/worker/dualWorkerManager';
+
+const DEFAULT_CHUNK_SIZE = 8 * 1024 * 1024; // 8MB per range request
+const MAX_CHUNK_RETRIES = 5;
+const RETRY_BASE_DELAY = 1000;
+// Fall back to a full download when deltas would transfer more than this share of the file
+const MAX_DELTA_SIZE_RATIO = 0.5;
+
+export interface MBTilesDownloadOptions {
+	signal?: AbortSignal;
+	chunkSize?: number;
+	onProgress?: (state: DownloadProgressState) => void;
+}
+
+export type MBTilesDownloadOutcome = 'completed' | 'paused';
+
+// 'unavailable' means no usable delta chain exists and a full download is needed
+export type MBTilesUpdateOutcome = MBTilesDownloadOutcome | 'unavailable';
+
+// The new version's size and date come from the response that revealed the change
+class ObjectChangedError extends Error {
+	constructor(
+		public newEtag: string | undefined,
+		public newSize: number | undefined,
+		public newLastModified: string | undefined
+	) {
+		super('Remote file changed during download');
+		this.name = 'ObjectChangedError';
+	}
+}
+
+// Strip weak validators and quotes so list/header ETags compare equal
+export function normalizeEtag(etag: string | null | undefined): string | undefined {
+	if (!etag) return undefined;
+	return etag.replace(/^W\//, '').replace(/"/g, '');
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+	return new Promise((resolve, reject) => {
+		const onAbort = () => {
+			clearTimeout(timer);
+			reject(new DOMException('Aborted', 'AbortError'));
+		};
+		const timer = setTimeout(() => {
+			signal?.removeEventListener('abort', onAbort);
+			resolve();
+		}, ms);
+		signal?.addEventListener('abort', onAbort, { once: true });
+	});
+}
+
+function isAbortError(error: unknown): boolean {
+	return error instanceof DOMException && error.name === 'AbortError';
+}
+
+/**
+ * Download (or resume) a single R2 file into OPFS.
+ * Resolves with 'paused' when the signal aborts; the partial data stays in OPFS.
+ */
+export async function downloadMBTilesFile(
+	worker: DualWorkerManager,
+	file: FileComparisonResult,
+	options: MBTilesDownloadOptions = {}
+): Promise<MBTilesDownloadOutcome> {
+	const { signal, chunkSize = DEFAULT_CHUNK_SIZE, onProgress } = options;
+	const { filename } = file;
+	// Replaced by the new version's details if the file changes on the server mid-download
+	let r2File = file.r2File;
+	let expectedEtag = normalizeEtag(r2File.etag);
+
+	const report = (status: DownloadProgressState['status'], bytesDownloaded: number) => {
+		onProgress?.({ status, bytesDownloaded, totalBytes: r2File.size });
+	};
+
+	// Resume only if the partial data belongs to the same R2 object version
+	let pending = await worker.getDownloadStatus(filename);
+	if (
+		pending &&
+		(pending.size !== r2File.size ||
+			pending.key !== r2File.key ||
+			(expectedEtag && pending.etag && pending.etag !== expectedEtag))
+	) {
+		console.log(`♻️ Remote ${filename} changed since last attempt, restarting download`);
+		await worker.discardDownload(filename);
+		pending = null;
+	}
+
+	if (!pending) {
+		pending = await worker.beginDownload(filename, {
+			key: r2File.key,
+			size: r2File.size,
+			etag: expectedEtag,
+			lastModified: r2File.lastModified
+		});
+	} else {
+		console.log(`⏯️ Resuming ${filename} at ${pending.bytesDownloaded}/${r2File.size} bytes`);
+		expectedEtag = expectedEtag ?? pending.etag;
+	}
+
+	let offset = pending.bytesDownloaded;
+	report('downloading', offset);
+
+	try {
+		while (offset < r2File.size) {
+			if (signal?.aborted) {
+				report('paused', offset);
+				return 'paused';
+			}
+
+			const end = Math.min(offset + chunkSize, r2File.size) - 1;
+			let attempt = 0;
+
+			while (true) {
+				try {
+					const chunk = await fetchChunk(
+						r2File.key,
+						offset,
+						end,
+						expectedEtag,
+						signal,
+						(received) => report('downloading', offset + received)
+					);
+					offset = await worker.writeDownloadChunk(filename, chunk.buffer, offset);
+					expectedEtag = expectedEtag ?? chunk.etag;
+					break;
+				} catch (error) {
+					if (isAbortError(error)) throw error;
+
+					if (error instanceof ObjectChangedError) {
+						// Partial data is from an older version - start over
+						await worker.discardDownload(filename);
+						if (error.newSize === undefined) {
+							throw new Error(
+								`${filename} changed on the server; refresh the file list and download it again`
+							);
+						}
+
+						console.log(`♻️ ${filename} changed on the server, restarting download`);
+						r2File = {
+							...r2File,
+							size: error.newSize,
+							etag: error.newEtag,
+							lastModified: error.newLastModified ?? r2File.lastModified
+						};
+						await worker.beginDownload(filename, {
+							key: r2File.key,
+							size: r2File.size,
+							etag: error.newEtag,
+							lastModified: r2File.lastModified
+						});
+						expectedEtag = error.newEtag;
+						offset = 0;
+						break;
+					}
+
+					attempt++;
+					if (attempt > MAX_CHUNK_RETRIES) throw error;
+
+					const retryDelay = RETRY_BASE_DELAY * Math.pow(2, attempt - 1);
+					console.warn(
+						`⚠️ Chunk ${offset}-${end} of ${filename} failed (attempt ${attempt}), retrying in ${retryDelay}ms:`,
+						error
+					);
+
+					// Re-sync with what actually reached OPFS before retrying
+					const status = await worker.getDownloadStatus(filename);
+					offset = status?.bytesDownloaded ?? offset;
+					await delay(retryDelay, signal);
+				}
+			}
+
+			report('downloading', offset);
+		}
+
+		report('verifying', offset);
+		await worker.finalizeDownload(filename);
+		return 'completed';
+	} catch (error) {
+		if (isAbortError(error)) {
+			report('paused', offset);
+			return 'paused';
+		}
+		throw error;
+	}
+}
+
+async function fetchChunk(
+	key: string,
+	start: number,
+	end: number,
+	expectedEtag: string | undefined,
+	signal: AbortSignal | undefined,
+	onBytes: (received: number) => void
+): Promise<{ buffer: ArrayBuffer; etag?: string }> {
+	const headers: Record<string, string> = { Range: `bytes=${start}-${end}` };
+	if (expectedEtag) {
+		headers['If-Range'] = `"${expectedEtag}"`;
+	}
+
+	const response = await fetch(`/api/download?file=${encodeURIComponent(key)}`, {
+		headers,
+		signal,
+		cache: 'no-store'
+	});
+
+	const etag = normalizeEtag(response.headers.get('ETag'));
+
+	if (response.status === 200) {
+		// Range ignored - don't read the full body
+		await response.body?.cancel();
+		if (!expectedEtag || !etag || etag === expectedEtag) {
+			throw new Error('Server does not support range requests');
+		}
+		// If-Range mismatch: the object changed since the download started
+		throw new ObjectChangedError(
+			etag,
+			parseSize(response.headers.get('Content-Length')),
+			parseLastModified(response)
+		);
+	}
+
+	if (response.status !== 206) {
+		throw new Error(`Failed to download chunk: ${response.status}`);
+	}
+
+	if (expectedEtag && etag && etag !== expectedEtag) {
+		await response.body?.cancel();
+		throw new ObjectChangedError(
+			etag,
+			parseSize(response.headers.get('Content-Range')?.split('/')[1]),
+			parseLastModified(response)
+		);
+	}
+
+	const buffer = await readResponseBody(response, end - start + 1, onBytes);
+	return { buffer, etag };
+}
+
+function parseSize(value: string | null | undefined): number | undefined {
+	const size = Number(value);
+	return value && Number.isInteger(size) && size >= 0 ? size : undefined;
+}
+
+function parseLastModified(response: Response): string | undefined {
+	const header = response.headers.get('Last-Modified');
+	const date = header ? new Date(header) : null;
+	return date && !isNaN(date.getTime()) ? date.toISOString() : undefined;
+}
+
+// Read a response body of known length into a single buffer, reporting bytes as they arrive
+async function readResponseBody(
+	response: Response,
+	expectedLength: number,
+	onBytes: (received: number) => void
+): Promise<ArrayBuffer> {
+	const buffer = new Uint8Array(expectedLength);
+	let received = 0;
+
+	const reader = response.body?.getReader();
+	if (!reader) throw new Error('Failed to get response reader');
+
+	while (true) {
+		const { done, value } = await reader.read();
+		if (done) break;
+
+		if (received + value.length > expectedLength) {
+			throw new Error('Received more data than requested');
+		}
+		buffer.set(value, received);
+		received += value.length;
+		onBytes(received);
+	}
+
+	if (received !== expectedLength) {
+		throw new Error(`Incomplete response: expected ${expectedLength} bytes, got ${received}`);
+	}
+
+	return buffer.buffer;
+}
+
+// ==================== DIFFERENTIAL UPDATES ====================
+
+async function fetchDeltaManifest(
+	key: string,
+	signal?: AbortSignal
+): Promise<MBTilesDeltaManifest | null> {
+	const response = await fetch(`/api/download?file=${encodeURIComponent(`${key}.delta.json`)}`, {
+		signal,
+		cache: 'no-store'
+	});
+
+	if (!response.ok) {
+		return null;
+	}
+
+	const manifest = (await response.json()) as MBTilesDeltaManifest;
+	return manifest.format === 'mbtiles-delta/1' ? manifest : null;
+}
+
+/**
+ * Pick the contiguous chain of deltas leading from the local version to the
+ * manifest's current version, or null if there is a gap.
+ */
+export function planDeltaChain(
+	manifest: MBTilesDeltaManifest,
+	localVersion: number
+): MBTilesDelta[] | null {
+	const chain: MBTilesDelta[] = [];
+	let version = localVersion;
+
+	while (version < manifest.version) {
+		const next = manifest.deltas.find((delta) => delta.fromVersion === version);
+		if (!next || next.toVersion <= version) {
+			return null;
+		}
+		chain.push(next);
+		version = next.toVersion;
+	}
+
+	return version === manifest.version && chain.length > 0 ? chain : null;
+}
+
+/**
+ * Patch an outdated local file with the published tile deltas instead of re-downloading it.
+ * Each delta is applied atomically by the worker, so a pause or failure mid-chain leaves the
+ * file at a consistent intermediate version.
+ */
+export async function updateMBTilesFileFromDeltas(
+	worker: DualWorkerManager,
+	file: FileComparisonResult,
+	options: Omit<MBTilesDownloadOptions, 'chunkSize'> = {}
+): Promise<MBTilesUpdateOutcome> {
+	const { signal, onProgress } = options;
+	const { filename, r2File } = file;
+	let totalBytes = 0;
+	let completedBytes = 0;
+
+	const report = (status: DownloadProgressState['status'], bytesDownloaded: number) => {
+		onProgress?.({ status, bytesDownloaded, totalBytes });
+	};
+
+	try {
+		// A full download is already under way - let it continue
+		if (await worker.getDownloadStatus(filename)) {
+			return 'unavailable';
+		}
+
+		const manifest = await fetchDeltaManifest(r2File.key, signal);
+		if (!manifest) {
+			return 'unavailable';
+		}
+
+		const localVersion = await worker.getDatabaseVersion(filename);
+		const chain = planDeltaChain(manifest, localVersion);
+		if (!chain) {
+			console.log(
+				`ℹ️ No delta chain for ${filename} from v${localVersion} to v${manifest.version}`
+			);
+			return 'unavailable';
+		}
+
+		// Make sure the local file really is the base the first delta was built against
+		const baseEtag = chain[0].fromEtag;
+		const localEtag = file.opfsFile?.etag;
+		if (baseEtag && localEtag && /^[0-9a-f]{32}$/i.test(localEtag) && baseEtag !== localEtag) {
+			console.log(`ℹ️ Local ${filename} does not match delta base, using full download`);
+			return 'unavailable';
+		}
+
+		totalBytes = chain.reduce((sum, delta) => sum + delta.dataSize, 0);
+		if (totalBytes > r2File.size * MAX_DELTA_SIZE_RATIO) {
+			console.log(
+				`ℹ️ Deltas for ${filename} are too large (${totalBytes} bytes), using full download`
+			);
+			return 'unavailable';
+		}
+
+		console.log(
+			`🩹 Updating ${filename} v${localVersion}→v${manifest.version} with ${chain.length} delta(s), ${totalBytes} bytes`
+		);
+
+		for (let i = 0; i < chain.length; i++) {
+			const delta = chain[i];
+
+			const response = await fetch(`/api/download?file=${encodeURIComponent(delta.dataKey)}`, {
+				signal,
+				cache: 'no-store'
+			});
+			if (!response.ok) {
+				throw new Error(`Failed to download delta ${delta.dataKey}: ${response.status}`);
+			}
+
+			const tileData = await readResponseBody(response, delta.dataSize, (received) =>
+				report('downloading', completedBytes + received)
+			);
+
+			report('applying', completedBytes + delta.dataSize);
+			const isLast = i === chain.length - 1;
+			await worker.applyTileDelta(
+				filename,
+				delta,
+				tileData,
+				isLast
+					? {
+							lastModified: r2File.lastModified,
+							size: r2File.size,
+							etag: normalizeEtag(r2File.etag)
+						}
+					: undefined
+			);
+			completedBytes += delta.dataSize;
+		}
+
+		return 'completed';
+	} catch (error) {
+		if (isAbortError(error)) {
+			report('paused', completedBytes);
+			return 'paused';
+		}
+		console.warn(`⚠️ Delta update of ${filename} failed, falling back to full download:`, error);
+		return 'unavailable';
+	}
+}
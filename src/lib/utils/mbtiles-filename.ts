@@ -0,0 +1,32 @@
+export interface ParsedMBTilesFilename {
+	type: string; // basemap, poi, transportation, ...
+	continent: string;
+	country: string;
+	region: string;
+}
+
+/**
+ * Parse an offline file name of the form type_continent_country_region.mbtiles
+ */
+export function parseMBTilesFilename(filename: string): ParsedMBTilesFilename {
+	// Remove .mbtiles extension and split by underscore
+	const name = filename.replace(/\.mbtiles$/, '');
+	const parts = name.split('_');
+
+	if (parts.length >= 4) {
+		return {
+			type: parts[0],
+			continent: parts[1],
+			country: parts[2],
+			region: parts.slice(3).join('_') // Join remaining parts in case region has underscores
+		};
+	}
+
+	// Fallback for files that don't match expected format
+	return {
+		type: 'unknown',
+		continent: 'other',
+		country: 'other',
+		region: name
+	};
+}
@@ -0,0 +1,208 @@
+/**
+ * Client helpers for the /api/manifest endpoint, which describes every R2 .mbtiles
+ * file (bounds, zoom range, layers, version) without downloading it.
+ */
+
+export async function fetchMBTilesManifest(prefix = ''): Promise<MBTilesManifestEntry[]> {
+	const params = prefix ? `?prefix=${encodeURIComponent(prefix)}` : '';
+	const response = await fetch(`/api/manifest${params}`);
+
+	if (!response.ok) {
+		const errorText = await response.text();
+		throw new Error(
+			`Failed to fetch manifest: ${response.status} ${response.statusText}. ${errorText}`
+		);
+	}
+
+	const data = await response.json();
+
+	if (!data.success) {
+		throw new Error(data.error || 'Failed to fetch manifest');
+	}
+
+	return data.entries || [];
+}
+
+// Rectangles are checked on a grid of (N + 1) x (N + 1) sample points
+const COVERAGE_SAMPLE_GRID = 12;
+
+/**
+ * Coverage rectangles for files with known bounds, one Polygon feature per file.
+ * Files in `highlighted` get a `selected` property for styling.
+ */
+export function createCoverageGeoJSON(
+	files: FileComparisonResult[],
+	highlighted: Set<string> = new Set()
+): GeoJSON.FeatureCollection<GeoJSON.Polygon> {
+	const features: GeoJSON.Feature<GeoJSON.Polygon>[] = [];
+
+	for (const file of files) {
+		const bounds = file.manifest?.bounds;
+		if (!bounds) continue;
+
+		const [west, south, east, north] = bounds;
+		features.push({
+			type: 'Feature',
+			geometry: {
+				type: 'Polygon',
+				coordinates: [
+					[
+						[west, south],
+						[east, south],
+						[east, north],
+						[west, north],
+						[west, south]
+					]
+				]
+			},
+			properties: {
+				filename: file.filename,
+				status: file.status,
+				selected: highlighted.has(file.filename),
+				minzoom: file.manifest?.minzoom ?? null,
+				maxzoom: file.manifest?.maxzoom ?? null
+			}
+		});
+	}
+
+	return { type: 'FeatureCollection', features };
+}
+
+/**
+ * Combined [west, south, east, north] extent of the given files, or null if none have bounds
+ */
+export function getCoverageExtent(
+	files: FileComparisonResult[]
+): [number, number, number, number] | null {
+	let extent: [number, number, number, number] | null = null;
+
+	for (const file of files) {
+		const bounds = file.manifest?.bounds;
+		if (!bounds) continue;
+
+		extent = extent
+			? [
+					Math.min(extent[0], bounds[0]),
+					Math.min(extent[1], bounds[1]),
+					Math.max(extent[2], bounds[2]),
+					Math.max(extent[3], bounds[3])
+				]
+			: [...bounds];
+	}
+
+	return extent;
+}
+
+function containsPoint(
+	bounds: [number, number, number, number],
+	[lng, lat]: [number, number]
+): boolean {
+	return lng >= bounds[0] && lng <= bounds[2] && lat >= bounds[1] && lat <= bounds[3];
+}
+
+// Part of the bounds inside the area, or null if they don't overlap
+function clipBounds(
+	bounds: [number, number, number, number],
+	area: [number, number, number, number]
+): [number, number, number, number] | null {
+	const clipped: [number, number, number, number] = [
+		Math.max(bounds[0], area[0]),
+		Math.max(bounds[1], area[1]),
+		Math.min(bounds[2], area[2]),
+		Math.min(bounds[3], area[3])
+	];
+	return clipped[0] <= clipped[2] && clipped[1] <= clipped[3] ? clipped : null;
+}
+
+function samplePoints(area: [number, number, number, number]): [number, number][] {
+	const [west, south, east, north] = area;
+	if (west === east && south === north) {
+		return [[west, south]];
+	}
+
+	const points: [number, number][] = [];
+	for (let i = 0; i <= COVERAGE_SAMPLE_GRID; i++) {
+		for (let j = 0; j <= COVERAGE_SAMPLE_GRID; j++) {
+			points.push([
+				west + ((east - west) * i) / COVERAGE_SAMPLE_GRID,
+				south + ((north - south) * j) / COVERAGE_SAMPLE_GRID
+			]);
+		}
+	}
+	return points;
+}
+
+// Bytes still to fetch for a file - already downloaded files are free
+function downloadCost(file: FileComparisonResult): number {
+	return file.status === 'up-to-date' ? 0 : file.r2File.size;
+}
+
+/**
+ * Pick the fewest files covering an area, separately for each group (e.g. basemap, poi),
+ * preferring files that are already downloaded and then smaller ones. Parts of the area
+ * no file covers are ignored. Uses greedy set cover over sample points, then drops any
+ * file made redundant by later picks. Besides a grid, the points include the middle of
+ * every file's part of the area, so a file smaller than the grid spacing isn't missed.
+ */
+export function selectCoveringFiles(
+	files: FileComparisonResult[],
+	area: [number, number, number, number],
+	groupOf: (file: FileComparisonResult) => string
+): FileComparisonResult[] {
+	const points = samplePoints(area);
+	const groups = new Map<string, FileComparisonResult[]>();
+
+	for (const file of files) {
+		const bounds = file.manifest?.bounds;
+		const clipped = bounds ? clipBounds(bounds, area) : null;
+		if (!clipped) continue;
+
+		points.push([(clipped[0] + clipped[2]) / 2, (clipped[1] + clipped[3]) / 2]);
+		const group = groupOf(file);
+		groups.set(group, [...(groups.get(group) ?? []), file]);
+	}
+
+	const selected: FileComparisonResult[] = [];
+
+	for (const candidates of groups.values()) {
+		const covers = (file: FileComparisonResult, point: [number, number]) =>
+			containsPoint(file.manifest!.bounds!, point);
+		const coverable = points.filter((point) => candidates.some((file) => covers(file, point)));
+
+		const chosen: FileComparisonResult[] = [];
+		let remaining = coverable;
+
+		while (remaining.length > 0) {
+			let best: FileComparisonResult | null = null;
+			let bestCount = 0;
+
+			for (const file of candidates) {
+				if (chosen.includes(file)) continue;
+				const count = remaining.filter((point) => covers(file, point)).length;
+				if (
+					count > bestCount ||
+					(count === bestCount && best && count > 0 && downloadCost(file) < downloadCost(best))
+				) {
+					best = file;
+					bestCount = count;
+				}
+			}
+
+			if (!best) break;
+			chosen.push(best);
+			remaining = remaining.filter((point) => !covers(best!, point));
+		}
+
+		// Drop files whose points are all covered by the other picks
+		for (const file of [...chosen]) {
+			const others = chosen.filter((other) => other !== file);
+			if (coverable.every((point) => others.some((other) => covers(other, point)))) {
+				chosen.splice(chosen.indexOf(file), 1);
+			}
+		}
+
+		selected.push(...chosen);
+	}
+
+	return selected;
+}
@@ -0,0 +1,162 @@
+/**
+ * End-to-end encryption of feature notes and photos with a passphrase
+ * PBKDF2 turns the passphrase into an AES-GCM key for the content and an HMAC key for the IVs.
+ * Notes are sealed with an IV derived from their content, so the same note always seals to the
+ * same ciphertext and devices comparing synced versions see no change where there was none.
+ * Photos are encrypted with a random IV, as each is uploaded once
+ */
+
+// Recommended by OWASP for PBKDF2-HMAC-SHA256
+export const NOTE_KEY_ITERATIONS = 600000;
+
+// Known content sealed with the keys, to check a passphrase before using it
+const VERIFIER_TEXT = 'buzplanet-notes';
+
+const IV_LENGTH = 12;
+
+export interface NoteKeys {
+	keyId: string; // Identifies the passphrase, to tell content from an older one apart
+	encryptKey: CryptoKey; // AES-GCM
+	ivKey: CryptoKey; // HMAC-SHA256, for the IVs of sealed values
+}
+
+/**
+ * Random salt for a new passphrase
+ */
+export function createSalt(): string {
+	return toBase64(crypto.getRandomValues(new Uint8Array(16)));
+}
+
+/**
+ * Keys for a passphrase; they can be stored in IndexedDB but not exported
+ */
+export async function deriveNoteKeys(
+	passphrase: string,
+	salt: string,
+	iterations: number,
+	keyId: string
+): Promise<NoteKeys> {
+	const baseKey = await crypto.subtle.importKey(
+		'raw',
+		new TextEncoder().encode(passphrase.normalize('NFC')),
+		'PBKDF2',
+		false,
+		['deriveBits']
+	);
+	const bits = new Uint8Array(
+		await crypto.subtle.deriveBits(
+			{ name: 'PBKDF2', hash: 'SHA-256', salt: fromBase64(salt), iterations },
+			baseKey,
+			512
+		)
+	);
+
+	const [encryptKey, ivKey] = await Promise.all([
+		crypto.subtle.importKey('raw', bits.slice(0, 32), 'AES-GCM', false, ['encrypt', 'decrypt']),
+		crypto.subtle.importKey('raw', bits.slice(32), { name: 'HMAC', hash: 'SHA-256' }, false, [
+			'sign'
+		])
+	]);
+	return { keyId, encryptKey, ivKey };
+}
+
+/**
+ * Seal a JSON value
+ */
+export async function sealValue(keys: NoteKeys, value: unknown): Promise<SealedContent> {
+	const plaintext = new TextEncoder().encode(JSON.stringify(sortKeys(value)));
+	const mac = await crypto.subtle.sign('HMAC', keys.ivKey, plaintext);
+	const iv = new Uint8Array(mac.slice(0, IV_LENGTH));
+	const ciphertext = await crypto.subtle.encrypt(
+		{ name: 'AES-GCM', iv },
+		keys.encryptKey,
+		plaintext
+	);
+
+	return {
+		keyId: keys.keyId,
+		iv: toBase64(iv),
+		ciphertext: toBase64(new Uint8Array(ciphertext))
+	};
+}
+
+/**
+ * Open a sealed value; throws if it was sealed with other keys or changed
+ */
+export async function openValue<T>(keys: NoteKeys, sealed: SealedContent): Promise<T> {
+	const plaintext = await crypto.subtle.decrypt(
+		{ name: 'AES-GCM', iv: fromBase64(sealed.iv) },
+		keys.encryptKey,
+		fromBase64(sealed.ciphertext)
+	);
+	return JSON.parse(new TextDecoder().decode(plaintext));
+}
+
+export function createVerifier(keys: NoteKeys): Promise<SealedContent> {
+	return sealValue(keys, VERIFIER_TEXT);
+}
+
+/**
+ * Whether the keys come from the passphrase the verifier was made with
+ */
+export async function checkVerifier(keys: NoteKeys, verifier: SealedContent): Promise<boolean> {
+	try {
+		return (await openValue<string>(keys, verifier)) === VERIFIER_TEXT;
+	} catch {
+		return false;
+	}
+}
+
+export function isSealed(value: unknown): value is SealedContent {
+	return (
+		typeof value === 'object' &&
+		value !== null &&
+		typeof (value as SealedContent).ciphertext === 'string'
+	);
+}
+
+/**
+ * Encrypt file contents, e.g. a photo, with a random IV
+ */
+export async function encryptBytes(
+	keys: NoteKeys,
+	data: ArrayBuffer
+): Promise<{ iv: string; data: ArrayBuffer }> {
+	const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+	const encrypted = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, keys.encryptKey, data);
+	return { iv: toBase64(iv), data: encrypted };
+}
+
+export function decryptBytes(keys: NoteKeys, iv: string, data: ArrayBuffer): Promise<ArrayBuffer> {
+	return crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(iv) }, keys.encryptKey, data);
+}
+
+// Same content, same JSON, whatever order the keys were set in
+function sortKeys(value: unknown): unknown {
+	if (Array.isArray(value)) return value.map(sortKeys);
+	if (typeof value === 'object' && value !== null) {
+		return Object.fromEntries(
+			Object.keys(value)
+				.sort()
+				.map((key) => [key, sortKeys((value as Record<string, unknown>)[key])])
+		);
+	}
+	return value;
+}
+
+function toBase64(bytes: Uint8Array): string {
+	let binary = '';
+	for (let i = 0; i < bytes.length; i++) {
+		binary += String.fromCharCode(bytes[i]);
+	}
+	return btoa(binary);
+}
+
+function fromBase64(base64: string): Uint8Array<ArrayBuffer> {
+	const binary = atob(base64);
+	const bytes = new Uint8Array(binary.length);
+	for (let i = 0; i < binary.length; i++) {
+		bytes[i] = binary.charCodeAt(i);
+	}
+	return bytes;
+}
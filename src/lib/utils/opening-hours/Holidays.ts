@@ -0,0 +1,319 @@
+/**
+ * Public (`PH`) and school (`SH`) holiday tables, keyed by ISO 3166-1 country code
+ *
+ * A few countries' national public holidays are built in. More countries, regional
+ * holidays and school holidays (which are set per region and year) can be plugged in
+ * with registerPublicHolidays / registerSchoolHolidays.
+ */
+
+export interface Holiday {
+	month: number; // 1-12
+	day: number;
+	name: string;
+}
+
+export interface HolidayPeriod {
+	from: string; // YYYY-MM-DD, inclusive
+	to: string; // YYYY-MM-DD, inclusive
+	name: string;
+}
+
+export type PublicHolidayTable = (year: number) => Holiday[];
+
+const publicHolidayTables = new Map<string, PublicHolidayTable>();
+const schoolHolidayTables = new Map<string, HolidayPeriod[]>();
+const publicHolidayCache = new Map<string, Map<string, string>>();
+
+/**
+ * Add or replace the public holidays of a country (or `CC-REGION` for regional tables,
+ * which take precedence over the country's)
+ */
+export function registerPublicHolidays(country: string, table: PublicHolidayTable): void {
+	publicHolidayTables.set(country.toUpperCase(), table);
+	for (const key of [...publicHolidayCache.keys()]) {
+		if (key.startsWith(`${country.toUpperCase()}:`)) publicHolidayCache.delete(key);
+	}
+}
+
+/**
+ * Add school holiday periods of a country, or of a `CC-REGION` when they differ by region
+ */
+export function registerSchoolHolidays(country: string, periods: HolidayPeriod[]): void {
+	const key = country.toUpperCase();
+	schoolHolidayTables.set(key, [...(schoolHolidayTables.get(key) ?? []), ...periods]);
+}
+
+export function hasPublicHolidays(country?: string, region?: string): boolean {
+	return tableKeys(country, region).some((key) => publicHolidayTables.has(key));
+}
+
+export function hasSchoolHolidays(country?: string, region?: string): boolean {
+	return tableKeys(country, region).some((key) => schoolHolidayTables.has(key));
+}
+
+/**
+ * Name of the public holiday on a date, or null
+ */
+export function getPublicHoliday(
+	year: number,
+	month: number,
+	day: number,
+	country?: string,
+	region?: string
+): string | null {
+	const key = tableKeys(country, region).find((candidate) => publicHolidayTables.has(candidate));
+	if (!key) return null;
+
+	const cacheKey = `${key}:${year}`;
+	let holidays = publicHolidayCache.get(cacheKey);
+	if (!holidays) {
+		holidays = new Map(
+			publicHolidayTables.get(key)!(year).map((holiday) => [
+				`${holiday.month}-${holiday.day}`,
+				holiday.name
+			])
+		);
+		publicHolidayCache.set(cacheKey, holidays);
+	}
+	return holidays.get(`${month}-${day}`) ?? null;
+}
+
+/**
+ * Name of the school holiday period containing a date, or null
+ */
+export function getSchoolHoliday(
+	year: number,
+	month: number,
+	day: number,
+	country?: string,
+	region?: string
+): string | null {
+	const date = `${year}-${pad(month)}-${pad(day)}`;
+	for (const key of tableKeys(country, region)) {
+		const period = schoolHolidayTables.get(key)?.find(({ from, to }) => from <= date && date <= to);
+		if (period) return period.name;
+	}
+	return null;
+}
+
+/**
+ * Gregorian Easter Sunday (anonymous Gregorian algorithm)
+ */
+export function getEasterSunday(year: number): { month: number; day: number } {
+	const a = year % 19;
+	const b = Math.floor(year / 100);
+	const c = year % 100;
+	const d = Math.floor(b / 4);
+	const e = b % 4;
+	const f = Math.floor((b + 8) / 25);
+	const g = Math.floor((b - f + 1) / 3);
+	const h = (19 * a + b - d - g + 15) % 30;
+	const i = Math.floor(c / 4);
+	const k = c % 4;
+	const l = (32 + 2 * e + 2 * i - h - k) % 7;
+	const m = Math.floor((a + 11 * h + 22 * l) / 451);
+	const month = Math.floor((h + l - 7 * m + 114) / 31);
+	const day = ((h + l - 7 * m + 114) % 31) + 1;
+	return { month, day };
+}
+
+function tableKeys(country?: string, region?: string): string[] {
+	if (!country) return [];
+	const upper = country.toUpperCase();
+	return region ? [`${upper}-${region.toUpperCase()}`, upper] : [upper];
+}
+
+function pad(value: number): string {
+	return String(value).padStart(2, '0');
+}
+
+// ---------------------------------------------------------------------------------------
+// Built-in national public holidays
+// ---------------------------------------------------------------------------------------
+
+// Date `offset` days from Easter Sunday
+function easter(year: number, offset: number, name: string): Holiday {
+	const { month, day } = getEasterSunday(year);
+	const date = new Date(Date.UTC(year, month - 1, day + offset));
+	return { month: date.getUTCMonth() + 1, day: date.getUTCDate(), name };
+}
+
+// nth weekday (0 = Sunday) of a month; negative n counts from the end
+function nthWeekday(
+	year: number,
+	month: number,
+	weekday: number,
+	n: number,
+	name: string
+): Holiday {
+	if (n > 0) {
+		const first = new Date(Date.UTC(year, month - 1, 1)).getUTCDay();
+		return { month, day: 1 + ((weekday - first + 7) % 7) + (n - 1) * 7, name };
+	}
+	const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+	const last = new Date(Date.UTC(year, month - 1, lastDay)).getUTCDay();
+	return { month, day: lastDay - ((last - weekday + 7) % 7) + (n + 1) * 7, name };
+}
+
+function fixed(month: number, day: number, name: string): Holiday {
+	return { month, day, name };
+}
+
+registerPublicHolidays('DE', (year) => [
+	fixed(1, 1, 'Neujahr'),
+	easter(year, -2, 'Karfreitag'),
+	easter(year, 1, 'Ostermontag'),
+	fixed(5, 1, 'Tag der Arbeit'),
+	easter(year, 39, 'Christi Himmelfahrt'),
+	easter(year, 50, 'Pfingstmontag'),
+	fixed(10, 3, 'Tag der Deutschen Einheit'),
+	fixed(12, 25, '1. Weihnachtstag'),
+	fixed(12, 26, '2. Weihnachtstag')
+]);
+
+registerPublicHolidays('FR', (year) => [
+	fixed(1, 1, "Jour de l'an"),
+	easter(year, 1, 'Lundi de Pâques'),
+	fixed(5, 1, 'Fête du Travail'),
+	fixed(5, 8, 'Victoire 1945'),
+	easter(year, 39, 'Ascension'),
+	easter(year, 50, 'Lundi de Pentecôte'),
+	fixed(7, 14, 'Fête nationale'),
+	fixed(8, 15, 'Assomption'),
+	fixed(11, 1, 'Toussaint'),
+	fixed(11, 11, 'Armistice 1918'),
+	fixed(12, 25, 'Noël')
+]);
+
+registerPublicHolidays('GB', (year) => [
+	fixed(1, 1, "New Year's Day"),
+	easter(year, -2, 'Good Friday'),
+	easter(year, 1, 'Easter Monday'),
+	nthWeekday(year, 5, 1, 1, 'Early May bank holiday'),
+	nthWeekday(year, 5, 1, -1, 'Spring bank holiday'),
+	nthWeekday(year, 8, 1, -1, 'Summer bank holiday'),
+	fixed(12, 25, 'Christmas Day'),
+	fixed(12, 26, 'Boxing Day')
+]);
+
+registerPublicHolidays('IE', (year) => [
+	fixed(1, 1, "New Year's Day"),
+	fixed(3, 17, "Saint Patrick's Day"),
+	easter(year, 1, 'Easter Monday'),
+	nthWeekday(year, 5, 1, 1, 'May Day'),
+	nthWeekday(year, 6, 1, 1, 'June Bank Holiday'),
+	nthWeekday(year, 8, 1, 1, 'August Bank Holiday'),
+	nthWeekday(year, 10, 1, -1, 'October Bank Holiday'),
+	fixed(12, 25, 'Christmas Day'),
+	fixed(12, 26, "Saint Stephen's Day")
+]);
+
+registerPublicHolidays('US', (year) => [
+	fixed(1, 1, "New Year's Day"),
+	nthWeekday(year, 1, 1, 3, 'Martin Luther King Jr. Day'),
+	nthWeekday(year, 2, 1, 3, "Washington's Birthday"),
+	nthWeekday(year, 5, 1, -1, 'Memorial Day'),
+	fixed(6, 19, 'Juneteenth'),
+	fixed(7, 4, 'Independence Day'),
+	nthWeekday(year, 9, 1, 1, 'Labor Day'),
+	nthWeekday(year, 10, 1, 2, 'Columbus Day'),
+	fixed(11, 11, 'Veterans Day'),
+	nthWeekday(year, 11, 4, 4, 'Thanksgiving Day'),
+	fixed(12, 25, 'Christmas Day')
+]);
+
+registerPublicHolidays('NL', (year) => [
+	fixed(1, 1, 'Nieuwjaarsdag'),
+	easter(year, 0, 'Eerste Paasdag'),
+	easter(year, 1, 'Tweede Paasdag'),
+	fixed(4, new Date(Date.UTC(year, 3, 27)).getUTCDay() === 0 ? 26 : 27, 'Koningsdag'),
+	fixed(5, 5, 'Bevrijdingsdag'),
+	easter(year, 39, 'Hemelvaartsdag'),
+	easter(year, 49, 'Eerste Pinksterdag'),
+	easter(year, 50, 'Tweede Pinksterdag'),
+	fixed(12, 25, 'Eerste Kerstdag'),
+	fixed(12, 26, 'Tweede Kerstdag')
+]);
+
+registerPublicHolidays('BE', (year) => [
+	fixed(1, 1, 'Nieuwjaar'),
+	easter(year, 1, 'Paasmaandag'),
+	fixed(5, 1, 'Dag van de Arbeid'),
+	easter(year, 39, 'Onze-Lieve-Heer-Hemelvaart'),
+	easter(year, 50, 'Pinkstermaandag'),
+	fixed(7, 21, 'Nationale feestdag'),
+	fixed(8, 15, 'Onze-Lieve-Vrouw-Hemelvaart'),
+	fixed(11, 1, 'Allerheiligen'),
+	fixed(11, 11, 'Wapenstilstand'),
+	fixed(12, 25, 'Kerstmis')
+]);
+
+registerPublicHolidays('AT', (year) => [
+	fixed(1, 1, 'Neujahr'),
+	fixed(1, 6, 'Heilige Drei Könige'),
+	easter(year, 1, 'Ostermontag'),
+	fixed(5, 1, 'Staatsfeiertag'),
+	easter(year, 39, 'Christi Himmelfahrt'),
+	easter(year, 50, 'Pfingstmontag'),
+	easter(year, 60, 'Fronleichnam'),
+	fixed(8, 15, 'Mariä Himmelfahrt'),
+	fixed(10, 26, 'Nationalfeiertag'),
+	fixed(11, 1, 'Allerheiligen'),
+	fixed(12, 8, 'Mariä Empfängnis'),
+	fixed(12, 25, 'Christtag'),
+	fixed(12, 26, 'Stefanitag')
+]);
+
+registerPublicHolidays('CH', (year) => [
+	fixed(1, 1, 'Neujahr'),
+	easter(year, -2, 'Karfreitag'),
+	easter(year, 1, 'Ostermontag'),
+	easter(year, 39, 'Auffahrt'),
+	easter(year, 50, 'Pfingstmontag'),
+	fixed(8, 1, 'Bundesfeier'),
+	fixed(12, 25, 'Weihnachten'),
+	fixed(12, 26, 'Stephanstag')
+]);
+
+registerPublicHolidays('IT', (year) => [
+	fixed(1, 1, 'Capodanno'),
+	fixed(1, 6, 'Epifania'),
+	easter(year, 1, "Lunedì dell'Angelo"),
+	fixed(4, 25, 'Festa della Liberazione'),
+	fixed(5, 1, 'Festa del Lavoro'),
+	fixed(6, 2, 'Festa della Repubblica'),
+	fixed(8, 15, 'Ferragosto'),
+	fixed(11, 1, 'Ognissanti'),
+	fixed(12, 8, 'Immacolata Concezione'),
+	fixed(12, 25, 'Natale'),
+	fixed(12, 26, 'Santo Stefano')
+]);
+
+registerPublicHolidays('ES', (year) => [
+	fixed(1, 1, 'Año Nuevo'),
+	fixed(1, 6, 'Epifanía del Señor'),
+	easter(year, -2, 'Viernes Santo'),
+	fixed(5, 1, 'Fiesta del Trabajo'),
+	fixed(8, 15, 'Asunción de la Virgen'),
+	fixed(10, 12, 'Fiesta Nacional de España'),
+	fixed(11, 1, 'Todos los Santos'),
+	fixed(12, 6, 'Día de la Constitución'),
+	fixed(12, 8, 'Inmaculada Concepción'),
+	fixed(12, 25, 'Natividad del Señor')
+]);
+
+registerPublicHolidays('PT', (year) => [
+	fixed(1, 1, 'Ano Novo'),
+	easter(year, -2, 'Sexta-feira Santa'),
+	easter(year, 0, 'Páscoa'),
+	fixed(4, 25, 'Dia da Liberdade'),
+	fixed(5, 1, 'Dia do Trabalhador'),
+	easter(year, 60, 'Corpo de Deus'),
+	fixed(6, 10, 'Dia de Portugal'),
+	fixed(8, 15, 'Assunção de Nossa Senhora'),
+	fixed(10, 5, 'Implantação da República'),
+	fixed(11, 1, 'Dia de Todos os Santos'),
+	fixed(12, 1, 'Restauração da Independência'),
+	fixed(12, 8, 'Imaculada Conceição'),
+	fixed(12, 25, 'Natal')
+]);
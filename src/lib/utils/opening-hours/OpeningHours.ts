@@ -0,0 +1,398 @@
+/**
+ * Evaluator for parsed opening_hours rules
+ *
+ * Each local day of the POI is evaluated on its own: rules are applied in order, a normal
+ * or fallback rule replaces what earlier rules said about the day, an additional rule
+ * (`,`) adds to it, and `off` subtracts its times. Spans may run past midnight (22:00-02:00)
+ * and are converted to instants in the POI's time zone, so the result doesn't depend on
+ * the device clock's zone.
+ */
+
+import {
+	parseOpeningHoursRules,
+	type DateRef,
+	type MonthdayRange,
+	type NumberRange,
+	type OpeningHoursRule,
+	type TimeRef,
+	type WeekdayRange,
+	type WeekdaySelector
+} from './OpeningHoursParser';
+import {
+	getEasterSunday,
+	getPublicHoliday,
+	getSchoolHoliday,
+	hasPublicHolidays,
+	hasSchoolHolidays
+} from './Holidays';
+import { getDefaultEventMinutes, getSunEventUtcMinutes } from './SunTimes';
+import {
+	fromWallTime,
+	getTimeZoneOffset,
+	isValidTimeZone,
+	resolveRegion,
+	toWallTime
+} from './TimeZones';
+
+const DAY_MS = 86400000;
+
+// Open-ended spans ("17:00+") without a known closing time last at least this long
+const OPEN_END_MINUTES = 60;
+
+export interface DaySpan {
+	start: number; // Minutes since local midnight
+	end: number; // May exceed 1440 when the span runs past midnight
+	state: 'open' | 'unknown';
+	comment?: string;
+	openEnd?: boolean;
+}
+
+export type OpeningState = 'open' | 'closed' | 'unknown';
+
+export class OpeningHours {
+	readonly rules: OpeningHoursRule[];
+	readonly timeZone: string;
+	readonly country?: string;
+	readonly region?: string;
+	readonly warnings: string[] = [];
+
+	private lng?: number;
+	private lat?: number;
+	private dayCache = new Map<number, DaySpan[]>();
+
+	/**
+	 * Throws OpeningHoursSyntaxError when the value can't be parsed
+	 */
+	constructor(
+		readonly text: string,
+		context: OpeningHoursContext = {}
+	) {
+		this.rules = parseOpeningHoursRules(text);
+		this.lng = context.lng;
+		this.lat = context.lat;
+
+		const resolved = resolveRegion(context.lng, context.lat);
+		this.timeZone =
+			context.timeZone && isValidTimeZone(context.timeZone) ? context.timeZone : resolved.timeZone;
+		this.country = context.country?.toUpperCase() ?? resolved.country;
+		this.region = context.region;
+
+		const holidayTypes = new Set(
+			this.rules.flatMap((rule) => rule.weekdays?.holidays.map((holiday) => holiday.type) ?? [])
+		);
+		if (holidayTypes.has('PH') && !hasPublicHolidays(this.country, this.region)) {
+			this.warnings.push(
+				this.country
+					? `No public holiday table for ${this.country}, PH rules are ignored`
+					: 'Unknown country, PH rules are ignored'
+			);
+		}
+		if (holidayTypes.has('SH') && !hasSchoolHolidays(this.country, this.region)) {
+			this.warnings.push('No school holiday table for this location, SH rules are ignored');
+		}
+	}
+
+	/**
+	 * Comments attached to the rules, e.g. "by appointment"
+	 */
+	get comments(): string[] {
+		return [...new Set(this.rules.flatMap((rule) => (rule.comment ? [rule.comment] : [])))];
+	}
+
+	/**
+	 * Open (or unknown) intervals overlapping [from, to), clipped to it and merged
+	 */
+	getOpenIntervals(from: Date, to: Date): OpenInterval[] {
+		const intervals: OpenInterval[] = [];
+		if (to <= from) return intervals;
+
+		// Spans of earlier days may run into the range (times go up to 48:00)
+		const first = toWallTime(from, this.timeZone);
+		let dayNumber = Math.floor(Date.UTC(first.year, first.month - 1, first.day) / DAY_MS) - 2;
+
+		for (;;) {
+			const date = new Date(dayNumber * DAY_MS);
+			const year = date.getUTCFullYear();
+			const month = date.getUTCMonth() + 1;
+			const day = date.getUTCDate();
+			if (fromWallTime(year, month, day, 0, this.timeZone) >= to) break;
+
+			for (const span of this.getDaySpans(year, month, day)) {
+				const start = fromWallTime(year, month, day, span.start, this.timeZone);
+				const end = fromWallTime(year, month, day, span.end, this.timeZone);
+				const clippedStart = start < from ? from : start;
+				const clippedEnd = end > to ? to : end;
+				if (clippedEnd <= clippedStart) continue;
+
+				intervals.push({
+					start: clippedStart,
+					end: clippedEnd,
+					state: span.state,
+					...(span.comment && { comment: span.comment }),
+					...(span.openEnd && { openEnd: true })
+				});
+			}
+			dayNumber++;
+		}
+
+		return mergeIntervals(intervals);
+	}
+
+	getState(at: Date): { state: OpeningState; comment?: string } {
+		const interval = this.getOpenIntervals(at, new Date(at.getTime() + 60000)).find(
+			(candidate) => candidate.start.getTime() === at.getTime()
+		);
+		if (!interval) return { state: 'closed' };
+		return { state: interval.state, comment: interval.comment };
+	}
+
+	isOpen(at: Date): boolean {
+		return this.getState(at).state === 'open';
+	}
+
+	/**
+	 * Next time the state changes after `at`, or null if it doesn't within the horizon
+	 */
+	getNextChange(at: Date, horizonDays = 8): Date | null {
+		const horizon = new Date(at.getTime() + horizonDays * DAY_MS);
+		const intervals = this.getOpenIntervals(at, horizon);
+		if (intervals.length === 0) return null;
+
+		const [current] = intervals;
+		if (current.start.getTime() > at.getTime()) return current.start;
+		return current.end < horizon ? current.end : null;
+	}
+
+	/**
+	 * Spans of a local date, in minutes since its midnight
+	 */
+	getDaySpans(year: number, month: number, day: number): DaySpan[] {
+		const dayNumber = Math.floor(Date.UTC(year, month - 1, day) / DAY_MS);
+		let spans = this.dayCache.get(dayNumber);
+		if (!spans) {
+			spans = this.evaluateDay(year, month, day);
+			this.dayCache.set(dayNumber, spans);
+		}
+		return spans;
+	}
+
+	private evaluateDay(year: number, month: number, day: number): DaySpan[] {
+		let spans: DaySpan[] = [];
+		let matched = false;
+
+		for (const rule of this.rules) {
+			if (rule.separator === 'fallback' && matched) continue;
+			if (!this.matchesDate(rule, year, month, day)) continue;
+			matched = true;
+
+			const ranges = this.resolveTimes(rule, year, month, day);
+
+			if (rule.modifier === 'closed') {
+				spans = rule.times.length === 0 ? [] : subtractRanges(spans, ranges);
+				continue;
+			}
+
+			if (rule.separator !== 'additional') spans = [];
+			const state = rule.modifier === 'unknown' ? 'unknown' : 'open';
+			spans = subtractRanges(spans, ranges);
+			for (const range of ranges) {
+				spans.push({
+					...range,
+					state,
+					...(rule.comment && { comment: rule.comment })
+				});
+			}
+		}
+
+		return spans.sort((a, b) => a.start - b.start);
+	}
+
+	private resolveTimes(
+		rule: OpeningHoursRule,
+		year: number,
+		month: number,
+		day: number
+	): Array<{ start: number; end: number; openEnd?: boolean }> {
+		if (rule.times.length === 0) return [{ start: 0, end: 1440 }];
+
+		return rule.times.map((span) => {
+			const start = this.resolveTime(span.start, year, month, day);
+			if (!span.end) {
+				return { start, end: Math.max(1440, start + OPEN_END_MINUTES), openEnd: true };
+			}
+			let end = this.resolveTime(span.end, year, month, day);
+			if (end <= start) end += 1440;
+			return span.openEnd ? { start, end, openEnd: true } : { start, end };
+		});
+	}
+
+	private resolveTime(ref: TimeRef, year: number, month: number, day: number): number {
+		if ('minutes' in ref) return ref.minutes;
+
+		let minutes = getDefaultEventMinutes(ref.event);
+		if (this.lng !== undefined && this.lat !== undefined) {
+			const utcMinutes = getSunEventUtcMinutes(ref.event, year, month, day, this.lng, this.lat);
+			if (utcMinutes !== null) {
+				const instant = new Date(Date.UTC(year, month - 1, day) + utcMinutes * 60000);
+				minutes = Math.round(utcMinutes + getTimeZoneOffset(this.timeZone, instant));
+			}
+		}
+		return Math.max(0, minutes + ref.offset);
+	}
+
+	private matchesDate(rule: OpeningHoursRule, year: number, month: number, day: number): boolean {
+		const dayNumber = Math.floor(Date.UTC(year, month - 1, day) / DAY_MS);
+
+		if (rule.years.length > 0 && !rule.years.some((range) => inRange(year, range))) {
+			return false;
+		}
+		if (
+			rule.monthdays.length > 0 &&
+			!rule.monthdays.some((range) => matchesMonthday(range, year, dayNumber))
+		) {
+			return false;
+		}
+		if (rule.weeks.length > 0) {
+			const week = getIsoWeek(dayNumber);
+			if (!rule.weeks.some((range) => inRange(week, range))) return false;
+		}
+		if (rule.weekdays && !this.matchesWeekdays(rule.weekdays, dayNumber)) {
+			return false;
+		}
+		return true;
+	}
+
+	private matchesWeekdays(selector: WeekdaySelector, dayNumber: number): boolean {
+		const weekdayMatch = selector.weekdays.some((range) => matchesWeekday(range, dayNumber));
+		const holidayMatch = selector.holidays.some((holiday) => {
+			const date = new Date((dayNumber - holiday.offset) * DAY_MS);
+			const args = [
+				date.getUTCFullYear(),
+				date.getUTCMonth() + 1,
+				date.getUTCDate(),
+				this.country,
+				this.region
+			] as const;
+			return holiday.type === 'PH'
+				? getPublicHoliday(...args) !== null
+				: getSchoolHoliday(...args) !== null;
+		});
+
+		if (selector.intersect && selector.weekdays.length > 0) return holidayMatch && weekdayMatch;
+		return holidayMatch || weekdayMatch;
+	}
+}
+
+function inRange(value: number, range: NumberRange): boolean {
+	return value >= range.from && value <= range.to && (value - range.from) % range.step === 0;
+}
+
+function matchesMonthday(range: MonthdayRange, year: number, dayNumber: number): boolean {
+	// A yearless range may have started the year before ("Dec 24-Jan 02")
+	const candidateYears = range.from.year !== undefined ? [range.from.year] : [year - 1, year];
+
+	return candidateYears.some((startYear) => {
+		const from = resolveDate(range.from, startYear, false);
+		let to: number;
+		if (range.openEnd) {
+			to = Math.floor(Date.UTC(startYear, 11, 31) / DAY_MS);
+		} else if (range.to) {
+			const endYear = range.to.year ?? startYear;
+			to = resolveDate(range.to, endYear, true);
+			if (to < from && range.to.year === undefined) to = resolveDate(range.to, endYear + 1, true);
+		} else {
+			to = resolveDate(range.from, startYear, true);
+		}
+		return dayNumber >= from && dayNumber <= to;
+	});
+}
+
+// Day number of a date reference; whole months resolve to their first or last day
+function resolveDate(ref: DateRef, year: number, isEnd: boolean): number {
+	let month: number;
+	let day: number;
+	if (ref.easter) {
+		({ month, day } = getEasterSunday(year));
+	} else if (ref.day === undefined) {
+		month = ref.month!;
+		day = isEnd ? new Date(Date.UTC(year, month, 0)).getUTCDate() : 1;
+	} else {
+		month = ref.month!;
+		day = ref.day;
+	}
+	return Math.floor(Date.UTC(year, month - 1, day) / DAY_MS) + ref.offset;
+}
+
+function matchesWeekday(range: WeekdayRange, dayNumber: number): boolean {
+	const shifted = dayNumber - range.offset;
+	// Day 0 (1970-01-01) was a Thursday
+	const weekday = (((shifted + 3) % 7) + 7) % 7;
+	const inWeekdays =
+		range.from <= range.to
+			? weekday >= range.from && weekday <= range.to
+			: weekday >= range.from || weekday <= range.to;
+	if (!inWeekdays) return false;
+	if (range.nth.length === 0) return true;
+
+	const date = new Date(shifted * DAY_MS);
+	const day = date.getUTCDate();
+	const daysInMonth = new Date(
+		Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)
+	).getUTCDate();
+	const fromStart = Math.ceil(day / 7);
+	const fromEnd = -Math.ceil((daysInMonth - day + 1) / 7);
+
+	return range.nth.some(([first, last]) =>
+		first > 0 ? fromStart >= first && fromStart <= last : fromEnd === first
+	);
+}
+
+function getIsoWeek(dayNumber: number): number {
+	const weekday = (((dayNumber + 3) % 7) + 7) % 7;
+	// The Thursday of the same ISO week decides the year
+	const thursday = dayNumber - weekday + 3;
+	const yearStart = Math.floor(
+		Date.UTC(new Date(thursday * DAY_MS).getUTCFullYear(), 0, 1) / DAY_MS
+	);
+	return Math.floor((thursday - yearStart) / 7) + 1;
+}
+
+function subtractRanges<T extends { start: number; end: number }>(
+	spans: T[],
+	ranges: Array<{ start: number; end: number }>
+): T[] {
+	let result = spans;
+	for (const range of ranges) {
+		result = result.flatMap((span) => {
+			if (range.end <= span.start || range.start >= span.end) return [span];
+			const parts: T[] = [];
+			if (span.start < range.start) parts.push({ ...span, end: range.start });
+			if (span.end > range.end) parts.push({ ...span, start: range.end });
+			return parts;
+		});
+	}
+	return result;
+}
+
+function mergeIntervals(intervals: OpenInterval[]): OpenInterval[] {
+	intervals.sort((a, b) => a.start.getTime() - b.start.getTime());
+	const merged: OpenInterval[] = [];
+	for (const interval of intervals) {
+		const last = merged[merged.length - 1];
+		if (
+			last &&
+			interval.start <= last.end &&
+			interval.state === last.state &&
+			interval.comment === last.comment
+		) {
+			if (interval.end > last.end) {
+				last.end = interval.end;
+				if (interval.openEnd) last.openEnd = true;
+				else delete last.openEnd;
+			}
+		} else {
+			merged.push({ ...interval });
+		}
+	}
+	return merged;
+}
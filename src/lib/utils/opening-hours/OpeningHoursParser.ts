@@ -0,0 +1,598 @@
+/**
+ * Parser for the OSM opening_hours syntax (https://wiki.openstreetmap.org/wiki/Key:opening_hours/specification)
+ *
+ * Produces a list of rules, each a set of selectors (years, month/date ranges, ISO weeks,
+ * weekdays and holidays, times) plus a modifier. Evaluation lives in OpeningHours.ts.
+ * Not supported: weekday-constrained dates ("Dec Su[-1]"), variable dates other than easter.
+ */
+
+import type { SunEvent } from './SunTimes';
+
+export type RuleSeparator = 'normal' | 'additional' | 'fallback';
+export type RuleModifier = 'open' | 'closed' | 'unknown';
+
+export interface NumberRange {
+	from: number;
+	to: number; // Infinity for open-ended year ranges ("2024+")
+	step: number;
+}
+
+export interface DateRef {
+	year?: number;
+	month?: number; // 1-12, undefined for easter
+	day?: number; // undefined for whole months
+	easter: boolean;
+	offset: number; // Days, e.g. "easter -2 days"
+}
+
+export interface MonthdayRange {
+	from: DateRef;
+	to?: DateRef;
+	openEnd: boolean; // "Dec 24+"
+}
+
+export interface WeekdayRange {
+	from: number; // 0 = Monday
+	to: number;
+	nth: Array<[number, number]>; // "Mo[1,-1]" - empty for every week
+	offset: number; // Days, e.g. "Sa[-1] +1 day"
+}
+
+export interface HolidayRef {
+	type: 'PH' | 'SH';
+	offset: number; // Days, e.g. "PH +1 day"
+}
+
+export interface WeekdaySelector {
+	weekdays: WeekdayRange[];
+	holidays: HolidayRef[];
+	// "SH Mo-Fr" means school holidays that are weekdays; "SH,Sa" means either
+	intersect: boolean;
+}
+
+export type TimeRef = { minutes: number } | { event: SunEvent; offset: number };
+
+export interface TimeSpan {
+	start: TimeRef;
+	end?: TimeRef; // Undefined for open-ended ("17:00+") and points in time ("12:00")
+	openEnd: boolean;
+}
+
+export interface OpeningHoursRule {
+	separator: RuleSeparator;
+	years: NumberRange[];
+	monthdays: MonthdayRange[];
+	weeks: NumberRange[];
+	weekdays: WeekdaySelector | null;
+	times: TimeSpan[]; // Empty means the whole day
+	modifier: RuleModifier;
+	comment?: string;
+	source: string; // The rule's text, for display
+}
+
+export class OpeningHoursSyntaxError extends Error {
+	constructor(
+		message: string,
+		public position: number
+	) {
+		super(message);
+		this.name = 'OpeningHoursSyntaxError';
+	}
+}
+
+type Token =
+	| { type: 'time'; minutes: number; pos: number; spaceBefore: boolean }
+	| { type: 'number'; value: number; raw: string; pos: number; spaceBefore: boolean }
+	| { type: 'word'; value: string; pos: number; spaceBefore: boolean }
+	| { type: 'comment'; value: string; pos: number; spaceBefore: boolean }
+	| { type: 'punct'; value: string; pos: number; spaceBefore: boolean };
+
+const WEEKDAYS = ['mo', 'tu', 'we', 'th', 'fr', 'sa', 'su'];
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const EVENTS = ['sunrise', 'sunset', 'dawn', 'dusk'];
+const MODIFIERS: Record<string, RuleModifier> = {
+	open: 'open',
+	closed: 'closed',
+	off: 'closed',
+	unknown: 'unknown'
+};
+
+/**
+ * Parse an opening_hours value into rules. Throws OpeningHoursSyntaxError.
+ */
+export function parseOpeningHoursRules(text: string): OpeningHoursRule[] {
+	return new Parser(tokenize(text), text).parse();
+}
+
+function tokenize(text: string): Token[] {
+	const tokens: Token[] = [];
+	// Typographic dashes are common in the wild
+	const input = text.replace(/[–—−]/g, '-');
+	let i = 0;
+	let spaceBefore = false;
+
+	while (i < input.length) {
+		const rest = input.slice(i);
+		let match: RegExpMatchArray | null;
+
+		if (/^\s/.test(rest)) {
+			spaceBefore = true;
+			i++;
+			continue;
+		}
+
+		const pos = i;
+		if (rest.startsWith('24/7')) {
+			tokens.push({ type: 'word', value: '24/7', pos, spaceBefore });
+			i += 4;
+		} else if ((match = rest.match(/^(\d{1,2}):(\d{2})/))) {
+			const minutes = parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+			if (parseInt(match[2], 10) > 59) {
+				throw new OpeningHoursSyntaxError(`Invalid time "${match[0]}"`, pos);
+			}
+			tokens.push({ type: 'time', minutes, pos, spaceBefore });
+			i += match[0].length;
+		} else if ((match = rest.match(/^\d+/))) {
+			tokens.push({
+				type: 'number',
+				value: parseInt(match[0], 10),
+				raw: match[0],
+				pos,
+				spaceBefore
+			});
+			i += match[0].length;
+		} else if ((match = rest.match(/^[A-Za-z]+/))) {
+			tokens.push({ type: 'word', value: match[0].toLowerCase(), pos, spaceBefore });
+			i += match[0].length;
+		} else if ((match = rest.match(/^"([^"]*)"/))) {
+			tokens.push({ type: 'comment', value: match[1], pos, spaceBefore });
+			i += match[0].length;
+		} else if (rest.startsWith('||')) {
+			tokens.push({ type: 'punct', value: '||', pos, spaceBefore });
+			i += 2;
+		} else if (';,-+[]():/'.includes(rest[0])) {
+			tokens.push({ type: 'punct', value: rest[0], pos, spaceBefore });
+			i++;
+		} else {
+			throw new OpeningHoursSyntaxError(`Unexpected character "${rest[0]}"`, pos);
+		}
+		spaceBefore = false;
+	}
+
+	return tokens;
+}
+
+class Parser {
+	private index = 0;
+
+	constructor(
+		private tokens: Token[],
+		private text: string
+	) {}
+
+	parse(): OpeningHoursRule[] {
+		const rules: OpeningHoursRule[] = [];
+		let separator: RuleSeparator = 'normal';
+
+		while (this.peek()) {
+			const start = this.peek()!.pos;
+			const rule = this.parseRule(separator);
+			rules.push(rule);
+
+			const token = this.peek();
+			rule.source = this.text.slice(start, token?.pos).trim();
+			if (!token) break;
+			if (this.isPunct(token, ';')) separator = 'normal';
+			else if (this.isPunct(token, '||')) separator = 'fallback';
+			else if (this.isPunct(token, ',')) separator = 'additional';
+			else this.fail(`Unexpected "${this.describe(token)}"`);
+			this.index++;
+		}
+
+		if (rules.length === 0) this.fail('Empty opening hours');
+		return rules;
+	}
+
+	private parseRule(separator: RuleSeparator): OpeningHoursRule {
+		const rule: OpeningHoursRule = {
+			separator,
+			years: [],
+			monthdays: [],
+			weeks: [],
+			weekdays: null,
+			times: [],
+			modifier: 'open',
+			source: ''
+		};
+		const startIndex = this.index;
+
+		if (this.isWord(this.peek(), '24/7')) {
+			this.index++;
+			rule.times = [{ start: { minutes: 0 }, end: { minutes: 1440 }, openEnd: false }];
+		} else {
+			// A comment used as a wide range selector ("Summer": ...) doesn't select anything
+			if (this.peek()?.type === 'comment' && this.isPunct(this.peek(1), ':')) {
+				this.index += 2;
+			}
+			if (this.isYearStart() && !this.isMonthdayStart()) rule.years = this.parseYears();
+			if (this.isMonthdayStart()) rule.monthdays = this.parseMonthdays();
+			if (this.isWord(this.peek(), 'week')) rule.weeks = this.parseWeeks();
+			if (this.isPunct(this.peek(), ':')) this.index++;
+			if (this.isWeekdayStart(this.peek())) rule.weekdays = this.parseWeekdays();
+			if (this.isTimeStart(this.peek())) rule.times = this.parseTimes();
+		}
+
+		const modifier = this.peek();
+		if (modifier?.type === 'word' && modifier.value in MODIFIERS) {
+			rule.modifier = MODIFIERS[modifier.value];
+			this.index++;
+		}
+
+		const comment = this.peek();
+		if (comment?.type === 'comment') {
+			rule.comment = comment.value;
+			this.index++;
+			// A comment alone doesn't say whether it's open
+			if (this.index - startIndex === 1) rule.modifier = 'unknown';
+		}
+
+		if (this.index === startIndex) {
+			const token = this.peek();
+			this.fail(token ? `Unexpected "${this.describe(token)}"` : 'Empty rule');
+		}
+
+		return rule;
+	}
+
+	// 2024 | 2024-2026 | 2024-2030/2 | 2024+ , ...
+	private parseYears(): NumberRange[] {
+		const years: NumberRange[] = [];
+		do {
+			const from = this.expectNumber();
+			let to = from;
+			let step = 1;
+			if (this.isPunct(this.peek(), '-')) {
+				this.index++;
+				to = this.expectNumber();
+				if (this.isPunct(this.peek(), '/')) {
+					this.index++;
+					step = this.expectNumber();
+				}
+			} else if (this.isPunct(this.peek(), '+')) {
+				this.index++;
+				to = Infinity;
+			}
+			years.push({ from, to, step });
+		} while (this.continuesList(() => this.isYearStart(1) && !this.isMonthdayStart(1)));
+		return years;
+	}
+
+	private parseMonthdays(): MonthdayRange[] {
+		const ranges: MonthdayRange[] = [];
+		do {
+			ranges.push(this.parseMonthdayRange());
+		} while (this.continuesList(() => this.isMonthdayStart(1)));
+		return ranges;
+	}
+
+	private parseMonthdayRange(): MonthdayRange {
+		const from = this.parseDateRef();
+
+		// Whole months: Jan, Jan-Mar, Nov-Feb
+		if (from.day === undefined && !from.easter) {
+			if (this.isPunct(this.peek(), '-') && this.isMonthdayStart(1)) {
+				this.index++;
+				const to = this.parseDateRef();
+				if (to.day !== undefined || to.easter) this.fail('Expected a month');
+				return { from, to, openEnd: false };
+			}
+			return { from, openEnd: false };
+		}
+
+		if (this.isPunct(this.peek(), '+')) {
+			this.index++;
+			return { from, openEnd: true };
+		}
+
+		if (this.isPunct(this.peek(), '-')) {
+			const next = this.peek(1);
+			// Dec 24-26
+			if (next?.type === 'number' && next.raw.length <= 2 && !from.easter) {
+				this.index += 2;
+				return {
+					from,
+					to: { month: from.month, day: next.value, easter: false, offset: 0 },
+					openEnd: false
+				};
+			}
+			// Dec 24-Jan 02, easter-May 01
+			if (this.isMonthdayStart(1)) {
+				this.index++;
+				return { from, to: this.parseDateRef(), openEnd: false };
+			}
+		}
+
+		return { from, openEnd: false };
+	}
+
+	// [year] month [day] | [year] easter, with an optional "+2 days" offset
+	private parseDateRef(): DateRef {
+		const ref: DateRef = { easter: false, offset: 0 };
+		if (this.isYearStart()) ref.year = this.expectNumber();
+
+		const token = this.peek();
+		if (this.isWord(token, 'easter')) {
+			this.index++;
+			ref.easter = true;
+		} else if (token?.type === 'word' && MONTHS.includes(token.value)) {
+			this.index++;
+			ref.month = MONTHS.indexOf(token.value) + 1;
+			const day = this.peek();
+			if (day?.type === 'number' && day.raw.length <= 2) {
+				if (day.value < 1 || day.value > 31) this.fail(`Invalid day "${day.raw}"`);
+				this.index++;
+				ref.day = day.value;
+			} else if (this.isWord(day, 'su') && this.isPunct(this.peek(1), '[')) {
+				this.fail('Weekday-constrained dates are not supported');
+			}
+		} else {
+			this.fail('Expected a month or easter');
+		}
+
+		if (ref.day !== undefined || ref.easter) ref.offset = this.parseDayOffset();
+		return ref;
+	}
+
+	// week 1-53/2, 10
+	private parseWeeks(): NumberRange[] {
+		this.index++;
+		const weeks: NumberRange[] = [];
+		do {
+			const from = this.expectNumber();
+			let to = from;
+			let step = 1;
+			if (this.isPunct(this.peek(), '-')) {
+				this.index++;
+				to = this.expectNumber();
+				if (this.isPunct(this.peek(), '/')) {
+					this.index++;
+					step = this.expectNumber();
+				}
+			}
+			if (from < 1 || to > 53) this.fail('Week numbers must be between 1 and 53');
+			weeks.push({ from, to, step });
+		} while (this.continuesList(() => this.peek(1)?.type === 'number'));
+		return weeks;
+	}
+
+	private parseWeekdays(): WeekdaySelector {
+		const selector: WeekdaySelector = { weekdays: [], holidays: [], intersect: false };
+
+		for (;;) {
+			const token = this.peek()!;
+			const isHoliday = this.isWord(token, 'ph') || this.isWord(token, 'sh');
+
+			if (isHoliday) {
+				this.index++;
+				selector.holidays.push({
+					type: (token as { value: string }).value.toUpperCase() as 'PH' | 'SH',
+					offset: this.parseDayOffset()
+				});
+			} else {
+				selector.weekdays.push(this.parseWeekdayRange());
+			}
+
+			if (this.isPunct(this.peek(), ',') && this.isWeekdayStart(this.peek(1))) {
+				this.index++;
+				continue;
+			}
+			// "SH Mo-Fr" - a holiday followed by weekdays without a comma
+			if (isHoliday && this.isWeekdayStart(this.peek()) && !this.isHolidayWord(this.peek())) {
+				selector.intersect = true;
+				continue;
+			}
+			break;
+		}
+
+		return selector;
+	}
+
+	private parseWeekdayRange(): WeekdayRange {
+		const from = this.expectWeekday();
+		let to = from;
+		const nth: Array<[number, number]> = [];
+
+		if (this.isPunct(this.peek(), '-') && this.isWeekday(this.peek(1))) {
+			this.index++;
+			to = this.expectWeekday();
+		} else if (this.isPunct(this.peek(), '[')) {
+			this.index++;
+			do {
+				const first = this.parseNth();
+				let last = first;
+				if (first > 0 && this.isPunct(this.peek(), '-')) {
+					this.index++;
+					last = this.parseNth();
+				}
+				nth.push([first, last]);
+			} while (this.continuesList(() => true));
+			this.expectPunct(']');
+		}
+
+		return { from, to, nth, offset: nth.length > 0 ? this.parseDayOffset() : 0 };
+	}
+
+	private parseNth(): number {
+		const negative = this.isPunct(this.peek(), '-');
+		if (negative) this.index++;
+		const value = this.expectNumber();
+		if (value < 1 || value > 5) this.fail('Expected a week of the month between 1 and 5');
+		return negative ? -value : value;
+	}
+
+	private parseTimes(): TimeSpan[] {
+		const spans: TimeSpan[] = [];
+		do {
+			const start = this.parseTime();
+			if (this.isPunct(this.peek(), '-') && this.isTimeStart(this.peek(1))) {
+				this.index++;
+				const end = this.parseTime();
+				let openEnd = false;
+				if (this.isPunct(this.peek(), '+')) {
+					this.index++;
+					openEnd = true;
+				} else if (this.isPunct(this.peek(), '/')) {
+					// Repeating points in time ("10:00-16:00/01:30") - treated as the whole span
+					this.index += 2;
+				}
+				spans.push({ start, end, openEnd });
+			} else if (this.isPunct(this.peek(), '+')) {
+				this.index++;
+				spans.push({ start, openEnd: true });
+			} else {
+				spans.push({ start, openEnd: false });
+			}
+		} while (this.continuesList(() => this.isTimeStart(this.peek(1))));
+		return spans;
+	}
+
+	// 10:00 | sunset | (sunset-01:00)
+	private parseTime(): TimeRef {
+		const token = this.peek();
+		if (token?.type === 'time') {
+			this.index++;
+			if (token.minutes > 48 * 60) this.fail('Times must be before 48:00');
+			return { minutes: token.minutes };
+		}
+		if (token?.type === 'word' && EVENTS.includes(token.value)) {
+			this.index++;
+			return { event: token.value as SunEvent, offset: 0 };
+		}
+		if (this.isPunct(token, '(')) {
+			this.index++;
+			const event = this.peek();
+			if (event?.type !== 'word' || !EVENTS.includes(event.value)) {
+				this.fail('Expected sunrise, sunset, dawn or dusk');
+			}
+			this.index++;
+			const sign = this.peek();
+			if (!this.isPunct(sign, '+') && !this.isPunct(sign, '-')) this.fail('Expected + or -');
+			this.index++;
+			const offset = this.peek();
+			if (offset?.type !== 'time') this.fail('Expected a time offset like 01:00');
+			this.index++;
+			this.expectPunct(')');
+			return {
+				event: (event as { value: string }).value as SunEvent,
+				offset:
+					((sign as { value: string }).value === '-' ? -1 : 1) *
+					(offset as { minutes: number }).minutes
+			};
+		}
+		this.fail('Expected a time');
+	}
+
+	// "+2 days" / "-1 day", or 0
+	private parseDayOffset(): number {
+		const sign = this.peek();
+		const amount = this.peek(1);
+		const unit = this.peek(2);
+		if (
+			(this.isPunct(sign, '+') || this.isPunct(sign, '-')) &&
+			amount?.type === 'number' &&
+			(this.isWord(unit, 'day') || this.isWord(unit, 'days'))
+		) {
+			this.index += 3;
+			return ((sign as { value: string }).value === '-' ? -1 : 1) * amount.value;
+		}
+		return 0;
+	}
+
+	// Consume a "," if the token after it continues the current list
+	private continuesList(nextContinues: () => boolean): boolean {
+		if (this.isPunct(this.peek(), ',') && nextContinues()) {
+			this.index++;
+			return true;
+		}
+		return false;
+	}
+
+	private isYearStart(offset = 0): boolean {
+		const token = this.peek(offset);
+		return token?.type === 'number' && token.raw.length === 4;
+	}
+
+	private isMonthdayStart(offset = 0): boolean {
+		let token = this.peek(offset);
+		if (this.isYearStart(offset)) token = this.peek(offset + 1);
+		return token?.type === 'word' && (MONTHS.includes(token.value) || token.value === 'easter');
+	}
+
+	private isWeekday(token: Token | undefined): boolean {
+		return token?.type === 'word' && WEEKDAYS.includes(token.value);
+	}
+
+	private isHolidayWord(token: Token | undefined): boolean {
+		return this.isWord(token, 'ph') || this.isWord(token, 'sh');
+	}
+
+	private isWeekdayStart(token: Token | undefined): boolean {
+		return this.isWeekday(token) || this.isHolidayWord(token);
+	}
+
+	private isTimeStart(token: Token | undefined): boolean {
+		return (
+			token?.type === 'time' ||
+			(token?.type === 'word' && EVENTS.includes(token.value)) ||
+			this.isPunct(token, '(')
+		);
+	}
+
+	private isWord(token: Token | undefined, value: string): boolean {
+		return token?.type === 'word' && token.value === value;
+	}
+
+	private isPunct(token: Token | undefined, value: string): boolean {
+		return token?.type === 'punct' && token.value === value;
+	}
+
+	private expectNumber(): number {
+		const token = this.peek();
+		if (token?.type !== 'number') this.fail('Expected a number');
+		this.index++;
+		return (token as { value: number }).value;
+	}
+
+	private expectWeekday(): number {
+		const token = this.peek();
+		if (!this.isWeekday(token)) this.fail('Expected a weekday (Mo-Su)');
+		this.index++;
+		return WEEKDAYS.indexOf((token as { value: string }).value);
+	}
+
+	private expectPunct(value: string): void {
+		if (!this.isPunct(this.peek(), value)) this.fail(`Expected "${value}"`);
+		this.index++;
+	}
+
+	private peek(offset = 0): Token | undefined {
+		return this.tokens[this.index + offset];
+	}
+
+	private describe(token: Token): string {
+		switch (token.type) {
+			case 'time':
+				return `${Math.floor(token.minutes / 60)}:${String(token.minutes % 60).padStart(2, '0')}`;
+			case 'number':
+				return token.raw;
+			case 'comment':
+				return `"${token.value}"`;
+			default:
+				return token.value;
+		}
+	}
+
+	private fail(message: string): never {
+		throw new OpeningHoursSyntaxError(message, this.peek()?.pos ?? this.text.length);
+	}
+}
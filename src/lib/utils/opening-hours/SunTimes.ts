@@ -0,0 +1,81 @@
+/**
+ * Sunrise, sunset and civil twilight times (NOAA solar position algorithm), used for the
+ * `sunrise`, `sunset`, `dawn` and `dusk` events of opening_hours
+ */
+
+export type SunEvent = 'sunrise' | 'sunset' | 'dawn' | 'dusk';
+
+// Used when the location is unknown or the sun doesn't rise/set (polar day or night)
+const DEFAULT_EVENT_MINUTES: Record<SunEvent, number> = {
+	dawn: 5 * 60 + 30,
+	sunrise: 6 * 60,
+	sunset: 18 * 60,
+	dusk: 18 * 60 + 30
+};
+
+// Sun altitude at each event: refraction-corrected horizon, civil twilight
+const EVENT_ALTITUDE: Record<SunEvent, number> = {
+	sunrise: -0.833,
+	sunset: -0.833,
+	dawn: -6,
+	dusk: -6
+};
+
+const toRad = Math.PI / 180;
+
+/**
+ * Minutes after UTC midnight of the event on a date, or null if the sun never reaches
+ * the altitude that day
+ */
+export function getSunEventUtcMinutes(
+	event: SunEvent,
+	year: number,
+	month: number,
+	day: number,
+	lng: number,
+	lat: number
+): number | null {
+	// Julian century of solar noon
+	const julianDay = Date.UTC(year, month - 1, day, 12) / 86400000 + 2440587.5;
+	const t = (julianDay - 2451545 - lng / 360) / 36525;
+
+	const meanLongitude = (280.46646 + t * (36000.76983 + t * 0.0003032)) % 360;
+	const meanAnomaly = 357.52911 + t * (35999.05029 - 0.0001537 * t);
+	const eccentricity = 0.016708634 - t * (0.000042037 + 0.0000001267 * t);
+	const center =
+		Math.sin(meanAnomaly * toRad) * (1.914602 - t * (0.004817 + 0.000014 * t)) +
+		Math.sin(2 * meanAnomaly * toRad) * (0.019993 - 0.000101 * t) +
+		Math.sin(3 * meanAnomaly * toRad) * 0.000289;
+	const trueLongitude = meanLongitude + center;
+	const omega = 125.04 - 1934.136 * t;
+	const apparentLongitude = trueLongitude - 0.00569 - 0.00478 * Math.sin(omega * toRad);
+	const obliquity =
+		23 +
+		(26 + (21.448 - t * (46.815 + t * (0.00059 - t * 0.001813))) / 60) / 60 +
+		0.00256 * Math.cos(omega * toRad);
+	const declination = Math.asin(Math.sin(obliquity * toRad) * Math.sin(apparentLongitude * toRad));
+
+	const y = Math.tan((obliquity / 2) * toRad) ** 2;
+	const equationOfTime =
+		(4 *
+			(y * Math.sin(2 * meanLongitude * toRad) -
+				2 * eccentricity * Math.sin(meanAnomaly * toRad) +
+				4 * eccentricity * y * Math.sin(meanAnomaly * toRad) * Math.cos(2 * meanLongitude * toRad) -
+				0.5 * y * y * Math.sin(4 * meanLongitude * toRad) -
+				1.25 * eccentricity * eccentricity * Math.sin(2 * meanAnomaly * toRad))) /
+		toRad;
+
+	const cosHourAngle =
+		(Math.sin(EVENT_ALTITUDE[event] * toRad) - Math.sin(lat * toRad) * Math.sin(declination)) /
+		(Math.cos(lat * toRad) * Math.cos(declination));
+	if (cosHourAngle < -1 || cosHourAngle > 1) return null;
+
+	const hourAngle = Math.acos(cosHourAngle) / toRad;
+	const solarNoon = 720 - 4 * lng - equationOfTime;
+	const isMorning = event === 'sunrise' || event === 'dawn';
+	return solarNoon + (isMorning ? -4 : 4) * hourAngle;
+}
+
+export function getDefaultEventMinutes(event: SunEvent): number {
+	return DEFAULT_EVENT_MINUTES[event];
+}
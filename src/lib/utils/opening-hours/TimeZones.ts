@@ -0,0 +1,149 @@
+/**
+ * Time zone and country resolution for POIs, and wall-clock <-> instant conversion
+ *
+ * Opening hours are written in the POI's local time. The zone comes from the feature's
+ * `timezone` tag when present, otherwise from a coarse table of regions below - good
+ * enough for opening hours, not for borders. Outside the table, the device zone is used
+ * if it agrees with the longitude, else a fixed UTC offset derived from the longitude.
+ */
+
+export interface WallTime {
+	year: number;
+	month: number; // 1-12
+	day: number;
+	minutes: number; // Minutes since local midnight
+}
+
+interface Region {
+	bounds: [number, number, number, number]; // west, south, east, north
+	timeZone: string;
+	country: string;
+}
+
+// Smaller regions first - the first match wins
+const REGIONS: Region[] = [
+	{ bounds: [3.3, 50.75, 7.2, 53.6], timeZone: 'Europe/Amsterdam', country: 'NL' },
+	{ bounds: [2.5, 49.5, 6.4, 51.5], timeZone: 'Europe/Brussels', country: 'BE' },
+	{ bounds: [5.7, 49.4, 6.5, 50.2], timeZone: 'Europe/Luxembourg', country: 'LU' },
+	{ bounds: [5.95, 45.8, 10.5, 47.8], timeZone: 'Europe/Zurich', country: 'CH' },
+	{ bounds: [9.5, 46.4, 17.2, 49.0], timeZone: 'Europe/Vienna', country: 'AT' },
+	{ bounds: [-10.5, 51.4, -6.0, 55.4], timeZone: 'Europe/Dublin', country: 'IE' },
+	{ bounds: [-8.2, 49.9, 1.8, 60.9], timeZone: 'Europe/London', country: 'GB' },
+	{ bounds: [-9.5, 36.9, -6.2, 42.2], timeZone: 'Europe/Lisbon', country: 'PT' },
+	{ bounds: [-9.3, 36.0, 3.3, 43.8], timeZone: 'Europe/Madrid', country: 'ES' },
+	{ bounds: [-5.2, 42.3, 8.3, 51.1], timeZone: 'Europe/Paris', country: 'FR' },
+	{ bounds: [5.9, 47.3, 15.0, 55.1], timeZone: 'Europe/Berlin', country: 'DE' },
+	{ bounds: [6.6, 36.6, 18.5, 47.1], timeZone: 'Europe/Rome', country: 'IT' },
+	{ bounds: [8.0, 54.5, 15.2, 57.8], timeZone: 'Europe/Copenhagen', country: 'DK' },
+	{ bounds: [14.1, 49.0, 24.2, 54.9], timeZone: 'Europe/Warsaw', country: 'PL' },
+	{ bounds: [12.1, 48.5, 18.9, 51.1], timeZone: 'Europe/Prague', country: 'CZ' },
+	{ bounds: [4.5, 57.9, 31.2, 71.2], timeZone: 'Europe/Oslo', country: 'NO' },
+	{ bounds: [19.6, 34.8, 28.3, 41.8], timeZone: 'Europe/Athens', country: 'GR' },
+	{ bounds: [125.8, 33.1, 129.6, 38.6], timeZone: 'Asia/Seoul', country: 'KR' },
+	{ bounds: [129.0, 30.9, 146.0, 45.6], timeZone: 'Asia/Tokyo', country: 'JP' },
+	{ bounds: [-87.0, 24.5, -66.9, 47.5], timeZone: 'America/New_York', country: 'US' },
+	{ bounds: [-101.0, 25.8, -87.0, 49.0], timeZone: 'America/Chicago', country: 'US' },
+	{ bounds: [-114.0, 31.3, -101.0, 49.0], timeZone: 'America/Denver', country: 'US' },
+	{ bounds: [-124.8, 32.5, -114.0, 49.0], timeZone: 'America/Los_Angeles', country: 'US' },
+	{ bounds: [141.0, -39.2, 153.7, -28.2], timeZone: 'Australia/Sydney', country: 'AU' }
+];
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+export function getDeviceTimeZone(): string {
+	return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/**
+ * Best-effort time zone and country of a location
+ */
+export function resolveRegion(lng?: number, lat?: number): { timeZone: string; country?: string } {
+	if (lng === undefined || lat === undefined) {
+		return { timeZone: getDeviceTimeZone() };
+	}
+
+	const region = REGIONS.find(
+		({ bounds: [west, south, east, north] }) =>
+			lng >= west && lng <= east && lat >= south && lat <= north
+	);
+	if (region) return { timeZone: region.timeZone, country: region.country };
+
+	// The device zone is right when the POI is nearby, and it knows about DST
+	const solarOffset = Math.round(lng / 15);
+	const deviceZone = getDeviceTimeZone();
+	if (Math.abs(getTimeZoneOffset(deviceZone, new Date()) / 60 - solarOffset) <= 1) {
+		return { timeZone: deviceZone };
+	}
+
+	// Etc/GMT zones have inverted signs: Etc/GMT-2 is UTC+2
+	if (solarOffset === 0) return { timeZone: 'UTC' };
+	return { timeZone: `Etc/GMT${solarOffset > 0 ? '-' : '+'}${Math.abs(solarOffset)}` };
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+	try {
+		getFormatter(timeZone);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Offset of a zone from UTC at an instant, in minutes (positive east of Greenwich)
+ */
+export function getTimeZoneOffset(timeZone: string, date: Date): number {
+	const wall = toWallTime(date, timeZone);
+	const wallAsUtc = Date.UTC(wall.year, wall.month - 1, wall.day, 0, wall.minutes);
+	return Math.round((wallAsUtc - Math.floor(date.getTime() / 60000) * 60000) / 60000);
+}
+
+/**
+ * Local date and time of an instant in a zone
+ */
+export function toWallTime(date: Date, timeZone: string): WallTime {
+	const parts: Record<string, number> = {};
+	for (const { type, value } of getFormatter(timeZone).formatToParts(date)) {
+		if (type !== 'literal') parts[type] = parseInt(value, 10);
+	}
+	return {
+		year: parts.year,
+		month: parts.month,
+		day: parts.day,
+		minutes: (parts.hour % 24) * 60 + parts.minute
+	};
+}
+
+/**
+ * Instant of a local date and time in a zone. Minutes may exceed a day (26:00 is 02:00
+ * the next day). Times skipped by a DST change resolve to just after the change.
+ */
+export function fromWallTime(
+	year: number,
+	month: number,
+	day: number,
+	minutes: number,
+	timeZone: string
+): Date {
+	const wallAsUtc = Date.UTC(year, month - 1, day, 0, minutes);
+	let instant = wallAsUtc - getTimeZoneOffset(timeZone, new Date(wallAsUtc)) * 60000;
+	instant = wallAsUtc - getTimeZoneOffset(timeZone, new Date(instant)) * 60000;
+	return new Date(instant);
+}
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+	let formatter = formatters.get(timeZone);
+	if (!formatter) {
+		formatter = new Intl.DateTimeFormat('en-US', {
+			timeZone,
+			hourCycle: 'h23',
+			year: 'numeric',
+			month: 'numeric',
+			day: 'numeric',
+			hour: 'numeric',
+			minute: 'numeric'
+		});
+		formatters.set(timeZone, formatter);
+	}
+	return formatter;
+}
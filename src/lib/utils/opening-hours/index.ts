@@ -0,0 +1,70 @@
+/**
+ * Opening Hours - Main exports
+ * Evaluates OSM opening_hours values in the POI's time zone, with public/school holidays
+ * and sun events
+ * Note: OpenInterval and OpeningHoursContext are globally declared in app.d.ts
+ */
+
+import { OpeningHours } from './OpeningHours';
+
+export { OpeningHours, type DaySpan, type OpeningState } from './OpeningHours';
+export {
+	OpeningHoursSyntaxError,
+	parseOpeningHoursRules,
+	type OpeningHoursRule
+} from './OpeningHoursParser';
+export {
+	registerPublicHolidays,
+	registerSchoolHolidays,
+	getPublicHoliday,
+	getSchoolHoliday,
+	type Holiday,
+	type HolidayPeriod,
+	type PublicHolidayTable
+} from './Holidays';
+export { getDeviceTimeZone, resolveRegion, toWallTime, fromWallTime } from './TimeZones';
+
+const MAX_CACHED = 500;
+const cache = new Map<string, OpeningHours | null>();
+
+/**
+ * Parsed opening hours for a value and location, or null if the value is invalid.
+ * Cached, since search and map filters evaluate the same values over and over.
+ */
+export function getOpeningHours(
+	text: string,
+	context: OpeningHoursContext = {}
+): OpeningHours | null {
+	const key = `${text}|${context.lng?.toFixed(1)}|${context.lat?.toFixed(1)}|${context.timeZone}|${context.country}|${context.region}`;
+	if (cache.has(key)) return cache.get(key)!;
+
+	let openingHours: OpeningHours | null;
+	try {
+		openingHours = new OpeningHours(text, context);
+	} catch {
+		openingHours = null;
+	}
+
+	if (cache.size >= MAX_CACHED) cache.delete(cache.keys().next().value!);
+	cache.set(key, openingHours);
+	return openingHours;
+}
+
+/**
+ * Open (or unknown) intervals of an opening_hours value between two instants
+ */
+export function getOpenIntervals(
+	text: string,
+	from: Date,
+	to: Date,
+	context: OpeningHoursContext = {}
+): OpenInterval[] {
+	return getOpeningHours(text, context)?.getOpenIntervals(from, to) ?? [];
+}
+
+/**
+ * Whether an opening_hours value is open at an instant. Invalid values are never open.
+ */
+export function isOpenAt(text: string, at: Date, context: OpeningHoursContext = {}): boolean {
+	return getOpeningHours(text, context)?.isOpen(at) ?? false;
+}
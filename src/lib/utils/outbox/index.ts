@@ -0,0 +1,13 @@
+/**
+ * Sync outbox - Main exports
+ * Note: OutboxOperation and OutboxWrite are globally declared in app.d.ts
+ */
+
+export {
+	openOutboxDB,
+	appendOperation,
+	getOperations,
+	updateOperation,
+	deleteOperation
+} from './outbox-db';
+export { replayOutbox, OUTBOX_SYNC_TAG, MAX_BATCH_WRITES, type ReplayResult } from './replay';
@@ -0,0 +1,79 @@
+/**
+ * IndexedDB storage of the sync outbox
+ * Plain IndexedDB without app imports, so the service worker can open the same outbox
+ */
+
+const DB_NAME = 'SyncOutbox';
+const DB_VERSION = 1;
+const STORE_NAME = 'operations';
+const INDEX_USER_ID = 'userId';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openOutboxDB(): Promise<IDBDatabase> {
+	if (!dbPromise) {
+		dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+			const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+			request.onupgradeneeded = () => {
+				const db = request.result;
+				if (!db.objectStoreNames.contains(STORE_NAME)) {
+					const store = db.createObjectStore(STORE_NAME, { keyPath: 'seq', autoIncrement: true });
+					store.createIndex(INDEX_USER_ID, 'userId', { unique: false });
+				}
+			};
+			request.onsuccess = () => resolve(request.result);
+			request.onerror = () => {
+				dbPromise = null;
+				reject(request.error);
+			};
+		});
+	}
+	return dbPromise;
+}
+
+/**
+ * Append an operation at the end of the outbox
+ */
+export async function appendOperation(operation: OutboxOperation): Promise<OutboxOperation> {
+	const db = await openOutboxDB();
+	const { seq: _seq, ...record } = operation;
+
+	const seq = await runRequest<IDBValidKey>(db, 'readwrite', (store) => store.add(record));
+	return { ...record, seq: seq as number };
+}
+
+/**
+ * Operations of a user, or of all users, in the order they were made
+ */
+export async function getOperations(userId?: string): Promise<OutboxOperation[]> {
+	const db = await openOutboxDB();
+	const operations = await runRequest<OutboxOperation[]>(db, 'readonly', (store) =>
+		userId ? store.index(INDEX_USER_ID).getAll(userId) : store.getAll()
+	);
+	return operations.sort((a, b) => (a.seq ?? 0) - (b.seq ?? 0));
+}
+
+export async function updateOperation(operation: OutboxOperation): Promise<void> {
+	const db = await openOutboxDB();
+	await runRequest(db, 'readwrite', (store) => store.put(operation));
+}
+
+export async function deleteOperation(seq: number): Promise<void> {
+	const db = await openOutboxDB();
+	await runRequest(db, 'readwrite', (store) => store.delete(seq));
+}
+
+function runRequest<T>(
+	db: IDBDatabase,
+	mode: IDBTransactionMode,
+	makeRequest: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+	return new Promise<T>((resolve, reject) => {
+		const transaction = db.transaction(STORE_NAME, mode);
+		const request = makeRequest(transaction.objectStore(STORE_NAME));
+		transaction.oncomplete = () => resolve(request.result as T);
+		transaction.onerror = () => reject(transaction.error ?? request.error);
+		transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+	});
+}
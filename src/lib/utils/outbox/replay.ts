@@ -0,0 +1,248 @@
+import {
+	doc,
+	increment,
+	runTransaction,
+	serverTimestamp,
+	writeBatch,
+	setDoc,
+	updateDoc,
+	deleteDoc,
+	waitForPendingWrites,
+	type DocumentData,
+	type DocumentReference,
+	type Firestore,
+	type SetOptions
+} from 'firebase/firestore';
+import { deleteOperation, getOperations, updateOperation } from './outbox-db';
+
+/**
+ * Replay of the sync outbox against Firestore, shared by the app and the service worker
+ * Operations run one at a time in the order they were made. A network error stops the replay
+ * and retries later with exponential backoff, so later changes never overtake earlier ones; only
+ * an operation Firestore rejects is marked failed and skipped
+ */
+
+// Background Sync tag, and the Web Lock that keeps the app and service worker from replaying
+// at the same time
+export const OUTBOX_SYNC_TAG = 'sync-outbox';
+const OUTBOX_LOCK = 'sync-outbox';
+
+// Most writes Firestore accepts in one batch
+export const MAX_BATCH_WRITES = 500;
+
+const BASE_RETRY_DELAY = 2000;
+const MAX_RETRY_DELAY = 10 * 60 * 1000;
+
+// Firestore keeps offline writes pending instead of failing them, so stop waiting for a write
+// that takes this long and check on it later; Firestore keeps sending it meanwhile
+const WRITE_TIMEOUT = 20000;
+
+// Writes of the operations being replayed, by operation ID; a retry after a timeout waits for
+// the same write instead of issuing it again
+const inFlightWrites = new Map<string, Promise<void>>();
+
+// Errors retrying can't fix
+const PERMANENT_ERROR_CODES = [
+	'permission-denied',
+	'invalid-argument',
+	'not-found',
+	'already-exists',
+	'failed-precondition',
+	'out-of-range'
+];
+
+// The writes shared by transactions and write batches
+interface WriteTarget {
+	set(ref: DocumentReference, data: DocumentData, options: SetOptions): unknown;
+	update(ref: DocumentReference, data: DocumentData): unknown;
+	delete(ref: DocumentReference): unknown;
+}
+
+export interface ReplayResult {
+	replayed: number;
+	failed: number;
+	pending: number;
+	nextAttemptAt: number | null; // When the first waiting operation can be retried
+	skipped?: boolean; // Another tab or the service worker was already replaying
+}
+
+/**
+ * Replay the user's pending operations
+ */
+export async function replayOutbox(firestore: Firestore, userId: string): Promise<ReplayResult> {
+	const locks = typeof navigator !== 'undefined' ? navigator.locks : undefined;
+	if (!locks) {
+		return replayOperations(firestore, userId);
+	}
+
+	const result = await locks.request(OUTBOX_LOCK, { ifAvailable: true }, (lock) =>
+		lock ? replayOperations(firestore, userId) : null
+	);
+	return result ?? { replayed: 0, failed: 0, pending: 0, nextAttemptAt: null, skipped: true };
+}
+
+async function replayOperations(firestore: Firestore, userId: string): Promise<ReplayResult> {
+	const result: ReplayResult = { replayed: 0, failed: 0, pending: 0, nextAttemptAt: null };
+	const done = new Set<number>();
+
+	// Reload after each pass to pick up operations added while replaying
+	for (;;) {
+		const operations = (await getOperations(userId)).filter(
+			(operation) => operation.status === 'pending' && !done.has(operation.seq!)
+		);
+		if (operations.length === 0) break;
+
+		for (const operation of operations) {
+			if (operation.nextAttemptAt > Date.now()) {
+				return finish(result, userId, operation.nextAttemptAt);
+			}
+
+			try {
+				// Written before this page or worker started, and possibly still in Firestore's
+				// persistent queue; it's sent first, so wait for the queue before writing again
+				if (operation.timedOut && !inFlightWrites.has(operation.id)) {
+					await withTimeout(waitForPendingWrites(firestore), WRITE_TIMEOUT);
+				}
+				await withTimeout(writeOnce(firestore, operation), WRITE_TIMEOUT);
+				inFlightWrites.delete(operation.id);
+				await deleteOperation(operation.seq!);
+				result.replayed++;
+			} catch (error: any) {
+				const attempts = operation.attempts + 1;
+				const permanent = PERMANENT_ERROR_CODES.includes(error?.code);
+
+				const updated: OutboxOperation = {
+					...operation,
+					attempts,
+					lastError: error?.message ?? String(error),
+					status: permanent ? 'failed' : 'pending',
+					timedOut: operation.timedOut || inFlightWrites.has(operation.id),
+					nextAttemptAt: Date.now() + getRetryDelay(attempts)
+				};
+				await updateOperation(updated);
+
+				if (!permanent) {
+					console.warn(`⏳ Outbox: "${operation.label}" failed, retrying later:`, error);
+					return finish(result, userId, updated.nextAttemptAt);
+				}
+
+				console.error(`💥 Outbox: "${operation.label}" was rejected:`, error);
+				result.failed++;
+			}
+			done.add(operation.seq!);
+		}
+	}
+
+	return finish(result, userId, null);
+}
+
+async function finish(
+	result: ReplayResult,
+	userId: string,
+	nextAttemptAt: number | null
+): Promise<ReplayResult> {
+	const operations = await getOperations(userId);
+	result.pending = operations.filter((operation) => operation.status === 'pending').length;
+	result.nextAttemptAt = nextAttemptAt;
+	return result;
+}
+
+/**
+ * Run an operation's writes, or wait for them if they're still on their way
+ */
+function writeOnce(firestore: Firestore, operation: OutboxOperation): Promise<void> {
+	let write = inFlightWrites.get(operation.id);
+	if (!write) {
+		write = executeOperation(firestore, operation).catch((error) => {
+			inFlightWrites.delete(operation.id);
+			throw error;
+		});
+		inFlightWrites.set(operation.id, write);
+	}
+	return write;
+}
+
+/**
+ * Run an operation's writes
+ * Single writes and batches of sets, updates and deletes are idempotent as they are; operations
+ * with increments run in a transaction that records the operation ID, so a replay after a lost
+ * response doesn't count twice
+ */
+async function executeOperation(firestore: Firestore, operation: OutboxOperation): Promise<void> {
+	const hasIncrements = operation.writes.some(
+		(write) => write.increments && Object.keys(write.increments).length > 0
+	);
+
+	if (hasIncrements) {
+		await runTransaction(firestore, async (transaction) => {
+			const marker = doc(firestore, 'users', operation.userId, 'appliedOperations', operation.id);
+			if ((await transaction.get(marker)).exists()) return;
+
+			operation.writes.forEach((write) => applyWrite(firestore, transaction, write));
+			transaction.set(marker, { appliedAt: serverTimestamp(), label: operation.label });
+		});
+		return;
+	}
+
+	if (operation.writes.length === 1) {
+		const [write] = operation.writes;
+		const ref = doc(firestore, write.path);
+		if (write.type === 'delete') {
+			await deleteDoc(ref);
+		} else if (write.type === 'update') {
+			await updateDoc(ref, toFirestoreData(write));
+		} else {
+			await setDoc(ref, toFirestoreData(write), { merge: write.merge ?? false });
+		}
+		return;
+	}
+
+	const batch = writeBatch(firestore);
+	operation.writes.forEach((write) => applyWrite(firestore, batch, write));
+	await batch.commit();
+}
+
+function applyWrite(firestore: Firestore, target: WriteTarget, write: OutboxWrite) {
+	const ref = doc(firestore, write.path);
+	if (write.type === 'delete') {
+		target.delete(ref);
+	} else if (write.type === 'update') {
+		target.update(ref, toFirestoreData(write));
+	} else {
+		target.set(ref, toFirestoreData(write), { merge: write.merge ?? false });
+	}
+}
+
+function toFirestoreData(write: OutboxWrite): Record<string, any> {
+	const data: Record<string, any> = { ...write.data };
+	for (const field of write.serverTimestamps ?? []) {
+		data[field] = serverTimestamp();
+	}
+	for (const [field, amount] of Object.entries(write.increments ?? {})) {
+		data[field] = increment(amount);
+	}
+	return data;
+}
+
+function getRetryDelay(attempts: number): number {
+	return Math.min(BASE_RETRY_DELAY * 2 ** (attempts - 1), MAX_RETRY_DELAY);
+}
+
+function withTimeout<T>(promise: Promise<T>, timeout: number): Promise<T> {
+	return new Promise<T>((resolve, reject) => {
+		const timer = setTimeout(
+			() => reject(new Error(`Timed out after ${timeout / 1000}s`)),
+			timeout
+		);
+		promise.then(
+			(value) => {
+				clearTimeout(timer);
+				resolve(value);
+			},
+			(error) => {
+				clearTimeout(timer);
+				reject(error);
+			}
+		);
+	});
+}
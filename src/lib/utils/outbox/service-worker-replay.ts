@@ -0,0 +1,41 @@
+import { initializeApp, getApps, getApp } from 'firebase/app';
+import { getAuth } from 'firebase/auth';
+import { getFirestore } from 'firebase/firestore';
+import { replayOutbox, type ReplayResult } from './replay';
+
+/**
+ * Outbox replay from the service worker's Background Sync, so changes reach Firestore after the
+ * tab was closed
+ * The worker can't use $lib/firebase, as it depends on $app modules; it signs in from the auth
+ * state the app keeps in IndexedDB and uses Firestore without a persistent cache
+ */
+
+const firebaseConfig = {
+	apiKey: import.meta.env.VITE_FIREBASE_API_KEY,
+	authDomain: import.meta.env.VITE_FIREBASE_AUTH_DOMAIN,
+	projectId: import.meta.env.VITE_FIREBASE_PROJECT_ID,
+	storageBucket: import.meta.env.VITE_FIREBASE_STORAGE_BUCKET,
+	messagingSenderId: import.meta.env.VITE_FIREBASE_MESSAGING_SENDER_ID,
+	appId: import.meta.env.VITE_FIREBASE_APP_ID
+};
+
+export async function replayOutboxFromServiceWorker(): Promise<ReplayResult | null> {
+	const app = getApps().length === 0 ? initializeApp(firebaseConfig) : getApp();
+	const auth = getAuth(app);
+	await auth.authStateReady();
+
+	const user = auth.currentUser;
+	if (!user) {
+		console.log('SW: Outbox replay skipped, not signed in');
+		return null;
+	}
+
+	const result = await replayOutbox(getFirestore(app), user.uid);
+	console.log('SW: Outbox replayed:', result);
+
+	// A transient failure rejects the sync event, so the browser retries it later
+	if (result.pending > 0 && !result.skipped) {
+		throw new Error(`${result.pending} outbox operations still pending`);
+	}
+	return result;
+}
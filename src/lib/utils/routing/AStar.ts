@@ -1,26 +1,26 @@
+import { getRoutingProfile } from './RoutingProfiles';
+import { RoutingIndex } from './RoutingIndex';
+
 /**
- * A* pathfinding algorithm for finding the shortest walking route between two points
- * Uses the route graph built from transportation MBTILES data
+ * A* pathfinding algorithm for finding the shortest route between two points
+ * Uses the route graph built from transportation MBTILES data; searches run on the graph's
+ * RoutingIndex (numeric node IDs, typed arrays and landmark bounds). Travel times use the
+ * speed of the routing profile the graph was built for
  * Note: Interfaces are globally declared in app.d.ts
  */
-
-interface AStarNode {
-	id: string;
-	gScore: number; // Actual cost from start
-	fScore: number; // Estimated total cost (gScore + heuristic)
-	parent: string | null;
-}
-
 export class AStar {
 	private graph: RouteGraph;
-	private readonly WALKING_SPEED_MS = 1.4; // Average walking speed: 1.4 m/s (~5 km/h)
+	private readonly speed: number; // Travel speed of the graph's profile in m/s
+	private readonly maxIterations: number;
 
-	constructor(graph: RouteGraph) {
+	constructor(graph: RouteGraph, maxIterations: number = 10000) {
 		this.graph = graph;
+		this.speed = getRoutingProfile(graph.profile).speed;
+		this.maxIterations = maxIterations; // Nodes settled before giving up; longer routes need more
 	}
 
 	/**
-	 * Find the best walking route between two coordinates
+	 * Find the best route between two coordinates
 	 */
 	async findRoute(
 		startCoordinates: [number, number],
@@ -78,161 +78,95 @@ export class AStar {
 	}
 
 	/**
-	 * Run the A* algorithm between two nodes
+	 * Cheapest road distances between every pair of points, in meters
+	 * Points are snapped to their nearest nodes like in findRoute, and the snapping distances are
+	 * included. Pairs that can't be connected by roads get the straight-line distance, which is
+	 * what findRoute falls back to for them.
 	 */
-	private async runAStar(
-		startNodeId: string,
-		endNodeId: string
-	): Promise<{
-		success: boolean;
-		path: string[];
-		distance: number;
-		roadTypes: string[];
-	}> {
-		const openSet = new Set<string>([startNodeId]);
-		const closedSet = new Set<string>();
-		const nodes = new Map<string, AStarNode>();
-
-		// Initialize start node
-		nodes.set(startNodeId, {
-			id: startNodeId,
-			gScore: 0,
-			fScore: this.heuristicDistance(startNodeId, endNodeId),
-			parent: null
+	async computeDistanceMatrix(
+		points: [number, number][],
+		maxSearchDistance: number = 1000
+	): Promise<number[][]> {
+		const startTime = performance.now();
+		const index = RoutingIndex.forGraph(this.graph);
+
+		const snapped = points.map((point) => {
+			const nodeId = this.graph.spatialIndex.findNearest(point, maxSearchDistance);
+			const node = nodeId ? this.graph.nodes.get(nodeId) : undefined;
+			return node
+				? {
+						index: index.indexOf(node.id),
+						snapDistance: this.calculateStraightLineDistance(point, node.coordinates)
+					}
+				: null;
 		});
 
-		let iterations = 0;
-		const maxIterations = 10000; // Prevent infinite loops
-
-		console.log(`🗺️ Starting A* search from ${startNodeId} to ${endNodeId}`);
-
-		while (openSet.size > 0 && iterations < maxIterations) {
-			iterations++;
+		const onRoad = snapped.flatMap((snap, i) => (snap && snap.index !== -1 ? [i] : []));
+		const indexed = await index.manyToMany(onRoad.map((i) => snapped[i]!.index));
 
-			// Log progress every 1000 iterations
-			if (iterations % 1000 === 0) {
-				console.log(
-					`🔄 A* iteration ${iterations}: openSet size = ${openSet.size}, closedSet size = ${closedSet.size}`
-				);
-			}
-
-			// Find node with lowest fScore
-			let currentNodeId: string | null = null;
-			let lowestFScore = Infinity;
-
-			for (const nodeId of openSet) {
-				const node = nodes.get(nodeId);
-				if (node && node.fScore < lowestFScore) {
-					lowestFScore = node.fScore;
-					currentNodeId = nodeId;
-				}
-			}
-
-			if (!currentNodeId) break;
-
-			// Remove current from open set and add to closed set
-			openSet.delete(currentNodeId);
-			closedSet.add(currentNodeId);
-
-			// Check if we reached the goal
-			if (currentNodeId === endNodeId) {
-				const pathResult = this.reconstructPath(nodes, endNodeId);
-				console.log(`✅ A* search completed successfully in ${iterations} iterations:`, {
-					totalDistance: `${pathResult.distance.toFixed(0)}m`,
-					roadTypes: pathResult.roadTypes,
-					pathLength: pathResult.path.length
-				});
-				return pathResult;
-			}
-
-			// Examine neighbors
-			const currentGraphNode = this.graph.nodes.get(currentNodeId);
-			if (!currentGraphNode) continue;
-
-			const currentAStarNode = nodes.get(currentNodeId)!;
-
-			for (const [neighborId, edge] of currentGraphNode.connections) {
-				if (closedSet.has(neighborId)) continue;
-
-				const tentativeGScore = currentAStarNode.gScore + edge.cost;
-
-				let neighborAStarNode = nodes.get(neighborId);
-				if (!neighborAStarNode) {
-					neighborAStarNode = {
-						id: neighborId,
-						gScore: Infinity,
-						fScore: Infinity,
-						parent: null
-					};
-					nodes.set(neighborId, neighborAStarNode);
-				}
-
-				if (tentativeGScore < neighborAStarNode.gScore) {
-					// This path is better
-					neighborAStarNode.parent = currentNodeId;
-					neighborAStarNode.gScore = tentativeGScore;
-					neighborAStarNode.fScore =
-						tentativeGScore + this.heuristicDistance(neighborId, endNodeId);
-
-					openSet.add(neighborId);
-				}
-			}
-
-			// Yield control occasionally to prevent blocking
-			if (iterations % 1000 === 0) {
-				await new Promise((resolve) => setTimeout(resolve, 0));
+		const matrix = points.map((from, i) =>
+			points.map((to, j) => (i === j ? 0 : this.calculateStraightLineDistance(from, to)))
+		);
+		for (let a = 0; a < onRoad.length; a++) {
+			for (let b = 0; b < onRoad.length; b++) {
+				const distance = indexed.distances[a * indexed.size + b];
+				const [i, j] = [onRoad[a], onRoad[b]];
+				if (i === j || !Number.isFinite(distance)) continue;
+				matrix[i][j] = snapped[i]!.snapDistance + distance + snapped[j]!.snapDistance;
 			}
 		}
 
-		console.warn(`⚠️ A* search exhausted after ${iterations} iterations`);
-		return { success: false, path: [], distance: 0, roadTypes: [] };
+		console.log(
+			`📊 Distance matrix for ${points.length} points (${onRoad.length} on roads) in ${Math.round(performance.now() - startTime)}ms`
+		);
+		return matrix;
 	}
 
 	/**
-	 * Reconstruct the path from A* node data
+	 * Run A* between two nodes on the graph's routing index
 	 */
-	private reconstructPath(
-		nodes: Map<string, AStarNode>,
+	private async runAStar(
+		startNodeId: string,
 		endNodeId: string
-	): {
+	): Promise<{
 		success: boolean;
 		path: string[];
 		distance: number;
 		roadTypes: string[];
-	} {
-		const path: string[] = [];
+	}> {
+		const index = RoutingIndex.forGraph(this.graph);
+		const start = index.indexOf(startNodeId);
+		const end = index.indexOf(endNodeId);
+
+		console.log(`🗺️ Starting A* search from ${startNodeId} to ${endNodeId}`);
+
+		if (start === -1 || end === -1 || !index.isConnected(start, end)) {
+			console.warn('⚠️ Start and end are on disconnected parts of the road network');
+			return { success: false, path: [], distance: 0, roadTypes: [] };
+		}
+
+		const result = index.findPath(start, end, this.maxIterations);
+		if (!result) {
+			console.warn(`⚠️ A* search found no route within ${this.maxIterations} nodes`);
+			return { success: false, path: [], distance: 0, roadTypes: [] };
+		}
+
+		const path = result.nodes.map((node) => index.nodeIds[node]);
 		const roadTypes: string[] = [];
-		let totalDistance = 0;
-		let currentNodeId: string | null = endNodeId;
-
-		// Build path backwards from end to start
-		while (currentNodeId) {
-			path.unshift(currentNodeId);
-
-			const currentNode = nodes.get(currentNodeId);
-			if (!currentNode || !currentNode.parent) break;
-
-			// Get edge information for distance and road type
-			const parentGraphNode = this.graph.nodes.get(currentNode.parent);
-			if (parentGraphNode) {
-				const edge = parentGraphNode.connections.get(currentNodeId);
-				if (edge) {
-					totalDistance += edge.distance;
-					if (!roadTypes.includes(edge.roadCategory)) {
-						roadTypes.push(edge.roadCategory);
-					}
-				}
+		for (let i = 0; i < path.length - 1; i++) {
+			const edge = this.graph.nodes.get(path[i])?.connections.get(path[i + 1]);
+			if (edge && !roadTypes.includes(edge.roadCategory)) {
+				roadTypes.push(edge.roadCategory);
 			}
-
-			currentNodeId = currentNode.parent;
 		}
 
-		return {
-			success: true,
-			path,
-			distance: totalDistance,
-			roadTypes
-		};
+		console.log(`✅ A* search completed successfully:`, {
+			totalDistance: `${result.distance.toFixed(0)}m`,
+			roadTypes,
+			pathLength: path.length
+		});
+
+		return { success: true, path, distance: result.distance, roadTypes };
 	}
 
 	/**
@@ -302,9 +236,11 @@ export class AStar {
 			success: true,
 			path: routeCoordinates,
 			distance: totalDistance,
-			estimatedWalkingTime: totalDistance / this.WALKING_SPEED_MS / 60, // Convert to minutes
+			estimatedWalkingTime: totalDistance / this.speed / 60, // Convert to minutes
 			roadTypes,
-			fallbackToStraightLine: false
+			fallbackToStraightLine: false,
+			nodePath,
+			profile: this.graph.profile
 		};
 	}
 
@@ -321,24 +257,13 @@ export class AStar {
 			success: true,
 			path: [startCoordinates, endCoordinates],
 			distance,
-			estimatedWalkingTime: distance / this.WALKING_SPEED_MS / 60,
+			estimatedWalkingTime: distance / this.speed / 60,
 			roadTypes: ['straight_line'],
-			fallbackToStraightLine: true
+			fallbackToStraightLine: true,
+			profile: this.graph.profile
 		};
 	}
 
-	/**
-	 * Heuristic function for A* (straight-line distance)
-	 */
-	private heuristicDistance(nodeId1: string, nodeId2: string): number {
-		const node1 = this.graph.nodes.get(nodeId1);
-		const node2 = this.graph.nodes.get(nodeId2);
-
-		if (!node1 || !node2) return Infinity;
-
-		return this.calculateStraightLineDistance(node1.coordinates, node2.coordinates);
-	}
-
 	/**
 	 * Calculate straight-line distance between two coordinates (in meters)
 	 */
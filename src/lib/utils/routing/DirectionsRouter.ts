@@ -0,0 +1,244 @@
+import { GraphBuilder } from './GraphBuilder';
+import { AStar } from './AStar';
+import { RouteInstructionBuilder } from './RouteInstructions';
+import { getRoutingProfile } from './RoutingProfiles';
+
+// Directions are only offered up to this straight-line distance (meters)
+const MAX_DIRECTIONS_DISTANCE = 20000;
+// Road network loaded around the waypoints, for routes that swing outside their bounding box
+const GRAPH_PADDING_METERS = 500;
+
+/**
+ * DirectionsRouter - Walking, cycling or wheelchair directions between any two points
+ * Builds the route graph for the chosen profile around both waypoints from the OPFS
+ * transportation tiles, so it works offline, and turns the A* route into turn-by-turn
+ * instructions
+ * Note: Interfaces are globally declared in app.d.ts
+ */
+export class DirectionsRouter {
+	private graphBuilder: GraphBuilder;
+
+	constructor() {
+		this.graphBuilder = new GraphBuilder();
+	}
+
+	/**
+	 * Find a route between two waypoints with step-by-step instructions
+	 */
+	async getDirections(
+		origin: DirectionsWaypoint,
+		destination: DirectionsWaypoint,
+		profile: RoutingProfileId = 'walking'
+	): Promise<DirectionsResult> {
+		console.log(`🧭 Getting ${profile} directions from ${origin.name} to ${destination.name}`);
+
+		const directDistance = this.calculateDistance(origin.coordinates, destination.coordinates);
+		if (directDistance > MAX_DIRECTIONS_DISTANCE) {
+			return this.createErrorResult(
+				origin,
+				destination,
+				profile,
+				`Too far for ${getRoutingProfile(profile).name.toLowerCase()} directions (over ${MAX_DIRECTIONS_DISTANCE / 1000} km)`
+			);
+		}
+
+		try {
+			const bounds = this.calculateBoundsWithPadding(
+				[origin.coordinates, destination.coordinates],
+				GRAPH_PADDING_METERS
+			);
+			const graph = await this.graphBuilder.buildGraph(bounds, profile);
+
+			if (graph.nodes.size === 0) {
+				console.warn('⚠️ No usable roads found in area, using straight-line fallback');
+			}
+
+			// Graph nodes are roughly every few meters, so longer routes need more iterations
+			const maxIterations = Math.min(200000, Math.max(10000, Math.round(directDistance * 10)));
+			const astar = new AStar(graph, maxIterations);
+			const route = await astar.findRoute(origin.coordinates, destination.coordinates);
+
+			const instructions = new RouteInstructionBuilder(graph).build(route, destination.name);
+
+			return {
+				success: true,
+				route,
+				instructions,
+				geoJson: this.convertToGeoJSON(origin, destination, route, instructions),
+				totalDistance: route.distance,
+				totalWalkingTime: route.estimatedWalkingTime,
+				profile
+			};
+		} catch (error) {
+			console.error('❌ Error getting directions:', error);
+			return this.createErrorResult(origin, destination, profile, 'Could not calculate a route');
+		}
+	}
+
+	/**
+	 * Convert a route to GeoJSON: the route line, maneuver points and both waypoints,
+	 * told apart by the `directionsType` property
+	 */
+	private convertToGeoJSON(
+		origin: DirectionsWaypoint,
+		destination: DirectionsWaypoint,
+		route: RouteResult,
+		instructions: RouteInstruction[]
+	): GeoJSON.FeatureCollection {
+		const features: GeoJSON.Feature[] = [
+			{
+				type: 'Feature',
+				properties: {
+					directionsType: 'route',
+					profile: route.profile,
+					distance: route.distance,
+					walkingTime: route.estimatedWalkingTime,
+					roadTypes: route.roadTypes,
+					fallback: route.fallbackToStraightLine
+				},
+				geometry: {
+					type: 'LineString',
+					coordinates: route.path
+				}
+			}
+		];
+
+		instructions.forEach((instruction, index) => {
+			if (instruction.type === 'depart' || instruction.type === 'arrive') return;
+			features.push({
+				type: 'Feature',
+				properties: {
+					directionsType: 'maneuver',
+					stepIndex: index,
+					maneuver: instruction.type,
+					modifier: instruction.modifier,
+					text: instruction.text
+				},
+				geometry: {
+					type: 'Point',
+					coordinates: instruction.coordinates
+				}
+			});
+		});
+
+		features.push(...this.createWaypointFeatures(origin, destination));
+
+		return {
+			type: 'FeatureCollection',
+			features
+		};
+	}
+
+	/**
+	 * Create point features for the origin and destination
+	 */
+	createWaypointFeatures(
+		origin: DirectionsWaypoint | null,
+		destination: DirectionsWaypoint | null
+	): GeoJSON.Feature[] {
+		const features: GeoJSON.Feature[] = [];
+
+		for (const [directionsType, waypoint] of [
+			['origin', origin],
+			['destination', destination]
+		] as const) {
+			if (!waypoint) continue;
+			features.push({
+				type: 'Feature',
+				properties: {
+					directionsType,
+					name: waypoint.name,
+					source: waypoint.source
+				},
+				geometry: {
+					type: 'Point',
+					coordinates: waypoint.coordinates
+				}
+			});
+		}
+
+		return features;
+	}
+
+	/**
+	 * Create a failed result that still shows both waypoints
+	 */
+	private createErrorResult(
+		origin: DirectionsWaypoint,
+		destination: DirectionsWaypoint,
+		profile: RoutingProfileId,
+		error: string
+	): DirectionsResult {
+		return {
+			success: false,
+			error,
+			route: {
+				success: false,
+				path: [],
+				distance: 0,
+				estimatedWalkingTime: 0,
+				roadTypes: [],
+				fallbackToStraightLine: false,
+				profile
+			},
+			instructions: [],
+			geoJson: {
+				type: 'FeatureCollection',
+				features: this.createWaypointFeatures(origin, destination)
+			},
+			totalDistance: 0,
+			totalWalkingTime: 0,
+			profile
+		};
+	}
+
+	/**
+	 * Calculate bounding box for coordinates with padding
+	 */
+	private calculateBoundsWithPadding(
+		coordinates: [number, number][],
+		paddingMeters: number
+	): [number, number, number, number] {
+		let minLng = Infinity,
+			minLat = Infinity;
+		let maxLng = -Infinity,
+			maxLat = -Infinity;
+
+		for (const [lng, lat] of coordinates) {
+			if (lng < minLng) minLng = lng;
+			if (lng > maxLng) maxLng = lng;
+			if (lat < minLat) minLat = lat;
+			if (lat > maxLat) maxLat = lat;
+		}
+
+		// Add padding (rough conversion: 1 degree ≈ 111km)
+		const paddingDeg = paddingMeters / 111000;
+
+		return [minLng - paddingDeg, minLat - paddingDeg, maxLng + paddingDeg, maxLat + paddingDeg];
+	}
+
+	/**
+	 * Calculate straight-line distance between two coordinates (meters)
+	 */
+	private calculateDistance(coord1: [number, number], coord2: [number, number]): number {
+		const R = 6371000; // Earth's radius in meters
+		const φ1 = (coord1[1] * Math.PI) / 180;
+		const φ2 = (coord2[1] * Math.PI) / 180;
+		const Δφ = ((coord2[1] - coord1[1]) * Math.PI) / 180;
+		const Δλ = ((coord2[0] - coord1[0]) * Math.PI) / 180;
+
+		const a =
+			Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
+			Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
+		const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+
+		return R * c;
+	}
+
+	/**
+	 * Clear the graph builder cache (useful for memory management)
+	 */
+	clearCache(): void {
+		this.graphBuilder.clear();
+	}
+}
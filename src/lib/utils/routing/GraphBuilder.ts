@@ -1,112 +1,129 @@
-import {
-	shouldIncludeInWalkingNetwork,
-	calculateWalkingCost
-} from '$lib/utils/routing/WalkingRouteConfig';
 import { GridSpatialIndex } from '$lib/utils/routing/RouteGraph';
-import { lineString } from '@turf/helpers';
-import { length } from '@turf/length';
 import { getWorker } from '$lib/utils/worker/dualWorkerManager';
-import { VectorTile } from '@mapbox/vector-tile';
-import Protobuf from 'pbf';
+import {
+	decodeRouteGraphTile,
+	ROUTE_GRAPH_TILE_ZOOM,
+	type RouteGraphTile
+} from '$lib/utils/routing/RouteGraphTile';
+
+// Boundary nodes of neighbouring tiles closer than this are the same point (meters)
+const STITCH_TOLERANCE_METERS = 2;
+// Bucket size for looking up boundary nodes (~1 m in degrees)
+const STITCH_BUCKET_DEGREES = 1e-5;
+// Beyond this many loaded tiles, the graph is rebuilt from just the requested tiles
+const MAX_GRAPH_TILES = 256;
+
+interface TiledGraph {
+	graph: RouteGraph;
+	loadedTiles: Set<string>; // "x/y" of tiles already stitched into the graph
+	boundaryNodes: Map<string, string[]>; // bucket -> IDs of nodes on a tile edge
+}
 
 /**
- * GraphBuilder - Constructs a walking route graph from transportation MBTILES data
- * Uses the worker system to query transportation_highway source layer from OPFS MBTILES
+ * GraphBuilder - Constructs route graphs from transportation MBTILES data
+ * The tile worker turns each zoom 14 transportation tile into a small binary graph per
+ * routing profile and caches it in OPFS. This class only requests the tiles covering the
+ * bounds that aren't loaded yet and stitches them onto the existing graph at the tile edges,
+ * so moving the bounds a little or switching profiles doesn't rebuild everything.
  */
 export class GraphBuilder {
-	private graph: RouteGraph;
+	private graph: RouteGraph; // Graph currently being extended
+	private graphs = new Map<RoutingProfileId, TiledGraph>();
 	private isBuilding = false;
-	private lastBuildBounds: [number, number, number, number] | null = null;
 	constructor() {
-		this.graph = {
-			nodes: new Map(),
-			spatialIndex: new GridSpatialIndex()
-		};
+		this.graph = this.createEmptyGraph();
 	}
 
 	/**
-	 * Build the walking route graph for a given bounding box
-	 * Uses worker system to query transportation.mbtiles from OPFS
+	 * Build the route graph for a given bounding box and routing profile
+	 * Tiles already in the graph are reused; only missing tiles are requested from the worker
 	 */
-	async buildGraph(bounds: [number, number, number, number]): Promise<RouteGraph> {
-		// Check if we already built a graph for these bounds
-		if (this.lastBuildBounds && this.boundsEqual(bounds, this.lastBuildBounds)) {
-			console.log('🗺️ Reusing existing graph for bounds:', bounds);
-			return this.graph;
-		}
-
+	async buildGraph(
+		bounds: [number, number, number, number],
+		profileId: RoutingProfileId = 'walking'
+	): Promise<RouteGraph> {
 		if (this.isBuilding) {
 			console.log('⏳ Graph building in progress, waiting...');
 			// Wait for current build to complete
 			while (this.isBuilding) {
 				await new Promise((resolve) => setTimeout(resolve, 100));
 			}
-			return this.graph;
+		}
+
+		const tileRange = this.boundsToTileRange(bounds, ROUTE_GRAPH_TILE_ZOOM);
+		const requiredTiles: [number, number][] = [];
+		for (let x = tileRange.minX; x <= tileRange.maxX; x++) {
+			for (let y = tileRange.minY; y <= tileRange.maxY; y++) {
+				requiredTiles.push([x, y]);
+			}
+		}
+
+		let tiled = this.graphs.get(profileId);
+		let missingTiles = requiredTiles.filter(([x, y]) => !tiled?.loadedTiles.has(`${x}/${y}`));
+
+		if (tiled && missingTiles.length === 0) {
+			console.log(`🗺️ Reusing existing ${profileId} graph for bounds:`, bounds);
+			return tiled.graph;
 		}
 
 		this.isBuilding = true;
-		console.log('🏗️ Building walking route graph for bounds:', bounds);
+		console.log(
+			`🏗️ Extending ${profileId} route graph with ${missingTiles.length}/${requiredTiles.length} tiles for bounds:`,
+			bounds
+		);
 
 		try {
-			// Clear existing graph
-			this.graph = {
-				nodes: new Map(),
-				spatialIndex: new GridSpatialIndex()
-			};
-
-			// Query transportation highways from OPFS MBTILES via worker
-			const roadFeatures = await this.queryTransportationHighways(bounds);
-			console.log(`📊 Found ${roadFeatures.length} road features in bounds`);
+			// Start over when the graph has grown too large, keeping memory bounded
+			if (!tiled || tiled.loadedTiles.size + missingTiles.length > MAX_GRAPH_TILES) {
+				tiled = {
+					graph: this.createEmptyGraph(profileId),
+					loadedTiles: new Set(),
+					boundaryNodes: new Map()
+				};
+				this.graphs.set(profileId, tiled);
+				missingTiles = requiredTiles;
+			}
+			this.graph = tiled.graph;
 
-			// Filter for walking-suitable roads
-			const allRoadTypes = new Map<string, number>();
-			const filteredOutTypes = new Map<string, number>();
+			// Graph tiles are built (or read from the OPFS cache) in the tile worker
+			const worker = getWorker();
+			await worker.waitForReady();
 
-			const walkableRoads = roadFeatures.filter((feature) => {
-				const category = feature.properties?.category || 'unknown';
-				allRoadTypes.set(category, (allRoadTypes.get(category) || 0) + 1);
+			const buffers = await Promise.all(
+				missingTiles.map(([x, y]) =>
+					worker.requestRouteGraphTile(profileId, x, y).catch((error) => {
+						console.debug(`❌ Error fetching route graph tile ${x}/${y}:`, error);
+						return undefined;
+					})
+				)
+			);
 
-				const isWalkable = shouldIncludeInWalkingNetwork(feature.properties);
-				if (!isWalkable) {
-					filteredOutTypes.set(category, (filteredOutTypes.get(category) || 0) + 1);
+			let tilesFound = 0;
+			let edgesCreated = 0;
+			for (let index = 0; index < missingTiles.length; index++) {
+				const [x, y] = missingTiles[index];
+				const buffer = buffers[index];
+				// Failed requests are retried with the next route
+				if (buffer === undefined) continue;
+				// Tiles without data are remembered too, so they aren't requested again
+				tiled.loadedTiles.add(`${x}/${y}`);
+				if (!buffer) continue;
+
+				try {
+					edgesCreated += this.addTileToGraph(tiled, decodeRouteGraphTile(buffer));
+					tilesFound++;
+				} catch (error) {
+					console.error(`❌ Failed to decode route graph tile ${x}/${y}:`, error);
 				}
-				return isWalkable;
-			});
-
-			console.log(`🚶 Filtered to ${walkableRoads.length} walkable road segments`);
-			console.log('📊 All road types found:', Object.fromEntries(allRoadTypes));
-			console.log('❌ Filtered OUT road types:', Object.fromEntries(filteredOutTypes));
-
-			// Analyze road type distribution
-			const roadTypeStats = new Map<string, number>();
-			for (const road of walkableRoads) {
-				const category = road.properties?.category || 'unknown';
-				roadTypeStats.set(category, (roadTypeStats.get(category) || 0) + 1);
-			}
-			console.log('📊 Walkable road types found:', Object.fromEntries(roadTypeStats));
-
-			// Log a sample of walkable roads
-			if (walkableRoads.length > 0) {
-				const sample = walkableRoads.slice(0, 5); // Increased sample size
-				console.log(
-					'🔍 Sample walkable roads:',
-					sample.map((r) => ({
-						id: r.id,
-						category: r.properties?.category,
-						class: r.properties?.class,
-						subclass: r.properties?.subclass,
-						coordinates: r.geometry.coordinates.length,
-						start: r.geometry.coordinates[0],
-						end: r.geometry.coordinates[r.geometry.coordinates.length - 1]
-					}))
-				);
 			}
 
-			// Build graph from walkable roads
-			this.buildGraphFromRoads(walkableRoads);
+			if (tilesFound > 0) {
+				this.graph.revision = (this.graph.revision ?? 0) + 1;
+			}
 
-			this.lastBuildBounds = [...bounds] as [number, number, number, number];
-			console.log(`✅ Graph built successfully: ${this.graph.nodes.size} nodes`);
+			console.log(
+				`✅ ${profileId} graph extended: ${tilesFound}/${missingTiles.length} tiles with roads, ${edgesCreated} edges added, ${this.graph.nodes.size} nodes total`
+			);
 
 			return this.graph;
 		} catch (error) {
@@ -118,150 +135,98 @@ export class GraphBuilder {
 	}
 
 	/**
-	 * Query transportation highway features from OPFS transportation MBTILES via worker
+	 * Add a decoded graph tile to the graph, merging its edge nodes with the matching
+	 * nodes of neighbouring tiles that are already loaded
+	 * Returns the number of edges created
 	 */
-	private async queryTransportationHighways(
-		bounds: [number, number, number, number]
-	): Promise<any[]> {
-		try {
-			const worker = getWorker();
-			await worker.waitForReady();
-
-			const features: any[] = [];
-			const ZOOM_LEVEL = 14; // Transportation highway features are available at zoom 14
-
-			console.log(`🔍 Querying transportation tiles at zoom ${ZOOM_LEVEL} for bounds:`, bounds);
-
-			// Calculate tile range for the bounds at zoom level 14
-			const tileRange = this.boundsToTileRange(bounds, ZOOM_LEVEL);
-			console.log(
-				`📐 Tile range: x(${tileRange.minX}-${tileRange.maxX}) y(${tileRange.minY}-${tileRange.maxY}) - Total: ${(tileRange.maxX - tileRange.minX + 1) * (tileRange.maxY - tileRange.minY + 1)} tiles`
-			);
-
-			// Query each tile in the range
-			let tilesQueried = 0;
-			let tilesFound = 0;
-			for (let x = tileRange.minX; x <= tileRange.maxX; x++) {
-				for (let y = tileRange.minY; y <= tileRange.maxY; y++) {
-					tilesQueried++;
-					try {
-						// Request tile from worker (transportation.mbtiles)
-						const tileData = await worker.requestTile('transportation', ZOOM_LEVEL, x, y);
-
-						if (tileData) {
-							tilesFound++;
-							console.log(
-								`✅ Found transportation tile at ${ZOOM_LEVEL}/${x}/${y} (${tileData.byteLength} bytes)`
-							);
-							// Parse vector tile and extract transportation_highway features
-							const tileFeatures = await this.extractTransportationFeatures(
-								tileData,
-								x,
-								y,
-								ZOOM_LEVEL,
-								bounds
-							);
-							features.push(...tileFeatures);
-						} else {
-							console.debug(`❌ No transportation tile at ${ZOOM_LEVEL}/${x}/${y}`);
-						}
-					} catch (tileError) {
-						// Skip missing tiles - this is normal for sparse data
-						console.debug(`❌ Error fetching tile ${ZOOM_LEVEL}/${x}/${y}:`, tileError);
-					}
+	private addTileToGraph(tiled: TiledGraph, tile: RouteGraphTile): number {
+		// Graph node ID for each tile node
+		const nodeIds: string[] = new Array(tile.nodeCount);
+
+		for (let i = 0; i < tile.nodeCount; i++) {
+			const coordinates: [number, number] = [tile.coordinates[i * 2], tile.coordinates[i * 2 + 1]];
+
+			if (tile.boundary[i]) {
+				const existing = this.findBoundaryNode(tiled, coordinates);
+				if (existing) {
+					nodeIds[i] = existing;
+					continue;
 				}
+				nodeIds[i] = this.getOrCreateNode(coordinates);
+				const bucket = this.getBoundaryBucket(coordinates[0], coordinates[1]);
+				tiled.boundaryNodes.set(bucket, [...(tiled.boundaryNodes.get(bucket) ?? []), nodeIds[i]]);
+			} else {
+				nodeIds[i] = this.getOrCreateNode(coordinates);
 			}
+		}
 
-			console.log(`📊 Tile query summary: Found ${tilesFound}/${tilesQueried} tiles with data`);
-			console.log(`🛣️ Extracted ${features.length} total transportation features`);
-			return features;
-		} catch (error) {
-			console.error('❌ Error querying transportation highways from worker:', error);
-			return [];
+		let edgesCreated = 0;
+		for (let i = 0; i < tile.edgeCount; i++) {
+			const startNodeId = nodeIds[tile.edgeNodes[i * 2]];
+			const endNodeId = nodeIds[tile.edgeNodes[i * 2 + 1]];
+			if (startNodeId === endNodeId) continue;
+
+			const startCoord = this.graph.nodes.get(startNodeId)!.coordinates;
+			const endCoord = this.graph.nodes.get(endNodeId)!.coordinates;
+
+			// Create bidirectional edges
+			this.addEdge(
+				startNodeId,
+				endNodeId,
+				tile.edgeDistance[i],
+				tile.edgeCost[i],
+				tile.edgeCategory[i],
+				tile.edgeRoadId[i],
+				[startCoord, endCoord],
+				tile.edgeNames[i]
+			);
+			this.addEdge(
+				endNodeId,
+				startNodeId,
+				tile.edgeDistance[i],
+				tile.edgeCost[i],
+				tile.edgeCategory[i],
+				tile.edgeRoadId[i],
+				[endCoord, startCoord],
+				tile.edgeNames[i]
+			);
+			edgesCreated += 2;
 		}
+
+		return edgesCreated;
 	}
 
 	/**
-	 * Extract transportation_highway features from a vector tile
+	 * Find a node on the edge of an already loaded tile at (almost) the same position
 	 */
-	private async extractTransportationFeatures(
-		tileData: ArrayBuffer,
-		x: number,
-		y: number,
-		zoom: number,
-		bounds: [number, number, number, number]
-	): Promise<any[]> {
-		try {
-			// Parse the vector tile
-			const tile = new VectorTile(new Protobuf(tileData));
-			const features: any[] = [];
-
-			// Get the transportation_highway layer
-			const layer = tile.layers['transportation_highway'];
-			if (!layer) {
-				console.debug(`No transportation_highway layer in tile ${zoom}/${x}/${y}`);
-				return [];
-			}
-
-			console.log(
-				`🚧 Processing ${layer.length} features from transportation_highway layer in tile ${zoom}/${x}/${y}`
-			);
-
-			// Process each feature in the layer
-			let featuresProcessed = 0;
-			let featuresIncluded = 0;
-			for (let i = 0; i < layer.length; i++) {
-				featuresProcessed++;
-				const vectorFeature = layer.feature(i);
-				const properties = vectorFeature.properties as Record<string, any>;
-
-				// Convert to GeoJSON to get real-world coordinates
-				const geoJSONFeature = vectorFeature.toGeoJSON(x, y, zoom);
-
-				// Only include LineString features (roads/paths)
-				if (geoJSONFeature.geometry.type === 'LineString') {
-					// Check if feature intersects with our bounds
-					if (this.featureIntersectsBounds(geoJSONFeature, bounds)) {
-						featuresIncluded++;
-						// Log first few features for debugging
-						if (featuresIncluded <= 3) {
-							console.log(`🎅 Feature ${featuresIncluded} in tile ${zoom}/${x}/${y}:`, {
-								id: properties.id,
-								class: properties.class,
-								subclass: properties.subclass,
-								category: properties.category,
-								coordinateCount: geoJSONFeature.geometry.coordinates.length,
-								startCoord: geoJSONFeature.geometry.coordinates[0],
-								endCoord:
-									geoJSONFeature.geometry.coordinates[
-										geoJSONFeature.geometry.coordinates.length - 1
-									]
-							});
-						}
-
-						// Add feature with normalized properties
-						features.push({
-							id: properties.id || `${x}_${y}_${i}`,
-							geometry: geoJSONFeature.geometry,
-							properties: {
-								class: properties.class || 'transportation',
-								subclass: properties.subclass,
-								category: properties.category,
-								...properties
-							}
-						});
+	private findBoundaryNode(tiled: TiledGraph, coordinates: [number, number]): string | null {
+		const [lng, lat] = coordinates;
+		let nearest: string | null = null;
+		let nearestDistance = STITCH_TOLERANCE_METERS;
+
+		for (const dLng of [-1, 0, 1]) {
+			for (const dLat of [-1, 0, 1]) {
+				const bucket = this.getBoundaryBucket(
+					lng + dLng * STITCH_BUCKET_DEGREES,
+					lat + dLat * STITCH_BUCKET_DEGREES
+				);
+				for (const nodeId of tiled.boundaryNodes.get(bucket) ?? []) {
+					const node = this.graph.nodes.get(nodeId);
+					if (!node) continue;
+					const distance = this.calculateDistance(coordinates, node.coordinates);
+					if (distance <= nearestDistance) {
+						nearest = nodeId;
+						nearestDistance = distance;
 					}
 				}
 			}
-
-			console.log(
-				`📊 Tile ${zoom}/${x}/${y} summary: ${featuresIncluded}/${featuresProcessed} features included`
-			);
-			return features;
-		} catch (error) {
-			console.error(`❌ Error parsing transportation tile ${zoom}/${x}/${y}:`, error);
-			return [];
 		}
+
+		return nearest;
+	}
+
+	private getBoundaryBucket(lng: number, lat: number): string {
+		return `${Math.round(lng / STITCH_BUCKET_DEGREES)},${Math.round(lat / STITCH_BUCKET_DEGREES)}`;
 	}
 
 	/**
@@ -304,163 +269,6 @@ export class GraphBuilder {
 		return { x, y };
 	}
 
-	/**
-	 * Build the route graph from walkable road features
-	 * Improved version that properly connects intersecting roads
-	 */
-	private buildGraphFromRoads(roadFeatures: any[]): void {
-		console.log(`🔗 Building road network graph from ${roadFeatures.length} features...`);
-
-		// First pass: Create all nodes and collect intersection points
-		const intersectionNodes = new Map<string, string>(); // coord key -> node ID
-		const roadSegments: Array<{
-			id: string;
-			coordinates: [number, number][];
-			category: string;
-			properties: any;
-		}> = [];
-
-		for (const feature of roadFeatures) {
-			if (feature.geometry.type !== 'LineString') {
-				continue;
-			}
-
-			const coordinates = feature.geometry.coordinates;
-			const roadCategory = feature.properties.category || 'unknown';
-			const roadId = String(feature.id);
-
-			roadSegments.push({
-				id: roadId,
-				coordinates,
-				category: roadCategory,
-				properties: feature.properties
-			});
-
-			// Create nodes for all coordinate points (not just start/end)
-			// This helps with intersections and gives more routing options
-			for (let i = 0; i < coordinates.length; i++) {
-				const coord = coordinates[i];
-				const nodeId = this.getOrCreateNode(coord);
-
-				// Track intersection points (start/end of roads are likely intersections)
-				if (i === 0 || i === coordinates.length - 1) {
-					const coordKey = this.getCoordinateKey(coord);
-					if (!intersectionNodes.has(coordKey)) {
-						intersectionNodes.set(coordKey, nodeId);
-					}
-				}
-			}
-		}
-
-		console.log(
-			`🎯 Created ${this.graph.nodes.size} nodes, ${intersectionNodes.size} potential intersections`
-		);
-
-		// Second pass: Create edges between consecutive points in each road
-		let edgesCreated = 0;
-		for (const segment of roadSegments) {
-			for (let i = 0; i < segment.coordinates.length - 1; i++) {
-				const startCoord = segment.coordinates[i];
-				const endCoord = segment.coordinates[i + 1];
-
-				const startNodeId = this.getNodeIdForCoordinate(startCoord);
-				const endNodeId = this.getNodeIdForCoordinate(endCoord);
-
-				if (startNodeId && endNodeId && startNodeId !== endNodeId) {
-					// Calculate distance and cost for this segment
-					const segmentCoords = [startCoord, endCoord];
-					const distance = this.calculateSegmentLength(segmentCoords);
-					const cost = calculateWalkingCost(distance, segment.category, segment.properties);
-
-					// Create bidirectional edges
-					this.addEdge(
-						startNodeId,
-						endNodeId,
-						distance,
-						cost,
-						segment.category,
-						segment.id,
-						segmentCoords
-					);
-					this.addEdge(endNodeId, startNodeId, distance, cost, segment.category, segment.id, [
-						endCoord,
-						startCoord
-					]);
-					edgesCreated += 2;
-				}
-			}
-		}
-
-		console.log(`🔗 Created ${edgesCreated} bidirectional edges`);
-
-		// Third pass: Verify connectivity
-		let connectedNodes = 0;
-		let isolatedNodes = 0;
-		for (const [nodeId, node] of this.graph.nodes) {
-			if (node.connections.size > 0) {
-				connectedNodes++;
-			} else {
-				isolatedNodes++;
-			}
-		}
-
-		console.log(
-			`📊 Network analysis: ${connectedNodes} connected nodes, ${isolatedNodes} isolated nodes`
-		);
-
-		// Sample some nodes to verify they have connections
-		if (connectedNodes > 0) {
-			const sampleNodes = Array.from(this.graph.nodes.entries())
-				.filter(([_, node]) => node.connections.size > 0)
-				.slice(0, 3);
-
-			console.log(
-				`🔍 Sample connected nodes:`,
-				sampleNodes.map(([id, node]) => ({
-					id,
-					coordinates: node.coordinates,
-					connections: node.connections.size,
-					connectedTo: Array.from(node.connections.keys()).slice(0, 3)
-				}))
-			);
-		}
-	}
-
-	/**
-	 * Get coordinate key for deduplication
-	 */
-	private getCoordinateKey(coord: [number, number]): string {
-		const precision = 6;
-		return `${coord[0].toFixed(precision)},${coord[1].toFixed(precision)}`;
-	}
-
-	/**
-	 * Get existing node ID for a coordinate
-	 */
-	private getNodeIdForCoordinate(coord: [number, number]): string | null {
-		const nodeId = this.getCoordinateKey(coord);
-		return this.graph.nodes.has(nodeId) ? nodeId : null;
-	}
-
-	/**
-	 * Calculate length of a coordinate segment
-	 */
-	private calculateSegmentLength(coordinates: [number, number][]): number {
-		if (coordinates.length < 2) return 0;
-
-		try {
-			const line = lineString(coordinates);
-			return length(line, { units: 'meters' });
-		} catch (error) {
-			// Fallback to Euclidean distance
-			const [lng1, lat1] = coordinates[0];
-			const [lng2, lat2] = coordinates[1];
-			const dx = (lng2 - lng1) * 111000 * Math.cos((lat1 * Math.PI) / 180);
-			const dy = (lat2 - lat1) * 111000;
-			return Math.sqrt(dx * dx + dy * dy);
-		}
-	}
-
 	/**
 	 * Get or create a node for given coordinates
 	 */
@@ -493,7 +301,8 @@ export class GraphBuilder {
 		cost: number,
 		roadCategory: string,
 		roadId: string,
-		geometry: [number, number][]
+		geometry: [number, number][],
+		roadNames?: FeatureNames
 	): void {
 		const fromNode = this.graph.nodes.get(fromNodeId);
 		if (!fromNode) return;
@@ -504,6 +313,7 @@ export class GraphBuilder {
 			cost,
 			roadCategory,
 			roadId,
+			roadNames,
 			geometry
 		};
 
@@ -511,76 +321,29 @@ export class GraphBuilder {
 	}
 
 	/**
-	 * Calculate the length of a LineString in meters
-	 */
-	private calculateLineStringLength(coordinates: [number, number][]): number {
-		try {
-			const line = lineString(coordinates);
-			return length(line, { units: 'meters' });
-		} catch (error) {
-			// Fallback: simple Euclidean distance
-			console.warn('Failed to calculate precise length, using approximation:', error);
-
-			let totalLength = 0;
-			for (let i = 1; i < coordinates.length; i++) {
-				const [lng1, lat1] = coordinates[i - 1];
-				const [lng2, lat2] = coordinates[i];
-
-				// Approximate distance in meters
-				const dx = (lng2 - lng1) * 111000 * Math.cos((lat1 * Math.PI) / 180);
-				const dy = (lat2 - lat1) * 111000;
-				totalLength += Math.sqrt(dx * dx + dy * dy);
-			}
-
-			return totalLength;
-		}
-	}
-
-	/**
-	 * Check if a feature intersects with the given bounds
-	 */
-	private featureIntersectsBounds(feature: any, bounds: [number, number, number, number]): boolean {
-		const [minLng, minLat, maxLng, maxLat] = bounds;
-
-		if (feature.geometry.type === 'LineString') {
-			// Check if any coordinate is within bounds
-			return feature.geometry.coordinates.some(([lng, lat]: [number, number]) => {
-				return lng >= minLng && lng <= maxLng && lat >= minLat && lat <= maxLat;
-			});
-		}
-
-		return false;
-	}
-
-	/**
-	 * Check if two bounds arrays are equal
+	 * Get the built graph for a routing profile
 	 */
-	private boundsEqual(
-		bounds1: [number, number, number, number],
-		bounds2: [number, number, number, number]
-	): boolean {
-		return bounds1.every((val, index) => Math.abs(val - bounds2[index]) < 0.001);
+	getGraph(profileId: RoutingProfileId = 'walking'): RouteGraph {
+		return this.graphs.get(profileId)?.graph ?? this.createEmptyGraph(profileId);
 	}
 
 	/**
-	 * Get the built graph
-	 */
-	getGraph(): RouteGraph {
-		return this.graph;
-	}
-
-	/**
-	 * Find the nearest walkable node to given coordinates with improved snapping
+	 * Find the nearest routable node to given coordinates with improved snapping
 	 * Uses larger search radius to account for POIs being slightly off-road (like in OSM/Organic Maps)
 	 */
-	findNearestNode(coordinates: [number, number], maxDistance: number = 1000): string | null {
+	findNearestNode(
+		coordinates: [number, number],
+		maxDistance: number = 1000,
+		profileId: RoutingProfileId = 'walking'
+	): string | null {
+		const graph = this.getGraph(profileId);
 		// Try different search radii, starting small and expanding
 		const searchRadii = [100, 250, 500, 750, 1000]; // meters
 
 		for (const radius of searchRadii) {
-			const result = this.graph.spatialIndex.findNearest(coordinates, radius);
+			const result = graph.spatialIndex.findNearest(coordinates, radius);
 			if (result) {
-				const node = this.graph.nodes.get(result);
+				const node = graph.nodes.get(result);
 				const distance = this.calculateDistance(coordinates, node?.coordinates || [0, 0]);
 				console.log(`🎯 Found nearest node at ${radius}m radius:`, {
 					nodeId: result,
@@ -618,13 +381,22 @@ export class GraphBuilder {
 	}
 
 	/**
-	 * Clear the graph (useful for memory management)
+	 * Create an empty graph for a routing profile
 	 */
-	clear(): void {
-		this.graph = {
+	private createEmptyGraph(profileId: RoutingProfileId = 'walking'): RouteGraph {
+		return {
+			profile: profileId,
+			revision: 0,
 			nodes: new Map(),
 			spatialIndex: new GridSpatialIndex()
 		};
-		this.lastBuildBounds = null;
+	}
+
+	/**
+	 * Clear all graphs (useful for memory management)
+	 */
+	clear(): void {
+		this.graph = this.createEmptyGraph();
+		this.graphs.clear();
 	}
 }
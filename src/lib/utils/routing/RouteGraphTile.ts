@@ -0,0 +1,416 @@
+import { VectorTile } from '@mapbox/vector-tile';
+import Protobuf from 'pbf';
+import {
+	getRoutingProfile,
+	shouldIncludeInNetwork,
+	calculateRouteCost
+} from '$lib/utils/routing/RoutingProfiles';
+
+/**
+ * Route graph tiles - the road network of one transportation tile for one routing profile
+ * Built in the tile worker from the transportation_highway layer and cached in OPFS as a
+ * compact binary blob; GraphBuilder decodes them and stitches neighbouring tiles together.
+ *
+ * Roads are clipped exactly at the tile edge, so a road crossing into the next tile ends in a
+ * boundary node at the same position as the first node of its continuation there.
+ *
+ * Binary layout (little-endian, all arrays 4-byte aligned except the trailing bytes):
+ *   header       Uint32 x 10   magic, version, z, x, y, extent, nodes, edges, strings bytes, 0
+ *   nodeXY       Float32 x 2n  tile-local coordinates in extent units
+ *   edgeNodes    Uint32 x 2m   from, to (edges are stored once and used in both directions)
+ *   edgeDistance Float32 x m   meters
+ *   edgeCost     Float32 x m   routing cost for the tile's profile
+ *   edgeCategory Uint32 x m   string index
+ *   edgeRoadId   Uint32 x m   string index
+ *   edgeNames    Uint32 x m   string index of the JSON-encoded FeatureNames, NO_STRING if none
+ *   nodeFlags    Uint8 x n     NODE_BOUNDARY for nodes on the tile edge
+ *   strings      UTF-8 JSON array of strings
+ */
+
+// Transportation highway features are complete at zoom 14
+export const ROUTE_GRAPH_TILE_ZOOM = 14;
+
+// Bump when the format or the profile rules change, so cached tiles are rebuilt
+export const ROUTE_GRAPH_FORMAT_VERSION = 1;
+
+const MAGIC = 0x52475431; // 'RGT1'
+const HEADER_LENGTH = 10;
+const NO_STRING = 0xffffffff;
+const NODE_BOUNDARY = 1;
+
+export interface RouteGraphTile {
+	z: number;
+	x: number;
+	y: number;
+	nodeCount: number;
+	edgeCount: number;
+	coordinates: Float64Array; // [lng, lat] pairs per node
+	boundary: Uint8Array; // 1 for nodes on the tile edge
+	edgeNodes: Uint32Array;
+	edgeDistance: Float32Array;
+	edgeCost: Float32Array;
+	edgeCategory: string[];
+	edgeRoadId: string[];
+	edgeNames: (FeatureNames | undefined)[];
+}
+
+/**
+ * Build the binary route graph of a transportation tile for a routing profile
+ */
+export function buildRouteGraphTile(
+	tileData: ArrayBuffer,
+	z: number,
+	x: number,
+	y: number,
+	profileId: RoutingProfileId
+): ArrayBuffer {
+	const profile = getRoutingProfile(profileId);
+	const tile = new VectorTile(new Protobuf(tileData));
+	const layer = tile.layers['transportation_highway'];
+	const extent = layer?.extent ?? 4096;
+
+	const nodeXY: number[] = [];
+	const nodeFlags: number[] = [];
+	const nodeIndex = new Map<string, number>();
+	const edges: {
+		from: number;
+		to: number;
+		distance: number;
+		cost: number;
+		category: number;
+		roadId: number;
+		names: number;
+	}[] = [];
+	const strings: string[] = [];
+	const stringIndex = new Map<string, number>();
+
+	const internString = (value: string): number => {
+		let index = stringIndex.get(value);
+		if (index === undefined) {
+			index = strings.length;
+			strings.push(value);
+			stringIndex.set(value, index);
+		}
+		return index;
+	};
+
+	const getOrCreateNode = (px: number, py: number): number => {
+		const fx = Math.fround(px);
+		const fy = Math.fround(py);
+		const key = `${fx},${fy}`;
+		let index = nodeIndex.get(key);
+		if (index === undefined) {
+			index = nodeFlags.length;
+			nodeXY.push(fx, fy);
+			const onEdge = fx <= 0 || fy <= 0 || fx >= extent || fy >= extent;
+			nodeFlags.push(onEdge ? NODE_BOUNDARY : 0);
+			nodeIndex.set(key, index);
+		}
+		return index;
+	};
+
+	for (let i = 0; layer && i < layer.length; i++) {
+		const feature = layer.feature(i);
+		if (feature.type !== 2) continue; // LineString
+
+		const properties = feature.properties as Record<string, any>;
+		if (!shouldIncludeInNetwork(properties, profile)) continue;
+
+		const category = String(properties.category);
+		const categoryIndex = internString(category);
+		const roadIdIndex = internString(String(properties.id ?? `${x}_${y}_${i}`));
+		const names = extractRoadNames(properties);
+		const namesIndex = names ? internString(JSON.stringify(names)) : NO_STRING;
+
+		for (const line of feature.loadGeometry()) {
+			for (const part of clipLine(line, extent)) {
+				let previous = getOrCreateNode(part[0][0], part[0][1]);
+				for (let j = 1; j < part.length; j++) {
+					const current = getOrCreateNode(part[j][0], part[j][1]);
+					if (current === previous) continue;
+
+					const distance = calculateDistance(
+						tileToLngLat(nodeXY[previous * 2], nodeXY[previous * 2 + 1], z, x, y, extent),
+						tileToLngLat(nodeXY[current * 2], nodeXY[current * 2 + 1], z, x, y, extent)
+					);
+					edges.push({
+						from: previous,
+						to: current,
+						distance,
+						cost: calculateRouteCost(distance, category, properties, profile),
+						category: categoryIndex,
+						roadId: roadIdIndex,
+						names: namesIndex
+					});
+					previous = current;
+				}
+			}
+		}
+	}
+
+	return encode(z, x, y, extent, nodeXY, nodeFlags, edges, strings);
+}
+
+/**
+ * Decode a binary route graph tile, converting node positions to [lng, lat]
+ */
+export function decodeRouteGraphTile(buffer: ArrayBuffer): RouteGraphTile {
+	const header = new Uint32Array(buffer, 0, HEADER_LENGTH);
+	if (header[0] !== MAGIC || header[1] !== ROUTE_GRAPH_FORMAT_VERSION) {
+		throw new Error('Unsupported route graph tile format');
+	}
+
+	const [, , z, x, y, extent, nodeCount, edgeCount, stringsLength] = header;
+	let offset = HEADER_LENGTH * 4;
+	const take = <T>(create: (offset: number, length: number) => T, length: number, size: number) => {
+		const array = create(offset, length);
+		offset += length * size;
+		return array;
+	};
+
+	const nodeXY = take((o, l) => new Float32Array(buffer, o, l), nodeCount * 2, 4);
+	const edgeNodes = take((o, l) => new Uint32Array(buffer, o, l), edgeCount * 2, 4);
+	const edgeDistance = take((o, l) => new Float32Array(buffer, o, l), edgeCount, 4);
+	const edgeCost = take((o, l) => new Float32Array(buffer, o, l), edgeCount, 4);
+	const categoryIndex = take((o, l) => new Uint32Array(buffer, o, l), edgeCount, 4);
+	const roadIdIndex = take((o, l) => new Uint32Array(buffer, o, l), edgeCount, 4);
+	const namesIndex = take((o, l) => new Uint32Array(buffer, o, l), edgeCount, 4);
+	const boundary = take((o, l) => new Uint8Array(buffer, o, l), nodeCount, 1);
+	const strings: string[] = JSON.parse(
+		new TextDecoder().decode(new Uint8Array(buffer, offset, stringsLength))
+	);
+
+	const coordinates = new Float64Array(nodeCount * 2);
+	for (let i = 0; i < nodeCount; i++) {
+		const [lng, lat] = tileToLngLat(nodeXY[i * 2], nodeXY[i * 2 + 1], z, x, y, extent);
+		coordinates[i * 2] = lng;
+		coordinates[i * 2 + 1] = lat;
+	}
+
+	// Names are shared by all edges of a road, so parse each only once
+	const parsedNames = new Map<number, FeatureNames>();
+	const edgeNames = Array.from(namesIndex, (index) => {
+		if (index === NO_STRING) return undefined;
+		let names = parsedNames.get(index);
+		if (!names) {
+			names = JSON.parse(strings[index]) as FeatureNames;
+			parsedNames.set(index, names);
+		}
+		return names;
+	});
+
+	return {
+		z,
+		x,
+		y,
+		nodeCount,
+		edgeCount,
+		coordinates,
+		boundary,
+		edgeNodes,
+		edgeDistance,
+		edgeCost,
+		edgeCategory: Array.from(categoryIndex, (index) => strings[index]),
+		edgeRoadId: Array.from(roadIdIndex, (index) => strings[index]),
+		edgeNames
+	};
+}
+
+function encode(
+	z: number,
+	x: number,
+	y: number,
+	extent: number,
+	nodeXY: number[],
+	nodeFlags: number[],
+	edges: {
+		from: number;
+		to: number;
+		distance: number;
+		cost: number;
+		category: number;
+		roadId: number;
+		names: number;
+	}[],
+	strings: string[]
+): ArrayBuffer {
+	const nodeCount = nodeFlags.length;
+	const edgeCount = edges.length;
+	const stringBytes = new TextEncoder().encode(JSON.stringify(strings));
+
+	const byteLength =
+		HEADER_LENGTH * 4 + nodeCount * 8 + edgeCount * 28 + nodeCount + stringBytes.byteLength;
+	const buffer = new ArrayBuffer(byteLength);
+
+	new Uint32Array(buffer, 0, HEADER_LENGTH).set([
+		MAGIC,
+		ROUTE_GRAPH_FORMAT_VERSION,
+		z,
+		x,
+		y,
+		extent,
+		nodeCount,
+		edgeCount,
+		stringBytes.byteLength,
+		0
+	]);
+
+	let offset = HEADER_LENGTH * 4;
+	new Float32Array(buffer, offset, nodeCount * 2).set(nodeXY);
+	offset += nodeCount * 8;
+
+	const edgeNodes = new Uint32Array(buffer, offset, edgeCount * 2);
+	offset += edgeCount * 8;
+	const edgeDistance = new Float32Array(buffer, offset, edgeCount);
+	offset += edgeCount * 4;
+	const edgeCost = new Float32Array(buffer, offset, edgeCount);
+	offset += edgeCount * 4;
+	const edgeCategory = new Uint32Array(buffer, offset, edgeCount);
+	offset += edgeCount * 4;
+	const edgeRoadId = new Uint32Array(buffer, offset, edgeCount);
+	offset += edgeCount * 4;
+	const edgeNames = new Uint32Array(buffer, offset, edgeCount);
+	offset += edgeCount * 4;
+
+	edges.forEach((edge, i) => {
+		edgeNodes[i * 2] = edge.from;
+		edgeNodes[i * 2 + 1] = edge.to;
+		edgeDistance[i] = edge.distance;
+		edgeCost[i] = edge.cost;
+		edgeCategory[i] = edge.category;
+		edgeRoadId[i] = edge.roadId;
+		edgeNames[i] = edge.names;
+	});
+
+	new Uint8Array(buffer, offset, nodeCount).set(nodeFlags);
+	offset += nodeCount;
+	new Uint8Array(buffer, offset, stringBytes.byteLength).set(stringBytes);
+
+	return buffer;
+}
+
+/**
+ * Clip a line in tile coordinates to the tile square, splitting it where it leaves and
+ * re-enters the tile. Cut points land exactly on the tile edge.
+ */
+function clipLine(line: { x: number; y: number }[], extent: number): [number, number][][] {
+	const parts: [number, number][][] = [];
+	let current: [number, number][] | null = null;
+
+	for (let i = 0; i < line.length - 1; i++) {
+		const clipped = clipSegment(line[i], line[i + 1], extent);
+		if (!clipped) {
+			if (current && current.length > 1) parts.push(current);
+			current = null;
+			continue;
+		}
+
+		const { start, end, startCut, endCut } = clipped;
+		if (!current || startCut) {
+			if (current && current.length > 1) parts.push(current);
+			current = [start];
+		}
+		current.push(end);
+
+		if (endCut) {
+			parts.push(current);
+			current = null;
+		}
+	}
+
+	if (current && current.length > 1) parts.push(current);
+	return parts;
+}
+
+/**
+ * Liang-Barsky clipping of one segment to [0, extent] in both axes
+ */
+function clipSegment(
+	from: { x: number; y: number },
+	to: { x: number; y: number },
+	extent: number
+): { start: [number, number]; end: [number, number]; startCut: boolean; endCut: boolean } | null {
+	const dx = to.x - from.x;
+	const dy = to.y - from.y;
+	let t0 = 0;
+	let t1 = 1;
+
+	const checks: [number, number][] = [
+		[-dx, from.x],
+		[dx, extent - from.x],
+		[-dy, from.y],
+		[dy, extent - from.y]
+	];
+	for (const [p, q] of checks) {
+		if (p === 0) {
+			if (q < 0) return null; // Parallel to and outside this edge
+			continue;
+		}
+		const t = q / p;
+		if (p < 0) {
+			if (t > t1) return null;
+			if (t > t0) t0 = t;
+		} else {
+			if (t < t0) return null;
+			if (t < t1) t1 = t;
+		}
+	}
+
+	const clamp = (value: number) => Math.min(extent, Math.max(0, value));
+	return {
+		start: [clamp(from.x + t0 * dx), clamp(from.y + t0 * dy)],
+		end: [clamp(from.x + t1 * dx), clamp(from.y + t1 * dy)],
+		startCut: t0 > 0,
+		endCut: t1 < 1
+	};
+}
+
+/**
+ * Get the street names of a road (name, name:en, ...), shared by all its edges
+ */
+function extractRoadNames(properties: Record<string, any>): FeatureNames | undefined {
+	let names: FeatureNames | undefined;
+	for (const [key, value] of Object.entries(properties)) {
+		if ((key === 'name' || key.startsWith('name:')) && typeof value === 'string' && value) {
+			names ??= {};
+			names[key] = value;
+		}
+	}
+	return names;
+}
+
+/**
+ * Convert tile-local coordinates to [lng, lat]
+ */
+function tileToLngLat(
+	px: number,
+	py: number,
+	z: number,
+	x: number,
+	y: number,
+	extent: number
+): [number, number] {
+	const size = extent * Math.pow(2, z);
+	const lng = ((x * extent + px) / size) * 360 - 180;
+	const n = Math.PI * (1 - (2 * (y * extent + py)) / size);
+	const lat = (Math.atan(Math.sinh(n)) * 180) / Math.PI;
+	return [lng, lat];
+}
+
+/**
+ * Calculate distance between two coordinates in meters
+ */
+function calculateDistance(coord1: [number, number], coord2: [number, number]): number {
+	const R = 6371000; // Earth's radius in meters
+	const φ1 = (coord1[1] * Math.PI) / 180;
+	const φ2 = (coord2[1] * Math.PI) / 180;
+	const Δφ = ((coord2[1] - coord1[1]) * Math.PI) / 180;
+	const Δλ = ((coord2[0] - coord1[0]) * Math.PI) / 180;
+
+	const a =
+		Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
+		Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
+	const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+
+	return R * c;
+}
@@ -0,0 +1,373 @@
+import { getDisplayName } from '$lib/utils/language';
+
+interface RouteSegment {
+	coordinates: [number, number][];
+	distance: number;
+	roadCategory: string;
+	roadName?: string;
+	roadId?: string;
+	endNodeId?: string;
+}
+
+// Distance over which the heading before and after a maneuver is measured (meters)
+const BEARING_SAMPLE_DISTANCE = 15;
+// Unnamed roads only start a new step when turning at least this much (degrees)
+const UNNAMED_TURN_THRESHOLD = 30;
+// Steps shorter than this between two parts of the same street are merged away (meters)
+const MIN_STEP_DISTANCE = 10;
+
+// How road categories are referred to when they have no street name
+const ROAD_CATEGORY_LABELS: Record<string, string> = {
+	footway: 'footpath',
+	pedestrian: 'pedestrian street',
+	steps: 'steps',
+	path: 'path',
+	track: 'track',
+	bridleway: 'bridleway',
+	cycleway: 'cycleway',
+	minor: 'street',
+	service: 'service road',
+	tertiary: 'road',
+	secondary: 'road',
+	primary: 'main road',
+	link: 'slip road',
+	byway: 'byway'
+};
+
+const COMPASS_DIRECTIONS = [
+	'north',
+	'northeast',
+	'east',
+	'southeast',
+	'south',
+	'southwest',
+	'west',
+	'northwest'
+];
+
+const MODIFIER_PHRASES: Record<ManeuverModifier, string> = {
+	straight: 'Continue straight',
+	slight_left: 'Bear left',
+	left: 'Turn left',
+	sharp_left: 'Turn sharp left',
+	slight_right: 'Bear right',
+	right: 'Turn right',
+	sharp_right: 'Turn sharp right',
+	uturn: 'Make a U-turn'
+};
+
+/**
+ * RouteInstructionBuilder - Turns an A* route into turn-by-turn walking instructions
+ * A new step starts where the street name changes, or where an unnamed path turns onto
+ * another road at an intersection. Turn angles are measured over a few meters on each side
+ * of the maneuver, so short zigzags in the road geometry don't count as turns.
+ * Note: Interfaces are globally declared in app.d.ts
+ */
+export class RouteInstructionBuilder {
+	private graph: RouteGraph;
+
+	constructor(graph: RouteGraph) {
+		this.graph = graph;
+	}
+
+	/**
+	 * Build the instructions for a route found in this builder's graph
+	 */
+	build(route: RouteResult, destinationName?: string): RouteInstruction[] {
+		if (!route.success || route.path.length < 2) return [];
+
+		const segments = this.collectSegments(route);
+		const minutesPerMeter = route.distance > 0 ? route.estimatedWalkingTime / route.distance : 0;
+
+		// Flatten the segments into one path to measure headings across segment boundaries
+		const path: [number, number][] = [];
+		const segmentStarts: number[] = [];
+		for (const segment of segments) {
+			segmentStarts.push(Math.max(0, path.length - 1));
+			path.push(...(path.length === 0 ? segment.coordinates : segment.coordinates.slice(1)));
+		}
+
+		const instructions: RouteInstruction[] = [];
+		let current: RouteInstruction | null = null;
+
+		for (let i = 0; i < segments.length; i++) {
+			const segment = segments[i];
+			const junction = segmentStarts[i];
+			const bearing = this.outgoingBearing(path, junction);
+
+			if (!current) {
+				current = this.createDepart(segment, path[junction], bearing, route);
+				instructions.push(current);
+			} else {
+				const turn = this.normalizeAngle(bearing - this.incomingBearing(path, junction));
+				if (this.startsNewStep(segments[i - 1], segment, turn)) {
+					current = this.createTurn(segment, path[junction], bearing, turn);
+					instructions.push(current);
+				}
+			}
+
+			current.distance += segment.distance;
+		}
+
+		const arrival = path[path.length - 1];
+		instructions.push({
+			type: 'arrive',
+			text: destinationName ? `Arrive at ${destinationName}` : 'Arrive at your destination',
+			roadCategory: segments[segments.length - 1].roadCategory,
+			distance: 0,
+			duration: 0,
+			coordinates: arrival,
+			bearing: this.incomingBearing(path, path.length - 1)
+		});
+
+		const merged = this.mergeShortSteps(instructions);
+		for (const instruction of merged) {
+			instruction.duration = instruction.distance * minutesPerMeter;
+		}
+		return merged;
+	}
+
+	/**
+	 * Split the route into graph edges, with the walks to and from the road network
+	 * folded into the first and last edge
+	 */
+	private collectSegments(route: RouteResult): RouteSegment[] {
+		const start = route.path[0];
+		const end = route.path[route.path.length - 1];
+		const nodePath = route.nodePath ?? [];
+
+		const segments: RouteSegment[] = [];
+		for (let i = 0; i < nodePath.length - 1; i++) {
+			const edge = this.graph.nodes.get(nodePath[i])?.connections.get(nodePath[i + 1]);
+			const from = this.graph.nodes.get(nodePath[i]);
+			const to = this.graph.nodes.get(nodePath[i + 1]);
+			if (!edge || !from || !to) continue;
+
+			segments.push({
+				coordinates: edge.geometry ?? [from.coordinates, to.coordinates],
+				distance: edge.distance,
+				roadCategory: edge.roadCategory,
+				roadName: edge.roadNames ? getDisplayName(edge.roadNames) || undefined : undefined,
+				roadId: edge.roadId,
+				endNodeId: edge.targetNodeId
+			});
+		}
+
+		// Straight-line fallback or start and end snapped to the same node
+		if (segments.length === 0) {
+			return [
+				{
+					coordinates: [start, end],
+					distance: route.distance,
+					roadCategory: route.fallbackToStraightLine ? 'straight_line' : 'unknown'
+				}
+			];
+		}
+
+		const first = segments[0];
+		const startAccess = this.calculateDistance(start, first.coordinates[0]);
+		first.coordinates = [start, ...first.coordinates];
+		first.distance += startAccess;
+
+		const last = segments[segments.length - 1];
+		const endAccess = this.calculateDistance(last.coordinates[last.coordinates.length - 1], end);
+		last.coordinates = [...last.coordinates, end];
+		last.distance += endAccess;
+
+		return segments;
+	}
+
+	/**
+	 * Whether moving from one edge to the next is a maneuver worth a step of its own
+	 */
+	private startsNewStep(previous: RouteSegment, next: RouteSegment, turn: number): boolean {
+		if (previous.roadName || next.roadName) {
+			return previous.roadName !== next.roadName;
+		}
+		if (previous.roadCategory !== next.roadCategory) {
+			return true;
+		}
+
+		// Unnamed paths of the same kind: only a real turn at an intersection counts
+		const junctionNode = previous.endNodeId ? this.graph.nodes.get(previous.endNodeId) : null;
+		return (
+			previous.roadId !== next.roadId &&
+			Math.abs(turn) >= UNNAMED_TURN_THRESHOLD &&
+			(junctionNode?.connections.size ?? 0) > 2
+		);
+	}
+
+	private createDepart(
+		segment: RouteSegment,
+		coordinates: [number, number],
+		bearing: number,
+		route: RouteResult
+	): RouteInstruction {
+		const heading = `Head ${this.getCompassDirection(bearing)}`;
+		return {
+			type: 'depart',
+			text: route.fallbackToStraightLine
+				? `${heading} in a straight line`
+				: `${heading} on ${this.describeRoad(segment)}`,
+			roadName: segment.roadName,
+			roadCategory: segment.roadCategory,
+			distance: 0,
+			duration: 0,
+			coordinates,
+			bearing
+		};
+	}
+
+	private createTurn(
+		segment: RouteSegment,
+		coordinates: [number, number],
+		bearing: number,
+		turn: number
+	): RouteInstruction {
+		const modifier = this.getModifier(turn);
+		const road = this.describeRoad(segment);
+		const phrase = MODIFIER_PHRASES[modifier];
+
+		let text: string;
+		if (!segment.roadName && segment.roadCategory === 'steps') {
+			text = `${phrase} and take the steps`;
+		} else {
+			text = modifier === 'straight' ? `Continue onto ${road}` : `${phrase} onto ${road}`;
+		}
+
+		return {
+			type: modifier === 'straight' ? 'continue' : 'turn',
+			modifier,
+			text,
+			roadName: segment.roadName,
+			roadCategory: segment.roadCategory,
+			distance: 0,
+			duration: 0,
+			coordinates,
+			bearing
+		};
+	}
+
+	/**
+	 * Drop short detours between two parts of the same street (e.g. crossing a square),
+	 * which would otherwise show as "turn onto the footpath, turn back onto Main Street"
+	 */
+	private mergeShortSteps(instructions: RouteInstruction[]): RouteInstruction[] {
+		const result: RouteInstruction[] = [];
+
+		for (let i = 0; i < instructions.length; i++) {
+			const step = instructions[i];
+			const previous = result[result.length - 1];
+			const next = instructions[i + 1];
+
+			if (
+				step.type !== 'depart' &&
+				step.type !== 'arrive' &&
+				step.distance < MIN_STEP_DISTANCE &&
+				previous &&
+				next &&
+				next.type !== 'arrive' &&
+				previous.roadName &&
+				previous.roadName === next.roadName
+			) {
+				previous.distance += step.distance + next.distance;
+				i++; // The next step continues the previous one
+				continue;
+			}
+
+			result.push(step);
+		}
+
+		return result;
+	}
+
+	private describeRoad(segment: RouteSegment): string {
+		if (segment.roadName) return segment.roadName;
+		return `the ${ROAD_CATEGORY_LABELS[segment.roadCategory] ?? 'path'}`;
+	}
+
+	/**
+	 * Classify a turn angle (degrees, positive = right)
+	 */
+	private getModifier(turn: number): ManeuverModifier {
+		const angle = Math.abs(turn);
+		const side = turn < 0 ? 'left' : 'right';
+
+		if (angle < 20) return 'straight';
+		if (angle < 45) return `slight_${side}`;
+		if (angle < 120) return side;
+		if (angle < 165) return `sharp_${side}`;
+		return 'uturn';
+	}
+
+	private getCompassDirection(bearing: number): string {
+		return COMPASS_DIRECTIONS[Math.round(bearing / 45) % 8];
+	}
+
+	/**
+	 * Heading leaving a path point, measured to a point a few meters ahead
+	 */
+	private outgoingBearing(path: [number, number][], index: number): number {
+		let target = Math.min(index + 1, path.length - 1);
+		while (
+			target < path.length - 1 &&
+			this.calculateDistance(path[index], path[target]) < BEARING_SAMPLE_DISTANCE
+		) {
+			target++;
+		}
+		return this.calculateBearing(path[index], path[target]);
+	}
+
+	/**
+	 * Heading arriving at a path point, measured from a point a few meters back
+	 */
+	private incomingBearing(path: [number, number][], index: number): number {
+		let source = Math.max(index - 1, 0);
+		while (
+			source > 0 &&
+			this.calculateDistance(path[source], path[index]) < BEARING_SAMPLE_DISTANCE
+		) {
+			source--;
+		}
+		return this.calculateBearing(path[source], path[index]);
+	}
+
+	/**
+	 * Initial bearing from one coordinate to another (degrees clockwise from north)
+	 */
+	private calculateBearing(from: [number, number], to: [number, number]): number {
+		const φ1 = (from[1] * Math.PI) / 180;
+		const φ2 = (to[1] * Math.PI) / 180;
+		const Δλ = ((to[0] - from[0]) * Math.PI) / 180;
+
+		const y = Math.sin(Δλ) * Math.cos(φ2);
+		const x = Math.cos(φ1) * Math.sin(φ2) - Math.sin(φ1) * Math.cos(φ2) * Math.cos(Δλ);
+		return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+	}
+
+	/**
+	 * Normalize an angle difference to (-180, 180]
+	 */
+	private normalizeAngle(angle: number): number {
+		const normalized = ((angle % 360) + 360) % 360;
+		return normalized > 180 ? normalized - 360 : normalized;
+	}
+
+	/**
+	 * Calculate straight-line distance between two coordinates (meters)
+	 */
+	private calculateDistance(coord1: [number, number], coord2: [number, number]): number {
+		const R = 6371000; // Earth's radius in meters
+		const φ1 = (coord1[1] * Math.PI) / 180;
+		const φ2 = (coord2[1] * Math.PI) / 180;
+		const Δφ = ((coord2[1] - coord1[1]) * Math.PI) / 180;
+		const Δλ = ((coord2[0] - coord1[0]) * Math.PI) / 180;
+
+		const a =
+			Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
+			Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
+		const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+
+		return R * c;
+	}
+}
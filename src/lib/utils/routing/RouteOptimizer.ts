@@ -1,11 +1,22 @@
 import { AStar } from './AStar';
+import { getRoutingProfile } from './RoutingProfiles';
+import { TourSolver, type TourOptions, type TourSchedule, type TourStop } from './TourSolver';
+import { getOpeningHours } from '$lib/utils/opening-hours';
 
 /**
- * RouteOptimizer - Finds optimal order to visit multiple POIs using walking routes
- * Similar to solving the Traveling Salesman Problem (TSP) but optimized for walking
+ * RouteOptimizer - Finds optimal order to visit multiple POIs using road-based routes
+ * Similar to solving the Traveling Salesman Problem (TSP) but optimized for walking,
+ * cycling or wheelchair routes depending on the graph's routing profile. Orders are compared
+ * on a many-to-many road distance matrix, fast enough for itineraries of 50+ POIs, with a
+ * fixed start or end, dwell times and opening hours handled by TourSolver
  * Note: Interfaces are globally declared in app.d.ts
  */
 
+export interface RouteOptimizationOptions extends TourOptions {
+	dwellMinutes?: number[]; // Time spent at each POI, 0 if unset
+	openingHours?: (string | undefined)[]; // opening_hours of each POI, used with a departure time
+}
+
 interface OptimizationResult {
 	success: boolean;
 	totalDistance: number;
@@ -13,23 +24,34 @@ interface OptimizationResult {
 	routes: RouteResult[];
 	visitOrder: number[]; // Indices of original POI array in optimal order
 	fallbackUsed: boolean;
+	schedule: TourSchedule; // Arrival, waiting and departure times along visitOrder
 }
 
 export class RouteOptimizer {
 	private router: AStar;
+	private profile: RoutingProfileId | undefined;
+	private speed: number; // m/s, for straight-line fallbacks
 
 	constructor(graph: RouteGraph) {
-		this.router = new AStar(graph);
+		// Legs of long itineraries can be several kilometres; searches on the index stay cheap
+		this.router = new AStar(graph, 200000);
+		this.profile = graph.profile;
+		this.speed = getRoutingProfile(graph.profile).speed;
 	}
 
 	/**
 	 * Find optimal walking route through multiple POIs
-	 * Uses nearest neighbor heuristic for performance with larger sets
-	 * For small sets (≤5), tries multiple starting points for better optimization
+	 * Road distances between all POIs come from one distance matrix, which TourSolver orders;
+	 * only the legs of the best order are routed in full
 	 */
-	async optimizeRoute(pois: [number, number][]): Promise<OptimizationResult> {
+	async optimizeRoute(
+		pois: [number, number][],
+		options: RouteOptimizationOptions = {}
+	): Promise<OptimizationResult> {
 		console.log(`🎯 Optimizing route through ${pois.length} POIs`);
 
+		const stops = this.createStops(pois, options);
+
 		if (pois.length < 2) {
 			return {
 				success: false,
@@ -37,126 +59,102 @@ export class RouteOptimizer {
 				totalWalkingTime: 0,
 				routes: [],
 				visitOrder: [],
-				fallbackUsed: false
+				fallbackUsed: false,
+				schedule: { order: [], entries: [], totalDistance: 0, totalMinutes: 0, infeasibleCount: 0 }
 			};
 		}
 
-		if (pois.length === 2) {
-			// Simple case: direct route between two points
-			return this.createDirectRoute(pois);
+		let matrix: number[][];
+		let visitOrder: number[];
+		try {
+			matrix =
+				pois.length === 2
+					? this.createStraightLineMatrix(pois) // Simple case: only the direction can change
+					: await this.router.computeDistanceMatrix(pois);
+
+			visitOrder = new TourSolver(matrix, this.speed, stops, options).solve();
+			console.log(`🧮 Best visit order:`, visitOrder);
+		} catch (error) {
+			console.error('❌ Error optimizing route order:', error);
+			return this.createFallbackResult(pois, stops, options.departureTime);
 		}
 
-		// For small sets, try optimization from different starting points
-		if (pois.length <= 5) {
-			return this.optimizeSmallSet(pois);
+		const result = await this.routeThroughOrder(pois, visitOrder);
+
+		// Times from the routed legs, which may differ slightly from the matrix
+		const schedule = new TourSolver(matrix, this.speed, stops, options).schedule(
+			visitOrder,
+			result.routes.map((route) => route.distance)
+		);
+		if (schedule.infeasibleCount > 0) {
+			console.warn(`⚠️ ${schedule.infeasibleCount} stops can't be visited while open`);
 		}
 
-		// For larger sets, use nearest neighbor heuristic
-		return this.optimizeLargeSet(pois);
+		return { ...result, schedule };
 	}
 
 	/**
-	 * Create direct route between two POIs
+	 * Dwell times and opening-hours time windows of the POIs
 	 */
-	private async createDirectRoute(pois: [number, number][]): Promise<OptimizationResult> {
-		const route = await this.router.findRoute(pois[0], pois[1]);
+	private createStops(pois: [number, number][], options: RouteOptimizationOptions): TourStop[] {
+		const { departureTime } = options;
 
-		return {
-			success: route.success,
-			totalDistance: route.distance,
-			totalWalkingTime: route.estimatedWalkingTime,
-			routes: [route],
-			visitOrder: [0, 1],
-			fallbackUsed: route.fallbackToStraightLine || false
-		};
+		return pois.map(([lng, lat], i) => {
+			const text = options.openingHours?.[i];
+			const openingHours =
+				text && departureTime !== undefined ? getOpeningHours(text, { lng, lat }) : null;
+
+			return {
+				dwellMinutes: options.dwellMinutes?.[i] ?? 0,
+				// Invalid opening_hours values don't restrict the visit
+				openIntervals: openingHours?.getOpenIntervals(
+					new Date(departureTime!),
+					this.getEndOfDay(departureTime!)
+				)
+			};
+		});
 	}
 
 	/**
-	 * Optimize small set of POIs by trying different starting points
+	 * Midnight after the departure (device time)
+	 * Time windows only cover the day of the route, so a stop that's only open on a later day
+	 * is reported as infeasible instead of being visited after waiting overnight
 	 */
-	private async optimizeSmallSet(pois: [number, number][]): Promise<OptimizationResult> {
-		let bestResult: OptimizationResult | null = null;
-
-		// Try starting from first 3 POIs (or all if fewer than 3)
-		const startingPoints = Math.min(3, pois.length);
-
-		for (let startIndex = 0; startIndex < startingPoints; startIndex++) {
-			console.log(`🔄 Trying optimization starting from POI ${startIndex}`);
-
-			const result = await this.nearestNeighborFromStart(pois, startIndex);
-
-			if (result.success && (!bestResult || result.totalDistance < bestResult.totalDistance)) {
-				bestResult = result;
-			}
-		}
-
-		return bestResult || this.createFallbackResult(pois);
+	private getEndOfDay(departureTime: number): Date {
+		const end = new Date(departureTime);
+		end.setHours(24, 0, 0, 0);
+		return end;
 	}
 
-	/**
-	 * Optimize larger set using nearest neighbor heuristic (single start point)
-	 */
-	private async optimizeLargeSet(pois: [number, number][]): Promise<OptimizationResult> {
-		console.log(`🏃‍♂️ Using nearest neighbor for ${pois.length} POIs`);
-		return this.nearestNeighborFromStart(pois, 0);
+	private createStraightLineMatrix(pois: [number, number][]): number[][] {
+		return pois.map((from) => pois.map((to) => this.calculateStraightLineDistance(from, to)));
 	}
 
 	/**
-	 * Nearest neighbor heuristic starting from specific POI index
+	 * Route every leg of a visit order along the roads
 	 */
-	private async nearestNeighborFromStart(
+	private async routeThroughOrder(
 		pois: [number, number][],
-		startIndex: number
-	): Promise<OptimizationResult> {
-		const visited = new Set<number>([startIndex]);
-		const visitOrder: number[] = [startIndex];
+		visitOrder: number[]
+	): Promise<Omit<OptimizationResult, 'schedule'>> {
 		const routes: RouteResult[] = [];
 		let totalDistance = 0;
 		let totalWalkingTime = 0;
 		let fallbackUsed = false;
 
-		let currentIndex = startIndex;
-
-		while (visited.size < pois.length) {
-			let nearestIndex = -1;
-			let nearestDistance = Infinity;
-			let bestRoute: RouteResult | null = null;
-
-			// Find nearest unvisited POI
-			for (let i = 0; i < pois.length; i++) {
-				if (visited.has(i)) continue;
+		for (let i = 1; i < visitOrder.length; i++) {
+			const route = await this.router.findRoute(pois[visitOrder[i - 1]], pois[visitOrder[i]]);
+			routes.push(route);
+			totalDistance += route.distance;
+			totalWalkingTime += route.estimatedWalkingTime;
 
-				// Calculate route to this POI
-				const route = await this.router.findRoute(pois[currentIndex], pois[i]);
-
-				if (route.success && route.distance < nearestDistance) {
-					nearestDistance = route.distance;
-					nearestIndex = i;
-					bestRoute = route;
-				}
-			}
-
-			if (nearestIndex === -1 || !bestRoute) {
-				console.warn('⚠️ Could not find route to any remaining POI');
-				break;
-			}
-
-			// Add this leg to the route
-			visited.add(nearestIndex);
-			visitOrder.push(nearestIndex);
-			routes.push(bestRoute);
-			totalDistance += bestRoute.distance;
-			totalWalkingTime += bestRoute.estimatedWalkingTime;
-
-			if (bestRoute.fallbackToStraightLine) {
+			if (route.fallbackToStraightLine) {
 				fallbackUsed = true;
 			}
-
-			currentIndex = nearestIndex;
 		}
 
 		return {
-			success: routes.length > 0,
+			success: routes.length > 0 && routes.every((route) => route.success),
 			totalDistance,
 			totalWalkingTime,
 			routes,
@@ -168,7 +166,11 @@ export class RouteOptimizer {
 	/**
 	 * Create fallback result using straight lines between all POIs
 	 */
-	private createFallbackResult(pois: [number, number][]): OptimizationResult {
+	private createFallbackResult(
+		pois: [number, number][],
+		stops: TourStop[],
+		departureTime?: number
+	): OptimizationResult {
 		console.log('⚠️ Creating fallback straight-line routes');
 
 		const visitOrder: number[] = [];
@@ -182,7 +184,7 @@ export class RouteOptimizer {
 			if (i > 0) {
 				// Create straight-line route from previous POI
 				const distance = this.calculateStraightLineDistance(pois[i - 1], pois[i]);
-				const walkingTime = distance / 1.4 / 60; // 1.4 m/s walking speed
+				const walkingTime = distance / this.speed / 60;
 
 				routes.push({
 					success: true,
@@ -190,7 +192,8 @@ export class RouteOptimizer {
 					distance,
 					estimatedWalkingTime: walkingTime,
 					roadTypes: ['straight_line'],
-					fallbackToStraightLine: true
+					fallbackToStraightLine: true,
+					profile: this.profile
 				});
 
 				totalDistance += distance;
@@ -200,10 +203,13 @@ export class RouteOptimizer {
 		return {
 			success: true,
 			totalDistance,
-			totalWalkingTime: totalDistance / 1.4 / 60,
+			totalWalkingTime: totalDistance / this.speed / 60,
 			routes,
 			visitOrder,
-			fallbackUsed: true
+			fallbackUsed: true,
+			schedule: new TourSolver(this.createStraightLineMatrix(pois), this.speed, stops, {
+				departureTime
+			}).schedule(visitOrder)
 		};
 	}
 
@@ -0,0 +1,526 @@
+/**
+ * Routing index - a preprocessed, compact copy of a route graph for fast shortest paths
+ *
+ * Node IDs are replaced by numbers and the adjacency is stored in typed arrays
+ * (compressed sparse rows), so searches don't touch the string-keyed Maps of RouteGraph.
+ * Preprocessing picks a few landmarks in the largest connected component and stores the
+ * cost from each landmark to every node (ALT: A*, Landmarks, Triangle inequality). Their
+ * lower bounds guide A* much better than the straight-line distance, especially when the
+ * road network detours around rivers, railways or parks.
+ *
+ * The graph is undirected: GraphBuilder adds every edge in both directions with the same
+ * cost, which both the landmark bounds and the symmetric distance matrices rely on.
+ *
+ * Indexes are cached per graph and rebuilt when the graph grows (see RouteGraph.revision).
+ */
+
+// Landmarks for the ALT heuristic; more give tighter bounds but cost a search and n floats each
+const LANDMARK_COUNT = 8;
+// Below this many nodes searches are cheap anyway and preprocessing wouldn't pay off
+const MIN_LANDMARK_NODES = 2000;
+// Meters per degree of latitude
+const METERS_PER_DEGREE = 111195;
+// Shrinks the straight-line bound so rounding can never make it overestimate
+const STRAIGHT_LINE_SLACK = 0.995;
+
+export interface IndexedPath {
+	nodes: number[]; // Node indexes from start to end
+	cost: number;
+	distance: number; // meters
+}
+
+export interface IndexedMatrix {
+	size: number;
+	costs: Float64Array; // row-major size x size, Infinity if unreachable
+	distances: Float64Array; // meters along the cheapest path, Infinity if unreachable
+}
+
+const indexCache = new WeakMap<RouteGraph, RoutingIndex>();
+
+/**
+ * Binary min-heap of node indexes keyed by cost, backed by typed arrays
+ * Stale entries are skipped by the caller instead of being decreased in place
+ */
+class MinHeap {
+	private nodes = new Uint32Array(1024);
+	private keys = new Float64Array(1024);
+	size = 0;
+
+	clear(): void {
+		this.size = 0;
+	}
+
+	push(node: number, key: number): void {
+		if (this.size === this.nodes.length) {
+			const nodes = new Uint32Array(this.size * 2);
+			const keys = new Float64Array(this.size * 2);
+			nodes.set(this.nodes);
+			keys.set(this.keys);
+			this.nodes = nodes;
+			this.keys = keys;
+		}
+
+		let i = this.size++;
+		while (i > 0) {
+			const parent = (i - 1) >> 1;
+			if (this.keys[parent] <= key) break;
+			this.nodes[i] = this.nodes[parent];
+			this.keys[i] = this.keys[parent];
+			i = parent;
+		}
+		this.nodes[i] = node;
+		this.keys[i] = key;
+	}
+
+	pop(): number {
+		const top = this.nodes[0];
+		const lastNode = this.nodes[--this.size];
+		const lastKey = this.keys[this.size];
+
+		let i = 0;
+		for (;;) {
+			let child = i * 2 + 1;
+			if (child >= this.size) break;
+			if (child + 1 < this.size && this.keys[child + 1] < this.keys[child]) child++;
+			if (this.keys[child] >= lastKey) break;
+			this.nodes[i] = this.nodes[child];
+			this.keys[i] = this.keys[child];
+			i = child;
+		}
+		this.nodes[i] = lastNode;
+		this.keys[i] = lastKey;
+
+		return top;
+	}
+}
+
+export class RoutingIndex {
+	readonly nodeCount: number;
+	readonly nodeIds: string[]; // Node index -> RouteGraph node ID
+	private readonly nodeIndex = new Map<string, number>();
+	private readonly revision: number | undefined;
+
+	// Node positions as [lng0, lat0, lng1, lat1, ...]
+	private readonly coordinates: Float64Array;
+	// Edges of node i are offsets[i] .. offsets[i + 1] - 1
+	private readonly offsets: Uint32Array;
+	private readonly targets: Uint32Array;
+	private readonly edgeCosts: Float64Array;
+	private readonly edgeDistances: Float64Array;
+	// Connected component of each node; nodes in different components can't reach each other
+	private readonly components: Uint32Array;
+	// Lowest cost per meter of any edge, scales the straight-line heuristic
+	private readonly minCostPerMeter: number;
+
+	// Landmark-major costs: landmarkCosts[l * nodeCount + v], only for the landmark component
+	private landmarkCount = 0;
+	private landmarkCosts = new Float64Array(0);
+	private landmarkComponent = -1;
+
+	// Search state, reused between searches; entries are valid when their stamp matches
+	private readonly gScore: Float64Array;
+	private readonly pathDistance: Float64Array;
+	private readonly parent: Int32Array;
+	private readonly seenStamp: Uint32Array;
+	private readonly settledStamp: Uint32Array;
+	private stamp = 0;
+	private readonly heap = new MinHeap();
+
+	/**
+	 * Get the index of a graph, building it on first use or when the graph has grown
+	 */
+	static forGraph(graph: RouteGraph): RoutingIndex {
+		const cached = indexCache.get(graph);
+		if (cached && cached.matches(graph)) {
+			return cached;
+		}
+
+		const startTime = performance.now();
+		const index = new RoutingIndex(graph);
+		indexCache.set(graph, index);
+		console.log(
+			`🧭 Routing index built for ${index.nodeCount} nodes with ${index.landmarkCount} landmarks in ${Math.round(performance.now() - startTime)}ms`
+		);
+
+		return index;
+	}
+
+	private constructor(graph: RouteGraph) {
+		this.revision = graph.revision;
+		this.nodeIds = Array.from(graph.nodes.keys());
+		this.nodeCount = this.nodeIds.length;
+		this.nodeIds.forEach((id, index) => this.nodeIndex.set(id, index));
+
+		const n = this.nodeCount;
+		this.coordinates = new Float64Array(n * 2);
+		this.offsets = new Uint32Array(n + 1);
+
+		let edgeCount = 0;
+		for (let i = 0; i < n; i++) {
+			const node = graph.nodes.get(this.nodeIds[i])!;
+			this.coordinates[i * 2] = node.coordinates[0];
+			this.coordinates[i * 2 + 1] = node.coordinates[1];
+			this.offsets[i] = edgeCount;
+			edgeCount += node.connections.size;
+		}
+		this.offsets[n] = edgeCount;
+
+		this.targets = new Uint32Array(edgeCount);
+		this.edgeCosts = new Float64Array(edgeCount);
+		this.edgeDistances = new Float64Array(edgeCount);
+
+		let minCostPerMeter = Infinity;
+		for (let i = 0; i < n; i++) {
+			let e = this.offsets[i];
+			for (const [targetId, edge] of graph.nodes.get(this.nodeIds[i])!.connections) {
+				const target = this.nodeIndex.get(targetId);
+				if (target === undefined) continue;
+				this.targets[e] = target;
+				this.edgeCosts[e] = edge.cost;
+				this.edgeDistances[e] = edge.distance;
+				if (edge.distance > 0) {
+					minCostPerMeter = Math.min(minCostPerMeter, edge.cost / edge.distance);
+				}
+				e++;
+			}
+			// Edges to unknown nodes were skipped; pad with self-loops so the rows stay aligned
+			for (; e < this.offsets[i + 1]; e++) {
+				this.targets[e] = i;
+				this.edgeCosts[e] = Infinity;
+				this.edgeDistances[e] = Infinity;
+			}
+		}
+		this.minCostPerMeter = Number.isFinite(minCostPerMeter) ? minCostPerMeter : 1;
+
+		this.gScore = new Float64Array(n);
+		this.pathDistance = new Float64Array(n);
+		this.parent = new Int32Array(n);
+		this.seenStamp = new Uint32Array(n);
+		this.settledStamp = new Uint32Array(n);
+
+		this.components = new Uint32Array(n);
+		const largestComponent = this.labelComponents();
+
+		if (n >= MIN_LANDMARK_NODES) {
+			this.selectLandmarks(largestComponent);
+		}
+	}
+
+	/**
+	 * Whether this index is still up to date for a graph
+	 */
+	private matches(graph: RouteGraph): boolean {
+		return this.revision === graph.revision && this.nodeCount === graph.nodes.size;
+	}
+
+	/**
+	 * Node index of a RouteGraph node ID, or -1 if it isn't in the graph
+	 */
+	indexOf(nodeId: string): number {
+		return this.nodeIndex.get(nodeId) ?? -1;
+	}
+
+	/**
+	 * Whether two nodes are connected by the road network at all
+	 */
+	isConnected(from: number, to: number): boolean {
+		return this.components[from] === this.components[to];
+	}
+
+	/**
+	 * Find the cheapest path between two nodes with A* and the landmark heuristic
+	 * Returns null if there is no path or the search settles more than maxSettled nodes
+	 */
+	findPath(start: number, end: number, maxSettled: number = Infinity): IndexedPath | null {
+		if (!this.isConnected(start, end)) {
+			return null;
+		}
+
+		const stamp = this.beginSearch();
+		this.visit(start, stamp, 0, 0, -1);
+		this.heap.push(start, this.heuristic(start, end));
+
+		let settled = 0;
+		while (this.heap.size > 0) {
+			const current = this.heap.pop();
+			if (this.settledStamp[current] === stamp) continue;
+			this.settledStamp[current] = stamp;
+
+			if (current === end) {
+				return this.reconstructPath(end);
+			}
+			if (++settled > maxSettled) {
+				console.warn(`⚠️ Routing search stopped after ${maxSettled} nodes`);
+				return null;
+			}
+
+			this.relaxEdges(current, stamp, (neighbor, gScore) => {
+				this.heap.push(neighbor, gScore + this.heuristic(neighbor, end));
+			});
+		}
+
+		return null;
+	}
+
+	/**
+	 * Cheapest costs and distances from one node to several others (Dijkstra)
+	 * The search stops as soon as every reachable target is settled
+	 */
+	oneToMany(source: number, targets: number[]): { costs: Float64Array; distances: Float64Array } {
+		const costs = new Float64Array(targets.length).fill(Infinity);
+		const distances = new Float64Array(targets.length).fill(Infinity);
+
+		const stamp = this.beginSearch();
+		this.visit(source, stamp, 0, 0, -1);
+		this.heap.push(source, 0);
+
+		// Targets in other components can never be reached, so they aren't waited for
+		let remaining = targets.filter((target) => this.isConnected(source, target)).length;
+
+		while (this.heap.size > 0 && remaining > 0) {
+			const current = this.heap.pop();
+			if (this.settledStamp[current] === stamp) continue;
+			this.settledStamp[current] = stamp;
+
+			for (let t = 0; t < targets.length; t++) {
+				if (targets[t] === current && costs[t] === Infinity) {
+					costs[t] = this.gScore[current];
+					distances[t] = this.pathDistance[current];
+					remaining--;
+				}
+			}
+
+			this.relaxEdges(current, stamp, (neighbor, gScore) => this.heap.push(neighbor, gScore));
+		}
+
+		return { costs, distances };
+	}
+
+	/**
+	 * Cheapest costs and distances between every pair of nodes
+	 * One Dijkstra per row; the graph is undirected so only the upper triangle is searched
+	 */
+	async manyToMany(nodes: number[]): Promise<IndexedMatrix> {
+		const size = nodes.length;
+		const costs = new Float64Array(size * size).fill(Infinity);
+		const distances = new Float64Array(size * size).fill(Infinity);
+
+		for (let i = 0; i < size; i++) {
+			costs[i * size + i] = 0;
+			distances[i * size + i] = 0;
+
+			const targets = nodes.slice(i + 1);
+			if (targets.length === 0) break;
+
+			const row = this.oneToMany(nodes[i], targets);
+			for (let t = 0; t < targets.length; t++) {
+				const j = i + 1 + t;
+				costs[i * size + j] = costs[j * size + i] = row.costs[t];
+				distances[i * size + j] = distances[j * size + i] = row.distances[t];
+			}
+
+			// Yield control between rows to prevent blocking
+			await new Promise((resolve) => setTimeout(resolve, 0));
+		}
+
+		return { size, costs, distances };
+	}
+
+	/**
+	 * Start a new search, invalidating the state of the previous one
+	 */
+	private beginSearch(): number {
+		this.heap.clear();
+		this.stamp++;
+		if (this.stamp === 0xffffffff) {
+			this.seenStamp.fill(0);
+			this.settledStamp.fill(0);
+			this.stamp = 1;
+		}
+		return this.stamp;
+	}
+
+	private visit(node: number, stamp: number, gScore: number, distance: number, parent: number) {
+		this.seenStamp[node] = stamp;
+		this.gScore[node] = gScore;
+		this.pathDistance[node] = distance;
+		this.parent[node] = parent;
+	}
+
+	/**
+	 * Relax the edges of a settled node, calling onImproved for each neighbor reached cheaper
+	 */
+	private relaxEdges(
+		current: number,
+		stamp: number,
+		onImproved: (neighbor: number, gScore: number) => void
+	): void {
+		const currentScore = this.gScore[current];
+		const currentDistance = this.pathDistance[current];
+
+		for (let e = this.offsets[current]; e < this.offsets[current + 1]; e++) {
+			const neighbor = this.targets[e];
+			if (this.settledStamp[neighbor] === stamp) continue;
+
+			const tentative = currentScore + this.edgeCosts[e];
+			if (this.seenStamp[neighbor] !== stamp || tentative < this.gScore[neighbor]) {
+				this.visit(neighbor, stamp, tentative, currentDistance + this.edgeDistances[e], current);
+				onImproved(neighbor, tentative);
+			}
+		}
+	}
+
+	private reconstructPath(end: number): IndexedPath {
+		const nodes: number[] = [];
+		for (let node = end; node !== -1; node = this.parent[node]) {
+			nodes.push(node);
+		}
+		nodes.reverse();
+
+		return { nodes, cost: this.gScore[end], distance: this.pathDistance[end] };
+	}
+
+	/**
+	 * Lower bound of the cost from a node to the target: the larger of the straight-line
+	 * bound and the landmark (triangle inequality) bounds
+	 */
+	private heuristic(node: number, target: number): number {
+		let bound = this.straightLineDistance(node, target) * this.minCostPerMeter;
+
+		if (this.landmarkCount > 0 && this.components[target] === this.landmarkComponent) {
+			const n = this.nodeCount;
+			for (let l = 0; l < this.landmarkCount; l++) {
+				const difference = Math.abs(
+					this.landmarkCosts[l * n + target] - this.landmarkCosts[l * n + node]
+				);
+				if (difference > bound) bound = difference;
+			}
+		}
+
+		return bound;
+	}
+
+	/**
+	 * Equirectangular distance between two nodes in meters, slightly shrunk to stay a lower
+	 * bound of the haversine edge lengths
+	 */
+	private straightLineDistance(a: number, b: number): number {
+		const lat1 = this.coordinates[a * 2 + 1];
+		const lat2 = this.coordinates[b * 2 + 1];
+		const dx =
+			(this.coordinates[b * 2] - this.coordinates[a * 2]) *
+			Math.cos((((lat1 + lat2) / 2) * Math.PI) / 180);
+		const dy = lat2 - lat1;
+		return Math.sqrt(dx * dx + dy * dy) * METERS_PER_DEGREE * STRAIGHT_LINE_SLACK;
+	}
+
+	/**
+	 * Label connected components with a breadth-first search
+	 * Returns the label of the largest component
+	 */
+	private labelComponents(): number {
+		const n = this.nodeCount;
+		const unlabeled = 0xffffffff;
+		this.components.fill(unlabeled);
+
+		const queue = new Uint32Array(n);
+		let label = 0;
+		let largest = -1;
+		let largestSize = 0;
+
+		for (let root = 0; root < n; root++) {
+			if (this.components[root] !== unlabeled) continue;
+
+			let head = 0;
+			let tail = 0;
+			queue[tail++] = root;
+			this.components[root] = label;
+
+			while (head < tail) {
+				const current = queue[head++];
+				for (let e = this.offsets[current]; e < this.offsets[current + 1]; e++) {
+					const neighbor = this.targets[e];
+					if (this.components[neighbor] === unlabeled) {
+						this.components[neighbor] = label;
+						queue[tail++] = neighbor;
+					}
+				}
+			}
+
+			if (tail > largestSize) {
+				largestSize = tail;
+				largest = label;
+			}
+			label++;
+		}
+
+		return largest;
+	}
+
+	/**
+	 * Pick landmarks far apart from each other (farthest-point selection) in a component and
+	 * store the cost from each of them to every node
+	 */
+	private selectLandmarks(component: number): void {
+		const n = this.nodeCount;
+		const root = this.components.indexOf(component);
+		if (root === -1) return;
+
+		this.landmarkComponent = component;
+		this.landmarkCosts = new Float64Array(LANDMARK_COUNT * n);
+
+		// Smallest cost from any landmark so far; the next landmark is the node maximizing it
+		const nearestLandmarkCost = new Float64Array(n).fill(Infinity);
+
+		// Start at the node farthest from an arbitrary node of the component
+		let costs = this.costsFrom(root);
+		let landmark = this.farthestNode(costs, component);
+
+		for (let l = 0; l < LANDMARK_COUNT; l++) {
+			costs = this.costsFrom(landmark);
+			this.landmarkCosts.set(costs, l * n);
+			this.landmarkCount++;
+
+			for (let i = 0; i < n; i++) {
+				if (costs[i] < nearestLandmarkCost[i]) nearestLandmarkCost[i] = costs[i];
+			}
+
+			landmark = this.farthestNode(nearestLandmarkCost, component);
+			if (nearestLandmarkCost[landmark] === 0) break; // Every node is already a landmark
+		}
+	}
+
+	/**
+	 * Costs from a node to every node (Infinity for other components)
+	 */
+	private costsFrom(source: number): Float64Array {
+		const costs = new Float64Array(this.nodeCount).fill(Infinity);
+
+		const stamp = this.beginSearch();
+		this.visit(source, stamp, 0, 0, -1);
+		this.heap.push(source, 0);
+
+		while (this.heap.size > 0) {
+			const current = this.heap.pop();
+			if (this.settledStamp[current] === stamp) continue;
+			this.settledStamp[current] = stamp;
+			costs[current] = this.gScore[current];
+
+			this.relaxEdges(current, stamp, (neighbor, gScore) => this.heap.push(neighbor, gScore));
+		}
+
+		return costs;
+	}
+
+	private farthestNode(costs: Float64Array, component: number): number {
+		let farthest = -1;
+		let farthestCost = -1;
+		for (let i = 0; i < this.nodeCount; i++) {
+			if (this.components[i] === component && costs[i] > farthestCost) {
+				farthestCost = costs[i];
+				farthest = i;
+			}
+		}
+		return farthest;
+	}
+}
@@ -0,0 +1,188 @@
+/**
+ * Routing profiles - walking, cycling and step-free (wheelchair) routes
+ * Each profile defines which OSM highway categories it can use, how strongly it prefers
+ * some over others, its travel speed and the OSM tags that close a road to it
+ */
+
+import { WALKING_ROAD_TYPES, type RoadTypeConfig } from '$lib/utils/routing/WalkingRouteConfig';
+
+export interface RoutingProfile {
+	id: RoutingProfileId;
+	name: string;
+	speed: number; // Average travel speed in m/s
+	roadTypes: Record<string, RoadTypeConfig>; // `walkable` means usable with this profile
+	preferenceWeight: number; // Cost added per priority step above 1 (0.002 = 0.2% per step)
+	isAllowed: (properties: Record<string, any>) => boolean; // Tag-based restrictions
+	costMultiplier?: (properties: Record<string, any>) => number; // Tag-based penalties
+}
+
+// Surfaces that are hard or impossible to cross with a wheelchair
+const ROUGH_SURFACES = new Set([
+	'gravel',
+	'fine_gravel',
+	'pebblestone',
+	'dirt',
+	'earth',
+	'ground',
+	'grass',
+	'mud',
+	'sand',
+	'rock',
+	'unpaved',
+	'woodchips'
+]);
+
+// Surfaces that are passable but slow and uncomfortable with a wheelchair
+const UNEVEN_SURFACES = new Set(['cobblestone', 'sett', 'unhewn_cobblestone', 'compacted']);
+
+/**
+ * Whether an OSM access tag value closes the road
+ */
+function isDenied(value: unknown): boolean {
+	return value === 'no' || value === 'private' || value === 'use_sidepath';
+}
+
+/**
+ * Whether an OSM access tag value explicitly opens the road
+ */
+function isPermitted(value: unknown): boolean {
+	return value === 'yes' || value === 'designated' || value === 'permissive';
+}
+
+/**
+ * Walking - the original pedestrian profile, shortest path with road type as a tiebreaker
+ */
+const WALKING_PROFILE: RoutingProfile = {
+	id: 'walking',
+	name: 'Walking',
+	speed: 1.4, // ~5 km/h
+	roadTypes: WALKING_ROAD_TYPES,
+	preferenceWeight: 0.002, // Distance dominates: road type adds at most ~2%
+	isAllowed: (properties) => !isDenied(properties.foot) && !isDenied(properties.access)
+};
+
+/**
+ * Cycling - prefers cycleways and quiet streets, avoids busy roads and can't use steps.
+ * Footways are only used when tagged for bicycles, otherwise the bike is pushed at a
+ * high cost so they are only taken as a last resort
+ */
+const CYCLING_PROFILE: RoutingProfile = {
+	id: 'cycling',
+	name: 'Cycling',
+	speed: 4.2, // ~15 km/h
+	roadTypes: {
+		...WALKING_ROAD_TYPES,
+		cycleway: { category: 'cycleway', walkable: true, priority: 1 },
+		minor: { category: 'minor', walkable: true, priority: 1.5 },
+		living_street: { category: 'minor', walkable: true, priority: 1.5 },
+		residential: { category: 'minor', walkable: true, priority: 1.5 },
+		unclassified: { category: 'minor', walkable: true, priority: 2 },
+		road: { category: 'minor', walkable: true, priority: 2 },
+		service: { category: 'service', walkable: true, priority: 2.5 },
+		tertiary: { category: 'tertiary', walkable: true, priority: 2.5 },
+		tertiary_link: { category: 'link', walkable: true, priority: 2.5 },
+		secondary: { category: 'secondary', walkable: true, priority: 4 },
+		secondary_link: { category: 'link', walkable: true, priority: 4 },
+		primary: { category: 'primary', walkable: true, priority: 6 },
+		primary_link: { category: 'link', walkable: true, priority: 6 },
+		track: { category: 'track', walkable: true, priority: 3 },
+		path: { category: 'path', walkable: true, priority: 3 },
+		bridleway: { category: 'bridleway', walkable: true, priority: 5 },
+		byway: { category: 'byway', walkable: true, priority: 3 },
+		footway: { category: 'footway', walkable: true, priority: 10 },
+		pedestrian: { category: 'pedestrian', walkable: true, priority: 8 },
+		steps: { category: 'steps', walkable: false, priority: 10 }
+	},
+	preferenceWeight: 0.1, // Priority 6 roads cost 1.5x, so quiet detours are worth it
+	isAllowed: (properties) => {
+		if (isDenied(properties.bicycle)) return false;
+		if (isDenied(properties.access) && !isPermitted(properties.bicycle)) return false;
+		return true;
+	},
+	costMultiplier: (properties) => {
+		// Footways and pedestrian streets tagged for bicycles cost about as much as cycleways
+		const pushing = properties.category === 'footway' || properties.category === 'pedestrian';
+		return pushing && isPermitted(properties.bicycle) ? 0.55 : 1;
+	}
+};
+
+/**
+ * Wheelchair - step-free routes on paved surfaces. Steps are never used, and unpaved
+ * paths are avoided unless they're explicitly tagged as wheelchair accessible
+ */
+const WHEELCHAIR_PROFILE: RoutingProfile = {
+	id: 'wheelchair',
+	name: 'Wheelchair',
+	speed: 1.0, // ~3.6 km/h
+	roadTypes: {
+		...WALKING_ROAD_TYPES,
+		steps: { category: 'steps', walkable: false, priority: 10 },
+		track: { category: 'track', walkable: true, priority: 5 },
+		path: { category: 'path', walkable: true, priority: 4 },
+		bridleway: { category: 'bridleway', walkable: false, priority: 10 }
+	},
+	preferenceWeight: 0.02,
+	isAllowed: (properties) => {
+		if (isDenied(properties.wheelchair)) return false;
+		if (isPermitted(properties.wheelchair)) return true;
+		if (isDenied(properties.foot) || isDenied(properties.access)) return false;
+		return !ROUGH_SURFACES.has(properties.surface);
+	},
+	costMultiplier: (properties) => {
+		let multiplier = 1;
+		if (UNEVEN_SURFACES.has(properties.surface)) multiplier *= 2;
+		if (properties.incline && properties.incline !== '0%' && properties.incline !== 'no') {
+			multiplier *= 1.5; // Any tagged slope is harder going
+		}
+		return multiplier;
+	}
+};
+
+export const ROUTING_PROFILES: Record<RoutingProfileId, RoutingProfile> = {
+	walking: WALKING_PROFILE,
+	cycling: CYCLING_PROFILE,
+	wheelchair: WHEELCHAIR_PROFILE
+};
+
+export const DEFAULT_ROUTING_PROFILE: RoutingProfileId = 'walking';
+
+/**
+ * Get a routing profile by ID, falling back to walking for unknown IDs
+ */
+export function getRoutingProfile(id: RoutingProfileId | undefined): RoutingProfile {
+	return (id && ROUTING_PROFILES[id]) || ROUTING_PROFILES[DEFAULT_ROUTING_PROFILE];
+}
+
+/**
+ * Check if a road segment can be used with a profile
+ */
+export function shouldIncludeInNetwork(properties: any, profile: RoutingProfile): boolean {
+	const category = properties.category;
+	if (!category) {
+		return false;
+	}
+
+	const config = profile.roadTypes[category];
+	if (!config?.walkable) {
+		return false;
+	}
+
+	return profile.isAllowed(properties);
+}
+
+/**
+ * Calculate the routing cost of a road segment for a profile
+ * Distance times the road type preference and any tag-based penalties
+ */
+export function calculateRouteCost(
+	distance: number,
+	category: string,
+	properties: any,
+	profile: RoutingProfile
+): number {
+	const priority = profile.roadTypes[category]?.priority ?? 10;
+	const preference = 1 + (priority - 1) * profile.preferenceWeight;
+	const penalty = profile.costMultiplier ? profile.costMultiplier(properties ?? {}) : 1;
+
+	return distance * preference * penalty;
+}
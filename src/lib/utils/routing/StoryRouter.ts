@@ -1,9 +1,21 @@
 import { GraphBuilder } from './GraphBuilder';
 import { RouteOptimizer } from './RouteOptimizer';
+import { getRoutingProfile } from './RoutingProfiles';
+import { TourSolver, type TourSchedule } from './TourSolver';
+
+interface StoryStop {
+	featureId: string;
+	name: string;
+	coordinates: [number, number];
+	openingHours?: string;
+}
 
 /**
- * StoryRouter - Main integration class for generating walking routes for stories
+ * StoryRouter - Main integration class for generating walking, cycling or wheelchair routes
+ * for stories
  * Replaces the existing straight-line story connections with real road-based routes
+ * Stops can be ordered around a fixed start and end, with dwell times and opening hours
+ * (StoryRouteOptions), and the result includes a timeline of the visits
  * Note: Interfaces are globally declared in app.d.ts
  */
 
@@ -15,15 +27,20 @@ export class StoryRouter {
 	}
 
 	/**
-	 * Generate walking routes for a story's POIs
+	 * Generate routes for a story's POIs with the given routing profile
 	 * This replaces the existing generateStoryConnectionPath function
 	 */
-	async generateStoryRoutes(story: Story): Promise<StoryRouteResult> {
-		console.log(`🗺️ Generating walking routes for story: ${story.title}`);
+	async generateStoryRoutes(
+		story: Story,
+		profile: RoutingProfileId = 'walking',
+		options: StoryRouteOptions = {}
+	): Promise<StoryRouteResult> {
+		console.log(`🗺️ Generating ${profile} routes for story: ${story.title}`);
 
 		try {
-			// Extract POI coordinates from story
-			const pois = this.extractPOICoordinates(story);
+			// Extract POIs from story
+			const stops = this.extractStops(story);
+			const pois = stops.map((stop) => stop.coordinates);
 
 			if (pois.length < 2) {
 				console.log('ℹ️ Story has fewer than 2 POIs, no routes to generate');
@@ -37,21 +54,26 @@ export class StoryRouter {
 
 			// Build or get the route graph for this area
 			console.log('🏗️ Building/retrieving route graph...');
-			const graph = await this.graphBuilder.buildGraph(bounds);
+			const graph = await this.graphBuilder.buildGraph(bounds, profile);
 
 			if (graph.nodes.size === 0) {
-				console.warn('⚠️ No walkable roads found in area, using straight-line fallback');
-				return this.createStraightLineRoutes(story, pois);
+				console.warn('⚠️ No usable roads found in area, using straight-line fallback');
+				return this.createStraightLineRoutes(story, stops, profile, options);
 			}
 
 			// Optimize the route through all POIs
 			console.log('🎯 Optimizing route through POIs...');
 			const optimizer = new RouteOptimizer(graph);
-			const optimization = await optimizer.optimizeRoute(pois);
+			const optimization = await optimizer.optimizeRoute(pois, {
+				...this.getFixedStops(stops, options),
+				departureTime: options.departureTime,
+				dwellMinutes: stops.map((stop) => this.getDwellMinutes(stop, options)),
+				openingHours: stops.map((stop) => stop.openingHours)
+			});
 
 			if (!optimization.success) {
 				console.warn('⚠️ Route optimization failed, using straight-line fallback');
-				return this.createStraightLineRoutes(story, pois);
+				return this.createStraightLineRoutes(story, stops, profile, options);
 			}
 
 			// Convert to GeoJSON format compatible with existing system
@@ -62,27 +84,28 @@ export class StoryRouter {
 				geoJson,
 				totalDistance: optimization.totalDistance,
 				totalWalkingTime: optimization.totalWalkingTime,
+				profile,
 				routeInfo: {
 					segmentCount: optimization.routes.length,
 					roadTypesUsed: this.extractUniqueRoadTypes(optimization.routes),
 					fallbackSegments: optimization.routes.filter((r) => r.fallbackToStraightLine).length,
-					visitOrder: optimization.visitOrder
+					visitOrder: optimization.visitOrder,
+					...this.createTimeline(stops, optimization.schedule, options)
 				}
 			};
 		} catch (error) {
 			console.error('❌ Error generating story routes:', error);
 
 			// Fallback to straight-line routes
-			const pois = this.extractPOICoordinates(story);
-			return this.createStraightLineRoutes(story, pois);
+			return this.createStraightLineRoutes(story, this.extractStops(story), profile, options);
 		}
 	}
 
 	/**
-	 * Extract POI coordinates from story content
+	 * Extract the features with a location from story content
 	 */
-	private extractPOICoordinates(story: Story): [number, number][] {
-		const coordinates: [number, number][] = [];
+	private extractStops(story: Story): StoryStop[] {
+		const stops: StoryStop[] = [];
 
 		story.content.forEach((node) => {
 			if (node.type === 'feature' && node.feature) {
@@ -102,12 +125,72 @@ export class StoryRouter {
 				}
 
 				if (coords) {
-					coordinates.push(coords);
+					stops.push({
+						featureId: node.featureId,
+						name: node.customText || node.displayText,
+						coordinates: coords,
+						openingHours: node.feature.openingHours
+					});
 				}
 			}
 		});
 
-		return coordinates;
+		return stops;
+	}
+
+	/**
+	 * Indexes of the fixed first and last stop
+	 */
+	private getFixedStops(
+		stops: StoryStop[],
+		options: StoryRouteOptions
+	): { start?: number; end?: number } {
+		const start = stops.findIndex((stop) => stop.featureId === options.startFeatureId);
+		const end = stops.findIndex((stop) => stop.featureId === options.endFeatureId);
+
+		return {
+			start: start === -1 ? undefined : start,
+			// The same feature can't be both; starting there wins
+			end: end === -1 || end === start ? undefined : end
+		};
+	}
+
+	private getDwellMinutes(stop: StoryStop, options: StoryRouteOptions): number {
+		return options.featureDwellMinutes?.[stop.featureId] ?? options.dwellMinutes ?? 0;
+	}
+
+	/**
+	 * Timeline of the stops in visiting order, with clock times when a departure time is set
+	 */
+	private createTimeline(
+		stops: StoryStop[],
+		schedule: TourSchedule,
+		options: StoryRouteOptions
+	): Pick<StoryRouteResult['routeInfo'], 'timeline' | 'totalMinutes' | 'infeasibleStops'> {
+		const { departureTime } = options;
+		const toTime = (minutes: number) =>
+			departureTime !== undefined ? departureTime + Math.round(minutes * 60000) : undefined;
+
+		const timeline: RouteTimelineEntry[] = schedule.entries.map((entry) => ({
+			poiIndex: entry.stopIndex,
+			featureId: stops[entry.stopIndex].featureId,
+			name: stops[entry.stopIndex].name,
+			distance: entry.distance,
+			travelMinutes: entry.travelMinutes,
+			arrivalMinutes: entry.arrivalMinutes,
+			waitMinutes: entry.waitMinutes,
+			dwellMinutes: entry.departureMinutes - entry.arrivalMinutes - entry.waitMinutes,
+			departureMinutes: entry.departureMinutes,
+			arrivalTime: toTime(entry.arrivalMinutes),
+			departureTime: toTime(entry.departureMinutes),
+			infeasible: entry.infeasible
+		}));
+
+		return {
+			timeline,
+			totalMinutes: schedule.totalMinutes,
+			infeasibleStops: timeline.filter((entry) => entry.infeasible).map((entry) => entry.poiIndex)
+		};
 	}
 
 	/**
@@ -163,7 +246,8 @@ export class StoryRouter {
 					distance: route.distance,
 					walkingTime: route.estimatedWalkingTime,
 					roadTypes: route.roadTypes,
-					fallback: route.fallbackToStraightLine || false
+					fallback: route.fallbackToStraightLine || false,
+					profile: route.profile
 				},
 				geometry: {
 					type: 'LineString',
@@ -226,21 +310,37 @@ export class StoryRouter {
 
 	/**
 	 * Create fallback straight-line routes (compatible with existing system)
+	 * Stops keep their story order, apart from a fixed start and end
 	 */
-	private createStraightLineRoutes(story: Story, pois: [number, number][]): StoryRouteResult {
+	private createStraightLineRoutes(
+		story: Story,
+		stops: StoryStop[],
+		profile: RoutingProfileId,
+		options: StoryRouteOptions = {}
+	): StoryRouteResult {
 		console.log('📏 Creating straight-line fallback routes');
 
-		if (pois.length < 2) {
+		if (stops.length < 2) {
 			return this.createEmptyResult();
 		}
 
+		const pois = stops.map((stop) => stop.coordinates);
+		const { start, end } = this.getFixedStops(stops, options);
+		const visitOrder = [
+			...(start !== undefined ? [start] : []),
+			...pois.map((_, i) => i).filter((i) => i !== start && i !== end),
+			...(end !== undefined ? [end] : [])
+		];
+
 		// Use existing logic for straight-line connections
 		const features: GeoJSON.Feature[] = [];
 		let totalDistance = 0;
 
 		// Create sequential connections
-		for (let i = 0; i < pois.length - 1; i++) {
-			const distance = this.calculateDistance(pois[i], pois[i + 1]);
+		for (let i = 0; i < visitOrder.length - 1; i++) {
+			const from = pois[visitOrder[i]];
+			const to = pois[visitOrder[i + 1]];
+			const distance = this.calculateDistance(from, to);
 			totalDistance += distance;
 
 			features.push({
@@ -254,11 +354,22 @@ export class StoryRouter {
 				},
 				geometry: {
 					type: 'LineString',
-					coordinates: [pois[i], pois[i + 1]]
+					coordinates: [from, to]
 				}
 			});
 		}
 
+		const speed = getRoutingProfile(profile).speed;
+		const schedule = new TourSolver(
+			pois.map((from) => pois.map((to) => this.calculateDistance(from, to))),
+			speed,
+			stops.map((stop) => ({
+				dwellMinutes: this.getDwellMinutes(stop, options),
+				openIntervals: undefined // Straight-line times are too rough to check opening hours
+			})),
+			{ departureTime: options.departureTime }
+		).schedule(visitOrder);
+
 		return {
 			success: true,
 			geoJson: {
@@ -266,12 +377,14 @@ export class StoryRouter {
 				features
 			},
 			totalDistance,
-			totalWalkingTime: totalDistance / 1.4 / 60, // Assume 1.4 m/s walking speed
+			totalWalkingTime: totalDistance / speed / 60,
+			profile,
 			routeInfo: {
 				segmentCount: features.length,
 				roadTypesUsed: ['straight_line'],
 				fallbackSegments: features.length,
-				visitOrder: Array.from({ length: pois.length }, (_, i) => i)
+				visitOrder,
+				...this.createTimeline(stops, schedule, options)
 			}
 		};
 	}
@@ -0,0 +1,284 @@
+/**
+ * Tour solver - orders stops on a distance matrix (open-path traveling salesman problem)
+ *
+ * Supports a fixed first and/or last stop, a dwell time per stop and opening-hours time
+ * windows. A nearest neighbor tour from every allowed start is improved with 2-opt (reverse a
+ * stretch of the tour) and Or-opt (move one to three consecutive stops elsewhere) until
+ * neither finds an improvement.
+ *
+ * Tours are compared on, in order: the number of stops that can't be visited while open, the
+ * time at which the last stop is left (travel + waiting + dwell) and the distance. Without a
+ * departure time there are no time windows and the time is proportional to the distance.
+ */
+
+// Stops moved at once by Or-opt
+const OR_OPT_MAX_SEGMENT = 3;
+// Improvement rounds before giving up on convergence (each round is O(n^3) at worst)
+const MAX_IMPROVEMENT_ROUNDS = 50;
+// Cost of a stop that can't be visited while open, dominates any travel time (minutes)
+const INFEASIBLE_PENALTY = 1e6;
+// Cost improvements smaller than this are rounding noise
+const EPSILON = 1e-6;
+
+export interface TourStop {
+	dwellMinutes: number; // Time spent at the stop
+	openIntervals?: OpenInterval[]; // Time window; undefined if the stop is always open
+}
+
+export interface TourOptions {
+	start?: number; // Index of a fixed first stop
+	end?: number; // Index of a fixed last stop
+	departureTime?: number; // Unix ms at the first stop; time windows only apply with it
+}
+
+export interface TourScheduleEntry {
+	stopIndex: number;
+	distance: number; // meters from the previous stop
+	travelMinutes: number;
+	arrivalMinutes: number; // since departure from the first stop
+	waitMinutes: number; // until the stop opens
+	departureMinutes: number;
+	infeasible?: InfeasibleStopReason;
+}
+
+export interface TourSchedule {
+	order: number[];
+	entries: TourScheduleEntry[];
+	totalDistance: number;
+	totalMinutes: number;
+	infeasibleCount: number;
+}
+
+export class TourSolver {
+	private readonly size: number;
+
+	constructor(
+		private readonly distances: number[][], // meters, distances[from][to]
+		private readonly speed: number, // m/s
+		private readonly stops: TourStop[],
+		private readonly options: TourOptions = {}
+	) {
+		this.size = distances.length;
+
+		const { start, end } = options;
+		if (start !== undefined && (start < 0 || start >= this.size)) {
+			throw new Error(`Start stop ${start} is out of range`);
+		}
+		if (end !== undefined && (end < 0 || end >= this.size)) {
+			throw new Error(`End stop ${end} is out of range`);
+		}
+		if (start !== undefined && start === end && this.size > 1) {
+			throw new Error('Start and end must be different stops');
+		}
+	}
+
+	/**
+	 * Find a good visiting order of all stops
+	 */
+	solve(): number[] {
+		if (this.size <= 1) {
+			return Array.from({ length: this.size }, (_, i) => i);
+		}
+
+		let best: number[] = [];
+		let bestCost = Infinity;
+
+		const starts =
+			this.options.start !== undefined
+				? [this.options.start]
+				: Array.from({ length: this.size }, (_, i) => i).filter((i) => i !== this.options.end);
+
+		for (const start of starts) {
+			const order = this.nearestNeighbor(start);
+			const cost = this.cost(order);
+			if (cost < bestCost) {
+				best = order;
+				bestCost = cost;
+			}
+		}
+
+		return this.improve(best);
+	}
+
+	/**
+	 * Times, waits and feasibility of visiting the stops in an order
+	 * Leg distances default to the matrix; pass the routed distances for the final timeline
+	 */
+	schedule(order: number[], legDistances?: number[]): TourSchedule {
+		const entries: TourScheduleEntry[] = [];
+		let minutes = 0;
+		let totalDistance = 0;
+		let infeasibleCount = 0;
+
+		for (let position = 0; position < order.length; position++) {
+			const stopIndex = order[position];
+			const distance =
+				position === 0
+					? 0
+					: (legDistances?.[position - 1] ?? this.distances[order[position - 1]][stopIndex]);
+			const travelMinutes = distance / this.speed / 60;
+
+			minutes += travelMinutes;
+			totalDistance += distance;
+
+			const arrivalMinutes = minutes;
+			const visit = this.earliestVisit(stopIndex, arrivalMinutes);
+			const waitMinutes = visit.startMinutes - arrivalMinutes;
+			minutes = visit.startMinutes + this.stops[stopIndex].dwellMinutes;
+
+			if (visit.infeasible) infeasibleCount++;
+
+			entries.push({
+				stopIndex,
+				distance,
+				travelMinutes,
+				arrivalMinutes,
+				waitMinutes,
+				departureMinutes: minutes,
+				infeasible: visit.infeasible
+			});
+		}
+
+		return { order, entries, totalDistance, totalMinutes: minutes, infeasibleCount };
+	}
+
+	/**
+	 * Nearest neighbor tour from a start, keeping a fixed end stop for last
+	 */
+	private nearestNeighbor(start: number): number[] {
+		const { end } = this.options;
+		const visited = new Set<number>([start]);
+		const order = [start];
+		let current = start;
+
+		while (visited.size < this.size) {
+			let nearest = -1;
+			let nearestDistance = Infinity;
+
+			for (let i = 0; i < this.size; i++) {
+				if (visited.has(i) || i === end) continue;
+				if (this.distances[current][i] < nearestDistance) {
+					nearestDistance = this.distances[current][i];
+					nearest = i;
+				}
+			}
+
+			// Only the fixed end is left
+			if (nearest === -1) nearest = end!;
+
+			visited.add(nearest);
+			order.push(nearest);
+			current = nearest;
+		}
+
+		return order;
+	}
+
+	/**
+	 * Apply improving 2-opt and Or-opt moves until none is left
+	 */
+	private improve(initial: number[]): number[] {
+		let order = initial;
+		let cost = this.cost(order);
+
+		// Positions that may change; fixed endpoints stay where they are
+		const first = this.options.start !== undefined ? 1 : 0;
+		const last = this.options.end !== undefined ? this.size - 2 : this.size - 1;
+
+		for (let round = 0; round < MAX_IMPROVEMENT_ROUNDS; round++) {
+			let improved = false;
+
+			// 2-opt: reverse order[i..j]
+			for (let i = first; i < last; i++) {
+				for (let j = i + 1; j <= last; j++) {
+					const candidate = [
+						...order.slice(0, i),
+						...order.slice(i, j + 1).reverse(),
+						...order.slice(j + 1)
+					];
+					const candidateCost = this.cost(candidate);
+					if (candidateCost < cost - EPSILON) {
+						order = candidate;
+						cost = candidateCost;
+						improved = true;
+					}
+				}
+			}
+
+			// Or-opt: move order[i..i+length-1] to another position
+			for (let length = 1; length <= OR_OPT_MAX_SEGMENT; length++) {
+				for (let i = first; i + length - 1 <= last; i++) {
+					const segment = order.slice(i, i + length);
+					const rest = [...order.slice(0, i), ...order.slice(i + length)];
+
+					for (let k = first; k <= last - length + 1; k++) {
+						if (k === i) continue;
+						for (const piece of length > 1 ? [segment, [...segment].reverse()] : [segment]) {
+							const candidate = [...rest.slice(0, k), ...piece, ...rest.slice(k)];
+							const candidateCost = this.cost(candidate);
+							if (candidateCost < cost - EPSILON) {
+								order = candidate;
+								cost = candidateCost;
+								improved = true;
+							}
+						}
+					}
+				}
+			}
+
+			if (!improved) break;
+		}
+
+		return order;
+	}
+
+	/**
+	 * Cost of an order for comparing tours (see the file comment)
+	 */
+	private cost(order: number[]): number {
+		if (this.options.departureTime === undefined) {
+			let distance = 0;
+			for (let i = 1; i < order.length; i++) {
+				distance += this.distances[order[i - 1]][order[i]];
+			}
+			return distance;
+		}
+
+		const schedule = this.schedule(order);
+		return (
+			schedule.infeasibleCount * INFEASIBLE_PENALTY +
+			schedule.totalMinutes +
+			schedule.totalDistance * EPSILON
+		);
+	}
+
+	/**
+	 * Earliest time a stop can be visited after arriving, within its opening hours
+	 * Infeasible stops are visited on arrival and flagged
+	 */
+	private earliestVisit(
+		stopIndex: number,
+		arrivalMinutes: number
+	): { startMinutes: number; infeasible?: InfeasibleStopReason } {
+		const { departureTime } = this.options;
+		const { openIntervals, dwellMinutes } = this.stops[stopIndex];
+		if (departureTime === undefined || !openIntervals) {
+			return { startMinutes: arrivalMinutes };
+		}
+
+		if (openIntervals.length === 0) {
+			return { startMinutes: arrivalMinutes, infeasible: 'closed' };
+		}
+
+		const arrival = departureTime + arrivalMinutes * 60000;
+		for (const interval of openIntervals) {
+			const start = Math.max(arrival, interval.start.getTime());
+			const fits = interval.openEnd || start + dwellMinutes * 60000 <= interval.end.getTime();
+			if (fits && start < interval.end.getTime()) {
+				return { startMinutes: (start - departureTime) / 60000 };
+			}
+		}
+
+		return { startMinutes: arrivalMinutes, infeasible: 'too_late' };
+	}
+}
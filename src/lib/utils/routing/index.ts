@@ -1,13 +1,24 @@
 /**
  * Walking Route System - Main exports
- * Provides road-based routing for story connections using MBTILES transportation data
+ * Provides road-based walking, cycling and wheelchair routing for story connections and
+ * directions using MBTILES transportation data
  * Note: Interfaces (RouteGraph, RouteNode, etc.) are globally declared in app.d.ts
  */
 
 export { StoryRouter } from './StoryRouter';
+export { DirectionsRouter } from './DirectionsRouter';
+export { RouteInstructionBuilder } from './RouteInstructions';
 export { GraphBuilder } from './GraphBuilder';
-export { RouteOptimizer } from './RouteOptimizer';
+export { RouteOptimizer, type RouteOptimizationOptions } from './RouteOptimizer';
+export {
+	TourSolver,
+	type TourStop,
+	type TourOptions,
+	type TourSchedule,
+	type TourScheduleEntry
+} from './TourSolver';
 export { AStar } from './AStar';
+export { RoutingIndex, type IndexedPath, type IndexedMatrix } from './RoutingIndex';
 export { GridSpatialIndex } from './RouteGraph';
 export {
 	isWalkable,
@@ -16,3 +27,11 @@ export {
 	shouldIncludeInWalkingNetwork,
 	WALKING_ROAD_TYPES
 } from './WalkingRouteConfig';
+export {
+	ROUTING_PROFILES,
+	DEFAULT_ROUTING_PROFILE,
+	getRoutingProfile,
+	shouldIncludeInNetwork,
+	calculateRouteCost,
+	type RoutingProfile
+} from './RoutingProfiles';
@@ -0,0 +1,623 @@
+/**
+ * Name matching for POI search: diacritic-insensitive word/prefix matching, bounded
+ * edit distance for typos, and transliteration of non-Latin names so Latin input can
+ * match Cyrillic, Greek, Arabic, Hebrew, Japanese kana and Korean names.
+ *
+ * Chinese characters aren't transliterated (that needs a pinyin dictionary) - they're
+ * matched through Latin name variants such as name:en or name:zh-Latn-pinyin instead.
+ */
+
+export type NameMatchType = 'name' | 'fuzzy' | 'transliterated';
+
+export interface NameMatch {
+	type: NameMatchType;
+	score: number; // 0..1, higher is better
+}
+
+// Score of each kind of word match
+const EXACT_SCORE = 1;
+const PREFIX_SCORE = 0.9;
+const CONCATENATED_SCORE = 0.8;
+const SUBSTRING_SCORE = 0.7;
+const FUZZY_SCORE = 0.6;
+const FUZZY_PENALTY_PER_EDIT = 0.15;
+const FUZZY_PREFIX_PENALTY = 0.05;
+const TRANSLITERATED_FACTOR = 0.9;
+
+// Score given to features matched by a semantic tag rather than by name
+export const PROPERTY_MATCH_SCORE = 0.5;
+
+// A result this far away (km) ranks half as well as the same match at the search location
+const DISTANCE_HALF_SCORE_KM = 5;
+
+// Letters that don't decompose under NFD
+const SPECIAL_LATIN: Record<string, string> = {
+	ß: 'ss',
+	æ: 'ae',
+	œ: 'oe',
+	ø: 'o',
+	ł: 'l',
+	đ: 'd',
+	ð: 'd',
+	þ: 'th',
+	ı: 'i'
+};
+
+/**
+ * Lowercase, strip diacritics and expand ligatures
+ */
+export function normalizeForSearch(text: string): string {
+	return text
+		.toLowerCase()
+		.normalize('NFD')
+		.replace(/[\u0300-\u036f]/g, '')
+		.replace(/[ßæœøłđðþı]/g, (ch) => SPECIAL_LATIN[ch]);
+}
+
+export function tokenize(text: string): string[] {
+	return normalizeForSearch(text)
+		.split(/[^\p{L}\p{N}]+/u)
+		.filter((word) => word.length > 0);
+}
+
+/**
+ * Edits allowed for a query word: none for short words, where one edit changes too much
+ */
+export function maxEditsFor(wordLength: number): number {
+	if (wordLength <= 3) return 0;
+	if (wordLength <= 7) return 1;
+	return 2;
+}
+
+/**
+ * Optimal string alignment distance (Levenshtein plus adjacent transpositions),
+ * giving up as soon as it must exceed `max`. Returns max + 1 in that case.
+ */
+export function boundedEditDistance(a: string, b: string, max: number): number {
+	if (a === b) return 0;
+	if (Math.abs(a.length - b.length) > max) return max + 1;
+
+	let prevPrev: number[] = [];
+	let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+	for (let i = 1; i <= a.length; i++) {
+		const current = [i];
+		let rowMin = i;
+
+		for (let j = 1; j <= b.length; j++) {
+			const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+			let value = Math.min(prev[j] + 1, current[j - 1] + 1, prev[j - 1] + cost);
+			if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+				value = Math.min(value, prevPrev[j - 2] + 1);
+			}
+			current.push(value);
+			rowMin = Math.min(rowMin, value);
+		}
+
+		if (rowMin > max) return max + 1;
+		prevPrev = prev;
+		prev = current;
+	}
+
+	return Math.min(prev[b.length], max + 1);
+}
+
+// Best score of a query word against any word of the target, or null if none match
+function matchWord(
+	queryWord: string,
+	targetWords: string[]
+): { score: number; fuzzy: boolean } | null {
+	let best: { score: number; fuzzy: boolean } | null = null;
+	const consider = (score: number, fuzzy: boolean) => {
+		if (!best || score > best.score) best = { score, fuzzy };
+	};
+
+	const maxEdits = maxEditsFor(queryWord.length);
+
+	for (let i = 0; i < targetWords.length; i++) {
+		const targetWord = targetWords[i];
+
+		if (targetWord === queryWord) return { score: EXACT_SCORE, fuzzy: false };
+		if (targetWord.startsWith(queryWord)) {
+			consider(PREFIX_SCORE, false);
+			continue;
+		}
+		if (queryWord.length >= 3 && targetWord.includes(queryWord)) {
+			consider(SUBSTRING_SCORE, false);
+			continue;
+		}
+
+		// Words typed together ("newyork" for "New York")
+		let concatenated = targetWord;
+		for (let j = i + 1; j < targetWords.length && j < i + 3; j++) {
+			concatenated += targetWords[j];
+			if (concatenated.startsWith(queryWord)) consider(CONCATENATED_SCORE, false);
+		}
+
+		if (maxEdits === 0) continue;
+
+		const edits = boundedEditDistance(queryWord, targetWord, maxEdits);
+		if (edits <= maxEdits) {
+			consider(FUZZY_SCORE - (edits - 1) * FUZZY_PENALTY_PER_EDIT, true);
+		}
+
+		// Typo in a partially typed word
+		if (targetWord.length > queryWord.length) {
+			const prefixEdits = boundedEditDistance(
+				queryWord,
+				targetWord.slice(0, queryWord.length),
+				maxEdits
+			);
+			if (prefixEdits <= maxEdits) {
+				consider(
+					FUZZY_SCORE - (prefixEdits - 1) * FUZZY_PENALTY_PER_EDIT - FUZZY_PREFIX_PENALTY,
+					true
+				);
+			}
+		}
+	}
+
+	return best;
+}
+
+// Every query word must match some target word; the score is their average
+function matchWords(
+	queryWords: string[],
+	targetWords: string[]
+): { score: number; fuzzy: boolean } | null {
+	if (targetWords.length === 0) return null;
+
+	let total = 0;
+	let fuzzy = false;
+	for (const queryWord of queryWords) {
+		const match = matchWord(queryWord, targetWords);
+		if (!match) return null;
+		total += match.score;
+		fuzzy ||= match.fuzzy;
+	}
+
+	return { score: total / queryWords.length, fuzzy };
+}
+
+/**
+ * Best match of a query against any of a feature's names (name, name:*), trying a
+ * transliteration of names written in other scripts
+ */
+export function matchNames(names: string[], query: string): NameMatch | null {
+	const queryWords = tokenize(query);
+	if (queryWords.length === 0) return null;
+
+	let best: NameMatch | null = null;
+	const consider = (match: NameMatch) => {
+		if (!best || match.score > best.score) best = match;
+	};
+
+	for (const name of names) {
+		const direct = matchWords(queryWords, tokenize(name));
+		if (direct) {
+			consider({ type: direct.fuzzy ? 'fuzzy' : 'name', score: direct.score });
+			if (direct.score === EXACT_SCORE) break;
+		}
+
+		if (hasNonLatinScript(name)) {
+			const transliterated = matchWords(queryWords, tokenize(transliterate(name)));
+			if (transliterated) {
+				consider({
+					type: 'transliterated',
+					score: transliterated.score * TRANSLITERATED_FACTOR
+				});
+			}
+		}
+	}
+
+	return best;
+}
+
+/**
+ * Sort results by match quality, discounted by distance from the search location
+ */
+export function rankByQualityAndDistance<T extends { score?: number; lng: number; lat: number }>(
+	results: T[],
+	location?: { lng: number; lat: number }
+): T[] {
+	const rank = (result: T) => {
+		const quality = result.score ?? PROPERTY_MATCH_SCORE;
+		if (!location) return quality;
+		return quality / (1 + approximateDistanceKm(location, result) / DISTANCE_HALF_SCORE_KM);
+	};
+
+	return results
+		.map((result) => ({ result, rank: rank(result) }))
+		.sort((a, b) => b.rank - a.rank)
+		.map(({ result }) => result);
+}
+
+// Equirectangular approximation - plenty for ranking
+function approximateDistanceKm(
+	a: { lng: number; lat: number },
+	b: { lng: number; lat: number }
+): number {
+	const x = (b.lng - a.lng) * Math.cos((((a.lat + b.lat) / 2) * Math.PI) / 180);
+	const y = b.lat - a.lat;
+	return Math.sqrt(x * x + y * y) * 111.32;
+}
+
+// ---------------------------------------------------------------------------------------
+// Transliteration
+// ---------------------------------------------------------------------------------------
+
+const CYRILLIC: Record<string, string> = {
+	а: 'a',
+	б: 'b',
+	в: 'v',
+	г: 'g',
+	д: 'd',
+	е: 'e',
+	ё: 'e',
+	ж: 'zh',
+	з: 'z',
+	и: 'i',
+	й: 'y',
+	к: 'k',
+	л: 'l',
+	м: 'm',
+	н: 'n',
+	о: 'o',
+	п: 'p',
+	р: 'r',
+	с: 's',
+	т: 't',
+	у: 'u',
+	ф: 'f',
+	х: 'kh',
+	ц: 'ts',
+	ч: 'ch',
+	ш: 'sh',
+	щ: 'shch',
+	ъ: '',
+	ы: 'y',
+	ь: '',
+	э: 'e',
+	ю: 'yu',
+	я: 'ya',
+	// Ukrainian, Belarusian, Serbian, Macedonian
+	і: 'i',
+	ї: 'yi',
+	є: 'ye',
+	ґ: 'g',
+	ў: 'u',
+	ђ: 'dj',
+	ј: 'j',
+	љ: 'lj',
+	њ: 'nj',
+	ћ: 'c',
+	џ: 'dz',
+	ѓ: 'gj',
+	ќ: 'kj',
+	ѕ: 'dz'
+};
+
+const GREEK: Record<string, string> = {
+	α: 'a',
+	β: 'v',
+	γ: 'g',
+	δ: 'd',
+	ε: 'e',
+	ζ: 'z',
+	η: 'i',
+	θ: 'th',
+	ι: 'i',
+	κ: 'k',
+	λ: 'l',
+	μ: 'm',
+	ν: 'n',
+	ξ: 'x',
+	ο: 'o',
+	π: 'p',
+	ρ: 'r',
+	σ: 's',
+	ς: 's',
+	τ: 't',
+	υ: 'y',
+	φ: 'f',
+	χ: 'ch',
+	ψ: 'ps',
+	ω: 'o'
+};
+
+// Consonant skeleton plus long vowels - short vowels aren't written
+const ARABIC: Record<string, string> = {
+	ا: 'a',
+	أ: 'a',
+	إ: 'i',
+	آ: 'a',
+	ب: 'b',
+	ت: 't',
+	ث: 'th',
+	ج: 'j',
+	ح: 'h',
+	خ: 'kh',
+	د: 'd',
+	ذ: 'dh',
+	ر: 'r',
+	ز: 'z',
+	س: 's',
+	ش: 'sh',
+	ص: 's',
+	ض: 'd',
+	ط: 't',
+	ظ: 'z',
+	ع: '',
+	غ: 'gh',
+	ف: 'f',
+	ق: 'q',
+	ك: 'k',
+	ل: 'l',
+	م: 'm',
+	ن: 'n',
+	ه: 'h',
+	و: 'w',
+	ي: 'y',
+	ى: 'a',
+	ة: 'a',
+	ء: '',
+	ئ: '',
+	ؤ: '',
+	// Persian and Urdu
+	پ: 'p',
+	چ: 'ch',
+	ژ: 'zh',
+	گ: 'g',
+	ک: 'k',
+	ی: 'y'
+};
+
+const HEBREW: Record<string, string> = {
+	א: '',
+	ב: 'b',
+	ג: 'g',
+	ד: 'd',
+	ה: 'h',
+	ו: 'v',
+	ז: 'z',
+	ח: 'kh',
+	ט: 't',
+	י: 'y',
+	כ: 'k',
+	ך: 'k',
+	ל: 'l',
+	מ: 'm',
+	ם: 'm',
+	נ: 'n',
+	ן: 'n',
+	ס: 's',
+	ע: '',
+	פ: 'p',
+	ף: 'f',
+	צ: 'ts',
+	ץ: 'ts',
+	ק: 'k',
+	ר: 'r',
+	ש: 'sh',
+	ת: 't'
+};
+
+// Hepburn romanization of hiragana; katakana is mapped onto hiragana first
+const KANA: Record<string, string> = {
+	あ: 'a',
+	い: 'i',
+	う: 'u',
+	え: 'e',
+	お: 'o',
+	か: 'ka',
+	き: 'ki',
+	く: 'ku',
+	け: 'ke',
+	こ: 'ko',
+	さ: 'sa',
+	し: 'shi',
+	す: 'su',
+	せ: 'se',
+	そ: 'so',
+	た: 'ta',
+	ち: 'chi',
+	つ: 'tsu',
+	て: 'te',
+	と: 'to',
+	な: 'na',
+	に: 'ni',
+	ぬ: 'nu',
+	ね: 'ne',
+	の: 'no',
+	は: 'ha',
+	ひ: 'hi',
+	ふ: 'fu',
+	へ: 'he',
+	ほ: 'ho',
+	ま: 'ma',
+	み: 'mi',
+	む: 'mu',
+	め: 'me',
+	も: 'mo',
+	や: 'ya',
+	ゆ: 'yu',
+	よ: 'yo',
+	ら: 'ra',
+	り: 'ri',
+	る: 'ru',
+	れ: 're',
+	ろ: 'ro',
+	わ: 'wa',
+	を: 'o',
+	ん: 'n',
+	が: 'ga',
+	ぎ: 'gi',
+	ぐ: 'gu',
+	げ: 'ge',
+	ご: 'go',
+	ざ: 'za',
+	じ: 'ji',
+	ず: 'zu',
+	ぜ: 'ze',
+	ぞ: 'zo',
+	だ: 'da',
+	ぢ: 'ji',
+	づ: 'zu',
+	で: 'de',
+	ど: 'do',
+	ば: 'ba',
+	び: 'bi',
+	ぶ: 'bu',
+	べ: 'be',
+	ぼ: 'bo',
+	ぱ: 'pa',
+	ぴ: 'pi',
+	ぷ: 'pu',
+	ぺ: 'pe',
+	ぽ: 'po',
+	ぁ: 'a',
+	ぃ: 'i',
+	ぅ: 'u',
+	ぇ: 'e',
+	ぉ: 'o',
+	ゔ: 'vu'
+};
+
+// Small ya/yu/yo combine with the preceding i-syllable (きゃ -> kya, しゃ -> sha)
+const SMALL_Y: Record<string, string> = { ゃ: 'a', ゅ: 'u', ょ: 'o' };
+
+const HANGUL_INITIALS = [
+	'g',
+	'kk',
+	'n',
+	'd',
+	'tt',
+	'r',
+	'm',
+	'b',
+	'pp',
+	's',
+	'ss',
+	'',
+	'j',
+	'jj',
+	'ch',
+	'k',
+	't',
+	'p',
+	'h'
+];
+const HANGUL_VOWELS = [
+	'a',
+	'ae',
+	'ya',
+	'yae',
+	'eo',
+	'e',
+	'yeo',
+	'ye',
+	'o',
+	'wa',
+	'wae',
+	'oe',
+	'yo',
+	'u',
+	'wo',
+	'we',
+	'wi',
+	'yu',
+	'eu',
+	'ui',
+	'i'
+];
+const HANGUL_FINALS = [
+	'',
+	'k',
+	'k',
+	'k',
+	'n',
+	'n',
+	'n',
+	't',
+	'l',
+	'k',
+	'm',
+	'l',
+	'l',
+	'l',
+	'p',
+	'l',
+	'm',
+	'p',
+	'p',
+	't',
+	't',
+	'ng',
+	't',
+	't',
+	'k',
+	't',
+	'p',
+	't'
+];
+
+const NON_LATIN_SCRIPT =
+	/[\u0370-\u03ff\u0400-\u052f\u0590-\u05ff\u0600-\u06ff\u3040-\u30ff\uac00-\ud7a3]/;
+
+export function hasNonLatinScript(text: string): boolean {
+	return NON_LATIN_SCRIPT.test(text);
+}
+
+/**
+ * Romanize Cyrillic, Greek, Arabic/Persian, Hebrew, Japanese kana and Korean Hangul.
+ * Other characters are passed through unchanged.
+ */
+export function transliterate(text: string): string {
+	let result = '';
+	let geminate = false;
+
+	for (const raw of text.normalize('NFC').toLowerCase()) {
+		let ch = raw;
+
+		// Katakana -> hiragana
+		const code = ch.charCodeAt(0);
+		if (code >= 0x30a1 && code <= 0x30f6) ch = String.fromCharCode(code - 0x60);
+
+		// Hangul syllables are composed algorithmically
+		if (code >= 0xac00 && code <= 0xd7a3) {
+			const index = code - 0xac00;
+			result +=
+				HANGUL_INITIALS[Math.floor(index / 588)] +
+				HANGUL_VOWELS[Math.floor((index % 588) / 28)] +
+				HANGUL_FINALS[index % 28];
+			continue;
+		}
+
+		// Small tsu doubles the next consonant; long vowel marks are dropped
+		if (ch === 'っ') {
+			geminate = true;
+			continue;
+		}
+		if (ch === 'ー') continue;
+
+		if (SMALL_Y[ch] && result.endsWith('i')) {
+			const stem = result.slice(0, -1);
+			result = /(sh|ch|j)$/.test(stem) ? stem + SMALL_Y[ch] : stem + 'y' + SMALL_Y[ch];
+			continue;
+		}
+
+		// Greek tonos etc. decompose to a base letter plus accent
+		const base = ch.normalize('NFD')[0];
+		const mapped =
+			KANA[ch] ?? CYRILLIC[ch] ?? GREEK[base] ?? ARABIC[ch] ?? HEBREW[ch] ?? CYRILLIC[base];
+
+		if (mapped === undefined) {
+			result += ch;
+		} else {
+			result += geminate && mapped ? mapped[0] + mapped : mapped;
+		}
+		geminate = false;
+	}
+
+	return result;
+}
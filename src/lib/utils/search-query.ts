@@ -0,0 +1,381 @@
+/**
+ * Structured search query language: free text combined with filters such as
+ * `category:food_and_drink open:now near:"Gare de Lyon" within:2km list:"Paris 2026" visited:no`.
+ *
+ * The parser is shared by the main thread and the search worker. Place filters (category,
+ * open, within) can be checked against any feature; `list` and `visited` need the user's
+ * stored features; `near` is resolved to a location before searching.
+ */
+
+import { _CATEGORY, _CLASS, _SUBCLASS } from '$lib/assets/class_subclass_category';
+import { isOpenAt } from '$lib/utils/opening-hours';
+
+type FilterKey = SearchQueryFilter['key'];
+
+// Radius used for `near:` without an explicit `within:`
+export const DEFAULT_NEAR_RADIUS = 1000;
+
+const FILTER_KEYS: Record<FilterKey, { description: string; example: string }> = {
+	category: { description: 'Class, subclass or category', example: 'category:food_and_drink' },
+	open: { description: 'Open right now', example: 'open:now' },
+	near: { description: 'Near a place', example: 'near:"Gare de Lyon"' },
+	within: { description: 'Within a distance', example: 'within:2km' },
+	list: { description: 'In a bookmark list', example: 'list:"Paris 2026"' },
+	visited: { description: 'Visited or not', example: 'visited:no' }
+};
+
+// Filters that may appear more than once (combined with OR)
+const REPEATABLE_KEYS = new Set<FilterKey>(['category']);
+
+const DISTANCE_UNITS: Record<string, number> = { m: 1, km: 1000, mi: 1609.344 };
+const DISTANCE_SUGGESTIONS = ['500m', '1km', '2km', '5km'];
+const MAX_VALUE_SUGGESTIONS = 8;
+
+// Anything a category: filter may name - a class, class-subclass, full category, or
+// the last part of either
+const CATEGORY_VALUES = new Set([
+	..._CLASS,
+	..._SUBCLASS,
+	..._CATEGORY,
+	..._SUBCLASS.map((subclass) => subclass.split('-').pop()!),
+	..._CATEGORY.map((category) => category.split('-').pop()!)
+]);
+
+interface Token {
+	start: number;
+	end: number;
+	key?: string;
+	value: string;
+	unclosedQuote: boolean;
+}
+
+export interface SearchSuggestion {
+	label: string;
+	description?: string;
+	// Replaces input[start, end)
+	replacement: string;
+	start: number;
+	end: number;
+}
+
+/**
+ * Split a query into free text and filters, collecting errors with their position
+ */
+export function parseSearchQuery(input: string): ParsedSearchQuery {
+	const words: string[] = [];
+	const filters: SearchQueryFilter[] = [];
+	const errors: SearchQueryError[] = [];
+
+	for (const token of tokenize(input)) {
+		const { start, end } = token;
+
+		if (token.unclosedQuote) {
+			errors.push({ start, end, message: 'Missing closing quote' });
+		}
+
+		if (token.key === undefined) {
+			if (token.value) words.push(token.value);
+			continue;
+		}
+
+		const key = token.key.toLowerCase();
+		if (!(key in FILTER_KEYS)) {
+			errors.push({
+				start,
+				end,
+				message: `Unknown filter "${token.key}:". Try ${Object.keys(FILTER_KEYS)
+					.map((k) => `${k}:`)
+					.join(', ')}`
+			});
+			continue;
+		}
+
+		if (!REPEATABLE_KEYS.has(key as FilterKey) && filters.some((f) => f.key === key)) {
+			errors.push({ start, end, message: `Only one ${key}: filter is allowed` });
+			continue;
+		}
+
+		const value = token.value.trim();
+		if (!value) {
+			errors.push({
+				start,
+				end,
+				message: `Missing value, e.g. ${FILTER_KEYS[key as FilterKey].example}`
+			});
+			continue;
+		}
+
+		const result = parseFilterValue(key as FilterKey, value);
+		if (typeof result === 'string') {
+			errors.push({ start, end, message: result });
+		} else {
+			filters.push({ ...result, start, end } as SearchQueryFilter);
+		}
+	}
+
+	return { text: words.join(' '), filters, errors };
+}
+
+// Typed filter value, or an error message
+function parseFilterValue(
+	key: FilterKey,
+	value: string
+): { key: FilterKey; value: string | number | boolean } | string {
+	const lower = value.toLowerCase();
+
+	switch (key) {
+		case 'category': {
+			const category = lower.replace(/\s+/g, '_');
+			if (!CATEGORY_VALUES.has(category)) return `Unknown category "${value}"`;
+			return { key, value: category };
+		}
+		case 'open':
+			if (lower !== 'now') return 'Expected open:now';
+			return { key, value: 'now' };
+		case 'within': {
+			const match = lower.match(/^(\d+(?:\.\d+)?)\s*(m|km|mi)$/);
+			if (!match) return 'Expected a distance like 500m, 2km or 1mi';
+			const meters = parseFloat(match[1]) * DISTANCE_UNITS[match[2]];
+			if (meters <= 0) return 'Distance must be greater than zero';
+			return { key, value: meters };
+		}
+		case 'visited':
+			if (['yes', 'true'].includes(lower)) return { key, value: true };
+			if (['no', 'false'].includes(lower)) return { key, value: false };
+			return 'Expected visited:yes or visited:no';
+		case 'near':
+		case 'list':
+			return { key, value };
+	}
+}
+
+function tokenize(input: string): Token[] {
+	const tokens: Token[] = [];
+	let i = 0;
+
+	while (i < input.length) {
+		if (/\s/.test(input[i])) {
+			i++;
+			continue;
+		}
+
+		const start = i;
+		let unclosedQuote = false;
+		while (i < input.length && !/\s/.test(input[i])) {
+			if (input[i] === '"') {
+				const close = input.indexOf('"', i + 1);
+				if (close === -1) {
+					unclosedQuote = true;
+					i = input.length;
+					break;
+				}
+				i = close;
+			}
+			i++;
+		}
+
+		const raw = input.slice(start, i);
+		const filter = raw.match(/^([a-z_]+):(.*)$/is);
+		tokens.push({
+			start,
+			end: i,
+			key: filter?.[1],
+			value: unquote(filter ? filter[2] : raw),
+			unclosedQuote
+		});
+	}
+
+	return tokens;
+}
+
+function unquote(text: string): string {
+	return text.replace(/"/g, '');
+}
+
+function quoteIfNeeded(value: string): string {
+	return /\s/.test(value) ? `"${value}"` : value;
+}
+
+/**
+ * Autocomplete chips for the token under the cursor: filter keys while typing a word,
+ * values once a key is complete
+ */
+export function getSearchSuggestions(
+	input: string,
+	cursor: number,
+	listNames: string[] = []
+): SearchSuggestion[] {
+	const token = tokenize(input).find(({ start, end }) => start <= cursor && cursor <= end) ?? {
+		start: cursor,
+		end: cursor,
+		value: '',
+		unclosedQuote: false
+	};
+	const { start, end } = token;
+
+	if (token.key === undefined) {
+		const prefix = token.value.toLowerCase();
+		return (Object.keys(FILTER_KEYS) as FilterKey[])
+			.filter((key) => key.startsWith(prefix))
+			.map((key) => ({
+				label: `${key}:`,
+				description: FILTER_KEYS[key].description,
+				replacement: `${key}:`,
+				start,
+				end
+			}));
+	}
+
+	const key = token.key.toLowerCase() as FilterKey;
+	if (!(key in FILTER_KEYS)) return [];
+
+	const prefix = token.value.toLowerCase();
+	const suggest = (values: string[]) =>
+		values
+			.filter((value) => value.toLowerCase().startsWith(prefix) && value.toLowerCase() !== prefix)
+			.slice(0, MAX_VALUE_SUGGESTIONS)
+			.map((value) => ({
+				label: `${key}:${value}`,
+				replacement: `${key}:${quoteIfNeeded(value)} `,
+				start,
+				end
+			}));
+
+	switch (key) {
+		case 'category':
+			return suggest(prefix ? [...CATEGORY_VALUES].sort() : [..._CLASS]);
+		case 'open':
+			return suggest(['now']);
+		case 'within':
+			return suggest(DISTANCE_SUGGESTIONS);
+		case 'visited':
+			return suggest(['yes', 'no']);
+		case 'list':
+			return suggest(listNames);
+		case 'near':
+			return [];
+	}
+}
+
+/**
+ * Filters that can be checked against any feature, given its properties
+ */
+export function getPlaceFilters(filters: SearchQueryFilter[]): SearchQueryFilter[] {
+	return filters.filter((filter) => ['category', 'open', 'within'].includes(filter.key));
+}
+
+/**
+ * Search radius in meters: `within:`, or the default radius around a `near:` place
+ */
+export function getSearchRadius(filters: SearchQueryFilter[]): number | undefined {
+	const within = filters.find((filter) => filter.key === 'within');
+	if (within) return within.value as number;
+	return filters.some((filter) => filter.key === 'near') ? DEFAULT_NEAR_RADIUS : undefined;
+}
+
+/**
+ * Check a feature against the category, open and within filters. Features without opening
+ * hours never match open:now, which is evaluated in the feature's time zone. `center` is the
+ * resolved near: place or the map center.
+ */
+export function matchesPlaceFilters(
+	place: {
+		class?: string;
+		subclass?: string;
+		category?: string;
+		lng: number;
+		lat: number;
+		openingHours?: string;
+	},
+	filters: SearchQueryFilter[],
+	center?: { lng: number; lat: number }
+): boolean {
+	const categories = filters.filter((filter) => filter.key === 'category');
+	if (categories.length > 0 && !categories.some(({ value }) => matchesCategory(place, value))) {
+		return false;
+	}
+
+	if (filters.some((filter) => filter.key === 'open')) {
+		if (!place.openingHours) return false;
+		const context = { lng: place.lng, lat: place.lat };
+		if (!isOpenAt(place.openingHours, new Date(), context)) return false;
+	}
+
+	const radius = getSearchRadius(filters);
+	if (radius !== undefined && center && distanceMeters(center, place) > radius) {
+		return false;
+	}
+
+	return true;
+}
+
+/**
+ * Check a stored feature against the list and visited filters
+ */
+export function matchesStoredFilters(
+	feature: StoredFeature | undefined,
+	filters: SearchQueryFilter[],
+	lists: BookmarkList[] = []
+): boolean {
+	for (const filter of filters) {
+		if (filter.key === 'visited') {
+			const visited = (feature?.visitedDates?.length ?? 0) > 0;
+			if (visited !== filter.value) return false;
+		} else if (filter.key === 'list') {
+			const list = findListByName(lists, filter.value);
+			if (!list || !feature || !feature.listIds?.includes(list.id)) return false;
+		}
+	}
+	return true;
+}
+
+/**
+ * Whether the filters only match features the user has stored (bookmarked or visited)
+ */
+export function requiresStoredFeatures(filters: SearchQueryFilter[]): boolean {
+	return filters.some(
+		(filter) => filter.key === 'list' || (filter.key === 'visited' && filter.value === true)
+	);
+}
+
+export function findListByName(lists: BookmarkList[], name: string): BookmarkList | undefined {
+	const lower = name.toLowerCase();
+	return lists.find((list) => !list.deleted && list.name.toLowerCase() === lower);
+}
+
+/**
+ * Representative coordinate of a stored feature's geometry
+ */
+export function getFeatureLngLat(geometry: any): { lng: number; lat: number } | null {
+	let coordinates = geometry?.coordinates;
+	while (Array.isArray(coordinates) && Array.isArray(coordinates[0])) {
+		coordinates = coordinates[0];
+	}
+	if (!Array.isArray(coordinates) || coordinates.length < 2) return null;
+	return { lng: coordinates[0], lat: coordinates[1] };
+}
+
+function matchesCategory(
+	place: { class?: string; subclass?: string; category?: string },
+	value: string
+): boolean {
+	const subclass = place.subclass?.split('-').pop();
+	const category = place.category?.split('-').pop();
+	return (
+		value === place.class ||
+		value === subclass ||
+		value === category ||
+		value === `${place.class}-${subclass}` ||
+		value === `${place.class}-${subclass}-${category}`
+	);
+}
+
+function distanceMeters(a: { lng: number; lat: number }, b: { lng: number; lat: number }): number {
+	const toRad = Math.PI / 180;
+	const dLat = (b.lat - a.lat) * toRad;
+	const dLng = (b.lng - a.lng) * toRad;
+	const h =
+		Math.sin(dLat / 2) ** 2 +
+		Math.cos(a.lat * toRad) * Math.cos(b.lat * toRad) * Math.sin(dLng / 2) ** 2;
+	return 2 * 6371000 * Math.asin(Math.sqrt(h));
+}
@@ -0,0 +1,161 @@
+/**
+ * Storage manager for offline map data in OPFS.
+ *
+ * Combines navigator.storage.estimate() with per-file usage from the search worker to
+ * report usage per database file, category (basemap, poi, ...) and region, to check a
+ * download fits before starting it, and to evict whole regions least recently used first.
+ */
+
+import type { DualWorkerManager } from '$lib/utils/worker/dualWorkerManager';
+import { parseMBTilesFilename } from '$lib/utils/mbtiles-filename';
+
+// Keep some headroom under the quota - browsers may evict or fail writes right at the limit
+const MIN_SAFETY_MARGIN = 50 * 1024 * 1024;
+const SAFETY_MARGIN_RATIO = 0.02;
+
+export async function getStorageEstimate(): Promise<{
+	usage: number | null;
+	quota: number | null;
+	persisted: boolean;
+}> {
+	if (typeof navigator === 'undefined' || !navigator.storage?.estimate) {
+		return { usage: null, quota: null, persisted: false };
+	}
+
+	const [estimate, persisted] = await Promise.all([
+		navigator.storage.estimate(),
+		navigator.storage.persisted?.() ?? Promise.resolve(false)
+	]);
+
+	return {
+		usage: estimate.usage ?? null,
+		quota: estimate.quota ?? null,
+		persisted
+	};
+}
+
+/**
+ * Ask the browser not to evict our storage under pressure
+ */
+export async function requestPersistentStorage(): Promise<boolean> {
+	if (typeof navigator === 'undefined' || !navigator.storage?.persist) {
+		return false;
+	}
+	return navigator.storage.persist();
+}
+
+function regionKeyOf(filename: string): { key: string; name: string } {
+	const { continent, country, region } = parseMBTilesFilename(filename);
+	return {
+		key: `${continent}_${country}_${region}`,
+		name: [continent, country, region]
+			.map((part) => part.charAt(0).toUpperCase() + part.slice(1).replace(/_/g, ' '))
+			.join(' / ')
+	};
+}
+
+export async function getStorageReport(worker: DualWorkerManager): Promise<StorageReport> {
+	const [estimate, opfsUsage] = await Promise.all([getStorageEstimate(), worker.getOPFSUsage()]);
+
+	const categories = new Map<string, StorageCategoryUsage>();
+	const regions = new Map<string, StorageRegionUsage>();
+
+	const files = opfsUsage.files.map((file) => {
+		const bytes = file.size + file.sidecarBytes;
+		const category = parseMBTilesFilename(file.filename).type;
+		const region = regionKeyOf(file.filename);
+
+		const categoryUsage = categories.get(category) ?? { category, bytes: 0, fileCount: 0 };
+		categoryUsage.bytes += bytes;
+		categoryUsage.fileCount++;
+		categories.set(category, categoryUsage);
+
+		const regionUsage = regions.get(region.key) ?? {
+			key: region.key,
+			name: region.name,
+			bytes: 0,
+			filenames: [],
+			lastAccessed: 0
+		};
+		regionUsage.bytes += bytes;
+		regionUsage.filenames.push(file.filename);
+		regionUsage.lastAccessed = Math.max(regionUsage.lastAccessed, file.lastAccessed);
+		regions.set(region.key, regionUsage);
+
+		return { ...file, category, regionKey: region.key };
+	});
+
+	const opfsBytes =
+		files.reduce((sum, file) => sum + file.size + file.sidecarBytes, 0) +
+		opfsUsage.pendingDownloadBytes +
+		opfsUsage.otherBytes;
+
+	return {
+		...estimate,
+		opfsBytes,
+		files,
+		categories: [...categories.values()].sort((a, b) => b.bytes - a.bytes),
+		regions: [...regions.values()].sort((a, b) => a.lastAccessed - b.lastAccessed),
+		pendingDownloadBytes: opfsUsage.pendingDownloadBytes
+	};
+}
+
+/**
+ * Check whether `bytesNeeded` more bytes fit under the storage quota.
+ * Reports `fits: true` when the browser doesn't expose an estimate.
+ */
+export async function checkStorageFits(bytesNeeded: number): Promise<StorageQuotaCheck> {
+	const { usage, quota } = await getStorageEstimate();
+
+	if (usage === null || quota === null) {
+		return { fits: true, bytesNeeded, available: null };
+	}
+
+	const margin = Math.max(MIN_SAFETY_MARGIN, quota * SAFETY_MARGIN_RATIO);
+	const available = Math.max(0, quota - usage - margin);
+
+	return { fits: bytesNeeded <= available, bytesNeeded, available };
+}
+
+/**
+ * Pick least recently used regions to evict until `bytesToFree` is reached.
+ * Regions in `keep` (e.g. the ones being downloaded) are never picked.
+ */
+export function planEviction(
+	report: StorageReport,
+	bytesToFree: number,
+	keep: Set<string> = new Set()
+): StorageRegionUsage[] {
+	const plan: StorageRegionUsage[] = [];
+	let freed = 0;
+
+	for (const region of report.regions) {
+		if (freed >= bytesToFree) break;
+		if (keep.has(region.key)) continue;
+		plan.push(region);
+		freed += region.bytes;
+	}
+
+	return plan;
+}
+
+/**
+ * Delete every file of the given regions, returning the bytes freed
+ */
+export async function evictRegions(
+	worker: DualWorkerManager,
+	regions: StorageRegionUsage[]
+): Promise<number> {
+	const filenames = regions.flatMap((region) => region.filenames);
+	if (filenames.length === 0) return 0;
+
+	await worker.removeOPFSFiles(filenames);
+
+	const freed = regions.reduce((sum, region) => sum + region.bytes, 0);
+	console.log(`🧹 Evicted ${regions.length} region(s), ${filenames.length} files, ${freed} bytes`);
+	return freed;
+}
+
+export function getRegionKey(filename: string): string {
+	return regionKeyOf(filename).key;
+}
@@ -3,31 +3,54 @@ import { point } from '@turf/helpers';
 import { StoryRouter } from './routing/StoryRouter';
 
 /**
- * Generate a connection path between story features using walking routes
- * Uses real roads/paths from transportation MBTILES when possible, falls back to straight lines
- * This replaces the old straight-line connection system
+ * Generate routes between story features using walking, cycling or wheelchair routes, ordered
+ * around the options' fixed start and end, with a timeline of the visits
+ * Returns null when no routes could be generated
  */
-export async function generateStoryConnectionPath(
-	story: Story
-): Promise<GeoJSON.FeatureCollection> {
-	// Try to use walking routes via worker system
+export async function generateStoryRoutePlan(
+	story: Story,
+	profile: RoutingProfileId = 'walking',
+	options: StoryRouteOptions = {}
+): Promise<StoryRouteResult | null> {
+	// Try to use road-based routes via worker system
 	try {
 		const router = new StoryRouter();
-		const result = await router.generateStoryRoutes(story);
+		const result = await router.generateStoryRoutes(story, profile, options);
 
 		if (result.success) {
-			console.log(`✅ Generated walking routes for story "${story.title}":`);
+			console.log(`✅ Generated ${profile} routes for story "${story.title}":`);
 			console.log(`   📏 Total distance: ${(result.totalDistance / 1000).toFixed(2)} km`);
-			console.log(`   ⏱️ Walking time: ${result.totalWalkingTime.toFixed(0)} minutes`);
+			console.log(`   ⏱️ Travel time: ${result.totalWalkingTime.toFixed(0)} minutes`);
 			console.log(`   🛣️ Road types: ${result.routeInfo.roadTypesUsed.join(', ')}`);
 			console.log(
 				`   📏 Fallback segments: ${result.routeInfo.fallbackSegments}/${result.routeInfo.segmentCount}`
 			);
+			if (result.routeInfo.infeasibleStops?.length) {
+				console.log(`   🚪 Closed stops: ${result.routeInfo.infeasibleStops.length}`);
+			}
 
-			return result.geoJson;
+			return result;
 		}
 	} catch (error) {
-		console.warn('⚠️ Walking route generation failed, falling back to straight lines:', error);
+		console.warn('⚠️ Route generation failed, falling back to straight lines:', error);
+	}
+
+	return null;
+}
+
+/**
+ * Generate a connection path between story features using walking, cycling or wheelchair routes
+ * Uses real roads/paths from transportation MBTILES when possible, falls back to straight lines
+ * This replaces the old straight-line connection system
+ */
+export async function generateStoryConnectionPath(
+	story: Story,
+	profile: RoutingProfileId = 'walking',
+	options: StoryRouteOptions = {}
+): Promise<GeoJSON.FeatureCollection> {
+	const result = await generateStoryRoutePlan(story, profile, options);
+	if (result) {
+		return result.geoJson;
 	}
 
 	// Fallback to straight-line connections
@@ -0,0 +1,78 @@
+import {
+	Timestamp,
+	orderBy,
+	query,
+	where,
+	type CollectionReference,
+	type DocumentData,
+	type Query,
+	type QuerySnapshot
+} from 'firebase/firestore';
+
+/**
+ * Incremental download of a user's synced collection (features, lists, stories)
+ * Every write sets updatedAt to the server time and deletions leave a tombstone instead of
+ * removing the document, so a device that has seen everything up to its cursor only needs the
+ * documents changed after it. The cursor is the newest updatedAt seen, kept in SyncMetadata
+ */
+
+export const UPDATED_AT_FIELD = 'updatedAt';
+
+// Writes committed at about the same time can reach a listener out of order, so a short window
+// before the cursor is read again; applying a document twice changes nothing
+const CURSOR_OVERLAP = 60 * 1000;
+
+/**
+ * Documents changed since the cursor, or the whole collection on a device that hasn't synced yet
+ */
+export function changedSinceQuery(collectionRef: CollectionReference, cursor: number): Query {
+	if (cursor <= 0) return query(collectionRef);
+
+	return query(
+		collectionRef,
+		where(UPDATED_AT_FIELD, '>', Timestamp.fromMillis(Math.max(cursor - CURSOR_OVERLAP, 0))),
+		orderBy(UPDATED_AT_FIELD, 'asc')
+	);
+}
+
+/**
+ * Cursor after a snapshot, from the documents the server has confirmed
+ */
+export function advanceCursor(cursor: number, snapshot: QuerySnapshot<DocumentData>): number {
+	for (const change of snapshot.docChanges()) {
+		if (change.doc.metadata.hasPendingWrites) continue;
+
+		const updatedAt = change.doc.get(UPDATED_AT_FIELD);
+		if (updatedAt instanceof Timestamp) {
+			cursor = Math.max(cursor, updatedAt.toMillis());
+		}
+	}
+	return cursor;
+}
+
+/**
+ * Document left by a deletion
+ */
+export function isTombstone(data: DocumentData): boolean {
+	return data.deleted === true;
+}
+
+/**
+ * Write that replaces a document with its tombstone
+ */
+export function tombstoneWrite(path: string, id: string): OutboxWrite {
+	return {
+		type: 'set',
+		path,
+		data: { id, deleted: true, dateModified: Date.now() },
+		serverTimestamps: [UPDATED_AT_FIELD]
+	};
+}
+
+/**
+ * Document data without the fields Firestore sets, which can't be stored in IndexedDB as they are
+ */
+export function withoutServerFields(data: DocumentData): Record<string, any> {
+	const { [UPDATED_AT_FIELD]: _updatedAt, serverTimestamp: _serverTimestamp, ...rest } = data;
+	return rest;
+}
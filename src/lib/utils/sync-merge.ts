@@ -0,0 +1,317 @@
+/**
+ * Field-level merge of two versions of a synced record, e.g. a feature edited on two devices
+ * - Sets with change tracking (listIds, featureIds, categories): each ID follows the side that
+ *   added or removed it last, so a removal on one device isn't undone by the other device
+ * - Union fields (visitedDates, versions): everything from both sides
+ * - Scalar fields: the side that changed the field last wins
+ * A scalar field that differs without either side being the last writer can't be merged and is
+ * left for the user to review
+ */
+
+export interface MergeSpec {
+	scalarFields: string[];
+	trackedSetFields: { field: string; changesField: string }[];
+	unionFields: { field: string; key?: string }[]; // key: ID property of object elements
+	maxFields: string[]; // Counters and timestamps, e.g. dateModified
+}
+
+export const FEATURE_MERGE_SPEC: MergeSpec = {
+	scalarFields: [
+		'bookmarked',
+		'todo',
+		'names',
+		'class',
+		'subclass',
+		'category',
+		'geometry',
+		'source',
+		'sourceLayer',
+		'openingHours',
+		'relation',
+		'note'
+	],
+	trackedSetFields: [{ field: 'listIds', changesField: 'listIdChanges' }],
+	unionFields: [{ field: 'visitedDates' }],
+	maxFields: ['dateModified']
+};
+
+export const LIST_MERGE_SPEC: MergeSpec = {
+	scalarFields: ['name', 'description', 'category', 'color'],
+	trackedSetFields: [{ field: 'featureIds', changesField: 'featureIdChanges' }],
+	unionFields: [],
+	maxFields: ['dateModified']
+};
+
+export const STORY_MERGE_SPEC: MergeSpec = {
+	scalarFields: ['title', 'description', 'content', 'isPublic'],
+	trackedSetFields: [{ field: 'categories', changesField: 'categoryChanges' }],
+	unionFields: [{ field: 'versions', key: 'id' }],
+	maxFields: ['dateModified', 'currentVersion', 'viewCount']
+};
+
+// Labels of the fields shown in the conflict review
+export const MERGE_FIELD_LABELS: Record<string, string> = {
+	bookmarked: 'Saved',
+	todo: 'To do',
+	names: 'Names',
+	class: 'Class',
+	subclass: 'Subclass',
+	category: 'Category',
+	geometry: 'Location',
+	source: 'Source',
+	sourceLayer: 'Source layer',
+	openingHours: 'Opening hours',
+	relation: 'Route relation',
+	note: 'Notes',
+	listIds: 'Lists',
+	visitedDates: 'Visits',
+	name: 'Name',
+	description: 'Description',
+	color: 'Color',
+	featureIds: 'Places',
+	title: 'Title',
+	content: 'Content',
+	isPublic: 'Public',
+	categories: 'Categories',
+	versions: 'Versions'
+};
+
+type SyncRecord = Record<string, any> & {
+	dateCreated: number;
+	dateModified: number;
+	fieldModified?: Record<string, number>;
+};
+
+/**
+ * Record when fields and set elements changed between two versions of a record, on the new
+ * version, so a later merge knows which side changed them last
+ */
+export function recordChanges<T>(
+	previous: T | null | undefined,
+	next: T,
+	spec: MergeSpec,
+	now = Date.now()
+): T {
+	if (!previous) return next;
+
+	const before = previous as SyncRecord;
+	const after = next as SyncRecord;
+
+	const fieldModified = { ...before.fieldModified, ...after.fieldModified };
+	for (const field of spec.scalarFields) {
+		if (!isEqual(before[field], after[field])) {
+			fieldModified[field] = now;
+		}
+	}
+	if (Object.keys(fieldModified).length > 0) {
+		after.fieldModified = fieldModified;
+	}
+
+	for (const { field, changesField } of spec.trackedSetFields) {
+		const beforeIds = new Set<string>(before[field] ?? []);
+		const afterIds = new Set<string>(after[field] ?? []);
+		const changes: Record<string, number> = { ...before[changesField], ...after[changesField] };
+
+		for (const id of afterIds) {
+			if (!beforeIds.has(id)) changes[id] = now;
+		}
+		for (const id of beforeIds) {
+			if (!afterIds.has(id)) changes[id] = now;
+		}
+
+		if (Object.keys(changes).length > 0) {
+			after[changesField] = changes;
+		}
+	}
+
+	return next;
+}
+
+/**
+ * Merge a local and a remote version of a record
+ * Conflicting scalar fields take the side given in choices, or stay local and are returned in
+ * conflicts
+ */
+export function mergeVersions<T>(
+	local: T,
+	remote: T,
+	spec: MergeSpec,
+	choices: Record<string, 'local' | 'remote'> = {}
+): { merged: T; conflicts: string[] } {
+	const localRecord = local as SyncRecord;
+	const remoteRecord = remote as SyncRecord;
+	const merged: SyncRecord = { ...localRecord };
+	const conflicts: string[] = [];
+
+	for (const field of spec.scalarFields) {
+		if (isEqual(localRecord[field], remoteRecord[field])) continue;
+
+		const localTime = fieldTimestamp(localRecord, field);
+		const remoteTime = fieldTimestamp(remoteRecord, field);
+		const choice = choices[field] ?? (localTime > remoteTime ? 'local' : 'remote');
+
+		if (localTime === remoteTime && !choices[field]) {
+			conflicts.push(field);
+			continue;
+		}
+		merged[field] = choice === 'local' ? localRecord[field] : remoteRecord[field];
+	}
+
+	for (const { field, changesField } of spec.trackedSetFields) {
+		const localChanges: Record<string, number> = localRecord[changesField] ?? {};
+		const remoteChanges: Record<string, number> = remoteRecord[changesField] ?? {};
+		const localIds: string[] = localRecord[field] ?? [];
+		const remoteIds: string[] = remoteRecord[field] ?? [];
+
+		// Keep the local order and append the IDs only the remote has
+		merged[field] = [...new Set([...localIds, ...remoteIds])].filter((id) => {
+			const localTime = localChanges[id] ?? 0;
+			const remoteTime = remoteChanges[id] ?? 0;
+			if (localTime > remoteTime) return localIds.includes(id);
+			if (remoteTime > localTime) return remoteIds.includes(id);
+			return true;
+		});
+
+		const changes = mergeTimestamps(localChanges, remoteChanges);
+		if (Object.keys(changes).length > 0) {
+			merged[changesField] = changes;
+		}
+	}
+
+	for (const { field, key } of spec.unionFields) {
+		const localValues: any[] = localRecord[field] ?? [];
+		const remoteValues: any[] = remoteRecord[field] ?? [];
+		if (localValues.length === 0 && remoteValues.length === 0) continue;
+
+		if (key) {
+			const localKeys = new Set(localValues.map((value) => value[key]));
+			merged[field] = [
+				...localValues,
+				...remoteValues.filter((value) => !localKeys.has(value[key]))
+			];
+		} else {
+			merged[field] = [...new Set([...localValues, ...remoteValues])].sort((a, b) =>
+				typeof a === 'number' && typeof b === 'number' ? a - b : String(a).localeCompare(b)
+			);
+		}
+	}
+
+	for (const field of spec.maxFields) {
+		const values = [localRecord[field], remoteRecord[field]].filter(
+			(value): value is number => typeof value === 'number'
+		);
+		if (values.length > 0) {
+			merged[field] = Math.max(...values);
+		}
+	}
+
+	const fieldModified = mergeTimestamps(
+		localRecord.fieldModified ?? {},
+		remoteRecord.fieldModified ?? {}
+	);
+	if (Object.keys(fieldModified).length > 0) {
+		merged.fieldModified = fieldModified;
+	}
+
+	return { merged: merged as T, conflicts };
+}
+
+/**
+ * Mark fields of a resolved conflict as changed now, so other devices holding either version take
+ * the resolution instead of running into the same conflict
+ */
+export function stampResolvedFields<T>(
+	resolved: T,
+	other: T,
+	fields: string[],
+	spec: MergeSpec,
+	now = Date.now()
+): T {
+	const record = resolved as SyncRecord;
+	const otherRecord = other as SyncRecord;
+
+	for (const field of fields) {
+		if (spec.scalarFields.includes(field)) {
+			record.fieldModified = { ...record.fieldModified, [field]: now };
+		}
+
+		const trackedSet = spec.trackedSetFields.find((entry) => entry.field === field);
+		if (trackedSet) {
+			const ids = new Set<string>(record[field] ?? []);
+			const otherIds = new Set<string>(otherRecord[field] ?? []);
+			const changes = { ...record[trackedSet.changesField] };
+			for (const id of [...ids, ...otherIds]) {
+				if (ids.has(id) !== otherIds.has(id)) changes[id] = now;
+			}
+			record[trackedSet.changesField] = changes;
+		}
+	}
+
+	return resolved;
+}
+
+/**
+ * Whether two versions have the same synced contents, ignoring sync bookkeeping
+ */
+export function isSameVersion<T>(a: T, b: T, spec: MergeSpec): boolean {
+	const first = a as SyncRecord;
+	const second = b as SyncRecord;
+	return [
+		...spec.scalarFields,
+		...spec.trackedSetFields.map(({ field }) => field),
+		...spec.unionFields.map(({ field }) => field)
+	].every((field) => isEqual(first[field], second[field]));
+}
+
+/**
+ * Fields that differ between two versions, for the conflict review
+ */
+export function getChangedFields<T>(a: T, b: T, spec: MergeSpec): string[] {
+	const first = a as SyncRecord;
+	const second = b as SyncRecord;
+	return [
+		...spec.scalarFields,
+		...spec.trackedSetFields.map(({ field }) => field),
+		...spec.unionFields.map(({ field }) => field)
+	].filter((field) => !isEqual(first[field], second[field]));
+}
+
+// When a field was last changed; records from before change tracking only have dateModified,
+// while tracked records leave out fields that haven't changed since they were created
+export function fieldTimestamp(record: SyncRecord, field: string): number {
+	if (record.fieldModified) {
+		return record.fieldModified[field] ?? record.dateCreated ?? 0;
+	}
+	return record.dateModified ?? 0;
+}
+
+function mergeTimestamps(
+	a: Record<string, number>,
+	b: Record<string, number>
+): Record<string, number> {
+	const merged = { ...a };
+	for (const [key, time] of Object.entries(b)) {
+		merged[key] = Math.max(merged[key] ?? 0, time);
+	}
+	return merged;
+}
+
+// Structural equality; missing, null and empty values are the same, as Firestore drops them
+function isEqual(a: unknown, b: unknown): boolean {
+	return JSON.stringify(normalize(a)) === JSON.stringify(normalize(b));
+}
+
+function normalize(value: unknown): unknown {
+	if (value === undefined || value === null || value === '') return undefined;
+	if (Array.isArray(value)) {
+		return value.length > 0 ? value.map(normalize) : undefined;
+	}
+	if (typeof value === 'object') {
+		const entries = Object.entries(value as Record<string, unknown>)
+			.map(([key, entry]) => [key, normalize(entry)] as const)
+			.filter(([, entry]) => entry !== undefined)
+			.sort(([a], [b]) => a.localeCompare(b));
+		return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+	}
+	return value;
+}
@@ -42,3 +42,44 @@ export function formatFeatureProperties(properties: Record<string, any>): Record
 
 	return formatted;
 }
+
+/**
+ * Formats a distance in meters for display
+ * Examples:
+ * - 45 → "45 m"
+ * - 1234 → "1.2 km"
+ * - 15400 → "15 km"
+ *
+ * @param meters - The distance in meters
+ * @returns The formatted distance
+ */
+export function formatDistance(meters: number): string {
+	if (meters < 1000) {
+		return `${Math.max(0, Math.round(meters / 5) * 5)} m`;
+	}
+	const kilometers = meters / 1000;
+	return `${kilometers < 10 ? kilometers.toFixed(1) : Math.round(kilometers)} km`;
+}
+
+/**
+ * Formats a duration in minutes for display
+ * Examples:
+ * - 0.4 → "< 1 min"
+ * - 12.3 → "12 min"
+ * - 95 → "1 h 35 min"
+ *
+ * @param minutes - The duration in minutes
+ * @returns The formatted duration
+ */
+export function formatDuration(minutes: number): string {
+	if (minutes < 1) {
+		return '< 1 min';
+	}
+	const rounded = Math.round(minutes);
+	if (rounded < 60) {
+		return `${rounded} min`;
+	}
+	const hours = Math.floor(rounded / 60);
+	const remainder = rounded % 60;
+	return remainder === 0 ? `${hours} h` : `${hours} h ${remainder} min`;
+}
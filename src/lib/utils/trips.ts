@@ -0,0 +1,299 @@
+import { StoryRouter } from '$lib/utils/routing/StoryRouter';
+import { getFeatureLngLat } from '$lib/utils/search-query';
+import { getFeatureDisplayName } from '$lib/utils/stories';
+
+/**
+ * Trip utilities - dates, itineraries and per-day routes of trips
+ * Day routes are planned by StoryRouter on a story made of the day's stops, so trips get the
+ * same stop ordering, opening hours and timeline as story route plans
+ */
+
+export const DEFAULT_DAY_START_TIME = '09:00';
+export const DEFAULT_TRIP_DWELL_MINUTES = 45;
+export const MAX_TRIP_DAYS = 60;
+
+// Feature ID of the lodging when it isn't a map feature that is also a stop
+const LODGING_STOP_ID = 'trip-lodging';
+
+/**
+ * Local date of a timestamp as YYYY-MM-DD
+ */
+export function toDateString(time: number | Date): string {
+	const date = new Date(time);
+	const pad = (value: number) => String(value).padStart(2, '0');
+	return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Local midnight of a YYYY-MM-DD date
+ */
+export function parseDateString(date: string): Date {
+	const [year, month, day] = date.split('-').map(Number);
+	return new Date(year, month - 1, day);
+}
+
+/**
+ * All dates from start to end (inclusive), at most MAX_TRIP_DAYS
+ */
+export function getTripDates(startDate: string, endDate: string): string[] {
+	const dates: string[] = [];
+	const date = parseDateString(startDate);
+	const end = parseDateString(endDate);
+
+	while (date <= end && dates.length < MAX_TRIP_DAYS) {
+		dates.push(toDateString(date));
+		date.setDate(date.getDate() + 1); // setDate keeps local midnight across DST changes
+	}
+
+	return dates;
+}
+
+/**
+ * Days for a date range, keeping the itineraries of existing days on the same dates
+ */
+export function createTripDays(
+	startDate: string,
+	endDate: string,
+	existingDays: TripDay[] = []
+): TripDay[] {
+	const daysByDate = new Map(existingDays.map((day) => [day.date, day]));
+
+	return getTripDates(startDate, endDate).map(
+		(date) =>
+			daysByDate.get(date) ?? {
+				id: `day-${date}-${Math.random().toString(36).substr(2, 9)}`,
+				date,
+				stops: [],
+				startTime: DEFAULT_DAY_START_TIME
+			}
+	);
+}
+
+/**
+ * Generate searchable text from trip properties
+ */
+export function generateTripSearchText(trip: Partial<Trip>): string {
+	const searchParts: string[] = [];
+
+	if (trip.title) {
+		searchParts.push(trip.title.toLowerCase());
+	}
+	if (trip.notes) {
+		searchParts.push(trip.notes.toLowerCase());
+	}
+	if (trip.lodging) {
+		searchParts.push(trip.lodging.name.toLowerCase());
+	}
+
+	trip.days?.forEach((day) => {
+		if (day.notes) {
+			searchParts.push(day.notes.toLowerCase());
+		}
+		if (day.lodging) {
+			searchParts.push(day.lodging.name.toLowerCase());
+		}
+		day.stops.forEach((stop) => {
+			searchParts.push(getTripStopName(stop).toLowerCase());
+			if (stop.notes) {
+				searchParts.push(stop.notes.toLowerCase());
+			}
+		});
+	});
+
+	return searchParts.join(' ');
+}
+
+export function getTripStopName(stop: TripStop): string {
+	return stop.customText || getFeatureDisplayName(stop.feature);
+}
+
+/**
+ * Lodging the day starts at: the day's own, or the trip's
+ */
+export function getDayLodging(trip: Trip, day: TripDay): TripLodging | undefined {
+	return day.lodging ?? trip.lodging;
+}
+
+/**
+ * Unix ms of the start of a day
+ */
+export function getDayStartTime(day: TripDay): number {
+	const [hours, minutes] = (day.startTime || DEFAULT_DAY_START_TIME).split(':').map(Number);
+	const date = parseDateString(day.date);
+	date.setHours(hours || 0, minutes || 0, 0, 0);
+	return date.getTime();
+}
+
+/**
+ * Format a YYYY-MM-DD date for display, e.g. "Mon, Jun 2"
+ */
+export function formatTripDate(date: string, options?: { long?: boolean }): string {
+	return parseDateString(date).toLocaleDateString([], {
+		weekday: 'short',
+		month: 'short',
+		day: 'numeric',
+		year: options?.long ? 'numeric' : undefined
+	});
+}
+
+/**
+ * Feature with a point geometry, as routes start and end at points
+ * Trips store their features this way too: Firestore can't store the nested coordinate arrays
+ * of lines and areas
+ */
+export function toPointFeature(feature: StoredFeature): StoredFeature | null {
+	if (feature.geometry?.type === 'Point') return feature;
+
+	const lngLat = getFeatureLngLat(feature.geometry);
+	if (!lngLat) return null;
+
+	return { ...feature, geometry: { type: 'Point', coordinates: [lngLat.lng, lngLat.lat] } };
+}
+
+/**
+ * Story made of a day's lodging and stops, for StoryRouter
+ */
+export function createDayStory(trip: Trip, day: TripDay): Story {
+	const content: StoryContentNode[] = [];
+	const lodging = getDayLodging(trip, day);
+	const lodgingFeature = lodging?.feature ? toPointFeature(lodging.feature) : null;
+
+	// The lodging is the first stop unless it's already one of the day's stops
+	if (
+		lodging &&
+		lodgingFeature &&
+		!day.stops.some((stop) => stop.featureId === lodgingFeature.id)
+	) {
+		content.push({
+			type: 'feature',
+			featureId: LODGING_STOP_ID,
+			displayText: lodging.name,
+			feature: lodgingFeature
+		});
+	}
+
+	for (const stop of day.stops) {
+		const feature = toPointFeature(stop.feature);
+		if (!feature) continue;
+
+		content.push({
+			type: 'feature',
+			featureId: stop.featureId,
+			displayText: getTripStopName(stop),
+			feature,
+			customText: stop.customText
+		});
+	}
+
+	return {
+		id: `${trip.id}_${day.id}`,
+		userId: trip.userId,
+		title: `${trip.title} – ${formatTripDate(day.date)}`,
+		content,
+		categories: [],
+		dateCreated: trip.dateCreated,
+		dateModified: trip.dateModified,
+		isPublic: false,
+		currentVersion: 1,
+		searchText: ''
+	};
+}
+
+/**
+ * Route constraints of a day: start at the lodging, at the day's start time
+ */
+export function getDayRouteOptions(trip: Trip, day: TripDay): StoryRouteOptions {
+	const lodging = getDayLodging(trip, day);
+	const lodgingIsStop = day.stops.some((stop) => stop.featureId === lodging?.feature?.id);
+
+	const featureDwellMinutes: Record<string, number> = { [LODGING_STOP_ID]: 0 };
+	for (const stop of day.stops) {
+		if (stop.dwellMinutes !== undefined) {
+			featureDwellMinutes[stop.featureId] = stop.dwellMinutes;
+		}
+	}
+
+	return {
+		startFeatureId: lodging?.feature
+			? lodgingIsStop
+				? lodging.feature.id
+				: LODGING_STOP_ID
+			: undefined,
+		departureTime: getDayStartTime(day),
+		dwellMinutes: trip.dwellMinutes,
+		featureDwellMinutes
+	};
+}
+
+/**
+ * Optimized route and timeline of a trip day
+ * Returns null when the day has fewer than two places to connect
+ */
+export async function generateTripDayRoute(
+	trip: Trip,
+	day: TripDay,
+	profile: RoutingProfileId = 'walking'
+): Promise<StoryRouteResult | null> {
+	const story = createDayStory(trip, day);
+	const router = new StoryRouter();
+	const result = await router.generateStoryRoutes(story, profile, getDayRouteOptions(trip, day));
+
+	if (!result.success) return null;
+
+	console.log(
+		`🧳 Planned ${formatTripDate(day.date)} of "${trip.title}": ${(result.totalDistance / 1000).toFixed(2)} km`
+	);
+	return result;
+}
+
+/**
+ * Map overlay of a day: route segments, numbered stops in visiting order and the lodging
+ */
+export function createTripDayGeoJSON(
+	trip: Trip,
+	day: TripDay,
+	result: StoryRouteResult | null
+): GeoJSON.FeatureCollection {
+	const story = createDayStory(trip, day);
+	const features: GeoJSON.Feature[] = [];
+
+	// Route segments only; the combined line would be drawn twice
+	for (const feature of result?.geoJson.features ?? []) {
+		if (feature.properties?.connectionType === 'walking_route_combined') continue;
+		features.push({ ...feature, properties: { ...feature.properties, tripDayType: 'route' } });
+	}
+
+	const order = result?.routeInfo.timeline?.map((entry) => entry.featureId) ?? [];
+	let stopNumber = 0;
+
+	for (const node of story.content) {
+		if (node.type !== 'feature') continue;
+
+		const isLodging = node.featureId === LODGING_STOP_ID;
+		const position = order.indexOf(node.featureId);
+		if (!isLodging) stopNumber++;
+
+		features.push({
+			type: 'Feature',
+			properties: {
+				tripDayType: isLodging ? 'lodging' : 'stop',
+				featureId: node.featureId,
+				name: node.customText || node.displayText,
+				// Visiting order once routed, otherwise the order the stops were added in
+				label: isLodging
+					? ''
+					: String(position === -1 ? stopNumber : position + (order[0] === LODGING_STOP_ID ? 0 : 1))
+			},
+			geometry: (node.feature as StoredFeature).geometry
+		});
+	}
+
+	return { type: 'FeatureCollection', features };
+}
+
+/**
+ * Whether a feature ID is the day's lodging rather than one of its stops
+ */
+export function isLodgingStop(featureId: string): boolean {
+	return featureId === LODGING_STOP_ID;
+}
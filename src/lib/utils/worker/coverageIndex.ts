@@ -0,0 +1,299 @@
+// Coverage Index - quadkey trie of which databases actually contain tiles where
+// Built per database from its metadata bounds and the tiles table, so tile requests and
+// search can skip databases that can't have the tile instead of querying each of them.
+//
+// Coverage is recorded at the highest zoom (up to MAX_COVERAGE_ZOOM) with at most
+// MAX_COVERAGE_TILES tiles. A database whose coverage ends at a node contains tiles
+// anywhere below it; one that only passes through a node has tiles somewhere below it.
+
+import type { OpfsDatabase } from '@sqlite.org/sqlite-wasm';
+
+const MAX_COVERAGE_ZOOM = 10;
+const MAX_COVERAGE_TILES = 4096;
+
+// Bounds-only coverage (when the tiles table can't be read) uses at most this many tiles
+const MAX_BOUNDS_TILES = 64;
+
+interface CoverageNode {
+	children: (CoverageNode | undefined)[];
+	full: Set<string>; // Databases covering this whole subtree
+	partial: Set<string>; // Databases with coverage somewhere in this subtree
+}
+
+interface IndexedDatabase {
+	filename: string;
+	bounds?: [number, number, number, number];
+	minzoom: number;
+	maxzoom: number;
+	coverageZoom: number;
+	coverageTiles: number;
+	fromTiles: boolean; // false when built from metadata bounds only
+}
+
+export class CoverageIndex {
+	private root: CoverageNode = createNode();
+	private databases = new Map<string, IndexedDatabase>();
+	private stats = {
+		lookups: 0,
+		emptyLookups: 0,
+		databasesConsidered: 0,
+		databasesSelected: 0,
+		databasesChecked: 0,
+		databasesWithTile: 0
+	};
+
+	/**
+	 * Index a database's coverage from its tiles table, falling back to metadata bounds
+	 */
+	addDatabase(
+		filename: string,
+		db: OpfsDatabase,
+		metadata: { bounds?: [number, number, number, number]; minzoom?: number; maxzoom?: number } = {}
+	): void {
+		this.removeDatabase(filename);
+
+		const minzoom = metadata.minzoom ?? 0;
+		const maxzoom = metadata.maxzoom ?? 22;
+		let coverage: { zoom: number; tiles: [number, number][] } | null = null;
+
+		try {
+			coverage = readTileCoverage(db, minzoom, maxzoom);
+		} catch (error) {
+			console.warn(`Failed to read tile coverage for ${filename}:`, error);
+		}
+
+		const fromTiles = coverage !== null;
+		if (!coverage && metadata.bounds) {
+			coverage = boundsCoverage(metadata.bounds);
+		}
+		if (!coverage) {
+			// Nothing to go on - cover the whole world so the database is never skipped
+			coverage = { zoom: 0, tiles: [[0, 0]] };
+		}
+
+		for (const [x, y] of coverage.tiles) {
+			this.insert(filename, coverage.zoom, x, y);
+		}
+
+		this.databases.set(filename, {
+			filename,
+			bounds: metadata.bounds,
+			minzoom,
+			maxzoom,
+			coverageZoom: coverage.zoom,
+			coverageTiles: coverage.tiles.length,
+			fromTiles
+		});
+	}
+
+	removeDatabase(filename: string): void {
+		if (!this.databases.has(filename)) return;
+		this.databases.delete(filename);
+		this.prune(this.root, filename);
+	}
+
+	has(filename: string): boolean {
+		return this.databases.has(filename);
+	}
+
+	getBounds(filename: string): [number, number, number, number] | undefined {
+		return this.databases.get(filename)?.bounds;
+	}
+
+	/**
+	 * Databases that may contain the XYZ tile, restricted to `among` when given
+	 */
+	query(z: number, x: number, y: number, among?: Iterable<string>): Set<string> {
+		const found = new Set<string>();
+		let node: CoverageNode | undefined = this.root;
+
+		for (let depth = 0; node; depth++) {
+			for (const filename of node.full) found.add(filename);
+			if (depth === z) {
+				for (const filename of node.partial) found.add(filename);
+				break;
+			}
+			const shift = z - depth - 1;
+			node = node.children[quadrant((x >> shift) & 1, (y >> shift) & 1)];
+		}
+
+		for (const filename of found) {
+			const entry = this.databases.get(filename)!;
+			if (z < entry.minzoom || z > entry.maxzoom) found.delete(filename);
+		}
+
+		if (!among) return found;
+		const allowed = new Set(among);
+		for (const filename of found) {
+			if (!allowed.has(filename)) found.delete(filename);
+		}
+		return found;
+	}
+
+	/**
+	 * Filter candidate databases down to those that may contain the tile, counting
+	 * how many were skipped. Candidates that aren't indexed are always kept.
+	 */
+	select<T extends { filename: string }>(z: number, x: number, y: number, candidates: T[]): T[] {
+		const covering = this.query(z, x, y);
+		const selected = candidates.filter(
+			({ filename }) => covering.has(filename) || !this.databases.has(filename)
+		);
+
+		this.stats.lookups++;
+		this.stats.databasesConsidered += candidates.length;
+		this.stats.databasesSelected += selected.length;
+		if (selected.length === 0) this.stats.emptyLookups++;
+
+		return selected;
+	}
+
+	/**
+	 * Report how many selected databases were queried and how many actually had the tile
+	 */
+	recordHits(checked: number, withTile: number): void {
+		this.stats.databasesChecked += checked;
+		this.stats.databasesWithTile += withTile;
+	}
+
+	getStats(): any {
+		const { databasesConsidered, databasesSelected, databasesChecked, databasesWithTile } =
+			this.stats;
+		return {
+			...this.stats,
+			indexedDatabases: this.databases.size,
+			nodes: countNodes(this.root),
+			// Share of candidate databases the index ruled out without a query
+			pruneRate: databasesConsidered > 0 ? (1 - databasesSelected / databasesConsidered) * 100 : 0,
+			// Share of queried databases that really had the tile
+			hitRate: databasesChecked > 0 ? (databasesWithTile / databasesChecked) * 100 : 0,
+			databases: [...this.databases.values()]
+		};
+	}
+
+	clear(): void {
+		this.root = createNode();
+		this.databases.clear();
+	}
+
+	private insert(filename: string, z: number, x: number, y: number): void {
+		let node = this.root;
+		for (let depth = 0; depth < z; depth++) {
+			node.partial.add(filename);
+			const shift = z - depth - 1;
+			const index = quadrant((x >> shift) & 1, (y >> shift) & 1);
+			node = node.children[index] ??= createNode();
+		}
+		node.partial.add(filename);
+		node.full.add(filename);
+	}
+
+	// Remove a database from a subtree, returning true if the subtree is now empty
+	private prune(node: CoverageNode, filename: string): boolean {
+		if (!node.partial.has(filename)) {
+			return node.partial.size === 0;
+		}
+
+		node.partial.delete(filename);
+		node.full.delete(filename);
+		node.children.forEach((child, index) => {
+			if (child && this.prune(child, filename)) node.children[index] = undefined;
+		});
+
+		return node.partial.size === 0;
+	}
+}
+
+function createNode(): CoverageNode {
+	return {
+		children: [undefined, undefined, undefined, undefined],
+		full: new Set(),
+		partial: new Set()
+	};
+}
+
+function quadrant(xBit: number, yBit: number): number {
+	return (yBit << 1) | xBit;
+}
+
+function countNodes(node: CoverageNode): number {
+	return 1 + node.children.reduce((sum, child) => sum + (child ? countNodes(child) : 0), 0);
+}
+
+/**
+ * Read the XYZ tiles of the highest zoom level that stays within MAX_COVERAGE_TILES.
+ * Returns null if the database has no tiles in its zoom range.
+ */
+function readTileCoverage(
+	db: OpfsDatabase,
+	minzoom: number,
+	maxzoom: number
+): { zoom: number; tiles: [number, number][] } | null {
+	let coverage: { zoom: number; tiles: [number, number][] } | null = null;
+
+	for (let zoom = minzoom; zoom <= Math.min(maxzoom, MAX_COVERAGE_ZOOM); zoom++) {
+		const rows = db.selectArrays(
+			'SELECT tile_column, tile_row FROM tiles WHERE zoom_level=? LIMIT ?',
+			[zoom, MAX_COVERAGE_TILES + 1]
+		) as [number, number][];
+
+		if (rows.length > MAX_COVERAGE_TILES) break;
+		if (rows.length === 0) continue;
+
+		// MBTiles rows are TMS - flip to XYZ
+		const n = 1 << zoom;
+		coverage = { zoom, tiles: rows.map(([x, tmsY]) => [x, n - 1 - tmsY]) };
+	}
+
+	// Databases starting above MAX_COVERAGE_ZOOM (or too dense at their minzoom) are
+	// indexed by their parent tiles at the deepest zoom that still fits
+	if (!coverage && minzoom > 0) {
+		for (let zoom = Math.min(minzoom - 1, MAX_COVERAGE_ZOOM); zoom >= 0; zoom--) {
+			const shift = minzoom - zoom;
+			const rows = db.selectArrays(
+				`SELECT DISTINCT tile_column >> ${shift}, tile_row >> ${shift} FROM tiles WHERE zoom_level=? LIMIT ?`,
+				[minzoom, MAX_COVERAGE_TILES + 1]
+			) as [number, number][];
+
+			if (rows.length === 0) return null;
+			if (rows.length > MAX_COVERAGE_TILES) continue;
+
+			const n = 1 << zoom;
+			return { zoom, tiles: rows.map(([x, tmsY]) => [x, n - 1 - tmsY]) };
+		}
+	}
+
+	return coverage;
+}
+
+// Tiles covering metadata bounds at the deepest zoom within MAX_BOUNDS_TILES
+function boundsCoverage([west, south, east, north]: [number, number, number, number]): {
+	zoom: number;
+	tiles: [number, number][];
+} {
+	for (let zoom = MAX_COVERAGE_ZOOM; zoom >= 0; zoom--) {
+		const min = lngLatToTile(west, north, zoom);
+		const max = lngLatToTile(east, south, zoom);
+		const count = (max.x - min.x + 1) * (max.y - min.y + 1);
+		if (count > MAX_BOUNDS_TILES && zoom > 0) continue;
+
+		const tiles: [number, number][] = [];
+		for (let x = min.x; x <= max.x; x++) {
+			for (let y = min.y; y <= max.y; y++) {
+				tiles.push([x, y]);
+			}
+		}
+		return { zoom, tiles };
+	}
+
+	return { zoom: 0, tiles: [[0, 0]] };
+}
+
+function lngLatToTile(lng: number, lat: number, zoom: number): { x: number; y: number } {
+	const n = 1 << zoom;
+	const clampedLat = Math.max(-85.0511, Math.min(85.0511, lat));
+	const latRad = (clampedLat * Math.PI) / 180;
+	const x = Math.floor(((lng + 180) / 360) * n);
+	const y = Math.floor(((1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2) * n);
+	return { x: Math.min(n - 1, Math.max(0, x)), y: Math.min(n - 1, Math.max(0, y)) };
+}
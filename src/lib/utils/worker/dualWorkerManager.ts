@@ -152,7 +152,8 @@ export class DualWorkerManager {
 	private async sendSearchMessage(
 		type: string,
 		data?: any,
-		onProgress?: (data: any) => void
+		onProgress?: (data: any) => void,
+		transfer?: Transferable[]
 	): Promise<any> {
 		if (!this.searchWorker) {
 			throw new Error('Search worker not initialized');
@@ -167,7 +168,7 @@ export class DualWorkerManager {
 
 		return new Promise((resolve, reject) => {
 			this.pendingSearchMessages.set(id, { resolve, reject, onProgress });
-			this.searchWorker!.postMessage(message);
+			this.searchWorker!.postMessage(message, transfer ?? []);
 		});
 	}
 
@@ -189,6 +190,15 @@ export class DualWorkerManager {
 		return this.sendTileMessage('tile-request', { source, z, x, y });
 	}
 
+	// Binary route graph of a transportation tile (zoom 14), built and cached in the tile worker
+	async requestRouteGraphTile(
+		profile: RoutingProfileId,
+		x: number,
+		y: number
+	): Promise<ArrayBuffer | null> {
+		return this.sendTileMessage('route-graph-tile', { profile, x, y });
+	}
+
 	// Update viewport for intelligent prefetching
 	async updateViewport(
 		z: number,
@@ -210,6 +220,11 @@ export class DualWorkerManager {
 		return this.sendTileMessage('clear-cache');
 	}
 
+	// Clear the persistent (on-disk) tile cache
+	async clearPersistentTileCache(): Promise<string> {
+		return this.sendTileMessage('clear-persistent-cache');
+	}
+
 	// Advanced cache inspection methods
 	async getCacheContents(): Promise<any[]> {
 		return this.sendTileMessage('cache-contents');
@@ -227,6 +242,20 @@ export class DualWorkerManager {
 		return this.sendTileMessage('cache-popular-tiles', { limit });
 	}
 
+	// Build status of the full-text POI search indexes
+	async getSearchIndexStatus(): Promise<any[]> {
+		return this.sendSearchMessage('search-index-status');
+	}
+
+	// Coverage index stats from both workers (tile routing and search prioritization)
+	async getCoverageIndexStats(): Promise<{ tile: any; search: any }> {
+		const [tile, search] = await Promise.all([
+			this.sendTileMessage('coverage-index-stats'),
+			this.sendSearchMessage('coverage-index-stats')
+		]);
+		return { tile, search };
+	}
+
 	// Search operations (separate worker, no interference)
 	async searchFeatures(
 		query: string,
@@ -238,11 +267,12 @@ export class DualWorkerManager {
 			isComplete: boolean;
 			currentDatabase?: string;
 			total: number;
-		}) => void
+		}) => void,
+		filters?: SearchQueryFilter[]
 	): Promise<any[]> {
 		return this.sendSearchMessage(
 			'search-features',
-			{ query, limit, language, userLocation },
+			{ query, limit, language, userLocation, filters },
 			onProgress
 		);
 	}
@@ -312,7 +342,7 @@ export class DualWorkerManager {
 		filename: string,
 		fileData: ArrayBuffer,
 		directory?: string,
-		r2Metadata?: { lastModified: string; size: number }
+		r2Metadata?: R2FileMetadata
 	): Promise<string> {
 		const message = r2Metadata
 			? { filename, fileData, directory, r2Metadata }
@@ -326,6 +356,91 @@ export class DualWorkerManager {
 		return result.files;
 	}
 
+	// Resumable download operations (chunks are written to an OPFS temp file)
+	async getDownloadStatus(filename: string): Promise<PendingDownloadInfo | null> {
+		return this.sendSearchMessage('opfs-download-status', { filename });
+	}
+
+	async listPendingDownloads(): Promise<PendingDownloadInfo[]> {
+		return this.sendSearchMessage('opfs-download-list');
+	}
+
+	async beginDownload(
+		filename: string,
+		r2Metadata: R2FileMetadata & { key: string }
+	): Promise<PendingDownloadInfo> {
+		return this.sendSearchMessage('opfs-download-begin', { filename, r2Metadata });
+	}
+
+	async writeDownloadChunk(filename: string, chunk: ArrayBuffer, offset: number): Promise<number> {
+		// Transfer the chunk buffer instead of copying it
+		const result = await this.sendSearchMessage(
+			'opfs-download-chunk',
+			{ filename, chunk, offset },
+			undefined,
+			[chunk]
+		);
+		return result.bytesDownloaded;
+	}
+
+	/**
+	 * Move a finished download into place, closing the previous version in the tile worker
+	 * first and opening the new one there afterwards
+	 */
+	async finalizeDownload(filename: string): Promise<string> {
+		await this.sendTileMessage('close-databases', { filenames: [filename] });
+		try {
+			const result = await this.sendSearchMessage('opfs-download-finalize', { filename });
+			return result.savedPath;
+		} finally {
+			await this.sendTileMessage('open-databases', { filenames: [filename] });
+		}
+	}
+
+	async discardDownload(filename: string): Promise<string> {
+		return this.sendSearchMessage('opfs-download-discard', { filename });
+	}
+
+	// Differential update operations
+	async getDatabaseVersion(filename: string): Promise<number> {
+		const result = await this.sendSearchMessage('get-database-version', { filename });
+		return result.version;
+	}
+
+	async applyTileDelta(
+		filename: string,
+		delta: MBTilesDelta,
+		tileData: ArrayBuffer,
+		r2Metadata?: R2FileMetadata
+	): Promise<{ version: number; tilesWritten: number; tilesDeleted: number }> {
+		// The tile worker reads the file and indexes its coverage, so it lets go while the search
+		// worker patches it, and opens the patched version afterwards
+		await this.sendTileMessage('close-databases', { filenames: [filename] });
+		try {
+			return await this.sendSearchMessage(
+				'apply-tile-delta',
+				{ filename, delta, tileData, r2Metadata },
+				undefined,
+				[tileData]
+			);
+		} finally {
+			await this.sendTileMessage('open-databases', { filenames: [filename] });
+		}
+	}
+
+	// Storage management
+	async getOPFSUsage(): Promise<OPFSUsageReport> {
+		return this.sendSearchMessage('opfs-storage-usage');
+	}
+
+	/**
+	 * Delete databases from OPFS, closing them in both workers first
+	 */
+	async removeOPFSFiles(filenames: string[]): Promise<void> {
+		await this.sendTileMessage('close-databases', { filenames });
+		await this.sendSearchMessage('opfs-remove-files', { filenames });
+	}
+
 	postMessage(type: string, data?: any): void {
 		// Route to search worker for general messages
 		if (!this.searchWorker) {
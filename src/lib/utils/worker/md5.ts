@@ -0,0 +1,125 @@
+// Incremental MD5 hasher used to verify downloaded files against R2 ETags.
+// SubtleCrypto has no MD5, and R2 ETags for single-part uploads are the MD5 of the object,
+// so large files are hashed chunk by chunk without holding them in memory.
+
+const SHIFTS = [7, 12, 17, 22, 5, 9, 14, 20, 4, 11, 16, 23, 6, 10, 15, 21];
+
+const K = new Int32Array([
+	0xd76aa478, 0xe8c7b756, 0x242070db, 0xc1bdceee, 0xf57c0faf, 0x4787c62a, 0xa8304613, 0xfd469501,
+	0x698098d8, 0x8b44f7af, 0xffff5bb1, 0x895cd7be, 0x6b901122, 0xfd987193, 0xa679438e, 0x49b40821,
+	0xf61e2562, 0xc040b340, 0x265e5a51, 0xe9b6c7aa, 0xd62f105d, 0x02441453, 0xd8a1e681, 0xe7d3fbc8,
+	0x21e1cde6, 0xc33707d6, 0xf4d50d87, 0x455a14ed, 0xa9e3e905, 0xfcefa3f8, 0x676f02d9, 0x8d2a4c8a,
+	0xfffa3942, 0x8771f681, 0x6d9d6122, 0xfde5380c, 0xa4beea44, 0x4bdecfa9, 0xf6bb4b60, 0xbebfbc70,
+	0x289b7ec6, 0xeaa127fa, 0xd4ef3085, 0x04881d05, 0xd9d4d039, 0xe6db99e5, 0x1fa27cf8, 0xc4ac5665,
+	0xf4292244, 0x432aff97, 0xab9423a7, 0xfc93a039, 0x655b59c3, 0x8f0ccc92, 0xffeff47d, 0x85845dd1,
+	0x6fa87e4f, 0xfe2ce6e0, 0xa3014314, 0x4e0811a1, 0xf7537e82, 0xbd3af235, 0x2ad7d2bb, 0xeb86d391
+]);
+
+export class IncrementalMD5 {
+	private state = new Int32Array([0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476]);
+	private block = new Uint8Array(64);
+	private blockView = new DataView(this.block.buffer);
+	private blockLength = 0;
+	private totalLength = 0;
+	private words = new Int32Array(16);
+
+	update(data: Uint8Array): void {
+		let offset = 0;
+		this.totalLength += data.length;
+
+		// Fill a partially filled block first
+		if (this.blockLength > 0) {
+			const needed = 64 - this.blockLength;
+			const take = Math.min(needed, data.length);
+			this.block.set(data.subarray(0, take), this.blockLength);
+			this.blockLength += take;
+			offset = take;
+
+			if (this.blockLength < 64) return;
+			this.processBlock(this.blockView, 0);
+			this.blockLength = 0;
+		}
+
+		// Process whole blocks straight from the input
+		const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+		while (offset + 64 <= data.length) {
+			this.processBlock(view, offset);
+			offset += 64;
+		}
+
+		// Keep the remainder for the next update
+		if (offset < data.length) {
+			this.block.set(data.subarray(offset), 0);
+			this.blockLength = data.length - offset;
+		}
+	}
+
+	digest(): string {
+		const bitLength = this.totalLength * 8;
+
+		// Padding: 0x80, zeros, then the 64-bit little-endian message length
+		this.block[this.blockLength++] = 0x80;
+		if (this.blockLength > 56) {
+			this.block.fill(0, this.blockLength);
+			this.processBlock(this.blockView, 0);
+			this.blockLength = 0;
+		}
+		this.block.fill(0, this.blockLength);
+		this.blockView.setUint32(56, bitLength >>> 0, true);
+		this.blockView.setUint32(60, Math.floor(bitLength / 0x100000000), true);
+		this.processBlock(this.blockView, 0);
+
+		let hex = '';
+		for (let i = 0; i < 4; i++) {
+			const word = this.state[i];
+			for (let b = 0; b < 4; b++) {
+				hex += ((word >>> (b * 8)) & 0xff).toString(16).padStart(2, '0');
+			}
+		}
+		return hex;
+	}
+
+	private processBlock(view: DataView, offset: number): void {
+		const words = this.words;
+		for (let i = 0; i < 16; i++) {
+			words[i] = view.getInt32(offset + i * 4, true);
+		}
+
+		let a = this.state[0];
+		let b = this.state[1];
+		let c = this.state[2];
+		let d = this.state[3];
+
+		for (let i = 0; i < 64; i++) {
+			let f: number;
+			let g: number;
+			const round = i >> 4;
+
+			if (round === 0) {
+				f = (b & c) | (~b & d);
+				g = i;
+			} else if (round === 1) {
+				f = (d & b) | (~d & c);
+				g = (5 * i + 1) & 15;
+			} else if (round === 2) {
+				f = b ^ c ^ d;
+				g = (3 * i + 5) & 15;
+			} else {
+				f = c ^ (b | ~d);
+				g = (7 * i) & 15;
+			}
+
+			const shift = SHIFTS[(round << 2) | (i & 3)];
+			const sum = (a + f + K[i] + words[g]) | 0;
+			a = d;
+			d = c;
+			c = b;
+			b = (b + ((sum << shift) | (sum >>> (32 - shift)))) | 0;
+		}
+
+		this.state[0] = (this.state[0] + a) | 0;
+		this.state[1] = (this.state[1] + b) | 0;
+		this.state[2] = (this.state[2] + c) | 0;
+		this.state[3] = (this.state[3] + d) | 0;
+	}
+}
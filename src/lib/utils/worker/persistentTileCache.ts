@@ -0,0 +1,407 @@
+// Persistent Tile Cache - Level 2 between the memory cache and the OPFS MBTiles
+// Stores already-merged tiles gzip-compressed in an OPFS SQLite database, so a cold
+// start doesn't have to re-read and re-merge the same tiles from several MBTiles.
+//
+// Each entry records the databases that were candidates for its source and the version of
+// every database that contributed to it. An entry is only served while both still match,
+// and entries built from databases that changed or disappeared are purged when opened.
+
+import type { OpfsDatabase, Sqlite3Static } from '@sqlite.org/sqlite-wasm';
+
+interface PersistentTileCacheConfig {
+	filename: string; // OPFS database file - must not end in .mbtiles
+	maxSize: number; // Compressed bytes on disk - default 512MB
+	flushDelay: number; // Batch writes into one transaction - default 2s
+}
+
+interface PendingWrite {
+	source: string;
+	z: number;
+	x: number;
+	y: number;
+	candidates: string;
+	versions: string;
+	data: Uint8Array;
+}
+
+interface TileCoord {
+	source: string;
+	z: number;
+	x: number;
+	y: number;
+}
+
+// Evict down to this fraction of maxSize so we don't evict on every write
+const EVICTION_TARGET_RATIO = 0.9;
+
+export class PersistentTileCache {
+	private db: OpfsDatabase | null = null;
+	private config: PersistentTileCacheConfig;
+	private currentSize = 0;
+	private tileCount = 0;
+	private pendingWrites = new Map<string, PendingWrite>();
+	private pendingTouches = new Map<string, TileCoord>();
+	private flushTimer: ReturnType<typeof setTimeout> | null = null;
+	private stats = {
+		hits: 0,
+		misses: 0,
+		staleHits: 0,
+		writes: 0,
+		invalidations: 0,
+		evictions: 0
+	};
+
+	constructor(config: Partial<PersistentTileCacheConfig> = {}) {
+		this.config = {
+			filename: config.filename ?? 'tile-cache.sqlite3',
+			maxSize: config.maxSize ?? 512 * 1024 * 1024, // 512MB default
+			flushDelay: config.flushDelay ?? 2000
+		};
+	}
+
+	/**
+	 * Open (or create) the cache database and purge entries built from databases
+	 * whose version changed or that no longer exist
+	 */
+	open(sqlite3: Sqlite3Static, databaseVersions: Map<string, string>): void {
+		if (this.db) return;
+
+		try {
+			this.db = new sqlite3.oo1.OpfsDb(this.config.filename, 'c');
+			this.db.exec(`
+				CREATE TABLE IF NOT EXISTS tiles (
+					source TEXT NOT NULL,
+					z INTEGER NOT NULL,
+					x INTEGER NOT NULL,
+					y INTEGER NOT NULL,
+					candidates TEXT NOT NULL,
+					versions TEXT NOT NULL,
+					data BLOB NOT NULL,
+					size INTEGER NOT NULL,
+					last_accessed INTEGER NOT NULL,
+					PRIMARY KEY (source, z, x, y)
+				);
+				CREATE INDEX IF NOT EXISTS tiles_last_accessed ON tiles (last_accessed);
+				CREATE TABLE IF NOT EXISTS databases (
+					filename TEXT PRIMARY KEY,
+					version TEXT NOT NULL
+				);
+			`);
+		} catch (error) {
+			console.warn('Persistent tile cache unavailable:', error);
+			this.db = null;
+			return;
+		}
+
+		// Purge entries for databases that changed since the last session
+		const known = this.db.exec({
+			sql: 'SELECT filename, version FROM databases',
+			rowMode: 'array',
+			returnValue: 'resultRows'
+		}) as [string, string][];
+
+		const changed = known
+			.filter(([filename, version]) => databaseVersions.get(filename) !== version)
+			.map(([filename]) => filename);
+		this.invalidateDatabases(changed);
+
+		this.db.transaction(() => {
+			this.db!.exec('DELETE FROM databases');
+			for (const [filename, version] of databaseVersions) {
+				this.db!.exec({
+					sql: 'INSERT INTO databases (filename, version) VALUES (?, ?)',
+					bind: [filename, version]
+				});
+			}
+		});
+
+		this.refreshSize();
+		console.log(
+			`✅ Persistent tile cache opened: ${this.tileCount} tiles, ${this.formatBytes(this.currentSize)}`
+		);
+	}
+
+	/**
+	 * Get a merged tile, or null if missing or built from databases that have since changed.
+	 * `candidates` are the databases currently matching the tile's source.
+	 */
+	async get(
+		source: string,
+		z: number,
+		x: number,
+		y: number,
+		candidates: string[],
+		versionOf: (filename: string) => string | undefined
+	): Promise<ArrayBuffer | null> {
+		if (!this.db) return null;
+
+		const row = this.db.exec({
+			sql: 'SELECT candidates, versions, data FROM tiles WHERE source=? AND z=? AND x=? AND y=?',
+			bind: [source, z, x, y],
+			rowMode: 'array',
+			returnValue: 'resultRows'
+		})[0] as [string, string, Uint8Array] | undefined;
+
+		if (!row) {
+			this.stats.misses++;
+			return null;
+		}
+
+		const [storedCandidates, storedVersions, data] = row;
+		const isCurrent =
+			storedCandidates === this.encodeCandidates(candidates) &&
+			this.decodeVersions(storedVersions).every(
+				([filename, version]) => versionOf(filename) === version
+			);
+
+		if (!isCurrent) {
+			this.stats.staleHits++;
+			this.db.exec({
+				sql: 'DELETE FROM tiles WHERE source=? AND z=? AND x=? AND y=?',
+				bind: [source, z, x, y]
+			});
+			this.tileCount--;
+			this.currentSize -= data.byteLength;
+			return null;
+		}
+
+		this.stats.hits++;
+		this.pendingTouches.set(this.getTileKey(source, z, x, y), { source, z, x, y });
+		this.scheduleFlush();
+
+		return gunzip(data);
+	}
+
+	/**
+	 * Queue a merged tile for storage along with the databases it was built from
+	 */
+	async put(
+		source: string,
+		z: number,
+		x: number,
+		y: number,
+		data: ArrayBuffer,
+		candidates: string[],
+		contributors: [filename: string, version: string][]
+	): Promise<void> {
+		if (!this.db) return;
+
+		const compressed = await gzip(data);
+
+		this.pendingWrites.set(this.getTileKey(source, z, x, y), {
+			source,
+			z,
+			x,
+			y,
+			candidates: this.encodeCandidates(candidates),
+			versions: this.encodeVersions(contributors),
+			data: compressed
+		});
+		this.scheduleFlush();
+	}
+
+	/**
+	 * Drop every entry that the given databases contributed to or were candidates for
+	 */
+	invalidateDatabases(filenames: string[]): void {
+		if (!this.db || filenames.length === 0) return;
+
+		for (const filename of filenames) {
+			this.db.exec({
+				sql: 'DELETE FROM tiles WHERE instr(versions, ?) > 0 OR instr(candidates, ?) > 0',
+				bind: [`|${filename}@`, `|${filename}|`]
+			});
+			this.stats.invalidations += this.db.changes();
+			this.db.exec({ sql: 'DELETE FROM databases WHERE filename=?', bind: [filename] });
+		}
+
+		for (const [key, write] of this.pendingWrites) {
+			if (filenames.some((filename) => write.candidates.includes(`|${filename}|`))) {
+				this.pendingWrites.delete(key);
+			}
+		}
+
+		this.refreshSize();
+	}
+
+	/**
+	 * Write queued tiles and access times in a single transaction, then evict if over size
+	 */
+	flush(): void {
+		if (this.flushTimer) {
+			clearTimeout(this.flushTimer);
+			this.flushTimer = null;
+		}
+		if (!this.db || (this.pendingWrites.size === 0 && this.pendingTouches.size === 0)) return;
+
+		const writes = [...this.pendingWrites.values()];
+		const touches = [...this.pendingTouches.values()];
+		this.pendingWrites.clear();
+		this.pendingTouches.clear();
+
+		const now = Date.now();
+
+		try {
+			this.db.transaction(() => {
+				for (const write of writes) {
+					this.db!.exec({
+						sql: `INSERT OR REPLACE INTO tiles
+							(source, z, x, y, candidates, versions, data, size, last_accessed)
+							VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+						bind: [
+							write.source,
+							write.z,
+							write.x,
+							write.y,
+							write.candidates,
+							write.versions,
+							write.data,
+							write.data.byteLength,
+							now
+						]
+					});
+				}
+				for (const { source, z, x, y } of touches) {
+					this.db!.exec({
+						sql: 'UPDATE tiles SET last_accessed=? WHERE source=? AND z=? AND x=? AND y=?',
+						bind: [now, source, z, x, y]
+					});
+				}
+			});
+			this.stats.writes += writes.length;
+		} catch (error) {
+			console.warn('Failed to write persistent tile cache:', error);
+			return;
+		}
+
+		this.refreshSize();
+		this.evictIfNeeded();
+	}
+
+	/**
+	 * Least recently used eviction down to EVICTION_TARGET_RATIO of maxSize
+	 */
+	private evictIfNeeded(): void {
+		if (!this.db || this.currentSize <= this.config.maxSize) return;
+
+		const spaceNeeded = this.currentSize - this.config.maxSize * EVICTION_TARGET_RATIO;
+		const rows = this.db.exec({
+			sql: 'SELECT rowid, size FROM tiles ORDER BY last_accessed',
+			rowMode: 'array',
+			returnValue: 'resultRows'
+		}) as [number, number][];
+
+		const evicted: number[] = [];
+		let freedSpace = 0;
+		for (const [rowid, size] of rows) {
+			if (freedSpace >= spaceNeeded) break;
+			evicted.push(rowid);
+			freedSpace += size;
+		}
+
+		this.db.transaction(() => {
+			for (const rowid of evicted) {
+				this.db!.exec({ sql: 'DELETE FROM tiles WHERE rowid=?', bind: [rowid] });
+			}
+		});
+
+		this.stats.evictions += evicted.length;
+		this.refreshSize();
+		console.log(
+			`🗑️ Evicted ${evicted.length} persistent tiles, freed ${this.formatBytes(freedSpace)}`
+		);
+	}
+
+	private scheduleFlush(): void {
+		if (this.flushTimer) return;
+		this.flushTimer = setTimeout(() => this.flush(), this.config.flushDelay);
+	}
+
+	private refreshSize(): void {
+		if (!this.db) return;
+		const [count, size] = this.db.exec({
+			sql: 'SELECT COUNT(*), COALESCE(SUM(size), 0) FROM tiles',
+			rowMode: 'array',
+			returnValue: 'resultRows'
+		})[0] as [number, number];
+		this.tileCount = count;
+		this.currentSize = size;
+	}
+
+	// Lists are stored with leading and trailing separators so a filename can be
+	// matched exactly with instr()
+	private encodeCandidates(candidates: string[]): string {
+		return `|${[...candidates].sort().join('|')}|`;
+	}
+
+	private encodeVersions(contributors: [string, string][]): string {
+		return `|${contributors
+			.map(([filename, version]) => `${filename}@${version}`)
+			.sort()
+			.join('|')}|`;
+	}
+
+	private decodeVersions(versions: string): [string, string][] {
+		return versions
+			.split('|')
+			.filter(Boolean)
+			.map((entry) => {
+				const at = entry.lastIndexOf('@');
+				return [entry.slice(0, at), entry.slice(at + 1)];
+			});
+	}
+
+	private getTileKey(source: string, z: number, x: number, y: number): string {
+		return `${source}-${z}-${x}-${y}`;
+	}
+
+	private formatBytes(bytes: number): string {
+		if (bytes < 1024) return `${bytes} B`;
+		if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+		return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+	}
+
+	/**
+	 * Get cache statistics
+	 */
+	getStats(): any {
+		const lookups = this.stats.hits + this.stats.misses + this.stats.staleHits;
+		return {
+			...this.stats,
+			enabled: this.db !== null,
+			tileCount: this.tileCount,
+			size: this.currentSize,
+			sizeFormatted: this.formatBytes(this.currentSize),
+			maxSize: this.config.maxSize,
+			maxSizeFormatted: this.formatBytes(this.config.maxSize),
+			utilization: (this.currentSize / this.config.maxSize) * 100,
+			hitRatio: lookups > 0 ? (this.stats.hits / lookups) * 100 : 0,
+			pendingWrites: this.pendingWrites.size
+		};
+	}
+
+	/**
+	 * Remove every cached tile
+	 */
+	clear(): void {
+		this.pendingWrites.clear();
+		this.pendingTouches.clear();
+		if (!this.db) return;
+
+		this.db.exec('DELETE FROM tiles');
+		this.refreshSize();
+		console.log('🧹 Persistent tile cache cleared');
+	}
+}
+
+async function gzip(data: ArrayBuffer): Promise<Uint8Array> {
+	const stream = new Response(data).body!.pipeThrough(new CompressionStream('gzip'));
+	return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function gunzip(data: Uint8Array): Promise<ArrayBuffer> {
+	const buffer = new Uint8Array(data.byteLength);
+	buffer.set(data);
+	const stream = new Response(buffer).body!.pipeThrough(new DecompressionStream('gzip'));
+	return new Response(stream).arrayBuffer();
+}
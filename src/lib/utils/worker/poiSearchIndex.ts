@@ -0,0 +1,656 @@
+// POI Search Index - SQLite FTS5 sidecar database per POI .mbtiles file
+// Built in the background by decoding every search-zoom tile once, so searches become a
+// single ranked FTS query instead of decoding tiles and walking features per query.
+//
+// Name matches tolerate typos by expanding each query word to indexed terms within a few
+// edits (read from an fts5vocab table), and names in other scripts are also indexed in a
+// transliterated `latin` column so Latin input finds them.
+//
+// The sidecar records the version (size and modification time) of the .mbtiles it was built
+// from and is rebuilt whenever that changes. Until an index is complete, callers fall back
+// to scanning tiles.
+
+import type { OpfsDatabase, Sqlite3Static } from '@sqlite.org/sqlite-wasm';
+import { VectorTile } from '@mapbox/vector-tile';
+import Protobuf from 'pbf';
+import {
+	boundedEditDistance,
+	hasNonLatinScript,
+	matchNames,
+	maxEditsFor,
+	normalizeForSearch,
+	PROPERTY_MATCH_SCORE,
+	rankByQualityAndDistance,
+	transliterate
+} from '$lib/utils/search-matching.js';
+import { matchesPlaceFilters } from '$lib/utils/search-query.js';
+
+export const SEARCH_INDEX_SUFFIX = '.fts';
+
+// Bump when the schema or extracted fields change to force a rebuild
+const SCHEMA_VERSION = '3';
+
+// Tiles decoded per write transaction before yielding to searches
+const BUILD_BATCH_SIZE = 50;
+
+// A result this far away (km) scores half as well as the same match at the search location
+const DISTANCE_HALF_SCORE_KM = 5;
+const KM_PER_DEGREE = 111.32;
+
+// bm25 column weights: names, transliterated names, tags
+const NAMES_WEIGHT = 10.0;
+const LATIN_WEIGHT = 9.0;
+const TAGS_WEIGHT = 1.0;
+
+// Candidates fetched per requested result, re-scored by match quality before trimming
+const CANDIDATE_FACTOR = 3;
+
+// Indexed terms a query word can expand to for typo tolerance, and how many are examined
+const MAX_FUZZY_TERMS = 8;
+const MAX_FUZZY_SCAN = 5000;
+
+// String properties longer than this aren't indexed as tags (descriptions, URLs, ...)
+const MAX_TAG_VALUE_LENGTH = 64;
+
+const SCHEMA = `
+	CREATE TABLE IF NOT EXISTS meta (
+		key TEXT PRIMARY KEY,
+		value TEXT NOT NULL
+	);
+	CREATE TABLE IF NOT EXISTS features (
+		rowid INTEGER PRIMARY KEY,
+		fid TEXT NOT NULL,
+		layer TEXT NOT NULL,
+		class TEXT NOT NULL,
+		subclass TEXT,
+		category TEXT,
+		opening_hours TEXT,
+		names TEXT NOT NULL,
+		lng REAL NOT NULL,
+		lat REAL NOT NULL,
+		tile_x INTEGER NOT NULL,
+		tile_y INTEGER NOT NULL,
+		UNIQUE (layer, fid)
+	);
+	CREATE VIRTUAL TABLE IF NOT EXISTS features_fts USING fts5(
+		names,
+		latin,
+		tags,
+		tokenize = 'unicode61 remove_diacritics 2',
+		prefix = '2 3'
+	);
+	CREATE VIRTUAL TABLE IF NOT EXISTS features_vocab USING fts5vocab(features_fts, 'row');
+`;
+
+interface PoiRecord {
+	fid: string;
+	layer: string;
+	featureClass: string;
+	subclass?: string;
+	category?: string;
+	openingHours?: string;
+	names: Record<string, string>;
+	latin: string;
+	tags: string;
+	lng: number;
+	lat: number;
+	tileX: number;
+	tileY: number;
+}
+
+interface IndexState {
+	status: 'queued' | 'building' | 'ready' | 'failed';
+	version: string;
+	progress: number; // 0..1 while building
+	featureCount: number;
+	db: OpfsDatabase | null;
+	error?: string;
+}
+
+export class PoiSearchIndex {
+	private sqlite3: Sqlite3Static | null = null;
+	private opfsRoot: FileSystemDirectoryHandle | null = null;
+	private indexes = new Map<string, IndexState>();
+	private sources = new Map<string, OpfsDatabase>();
+	private queue: string[] = [];
+	private isBuilding = false;
+	private cancelled = new Set<string>();
+
+	constructor(
+		private zoomLevel: number,
+		private layers: string[]
+	) {}
+
+	/**
+	 * Open existing indexes for the given POI databases and queue a (re)build for any
+	 * that are missing, incomplete or built from a different version of the file
+	 */
+	async sync(
+		sqlite3: Sqlite3Static,
+		opfsRoot: FileSystemDirectoryHandle,
+		databases: Map<string, OpfsDatabase>
+	): Promise<void> {
+		this.sqlite3 = sqlite3;
+		this.opfsRoot = opfsRoot;
+
+		for (const filename of [...this.indexes.keys()]) {
+			if (!databases.has(filename)) this.close(filename);
+		}
+
+		for (const [filename, source] of databases) {
+			this.sources.set(filename, source);
+			this.cancelled.delete(filename);
+
+			const version = await this.getSourceVersion(filename);
+			const existing = this.indexes.get(filename);
+			if (existing && existing.version === version && existing.status !== 'failed') continue;
+
+			this.closeIndex(filename);
+			const db = this.openExisting(filename, version);
+			if (db) {
+				this.indexes.set(filename, {
+					status: 'ready',
+					version,
+					progress: 1,
+					featureCount: Number(db.selectValue('SELECT COUNT(*) FROM features')),
+					db
+				});
+				continue;
+			}
+
+			this.indexes.set(filename, {
+				status: 'queued',
+				version,
+				progress: 0,
+				featureCount: 0,
+				db: null
+			});
+			if (!this.queue.includes(filename)) this.queue.push(filename);
+		}
+
+		this.runQueue();
+	}
+
+	isReady(filename: string): boolean {
+		return this.indexes.get(filename)?.status === 'ready';
+	}
+
+	/**
+	 * Ranked search of one database's index: name matches (exact, typo-tolerant or
+	 * transliterated) and features matching the semantic tags by property, ordered by
+	 * match quality and distance from `userLocation`. Only features passing the place
+	 * filters of a structured query are returned.
+	 */
+	search(
+		filename: string,
+		normalizedQuery: string,
+		semanticMatches: Array<{ osmKey: string; osmValue: string }>,
+		limit: number,
+		userLocation?: { lng: number; lat: number },
+		filters: SearchQueryFilter[] = []
+	): SearchResult[] {
+		const index = this.indexes.get(filename);
+		if (!index?.db || index.status !== 'ready' || limit <= 0) return [];
+
+		const results: SearchResult[] = [];
+		const seen = new Set<string>();
+		const candidateLimit = limit * CANDIDATE_FACTOR;
+
+		const nameQuery = buildNameQuery(normalizedQuery, (word) => this.fuzzyTerms(index.db!, word));
+		if (nameQuery) {
+			for (const result of this.query(
+				index.db,
+				filename,
+				nameQuery,
+				candidateLimit,
+				userLocation,
+				filters
+			)) {
+				const match = matchNames(Object.values(result.names), normalizedQuery);
+				if (!match) continue;
+				seen.add(`${result.layer}|${result.id}`);
+				results.push({ ...result, matchType: match.type, score: match.score });
+			}
+		}
+
+		const tagQuery = buildTagQuery(semanticMatches);
+		if (tagQuery) {
+			for (const result of this.query(
+				index.db,
+				filename,
+				tagQuery,
+				filters.length > 0 ? candidateLimit : limit,
+				userLocation,
+				filters
+			)) {
+				if (seen.has(`${result.layer}|${result.id}`)) continue;
+				results.push({ ...result, matchType: 'property', score: PROPERTY_MATCH_SCORE });
+			}
+		}
+
+		return rankByQualityAndDistance(results, userLocation).slice(0, limit);
+	}
+
+	/**
+	 * Close a database's index and stop any build in progress
+	 */
+	close(filename: string): void {
+		this.cancelled.add(filename);
+		this.queue = this.queue.filter((queued) => queued !== filename);
+		this.closeIndex(filename);
+		this.indexes.delete(filename);
+		this.sources.delete(filename);
+	}
+
+	getStatus(): Array<Omit<IndexState, 'db'> & { filename: string }> {
+		return [...this.indexes.entries()].map(([filename, { db: _db, ...state }]) => ({
+			filename,
+			...state
+		}));
+	}
+
+	private query(
+		db: OpfsDatabase,
+		filename: string,
+		match: string,
+		limit: number,
+		userLocation?: { lng: number; lat: number },
+		filters: SearchQueryFilter[] = []
+	): SearchResult[] {
+		// Equirectangular distance is plenty for ranking
+		const distanceWeight = userLocation ? KM_PER_DEGREE / DISTANCE_HALF_SCORE_KM : 0;
+		const lng = userLocation?.lng ?? 0;
+		const lat = userLocation?.lat ?? 0;
+		const lngScale = Math.cos((lat * Math.PI) / 180);
+
+		// bm25 is negative (lower is better), so dividing by the distance factor ranks far results lower
+		const rows = db.exec({
+			sql: `SELECT f.fid, f.layer, f.class, f.subclass, f.category, f.names, f.lng, f.lat,
+					f.tile_x, f.tile_y, f.opening_hours
+				FROM features_fts
+				JOIN features f ON f.rowid = features_fts.rowid
+				WHERE features_fts MATCH ?
+				ORDER BY bm25(features_fts, ${NAMES_WEIGHT}, ${LATIN_WEIGHT}, ${TAGS_WEIGHT}) /
+					(1.0 + ? * sqrt((f.lat - ?) * (f.lat - ?) + ((f.lng - ?) * ?) * ((f.lng - ?) * ?)))
+				LIMIT ?`,
+			bind: [match, distanceWeight, lat, lat, lng, lngScale, lng, lngScale, limit],
+			rowMode: 'array',
+			returnValue: 'resultRows'
+		}) as any[][];
+
+		const results: SearchResult[] = [];
+		for (const [
+			fid,
+			layer,
+			featureClass,
+			subclass,
+			category,
+			names,
+			lng,
+			lat,
+			tileX,
+			tileY,
+			openingHours
+		] of rows) {
+			const result: SearchResult = {
+				id: fid,
+				names: JSON.parse(names),
+				class: featureClass,
+				subclass: subclass ?? undefined,
+				category: category ?? undefined,
+				lng,
+				lat,
+				database: filename,
+				layer,
+				zoom: this.zoomLevel,
+				tileX,
+				tileY,
+				openingHours: openingHours ?? undefined
+			};
+			if (filters.length > 0 && !matchesPlaceFilters(result, filters, userLocation)) {
+				continue;
+			}
+			results.push(result);
+		}
+		return results;
+	}
+
+	// Indexed terms within the allowed edits of a query word (or of its typed prefix)
+	private fuzzyTerms(db: OpfsDatabase, word: string): string[] {
+		const maxEdits = maxEditsFor(word.length);
+		if (maxEdits === 0) return [];
+
+		// Typos rarely hit the first letter, so only terms sharing it are examined
+		const first = String.fromCodePoint(word.codePointAt(0)!);
+		const terms = db.selectArrays(
+			`SELECT term FROM features_vocab WHERE term >= ? AND term < ?
+				AND length(term) >= ? ORDER BY doc DESC LIMIT ?`,
+			[first, first + '\uffff', word.length - maxEdits, MAX_FUZZY_SCAN]
+		) as [string][];
+
+		const matches: Array<{ term: string; edits: number }> = [];
+		for (const [term] of terms) {
+			if (term.startsWith(word)) continue; // Already matched by the prefix query
+			const edits = Math.min(
+				boundedEditDistance(word, term, maxEdits),
+				boundedEditDistance(word, term.slice(0, word.length), maxEdits)
+			);
+			if (edits <= maxEdits) matches.push({ term, edits });
+		}
+
+		return matches
+			.sort((a, b) => a.edits - b.edits)
+			.slice(0, MAX_FUZZY_TERMS)
+			.map(({ term }) => term);
+	}
+
+	private async runQueue(): Promise<void> {
+		if (this.isBuilding) return;
+		this.isBuilding = true;
+
+		try {
+			while (this.queue.length > 0) {
+				const filename = this.queue.shift()!;
+				const source = this.sources.get(filename);
+				const state = this.indexes.get(filename);
+				if (!source || !state) continue;
+
+				try {
+					await this.build(filename, source, state);
+				} catch (error) {
+					// Closing a database mid-build makes the next write fail - not an error
+					if (this.cancelled.has(filename)) continue;
+
+					console.error(`❌ Failed to build search index for ${filename}:`, error);
+					this.closeIndex(filename);
+					state.status = 'failed';
+					state.error = error instanceof Error ? error.message : 'Unknown error';
+				}
+			}
+		} finally {
+			this.isBuilding = false;
+		}
+	}
+
+	private async build(filename: string, source: OpfsDatabase, state: IndexState): Promise<void> {
+		if (!this.sqlite3 || !this.opfsRoot) return;
+
+		const indexFilename = filename + SEARCH_INDEX_SUFFIX;
+		await this.removeIndexFile(indexFilename);
+
+		const startTime = performance.now();
+		const db = new this.sqlite3.oo1.OpfsDb(indexFilename, 'c');
+		state.db = db;
+		state.status = 'building';
+		state.progress = 0;
+		state.featureCount = 0;
+
+		db.exec(SCHEMA);
+
+		const coords = source.selectArrays(
+			'SELECT tile_column, tile_row FROM tiles WHERE zoom_level = ?',
+			[this.zoomLevel]
+		) as [number, number][];
+
+		console.log(`🔎 Building search index for ${filename} (${coords.length} tiles)...`);
+
+		for (let i = 0; i < coords.length; i += BUILD_BATCH_SIZE) {
+			if (this.cancelled.has(filename)) {
+				console.log(`🛑 Search index build for ${filename} cancelled`);
+				try {
+					db.close();
+				} catch {
+					// Already closed by close()
+				}
+				await this.removeIndexFile(indexFilename);
+				return;
+			}
+
+			const records: PoiRecord[] = [];
+			for (const [x, tmsY] of coords.slice(i, i + BUILD_BATCH_SIZE)) {
+				const tileData = source.selectValue(
+					'SELECT tile_data FROM tiles WHERE zoom_level = ? AND tile_column = ? AND tile_row = ?',
+					[this.zoomLevel, x, tmsY]
+				) as Uint8Array | undefined;
+				if (!tileData) continue;
+
+				try {
+					records.push(...(await this.extractRecords(tileData, x, tmsY)));
+				} catch {
+					// Skip problematic tiles
+				}
+			}
+
+			db.transaction(() => {
+				for (const record of records) {
+					db.exec({
+						sql: `INSERT OR IGNORE INTO features
+							(fid, layer, class, subclass, category, opening_hours, names, lng, lat,
+								tile_x, tile_y)
+							VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+						bind: [
+							record.fid,
+							record.layer,
+							record.featureClass,
+							record.subclass ?? null,
+							record.category ?? null,
+							record.openingHours ?? null,
+							JSON.stringify(record.names),
+							record.lng,
+							record.lat,
+							record.tileX,
+							record.tileY
+						]
+					});
+					if (db.changes() === 0) continue;
+
+					db.exec({
+						sql: `INSERT INTO features_fts (rowid, names, latin, tags)
+							VALUES (last_insert_rowid(), ?, ?, ?)`,
+						bind: [
+							// Folded the same way as queries (ß -> ss, ø -> o, ...)
+							normalizeForSearch(Object.values(record.names).join('\n')),
+							record.latin,
+							record.tags
+						]
+					});
+					state.featureCount++;
+				}
+			});
+
+			state.progress = Math.min(1, (i + BUILD_BATCH_SIZE) / coords.length);
+			await new Promise((resolve) => setTimeout(resolve, 0));
+		}
+
+		db.exec("INSERT INTO features_fts (features_fts) VALUES ('optimize')");
+		db.transaction(() => {
+			for (const [key, value] of [
+				['schema_version', SCHEMA_VERSION],
+				['source_version', state.version],
+				['zoom_level', String(this.zoomLevel)],
+				['complete', '1']
+			]) {
+				db.exec({
+					sql: 'INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)',
+					bind: [key, value]
+				});
+			}
+		});
+
+		state.status = 'ready';
+		state.progress = 1;
+		console.log(
+			`✅ Search index for ${filename}: ${state.featureCount} features in ${((performance.now() - startTime) / 1000).toFixed(1)}s`
+		);
+	}
+
+	private async extractRecords(
+		tileData: Uint8Array,
+		x: number,
+		tmsY: number
+	): Promise<PoiRecord[]> {
+		const buffer = isGzipped(tileData) ? await gunzip(tileData) : tileData;
+		const tile = new VectorTile(new Protobuf(buffer));
+		const n = 1 << this.zoomLevel;
+		const y = n - 1 - tmsY;
+		const records: PoiRecord[] = [];
+
+		for (const layer of this.layers) {
+			const vectorLayer = tile.layers[layer];
+			if (!vectorLayer) continue;
+
+			for (let i = 0; i < vectorLayer.length; i++) {
+				const feature = vectorLayer.feature(i);
+				const props = feature.properties as Record<string, any>;
+
+				const names: Record<string, string> = {};
+				const tags: string[] = [];
+				for (const [key, value] of Object.entries(props)) {
+					if (key === 'name' || key.startsWith('name:')) {
+						if (value && typeof value === 'string') names[key] = value;
+					} else if (
+						(typeof value === 'string' && value.length <= MAX_TAG_VALUE_LENGTH) ||
+						typeof value === 'number' ||
+						typeof value === 'boolean'
+					) {
+						// Stored as "key value" lines so a semantic tag matches as a phrase
+						tags.push(`${key} ${value}`);
+					}
+				}
+
+				const [lng, lat] = featureCoordinates(feature.toGeoJSON(x, y, this.zoomLevel).geometry);
+
+				records.push({
+					fid: String(props['id'] || `${layer}:${x}:${y}:${i}`),
+					layer,
+					featureClass: layer.startsWith('poi_') ? layer.replace('poi_', '') : 'poi',
+					subclass: props['subclass'],
+					category: props['category'],
+					openingHours:
+						typeof props['opening_hours'] === 'string' ? props['opening_hours'] : undefined,
+					names,
+					latin: Object.values(names).filter(hasNonLatinScript).map(transliterate).join('\n'),
+					tags: tags.join('\n'),
+					lng,
+					lat,
+					tileX: x,
+					tileY: y
+				});
+			}
+		}
+
+		return records;
+	}
+
+	// Open a complete index built from this version of the source, or null if it must be rebuilt
+	private openExisting(filename: string, version: string): OpfsDatabase | null {
+		if (!this.sqlite3) return null;
+
+		let db: OpfsDatabase | null = null;
+		try {
+			db = new this.sqlite3.oo1.OpfsDb(filename + SEARCH_INDEX_SUFFIX, 'w');
+			const meta = new Map(db.selectArrays('SELECT key, value FROM meta') as [string, string][]);
+
+			if (
+				meta.get('complete') === '1' &&
+				meta.get('schema_version') === SCHEMA_VERSION &&
+				meta.get('source_version') === version &&
+				meta.get('zoom_level') === String(this.zoomLevel)
+			) {
+				return db;
+			}
+
+			console.log(`🔄 Search index for ${filename} is out of date, rebuilding`);
+		} catch {
+			// Missing or unreadable - rebuild
+		}
+
+		db?.close();
+		return null;
+	}
+
+	private closeIndex(filename: string): void {
+		const state = this.indexes.get(filename);
+		if (!state?.db) return;
+
+		try {
+			state.db.close();
+		} catch (error) {
+			console.warn(`Failed to close search index for ${filename}:`, error);
+		}
+		state.db = null;
+	}
+
+	private async removeIndexFile(indexFilename: string): Promise<void> {
+		try {
+			await this.opfsRoot?.removeEntry(indexFilename);
+		} catch {
+			// Didn't exist
+		}
+	}
+
+	private async getSourceVersion(filename: string): Promise<string> {
+		const file = await (await this.opfsRoot!.getFileHandle(filename)).getFile();
+		return `${file.size}-${file.lastModified}`;
+	}
+}
+
+/**
+ * FTS5 query matching every word of the query as a prefix of some name or transliterated
+ * name, or as one of its close indexed terms
+ */
+function buildNameQuery(
+	normalizedQuery: string,
+	fuzzyTerms: (word: string) => string[]
+): string | null {
+	const words = normalizedQuery.match(/[\p{L}\p{N}]+/gu);
+	if (!words) return null;
+	const clauses = words.map((word) =>
+		[`${quote(word)}*`, ...fuzzyTerms(word).map(quote)].join(' OR ')
+	);
+	return `{names latin} : (${clauses.map((clause) => `(${clause})`).join(' AND ')})`;
+}
+
+/**
+ * FTS5 query matching any of the semantic tags as a "key value" phrase
+ */
+function buildTagQuery(
+	semanticMatches: Array<{ osmKey: string; osmValue: string }>
+): string | null {
+	if (semanticMatches.length === 0) return null;
+	return `tags : (${semanticMatches
+		.map(({ osmKey, osmValue }) => quote(`${osmKey} ${osmValue}`))
+		.join(' OR ')})`;
+}
+
+function quote(text: string): string {
+	return `"${text.replace(/"/g, '""')}"`;
+}
+
+function featureCoordinates(geometry: GeoJSON.Geometry): [number, number] {
+	switch (geometry.type) {
+		case 'Point':
+			return geometry.coordinates as [number, number];
+		case 'LineString':
+		case 'MultiPoint':
+			return geometry.coordinates[0] as [number, number];
+		case 'Polygon':
+		case 'MultiLineString':
+			return geometry.coordinates[0][0] as [number, number];
+		case 'MultiPolygon':
+			return geometry.coordinates[0][0][0] as [number, number];
+		default:
+			return [0, 0];
+	}
+}
+
+function isGzipped(data: Uint8Array): boolean {
+	return data.length >= 2 && data[0] === 0x1f && data[1] === 0x8b;
+}
+
+async function gunzip(data: Uint8Array): Promise<Uint8Array> {
+	const buffer = new Uint8Array(data.byteLength);
+	buffer.set(data);
+	const stream = new Response(buffer).body!.pipeThrough(new DecompressionStream('gzip'));
+	return new Uint8Array(await new Response(stream).arrayBuffer());
+}
@@ -4,14 +4,46 @@ import type { OpfsDatabase, Sqlite3Static } from '@sqlite.org/sqlite-wasm';
 import { VectorTile } from '@mapbox/vector-tile';
 import Protobuf from 'pbf';
 import * as YAML from 'yaml';
+import { IncrementalMD5 } from './md5.js';
+import { CoverageIndex } from './coverageIndex.js';
+import { PoiSearchIndex, SEARCH_INDEX_SUFFIX } from './poiSearchIndex.js';
+import {
+	matchNames,
+	normalizeForSearch,
+	PROPERTY_MATCH_SCORE,
+	rankByQualityAndDistance,
+	type NameMatch
+} from '$lib/utils/search-matching.js';
+import { getSearchRadius, matchesPlaceFilters } from '$lib/utils/search-query.js';
 
 // Global state for search worker
 let sqlite3: Sqlite3Static | null = null;
 let opfsRoot: FileSystemDirectoryHandle | null = null;
 const openDatabases = new Map<string, OpfsDatabase>();
 const dbIndex = new Map<string, DatabaseEntry[]>(); // Add the indexing system
+const coverageIndex = new CoverageIndex(); // Which databases have tiles where
 let currentSearchController: AbortController | null = null;
 
+// POI source layers to search (defined here as workers can't import from constants)
+const POI_SOURCE_LAYERS = [
+	'poi_attraction',
+	'poi_education',
+	'poi_entertainment',
+	'poi_facility',
+	'poi_food_and_drink',
+	'poi_healthcare',
+	'poi_leisure',
+	'poi_lodging',
+	'poi_natural',
+	'poi_place',
+	'poi_shop',
+	'poi_transportation'
+];
+const SEARCH_ZOOM_LEVEL = 14;
+
+// Full-text index per POI database, built in the background
+const poiSearchIndex = new PoiSearchIndex(SEARCH_ZOOM_LEVEL, POI_SOURCE_LAYERS);
+
 // Tag-based search system
 interface TagDefinition {
 	key: string;
@@ -58,6 +90,7 @@ self.addEventListener('message', async (event: MessageEvent) => {
 				const searchResults = await searchFeatures(data.query, data.limit || 1000, {
 					language: data.language || 'name',
 					userLocation: data.userLocation,
+					filters: data.filters,
 					onProgress: (results, isComplete, currentDatabase) => {
 						postMessage({
 							type: 'search-progress',
@@ -176,6 +209,202 @@ self.addEventListener('message', async (event: MessageEvent) => {
 				}
 				break;
 
+			case 'opfs-storage-usage':
+				try {
+					const usage = await getOPFSUsage();
+					postMessage({
+						type: 'opfs-storage-usage-response',
+						data: usage,
+						id
+					});
+				} catch (error) {
+					postMessage({
+						type: 'error',
+						data: error instanceof Error ? error.message : 'OPFS usage failed',
+						id,
+						error: true
+					});
+				}
+				break;
+
+			case 'opfs-remove-files':
+				try {
+					for (const filename of data.filenames as string[]) {
+						closeDatabase(filename);
+						await removeDatabaseFiles(filename);
+					}
+					postMessage({
+						type: 'opfs-files-removed',
+						data: { removed: data.filenames.length },
+						id
+					});
+				} catch (error) {
+					postMessage({
+						type: 'error',
+						data: error instanceof Error ? error.message : 'OPFS remove failed',
+						id,
+						error: true
+					});
+				}
+				break;
+
+			case 'opfs-download-status':
+				// Get resumable download state for a file (null if none in progress)
+				try {
+					const pending = await getPendingDownload(data.filename);
+					postMessage({
+						type: 'opfs-download-status-response',
+						data: pending,
+						id
+					});
+				} catch (error) {
+					postMessage({
+						type: 'error',
+						data: error instanceof Error ? error.message : 'Download status failed',
+						id,
+						error: true
+					});
+				}
+				break;
+
+			case 'opfs-download-list':
+				// List all partially downloaded files
+				try {
+					const pendingDownloads = await listPendingDownloads();
+					postMessage({
+						type: 'opfs-download-list-response',
+						data: pendingDownloads,
+						id
+					});
+				} catch (error) {
+					postMessage({
+						type: 'error',
+						data: error instanceof Error ? error.message : 'Download list failed',
+						id,
+						error: true
+					});
+				}
+				break;
+
+			case 'opfs-download-begin':
+				// Start (or restart) a resumable download into a temp file
+				try {
+					const started = await beginDownload(data.filename, data.r2Metadata);
+					postMessage({
+						type: 'opfs-download-begun',
+						data: started,
+						id
+					});
+				} catch (error) {
+					postMessage({
+						type: 'error',
+						data: error instanceof Error ? error.message : 'Download begin failed',
+						id,
+						error: true
+					});
+				}
+				break;
+
+			case 'opfs-download-chunk':
+				// Append a downloaded chunk to the temp file at the given offset
+				try {
+					const bytesDownloaded = await writeDownloadChunk(data.filename, data.chunk, data.offset);
+					postMessage({
+						type: 'opfs-download-chunk-written',
+						data: { bytesDownloaded },
+						id
+					});
+				} catch (error) {
+					postMessage({
+						type: 'error',
+						data: error instanceof Error ? error.message : 'Download chunk write failed',
+						id,
+						error: true
+					});
+				}
+				break;
+
+			case 'opfs-download-finalize':
+				// Verify the temp file against R2 size/ETag and move it into place
+				try {
+					const savedPath = await finalizeDownload(data.filename);
+					postMessage({
+						type: 'opfs-download-finalized',
+						data: { savedPath },
+						id
+					});
+				} catch (error) {
+					postMessage({
+						type: 'error',
+						data: error instanceof Error ? error.message : 'Download finalize failed',
+						id,
+						error: true
+					});
+				}
+				break;
+
+			case 'opfs-download-discard':
+				// Throw away a partial download
+				try {
+					await discardDownload(data.filename);
+					postMessage({
+						type: 'opfs-download-discarded',
+						data: `Partial download of ${data.filename} discarded`,
+						id
+					});
+				} catch (error) {
+					postMessage({
+						type: 'error',
+						data: error instanceof Error ? error.message : 'Download discard failed',
+						id,
+						error: true
+					});
+				}
+				break;
+
+			case 'get-database-version':
+				// Read the metadata 'version' of a local database (used for delta updates)
+				try {
+					const version = await getDatabaseVersion(data.filename);
+					postMessage({
+						type: 'database-version',
+						data: { version },
+						id
+					});
+				} catch (error) {
+					postMessage({
+						type: 'error',
+						data: error instanceof Error ? error.message : 'Get database version failed',
+						id,
+						error: true
+					});
+				}
+				break;
+
+			case 'apply-tile-delta':
+				// Patch changed tiles into an existing database instead of re-downloading it
+				try {
+					const deltaResult = await applyTileDelta(
+						data.filename,
+						data.delta,
+						data.tileData,
+						data.r2Metadata
+					);
+					postMessage({
+						type: 'tile-delta-applied',
+						data: deltaResult,
+						id
+					});
+				} catch (error) {
+					postMessage({
+						type: 'error',
+						data: error instanceof Error ? error.message : 'Apply tile delta failed',
+						id,
+						error: true
+					});
+				}
+				break;
+
 			case 'query-database':
 				// Execute query on specific database
 				try {
@@ -214,6 +443,22 @@ self.addEventListener('message', async (event: MessageEvent) => {
 				}
 				break;
 
+			case 'coverage-index-stats':
+				postMessage({
+					type: 'coverage-index-stats-response',
+					data: coverageIndex.getStats(),
+					id
+				});
+				break;
+
+			case 'search-index-status':
+				postMessage({
+					type: 'search-index-status-response',
+					data: poiSearchIndex.getStatus(),
+					id
+				});
+				break;
+
 			case 'get-databases':
 				// Get list of available databases
 				try {
@@ -330,6 +575,8 @@ async function scanDatabases(): Promise<void> {
 			}
 		}
 	}
+
+	schedulePoiIndexing();
 }
 
 // Optimized yielding for better performance
@@ -366,10 +613,16 @@ async function searchFeatures(
 	options: {
 		language?: string;
 		userLocation?: { lng: number; lat: number };
+		// category:, open: and within: filters of a structured query (within: is measured
+		// from userLocation)
+		filters?: SearchQueryFilter[];
 		onProgress?: (results: SearchResult[], isComplete: boolean, currentDatabase?: string) => void;
 	} = {}
 ): Promise<SearchResult[]> {
-	if (!query || query.trim().length < 2) {
+	const filters = options.filters ?? [];
+
+	// Filters alone (e.g. "category:cafe within:500m") are a valid search
+	if ((!query || query.trim().length < 2) && filters.length === 0) {
 		return [];
 	}
 
@@ -377,7 +630,7 @@ async function searchFeatures(
 	const searchController = new AbortController();
 	currentSearchController = searchController;
 
-	const normalizedQuery = normalizeForName(query.trim());
+	const normalizedQuery = normalizeForSearch((query ?? '').trim());
 	const results: SearchResult[] = [];
 	const seenIds = new Set<string>();
 
@@ -401,36 +654,12 @@ async function searchFeatures(
 	}
 
 	try {
-		// POI source layers to search (defined here as workers can't import from constants)
-		const POI_SOURCE_LAYERS = [
-			'poi_attraction',
-			'poi_education',
-			'poi_entertainment',
-			'poi_facility',
-			'poi_food_and_drink',
-			'poi_healthcare',
-			'poi_leisure',
-			'poi_lodging',
-			'poi_natural',
-			'poi_place',
-			'poi_shop',
-			'poi_transportation'
-		];
-
 		const MAX_RESULTS = limit;
-		const ZOOM_LEVEL = 14;
+		const ZOOM_LEVEL = SEARCH_ZOOM_LEVEL;
 
 		// Filter relevant databases
 		const dbEntries = Array.from(openDatabases.entries());
-		const relevantDbs = dbEntries.filter(([filename]) => {
-			const filenameLower = filename.toLowerCase();
-			return (
-				filenameLower.includes('poi') ||
-				filenameLower.includes('place') ||
-				filenameLower.includes('osm') ||
-				filenameLower.includes('planet')
-			);
-		});
+		const relevantDbs = dbEntries.filter(([filename]) => isPoiDatabase(filename));
 
 		console.log(`📚 Found ${relevantDbs.length} relevant databases to search`);
 
@@ -461,6 +690,28 @@ async function searchFeatures(
 				break;
 			}
 
+			// Indexed databases answer with a single ranked query (filter-only searches scan
+			// tiles near the location instead)
+			if (normalizedQuery && poiSearchIndex.isReady(filename)) {
+				const indexedResults = poiSearchIndex.search(
+					filename,
+					normalizedQuery,
+					semanticMatches,
+					MAX_RESULTS - results.length,
+					options.userLocation,
+					filters
+				);
+				for (const result of indexedResults) {
+					const dedupKey = `${filename}|${result.layer}|${result.id}`;
+					if (seenIds.has(dedupKey)) continue;
+					seenIds.add(dedupKey);
+					results.push(result);
+				}
+				console.log(`⚡ Indexed search of ${filename}: ${indexedResults.length} results`);
+				options.onProgress?.([...results], false, filename);
+				continue;
+			}
+
 			try {
 				const priorityInfo =
 					distance === 0
@@ -485,7 +736,8 @@ async function searchFeatures(
 					preferredLanguage,
 					options.userLocation,
 					options.onProgress,
-					searchController.signal
+					searchController.signal,
+					filters
 				);
 
 				const newResultsCount = results.filter((r) => r.database === filename).length;
@@ -503,7 +755,7 @@ async function searchFeatures(
 	} catch (error) {
 		if (error instanceof Error && error.message === 'Search cancelled') {
 			console.log(`🚫 Search was cancelled`);
-			return results.slice(0, limit);
+			return rankByQualityAndDistance(results, options.userLocation).slice(0, limit);
 		}
 		throw error;
 	} finally {
@@ -513,7 +765,28 @@ async function searchFeatures(
 	}
 
 	console.log(`🎉 Search completed: found ${results.length} total results`);
-	return results.slice(0, limit);
+	return rankByQualityAndDistance(results, options.userLocation).slice(0, limit);
+}
+
+// Databases searched for POIs, and indexed for full-text search
+function isPoiDatabase(filename: string): boolean {
+	const filenameLower = filename.toLowerCase();
+	return (
+		filenameLower.includes('poi') ||
+		filenameLower.includes('place') ||
+		filenameLower.includes('osm') ||
+		filenameLower.includes('planet')
+	);
+}
+
+// Open or (re)build the full-text index of every open POI database in the background
+function schedulePoiIndexing(): void {
+	if (!sqlite3 || !opfsRoot) return;
+
+	const poiDatabases = new Map([...openDatabases].filter(([filename]) => isPoiDatabase(filename)));
+	poiSearchIndex.sync(sqlite3, opfsRoot, poiDatabases).catch((error) => {
+		console.warn('Failed to sync POI search indexes:', error);
+	});
 }
 
 // 🏷️ Detect semantic tags in the query
@@ -550,30 +823,38 @@ function detectSemanticTags(query: string): Array<{ osmKey: string; osmValue: st
 	return matches;
 }
 
-// Helper functions (copied from your existing implementation)
-function normalizeForName(s: string): string {
-	return s
-		.toLowerCase()
-		.normalize('NFD')
-		.replace(/[\u0300-\u036f]/g, '');
-}
-
 function prioritizeDatabasesByLocation(
 	databases: Array<[string, any]>,
 	userLocation: { lng: number; lat: number }
 ): Array<[string, any, number]> {
 	const prioritized: Array<[string, any, number, number]> = [];
-	const ZOOM_LEVEL = 14; // Same zoom level used for search
+	const ZOOM_LEVEL = SEARCH_ZOOM_LEVEL; // Same zoom level used for search
+
+	// Databases whose coverage includes the viewport center tile - the rest are skipped
+	// without querying their tiles table
+	const centerTile = lngLatToTile(userLocation.lng, userLocation.lat, ZOOM_LEVEL);
+	const covering = new Set(
+		coverageIndex
+			.select(
+				ZOOM_LEVEL,
+				centerTile.x,
+				centerTile.y,
+				databases.map(([filename]) => ({ filename }))
+			)
+			.map(({ filename }) => filename)
+	);
 
 	for (const [filename, db] of databases) {
 		try {
-			const metadataRows = db.selectArrays('SELECT name, value FROM metadata');
-			let bounds: [number, number, number, number] | undefined;
+			let bounds = coverageIndex.getBounds(filename);
 
-			for (const [name, value] of metadataRows) {
-				if (name === 'bounds' && typeof value === 'string') {
-					bounds = value.split(',').map(Number) as [number, number, number, number];
-					break;
+			if (!bounds && !coverageIndex.has(filename)) {
+				const metadataRows = db.selectArrays('SELECT name, value FROM metadata');
+				for (const [name, value] of metadataRows) {
+					if (name === 'bounds' && typeof value === 'string') {
+						bounds = value.split(',').map(Number) as [number, number, number, number];
+						break;
+					}
 				}
 			}
 
@@ -590,9 +871,11 @@ function prioritizeDatabasesByLocation(
 					userLocation.lat >= south &&
 					userLocation.lat <= north;
 
-				if (isWithinBounds) {
+				if (isWithinBounds && !covering.has(filename)) {
+					// Within bounds, but the coverage index shows no tile data there
+					prioritized.push([filename, db, 1, bboxArea]);
+				} else if (isWithinBounds) {
 					// Check if the viewport center tile actually exists in the database
-					const centerTile = lngLatToTile(userLocation.lng, userLocation.lat, ZOOM_LEVEL);
 					// Convert standard Y to TMS Y coordinate
 					const n = 1 << ZOOM_LEVEL;
 					const tmsY = n - 1 - centerTile.y;
@@ -606,6 +889,7 @@ function prioritizeDatabasesByLocation(
 						tileExistsStmt.bind([ZOOM_LEVEL, centerTile.x, tmsY]);
 						tileExistsStmt.step();
 						const tileExists = tileExistsStmt.get(0) > 0;
+						coverageIndex.recordHits(1, tileExists ? 1 : 0);
 
 						if (tileExists) {
 							// Viewport center is within bounds AND tile exists - highest priority
@@ -698,7 +982,8 @@ async function processDatabaseForSearch(
 	preferredLanguage: string,
 	userLocation?: { lng: number; lat: number },
 	onProgress?: (results: SearchResult[], isComplete: boolean, currentDatabase?: string) => void,
-	abortSignal?: AbortSignal
+	abortSignal?: AbortSignal,
+	filters: SearchQueryFilter[] = []
 ): Promise<void> {
 	let lastProgressUpdate = Date.now();
 
@@ -733,13 +1018,25 @@ async function processDatabaseForSearch(
 
 		console.log(`[DB ${filename}] Found ${allTiles.length} tiles to search`);
 
+		// Skip tiles entirely outside the within:/near: radius
+		let searchTiles = allTiles;
+		const radius = getSearchRadius(filters);
+		if (radius !== undefined && userLocation) {
+			searchTiles = allTiles.filter(({ x, tmsY }) =>
+				tileIntersectsRadius(x, (1 << zoomLevel) - 1 - tmsY, zoomLevel, userLocation, radius)
+			);
+			console.log(
+				`[DB ${filename}] ${searchTiles.length}/${allTiles.length} tiles within search radius`
+			);
+		}
+
 		// Sort tiles by spiral distance from viewport center if userLocation provided
 		let prioritizedTiles: typeof allTiles;
 		if (userLocation) {
-			prioritizedTiles = prioritizeTilesBySpiral(allTiles, userLocation, zoomLevel);
+			prioritizedTiles = prioritizeTilesBySpiral(searchTiles, userLocation, zoomLevel);
 			console.log(`[DB ${filename}] Tiles prioritized in spiral pattern from viewport center`);
 		} else {
-			prioritizedTiles = allTiles;
+			prioritizedTiles = searchTiles;
 		}
 
 		// Process tiles in prioritized order
@@ -761,7 +1058,9 @@ async function processDatabaseForSearch(
 				results,
 				seenIds,
 				maxResults,
-				preferredLanguage
+				preferredLanguage,
+				filters,
+				userLocation
 			);
 
 			// Less frequent yielding - every 50 tiles
@@ -799,7 +1098,9 @@ async function processSingleTile(
 	results: SearchResult[],
 	seenIds: Set<string>,
 	maxResults: number,
-	preferredLanguage: string
+	preferredLanguage: string,
+	filters: SearchQueryFilter[] = [],
+	center?: { lng: number; lat: number }
 ): Promise<void> {
 	if (results.length >= maxResults) return;
 
@@ -828,13 +1129,16 @@ async function processSingleTile(
 				const props = vectorTileFeature.properties as Record<string, any>;
 
 				// 🏷️ ENHANCED MATCHING: Check both name-based AND property-based matching
-				const nameMatches = checkNameBasedMatch(props, normalizedQuery, preferredLanguage);
+				const nameMatches = normalizedQuery
+					? checkNameBasedMatch(props, normalizedQuery, preferredLanguage)
+					: null;
 				const propertyMatches =
 					semanticMatches.length > 0 ? checkPropertyBasedMatch(props, semanticMatches) : false;
 
 				// Feature must match either name-based OR property-based criteria
 				// If there are no semantic matches, only use name-based matching
-				const isMatch = nameMatches || propertyMatches;
+				// Without free text, every feature passing the filters matches
+				const isMatch = !normalizedQuery || nameMatches !== null || propertyMatches;
 
 				if (!isMatch) {
 					continue;
@@ -864,16 +1168,34 @@ async function processSingleTile(
 					lat = tileCenter.lat;
 				}
 
+				const featureClass = sourceLayer.startsWith('poi_')
+					? sourceLayer.replace('poi_', '')
+					: 'poi';
+
+				if (
+					filters.length > 0 &&
+					!matchesPlaceFilters(
+						{
+							class: featureClass,
+							subclass: props['subclass'],
+							category: props['category'],
+							lng,
+							lat,
+							openingHours: props['opening_hours']
+						},
+						filters,
+						center
+					)
+				) {
+					continue;
+				}
+
 				const fid = String(props['id'] || `${filename}:${sourceLayer}:${x}:${y}:${i}`);
 				const dedupKey = `${filename}|${sourceLayer}|${fid}`;
 
 				if (!seenIds.has(dedupKey)) {
 					seenIds.add(dedupKey);
 
-					const featureClass = sourceLayer.startsWith('poi_')
-						? sourceLayer.replace('poi_', '')
-						: 'poi';
-
 					// Extract name properties for the result
 					const names: { [key: string]: string } = {};
 					for (const [key, value] of Object.entries(props)) {
@@ -897,8 +1219,11 @@ async function processSingleTile(
 						zoom: zoomLevel,
 						tileX: x,
 						tileY: y,
-						// Add match type info for debugging
-						matchType: propertyMatches ? 'property' : 'name'
+						openingHours:
+							typeof props['opening_hours'] === 'string' ? props['opening_hours'] : undefined,
+						// How the feature matched, and how well, for ranking
+						matchType: nameMatches?.type ?? 'property',
+						score: nameMatches?.score ?? PROPERTY_MATCH_SCORE
 					});
 				}
 			}
@@ -908,12 +1233,12 @@ async function processSingleTile(
 	}
 }
 
-// 🏷️ Check if feature matches based on name properties (original logic)
+// 🏷️ Check if feature matches based on name properties, tolerating typos and script
 function checkNameBasedMatch(
 	props: Record<string, any>,
 	normalizedQuery: string,
 	preferredLanguage: string
-): boolean {
+): NameMatch | null {
 	// Extract name properties
 	const names: { [key: string]: string } = {};
 	let hasAnyName = false;
@@ -927,19 +1252,10 @@ function checkNameBasedMatch(
 		}
 	}
 
-	if (!hasAnyName) return false;
+	if (!hasAnyName) return null;
 
-	// Check for matches using original logic
 	const searchOrder = createLanguageAwareSearchOrder(preferredLanguage, Object.keys(names));
-
-	for (const nameKey of searchOrder) {
-		const nameValue = names[nameKey];
-		if (nameValue && fastMatchesQuery(nameValue, normalizedQuery)) {
-			return true;
-		}
-	}
-
-	return false;
+	return matchNames(searchOrder.map((key) => names[key]).filter(Boolean), normalizedQuery);
 }
 
 // 🏷️ Check if feature matches based on OSM properties (new semantic logic)
@@ -1006,65 +1322,21 @@ function createLanguageAwareSearchOrder(
 	].filter((key) => availableKeys.includes(key));
 }
 
-function fastMatchesQuery(target: string, normalizedQuery: string): boolean {
-	if (!target || !normalizedQuery) return false;
-
-	const targetLower = target.toLowerCase();
-	const queryLower = normalizedQuery.toLowerCase();
-
-	function splitIntoWords(text: string): string[] {
-		return text.split(/[\s\-_.,]+/).filter((word) => word.length > 0);
-	}
-
-	const queryWords = splitIntoWords(queryLower);
-	const targetWords = splitIntoWords(targetLower);
-
-	if (queryWords.length === 1) {
-		const singleQuery = queryWords[0];
-
-		if (targetWords.some((targetWord) => targetWord.startsWith(singleQuery))) {
-			return true;
-		}
-
-		for (let i = 0; i < targetWords.length; i++) {
-			let concatenated = '';
-			for (let j = i; j < targetWords.length; j++) {
-				concatenated += targetWords[j];
-				if (concatenated.startsWith(singleQuery)) {
-					return true;
-				}
-			}
-		}
-
-		const normalizedTarget = normalizeForName(target);
-		const normalizedTargetWords = splitIntoWords(normalizedTarget);
-		const normalizedSingleQuery = normalizeForName(singleQuery);
-
-		if (normalizedTargetWords.some((word) => word.startsWith(normalizedSingleQuery))) {
-			return true;
-		}
-
-		return false;
-	}
-
-	return queryWords.every((queryWord) => {
-		if (targetWords.some((targetWord) => targetWord.startsWith(queryWord))) {
-			return true;
-		}
-
-		if (targetLower.includes(queryWord)) {
-			return true;
-		}
-
-		const normalizedTarget = normalizeForName(target);
-		const normalizedQueryWord = normalizeForName(queryWord);
-
-		if (normalizedTarget.includes(normalizedQueryWord)) {
-			return true;
-		}
-
-		return false;
-	});
+// Whether any part of an XYZ tile lies within `radius` meters of a point
+function tileIntersectsRadius(
+	x: number,
+	y: number,
+	zoom: number,
+	center: { lng: number; lat: number },
+	radius: number
+): boolean {
+	const northWest = tileToLngLat(x, y, zoom);
+	const southEast = tileToLngLat(x + 1, y + 1, zoom);
+	const nearest = {
+		lng: Math.min(Math.max(center.lng, northWest.lng), southEast.lng),
+		lat: Math.min(Math.max(center.lat, southEast.lat), northWest.lat)
+	};
+	return calculateDistance(center.lat, center.lng, nearest.lat, nearest.lng) * 1000 <= radius;
 }
 
 function tileToLngLat(x: number, y: number, zoom: number): { lng: number; lat: number } {
@@ -1184,6 +1456,7 @@ async function scanAndIndexDatabases(): Promise<{
 
 	// Clear existing index
 	dbIndex.clear();
+	coverageIndex.clear();
 	closeAllDatabases();
 
 	const mbtilesList: string[] = [];
@@ -1210,6 +1483,8 @@ async function scanAndIndexDatabases(): Promise<{
 		}
 	}
 
+	schedulePoiIndexing();
+
 	const result = {
 		totalFiles: mbtilesList.length,
 		successfulDbs: mbtilesList.length - corruptedFiles.length,
@@ -1270,6 +1545,8 @@ async function processDatabaseFile(filename: string): Promise<void> {
 			dbIndex.get(key)!.push(dbEntry);
 		}
 
+		coverageIndex.addDatabase(filename, db, metadata);
+
 		// Keep reference to open database
 		openDatabases.set(filename, db);
 	} catch (error) {
@@ -1317,6 +1594,9 @@ async function validateAndGetMetadata(db: OpfsDatabase): Promise<DatabaseMetadat
 				case 'description':
 					metadata.description = String(value);
 					break;
+				case 'version':
+					metadata.version = parseInt(String(value));
+					break;
 			}
 		}
 
@@ -1372,11 +1652,14 @@ async function queryDatabase(filename: string, query: string, params?: any[]): P
 
 // Close specific database
 function closeDatabase(filename: string): void {
+	poiSearchIndex.close(filename);
+
 	const db = openDatabases.get(filename);
 	if (db) {
 		try {
 			db.close();
 			openDatabases.delete(filename);
+			coverageIndex.removeDatabase(filename);
 
 			// Remove from index
 			for (const [key, entries] of dbIndex.entries()) {
@@ -1402,15 +1685,25 @@ function closeAllDatabases(): void {
 
 // Remove corrupted file from OPFS
 async function removeCorruptedFile(filename: string): Promise<void> {
-	if (!opfsRoot) return;
-
 	try {
-		await opfsRoot.removeEntry(filename);
+		await removeDatabaseFiles(filename);
 	} catch (error) {
 		console.error(`Failed to remove corrupted file ${filename}:`, error);
 	}
 }
 
+// Remove a database together with its R2 metadata and any partial download
+async function removeDatabaseFiles(filename: string): Promise<void> {
+	if (!opfsRoot) return;
+
+	await opfsRoot.removeEntry(filename);
+	for (const sidecar of DATABASE_SIDECAR_SUFFIXES) {
+		if (await fileExists(opfsRoot, filename + sidecar)) {
+			await opfsRoot.removeEntry(filename + sidecar);
+		}
+	}
+}
+
 // Get list of available databases
 function getDatabaseList(): Array<{ filename: string; metadata: any }> {
 	const databases: Array<{ filename: string; metadata: any }> = [];
@@ -1461,7 +1754,7 @@ async function saveFileToOPFS(
 	filename: string,
 	data: ArrayBuffer,
 	directory: string = '',
-	r2Metadata?: { lastModified: string; size: number }
+	r2Metadata?: R2FileMetadata
 ): Promise<string> {
 	if (!opfsRoot) {
 		throw new Error('OPFS not initialized');
@@ -1497,36 +1790,7 @@ async function saveFileToOPFS(
 
 		// Save/update R2 metadata if provided (overwrite if exists)
 		if (r2Metadata) {
-			const metadataFilename = finalFilename + '.r2meta';
-			const metadataContent = JSON.stringify({
-				lastModified: r2Metadata.lastModified,
-				size: r2Metadata.size,
-				savedAt: new Date().toISOString(),
-				originalFilename: filename
-			});
-
-			try {
-				const metadataHandle = await dirHandle.getFileHandle(metadataFilename, { create: true });
-
-				if ('createWritable' in metadataHandle) {
-					const writable = await (metadataHandle as any).createWritable();
-					await writable.write(metadataContent);
-					await writable.close();
-				} else if ('createSyncAccessHandle' in metadataHandle) {
-					const accessHandle = await (metadataHandle as any).createSyncAccessHandle();
-					try {
-						accessHandle.truncate(0); // Clear existing content
-						accessHandle.write(new TextEncoder().encode(metadataContent), { at: 0 });
-						accessHandle.flush();
-					} finally {
-						accessHandle.close();
-					}
-				}
-				console.log(`📝 Updated R2 metadata for ${finalFilename}`);
-			} catch (metaError) {
-				console.warn(`Failed to save metadata for ${finalFilename}:`, metaError);
-				// Continue even if metadata save fails
-			}
+			await writeR2Metadata(dirHandle, finalFilename, r2Metadata);
 		}
 
 		return directory ? `${directory}/${finalFilename}` : finalFilename;
@@ -1535,6 +1799,45 @@ async function saveFileToOPFS(
 	}
 }
 
+// Write the .r2meta sidecar that records which R2 version a local file came from
+async function writeR2Metadata(
+	dirHandle: FileSystemDirectoryHandle,
+	filename: string,
+	r2Metadata: R2FileMetadata
+): Promise<void> {
+	const metadataFilename = filename + '.r2meta';
+	const metadataContent = JSON.stringify({
+		lastModified: r2Metadata.lastModified,
+		size: r2Metadata.size,
+		etag: r2Metadata.etag,
+		savedAt: new Date().toISOString(),
+		originalFilename: filename
+	});
+
+	try {
+		const metadataHandle = await dirHandle.getFileHandle(metadataFilename, { create: true });
+
+		if ('createWritable' in metadataHandle) {
+			const writable = await (metadataHandle as any).createWritable();
+			await writable.write(metadataContent);
+			await writable.close();
+		} else if ('createSyncAccessHandle' in metadataHandle) {
+			const accessHandle = await (metadataHandle as any).createSyncAccessHandle();
+			try {
+				accessHandle.truncate(0); // Clear existing content
+				accessHandle.write(new TextEncoder().encode(metadataContent), { at: 0 });
+				accessHandle.flush();
+			} finally {
+				accessHandle.close();
+			}
+		}
+		console.log(`📝 Updated R2 metadata for ${filename}`);
+	} catch (metaError) {
+		console.warn(`Failed to save metadata for ${filename}:`, metaError);
+		// Continue even if metadata save fails
+	}
+}
+
 async function listOPFSFiles(directory: string = ''): Promise<OPFSFileInfo[]> {
 	if (!opfsRoot) {
 		throw new Error('OPFS not initialized');
@@ -1553,6 +1856,7 @@ async function listOPFSFiles(directory: string = ''): Promise<OPFSFileInfo[]> {
 
 					// Try to read R2 metadata if it exists
 					let r2LastModified: number | undefined;
+					let r2Etag: string | undefined;
 					try {
 						const metadataHandle = await dirHandle.getFileHandle(name + '.r2meta');
 						const metadataFile = await metadataHandle.getFile();
@@ -1561,6 +1865,7 @@ async function listOPFSFiles(directory: string = ''): Promise<OPFSFileInfo[]> {
 
 						// Use R2's original lastModified instead of OPFS file timestamp
 						r2LastModified = new Date(metadata.lastModified).getTime();
+						r2Etag = metadata.etag;
 						console.log(`💾 Found R2 metadata for ${name}: ${metadata.lastModified}`);
 					} catch (metaError) {
 						// No metadata file or failed to read it - use OPFS file timestamp
@@ -1571,7 +1876,8 @@ async function listOPFSFiles(directory: string = ''): Promise<OPFSFileInfo[]> {
 						filename: name,
 						size: file.size,
 						// Use R2 metadata timestamp if available, otherwise use OPFS timestamp
-						lastModified: r2LastModified ?? file.lastModified
+						lastModified: r2LastModified ?? file.lastModified,
+						etag: r2Etag
 					});
 				} catch (fileError) {
 					console.warn(`Failed to get metadata for ${name}:`, fileError);
@@ -1603,6 +1909,498 @@ async function fileExists(
 	}
 }
 
+// ==================== RESUMABLE DOWNLOADS ====================
+// Partial downloads live next to the final file as "<name>.download" plus a
+// "<name>.download.json" state file, so they survive reloads and are ignored by
+// scanDatabases/listOPFSFiles until finalizeDownload moves them into place.
+
+const DOWNLOAD_SUFFIX = '.download';
+const DOWNLOAD_STATE_SUFFIX = '.download.json';
+const HASH_READ_CHUNK_SIZE = 8 * 1024 * 1024;
+
+async function readDownloadState(
+	filename: string
+): Promise<Omit<PendingDownloadInfo, 'bytesDownloaded'> | null> {
+	if (!opfsRoot) {
+		throw new Error('OPFS not initialized');
+	}
+
+	try {
+		const stateHandle = await opfsRoot.getFileHandle(filename + DOWNLOAD_STATE_SUFFIX);
+		const stateFile = await stateHandle.getFile();
+		return JSON.parse(await stateFile.text());
+	} catch {
+		return null;
+	}
+}
+
+async function getPendingDownload(filename: string): Promise<PendingDownloadInfo | null> {
+	if (!opfsRoot) {
+		throw new Error('OPFS not initialized');
+	}
+
+	const state = await readDownloadState(filename);
+	if (!state) return null;
+
+	let bytesDownloaded = 0;
+	try {
+		const tempHandle = await opfsRoot.getFileHandle(filename + DOWNLOAD_SUFFIX);
+		bytesDownloaded = (await tempHandle.getFile()).size;
+	} catch {
+		// State without data - treat as a fresh download
+	}
+
+	return { ...state, bytesDownloaded };
+}
+
+async function listPendingDownloads(): Promise<PendingDownloadInfo[]> {
+	if (!opfsRoot) {
+		throw new Error('OPFS not initialized');
+	}
+
+	const pending: PendingDownloadInfo[] = [];
+
+	for await (const [name, handle] of (opfsRoot as any).entries()) {
+		if (handle.kind === 'file' && name.endsWith(DOWNLOAD_STATE_SUFFIX)) {
+			const filename = name.slice(0, -DOWNLOAD_STATE_SUFFIX.length);
+			const info = await getPendingDownload(filename);
+			if (info) {
+				pending.push(info);
+			}
+		}
+	}
+
+	return pending;
+}
+
+async function beginDownload(
+	filename: string,
+	r2Metadata: R2FileMetadata & { key: string }
+): Promise<PendingDownloadInfo> {
+	if (!opfsRoot) {
+		throw new Error('OPFS not initialized');
+	}
+
+	const state: Omit<PendingDownloadInfo, 'bytesDownloaded'> = {
+		filename,
+		key: r2Metadata.key,
+		size: r2Metadata.size,
+		etag: r2Metadata.etag,
+		lastModified: r2Metadata.lastModified,
+		startedAt: new Date().toISOString()
+	};
+
+	// Start from an empty temp file
+	const tempHandle = await opfsRoot.getFileHandle(filename + DOWNLOAD_SUFFIX, { create: true });
+	await writeAt(tempHandle, new Uint8Array(0), 0);
+
+	const stateHandle = await opfsRoot.getFileHandle(filename + DOWNLOAD_STATE_SUFFIX, {
+		create: true
+	});
+	const writable = await (stateHandle as any).createWritable();
+	await writable.write(JSON.stringify(state));
+	await writable.close();
+
+	console.log(`⬇️ Started resumable download of ${filename} (${r2Metadata.size} bytes)`);
+	return { ...state, bytesDownloaded: 0 };
+}
+
+async function writeDownloadChunk(
+	filename: string,
+	chunk: ArrayBuffer,
+	offset: number
+): Promise<number> {
+	if (!opfsRoot) {
+		throw new Error('OPFS not initialized');
+	}
+
+	const state = await readDownloadState(filename);
+	if (!state) {
+		throw new Error(`No download in progress for ${filename}`);
+	}
+
+	const tempHandle = await opfsRoot.getFileHandle(filename + DOWNLOAD_SUFFIX, { create: true });
+	const currentSize = (await tempHandle.getFile()).size;
+
+	// Chunks must be contiguous - anything else means the caller lost track of progress
+	if (offset !== currentSize) {
+		throw new Error(
+			`Chunk offset mismatch for ${filename}: expected ${currentSize}, got ${offset}`
+		);
+	}
+
+	if (offset + chunk.byteLength > state.size) {
+		throw new Error(`Chunk for ${filename} exceeds expected file size ${state.size}`);
+	}
+
+	return writeAt(tempHandle, new Uint8Array(chunk), offset);
+}
+
+// Write data at an offset and truncate anything after it, returning the new file size.
+// Sync access handles write in place, which matters for multi-GB files where
+// createWritable({ keepExistingData: true }) would copy the whole file per chunk.
+async function writeAt(
+	fileHandle: FileSystemFileHandle,
+	data: Uint8Array,
+	offset: number
+): Promise<number> {
+	if ('createSyncAccessHandle' in fileHandle) {
+		const accessHandle = await (fileHandle as any).createSyncAccessHandle();
+		try {
+			accessHandle.truncate(offset);
+			if (data.byteLength > 0) {
+				accessHandle.write(data, { at: offset });
+			}
+			accessHandle.flush();
+			return accessHandle.getSize();
+		} finally {
+			accessHandle.close();
+		}
+	} else if ('createWritable' in fileHandle) {
+		const writable = await (fileHandle as any).createWritable({ keepExistingData: true });
+		await writable.truncate(offset);
+		if (data.byteLength > 0) {
+			await writable.write({ type: 'write', position: offset, data });
+		}
+		await writable.close();
+		return offset + data.byteLength;
+	}
+
+	throw new Error('OPFS write operations not supported in this browser version');
+}
+
+// R2 ETags are the MD5 of the object for single-part uploads. Multipart uploads
+// produce "<md5-of-part-md5s>-<partCount>", which can't be checked without the part size.
+function isVerifiableEtag(etag: string | undefined): etag is string {
+	return !!etag && /^[0-9a-f]{32}$/i.test(etag);
+}
+
+async function hashFile(file: File): Promise<string> {
+	const hasher = new IncrementalMD5();
+
+	for (let position = 0; position < file.size; position += HASH_READ_CHUNK_SIZE) {
+		const slice = file.slice(position, position + HASH_READ_CHUNK_SIZE);
+		hasher.update(new Uint8Array(await slice.arrayBuffer()));
+		await yieldControl();
+	}
+
+	return hasher.digest();
+}
+
+async function finalizeDownload(filename: string): Promise<string> {
+	if (!opfsRoot) {
+		throw new Error('OPFS not initialized');
+	}
+
+	const state = await readDownloadState(filename);
+	if (!state) {
+		throw new Error(`No download in progress for ${filename}`);
+	}
+
+	const tempHandle = await opfsRoot.getFileHandle(filename + DOWNLOAD_SUFFIX);
+	const tempFile = await tempHandle.getFile();
+
+	// Integrity check 1: size must match R2 exactly
+	if (tempFile.size !== state.size) {
+		await discardDownload(filename);
+		throw new Error(
+			`Size mismatch for ${filename}: expected ${state.size} bytes, got ${tempFile.size}`
+		);
+	}
+
+	// Integrity check 2: content hash must match the R2 ETag when it is a plain MD5
+	if (isVerifiableEtag(state.etag)) {
+		const digest = await hashFile(tempFile);
+		if (digest !== state.etag.toLowerCase()) {
+			await discardDownload(filename);
+			throw new Error(`Checksum mismatch for ${filename}: expected ${state.etag}, got ${digest}`);
+		}
+		console.log(`✅ Verified ${filename} against R2 ETag`);
+	} else if (state.etag) {
+		console.log(`ℹ️ Skipping checksum for ${filename} (multipart ETag ${state.etag})`);
+	}
+
+	// Release our handle on any previous version before replacing it
+	closeDatabase(filename);
+
+	if (typeof (tempHandle as any).move === 'function') {
+		// Rename the download in place, so OPFS never holds the file twice; until the move the
+		// verified download stays, and finalizing can be retried
+		if (await fileExists(opfsRoot, filename)) {
+			await opfsRoot.removeEntry(filename);
+		}
+		await (tempHandle as any).move(filename);
+	} else {
+		const finalHandle = await opfsRoot.getFileHandle(filename, { create: true });
+		const writable = await (finalHandle as any).createWritable();
+		await tempFile.stream().pipeTo(writable);
+	}
+
+	await writeR2Metadata(opfsRoot, filename, {
+		lastModified: state.lastModified,
+		size: state.size,
+		etag: state.etag
+	});
+	await discardDownload(filename);
+
+	console.log(`💾 Finalized download of ${filename}`);
+	return filename;
+}
+
+async function discardDownload(filename: string): Promise<void> {
+	if (!opfsRoot) {
+		throw new Error('OPFS not initialized');
+	}
+
+	for (const name of [filename + DOWNLOAD_SUFFIX, filename + DOWNLOAD_STATE_SUFFIX]) {
+		if (await fileExists(opfsRoot, name)) {
+			await opfsRoot.removeEntry(name);
+		}
+	}
+}
+
+// ==================== STORAGE USAGE ====================
+// Per-file OPFS usage for the storage manager. Last access times come from the access
+// log the tile worker keeps (same filename as ACCESS_LOG_FILENAME in tileWorker.ts).
+
+const ACCESS_LOG_FILENAME = 'mbtiles-access.json';
+const DATABASE_SIDECAR_SUFFIXES = [
+	'.r2meta',
+	DOWNLOAD_SUFFIX,
+	DOWNLOAD_STATE_SUFFIX,
+	SEARCH_INDEX_SUFFIX
+];
+
+async function readAccessLog(): Promise<Record<string, number>> {
+	if (!opfsRoot) return {};
+
+	try {
+		const fileHandle = await opfsRoot.getFileHandle(ACCESS_LOG_FILENAME);
+		return JSON.parse(await (await fileHandle.getFile()).text());
+	} catch {
+		return {};
+	}
+}
+
+async function getOPFSUsage(): Promise<OPFSUsageReport> {
+	if (!opfsRoot) {
+		throw new Error('OPFS not initialized');
+	}
+
+	const databases = await listOPFSFiles();
+	const accessLog = await readAccessLog();
+
+	// Sizes of everything in the OPFS root
+	const sizes = new Map<string, { size: number; lastModified: number }>();
+	for await (const [name, handle] of (opfsRoot as any).entries()) {
+		if (handle.kind === 'file') {
+			const file = await (handle as FileSystemFileHandle).getFile();
+			sizes.set(name, { size: file.size, lastModified: file.lastModified });
+		}
+	}
+
+	const accounted = new Set<string>();
+	const files: OPFSFileUsage[] = databases.map((database) => {
+		accounted.add(database.filename);
+
+		let sidecarBytes = 0;
+		for (const sidecar of DATABASE_SIDECAR_SUFFIXES) {
+			const entry = sizes.get(database.filename + sidecar);
+			if (entry) {
+				sidecarBytes += entry.size;
+				accounted.add(database.filename + sidecar);
+			}
+		}
+
+		return {
+			filename: database.filename,
+			size: database.size,
+			sidecarBytes,
+			lastAccessed: accessLog[database.filename] ?? sizes.get(database.filename)?.lastModified ?? 0
+		};
+	});
+
+	let pendingDownloadBytes = 0;
+	let otherBytes = 0;
+	for (const [name, { size }] of sizes) {
+		if (accounted.has(name)) continue;
+		if (name.endsWith(DOWNLOAD_SUFFIX) || name.endsWith(DOWNLOAD_STATE_SUFFIX)) {
+			pendingDownloadBytes += size;
+		} else {
+			otherBytes += size;
+		}
+	}
+
+	return { files, pendingDownloadBytes, otherBytes };
+}
+
+// ==================== DIFFERENTIAL UPDATES ====================
+// Applies a tile-level delta (see MBTilesDeltaManifest) to a local database: changed tiles
+// are written in one transaction and the metadata 'version' is bumped to the delta target.
+
+// Files published before versioning was introduced have no 'version' row; treat them as 0
+function readDatabaseVersion(db: OpfsDatabase): number {
+	const value = db.selectValue("SELECT value FROM metadata WHERE name = 'version'");
+	const version = value === undefined || value === null ? NaN : parseInt(String(value));
+	return Number.isFinite(version) ? version : 0;
+}
+
+async function getDatabaseVersion(filename: string): Promise<number> {
+	if (!sqlite3) {
+		throw new Error('SQLite not initialized');
+	}
+
+	const openDb = openDatabases.get(filename);
+	if (openDb) {
+		return readDatabaseVersion(openDb);
+	}
+
+	const db: OpfsDatabase = new sqlite3.oo1.OpfsDb(filename, 'r');
+	try {
+		return readDatabaseVersion(db);
+	} finally {
+		db.close();
+	}
+}
+
+async function sha256Hex(data: Uint8Array): Promise<string> {
+	const digest = await crypto.subtle.digest('SHA-256', data as BufferSource);
+	return Array.from(new Uint8Array(digest))
+		.map((byte) => byte.toString(16).padStart(2, '0'))
+		.join('');
+}
+
+// MBTiles either store tiles in a plain table or deduplicate them via map/images behind a view
+function detectTileSchema(db: OpfsDatabase): 'table' | 'map-images' {
+	const tilesType = db.selectValue("SELECT type FROM sqlite_master WHERE name = 'tiles'");
+	if (tilesType === 'table') {
+		return 'table';
+	}
+
+	const tableNames = db
+		.selectArrays("SELECT name FROM sqlite_master WHERE type = 'table'")
+		.map((row) => row[0]);
+	if (tilesType === 'view' && tableNames.includes('map') && tableNames.includes('images')) {
+		return 'map-images';
+	}
+
+	throw new Error('Unsupported MBTiles schema for delta updates');
+}
+
+async function applyTileDelta(
+	filename: string,
+	delta: MBTilesDelta,
+	tileData: ArrayBuffer,
+	r2Metadata?: R2FileMetadata
+): Promise<{ version: number; tilesWritten: number; tilesDeleted: number }> {
+	if (!sqlite3 || !opfsRoot) {
+		throw new Error('SQLite not initialized');
+	}
+
+	const bytes = new Uint8Array(tileData);
+	if (bytes.byteLength !== delta.dataSize) {
+		throw new Error(
+			`Delta data size mismatch for ${filename}: expected ${delta.dataSize}, got ${bytes.byteLength}`
+		);
+	}
+
+	// Verify every tile before touching the database
+	const puts: Array<{ tile: MBTilesDeltaTile; data: Uint8Array }> = [];
+	const deletes: MBTilesDeltaTile[] = [];
+
+	for (const tile of delta.tiles) {
+		if (tile.op === 'delete') {
+			deletes.push(tile);
+			continue;
+		}
+
+		const offset = tile.offset ?? 0;
+		const length = tile.length ?? 0;
+		if (offset + length > bytes.byteLength) {
+			throw new Error(`Delta tile ${tile.z}/${tile.x}/${tile.y} is out of range`);
+		}
+
+		const data = bytes.subarray(offset, offset + length);
+		if ((await sha256Hex(data)) !== tile.hash) {
+			throw new Error(`Hash mismatch for delta tile ${tile.z}/${tile.x}/${tile.y}`);
+		}
+		puts.push({ tile, data });
+	}
+
+	// Reopen read-write; the read-only handle is restored below
+	closeDatabase(filename);
+	const db: OpfsDatabase = new sqlite3.oo1.OpfsDb(filename, 'w');
+
+	try {
+		const currentVersion = readDatabaseVersion(db);
+		if (currentVersion !== delta.fromVersion) {
+			throw new Error(
+				`Delta for ${filename} expects version ${delta.fromVersion}, local is ${currentVersion}`
+			);
+		}
+
+		const schema = detectTileSchema(db);
+
+		db.transaction(() => {
+			const deleteStmt = db.prepare(
+				schema === 'table'
+					? 'DELETE FROM tiles WHERE zoom_level=? AND tile_column=? AND tile_row=?'
+					: 'DELETE FROM map WHERE zoom_level=? AND tile_column=? AND tile_row=?'
+			);
+			const insertStmt = db.prepare(
+				schema === 'table'
+					? 'INSERT INTO tiles (zoom_level, tile_column, tile_row, tile_data) VALUES (?, ?, ?, ?)'
+					: 'INSERT INTO map (zoom_level, tile_column, tile_row, tile_id) VALUES (?, ?, ?, ?)'
+			);
+			const imageStmt =
+				schema === 'map-images'
+					? db.prepare('INSERT OR IGNORE INTO images (tile_id, tile_data) VALUES (?, ?)')
+					: null;
+
+			try {
+				for (const tile of [...deletes, ...puts.map((p) => p.tile)]) {
+					deleteStmt.bind([tile.z, tile.x, tile.y]).stepReset();
+				}
+
+				for (const { tile, data } of puts) {
+					if (imageStmt) {
+						// Content hash doubles as the deduplicated image id
+						imageStmt.bind([tile.hash!, data]).stepReset();
+						insertStmt.bind([tile.z, tile.x, tile.y, tile.hash!]).stepReset();
+					} else {
+						insertStmt.bind([tile.z, tile.x, tile.y, data]).stepReset();
+					}
+				}
+			} finally {
+				deleteStmt.finalize();
+				insertStmt.finalize();
+				imageStmt?.finalize();
+			}
+
+			db.exec({ sql: "DELETE FROM metadata WHERE name = 'version'" });
+			db.exec({
+				sql: "INSERT INTO metadata (name, value) VALUES ('version', ?)",
+				bind: [String(delta.toVersion)]
+			});
+		});
+	} finally {
+		db.close();
+	}
+
+	// Reopen read-only and re-index with the updated metadata
+	await processDatabaseFile(filename);
+
+	if (r2Metadata) {
+		await writeR2Metadata(opfsRoot, filename, r2Metadata);
+	}
+
+	console.log(
+		`🩹 Applied delta v${delta.fromVersion}→v${delta.toVersion} to ${filename}: ${puts.length} tiles written, ${deletes.length} deleted`
+	);
+
+	return { version: delta.toVersion, tilesWritten: puts.length, tilesDeleted: deletes.length };
+}
+
 // Send ready message
 postMessage({
 	type: 'ready',
@@ -1,6 +1,7 @@
 // Enhanced Tile Cache - Multi-level caching with prefetching (Organic Maps style)
 // Level 1: Memory Cache (RAM) - Fastest (microseconds)
-// Level 2: OPFS MBTiles - Fast (milliseconds)
+// Level 2: Persistent merged tiles (see persistentTileCache.ts) - Fast (milliseconds)
+// Level 3: OPFS MBTiles, merged per request - Slowest
 
 interface CachedTile {
 	data: ArrayBuffer;
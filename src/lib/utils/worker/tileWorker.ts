@@ -3,12 +3,33 @@ import sqlite3InitModule from '@sqlite.org/sqlite-wasm';
 import type { OpfsDatabase, Sqlite3Static } from '@sqlite.org/sqlite-wasm';
 import { mergeTiles } from '$lib/utils/map/mergeTiles.js';
 import { TileCache } from './tileCache.js';
+import { PersistentTileCache } from './persistentTileCache.js';
+import { CoverageIndex } from './coverageIndex.js';
+import {
+	buildRouteGraphTile,
+	ROUTE_GRAPH_FORMAT_VERSION,
+	ROUTE_GRAPH_TILE_ZOOM
+} from '$lib/utils/routing/RouteGraphTile';
 
 // Global state for tile worker
 let sqlite3: Sqlite3Static | null = null;
 let opfsRoot: FileSystemDirectoryHandle | null = null;
 const openDatabases = new Map<string, OpfsDatabase>();
 
+// Version of each open database (file size and modification time), used to tell whether
+// a persistently cached tile was merged from the current files
+const databaseVersions = new Map<string, string>();
+
+// Which databases actually have tiles where, so requests only query those
+const coverageIndex = new CoverageIndex();
+
+// Last time each database served a tile, persisted for least-recently-used eviction.
+// Only this worker writes the file; the search worker reads it for storage reports.
+const ACCESS_LOG_FILENAME = 'mbtiles-access.json';
+const ACCESS_LOG_FLUSH_DELAY = 30 * 1000;
+const databaseLastAccess = new Map<string, number>();
+let accessLogFlushTimer: ReturnType<typeof setTimeout> | null = null;
+
 // Initialize tile cache with 256MB memory limit
 const tileCache = new TileCache({
 	maxMemorySize: 256 * 1024 * 1024, // 256MB
@@ -18,14 +39,27 @@ const tileCache = new TileCache({
 	maxPrefetchQueue: 50
 });
 
+// Level 2: merged tiles persisted across sessions
+const persistentTileCache = new PersistentTileCache({
+	maxSize: 512 * 1024 * 1024 // 512MB
+});
+
+// Route graph tiles built from the transportation tiles, one per tile and routing profile.
+// Same storage as merged tiles, in a separate file so the two don't evict each other.
+const routeGraphCache = new PersistentTileCache({
+	filename: 'route-graph-cache.sqlite3',
+	maxSize: 128 * 1024 * 1024 // 128MB
+});
+const ROUTE_GRAPH_SOURCE = 'transportation';
+
 // Connect the cache to the OPFS loader once databases are initialized
 let cacheInitialized = false;
 function initializeTileCache() {
 	if (cacheInitialized) return;
 	cacheInitialized = true;
 
-	// Set the OPFS loader function for the cache
-	tileCache.setOPFSLoader(loadTileFromOPFS);
+	// Set the OPFS loader function for the cache (prefetches go through the persistent cache too)
+	tileCache.setOPFSLoader(loadTile);
 	console.log('✅ Tile cache initialized with OPFS loader');
 }
 
@@ -68,6 +102,20 @@ self.addEventListener('message', async (event: MessageEvent) => {
 				}
 				break;
 
+			case 'route-graph-tile':
+				const graphTile = await handleRouteGraphTileRequest(data.profile, data.x, data.y);
+				postMessage(
+					{
+						type: 'route-graph-tile-response',
+						data: graphTile,
+						id
+					},
+					{
+						transfer: graphTile ? [graphTile] : []
+					}
+				);
+				break;
+
 			case 'viewport-update':
 				tileCache.updateViewport(data.z, data.centerX, data.centerY, data.tilesX, data.tilesY);
 				postMessage({
@@ -80,7 +128,11 @@ self.addEventListener('message', async (event: MessageEvent) => {
 			case 'cache-stats':
 				postMessage({
 					type: 'cache-stats-response',
-					data: tileCache.getStats(),
+					data: {
+						...tileCache.getStats(),
+						persistent: persistentTileCache.getStats(),
+						routeGraph: routeGraphCache.getStats()
+					},
 					id
 				});
 				break;
@@ -118,6 +170,60 @@ self.addEventListener('message', async (event: MessageEvent) => {
 				});
 				break;
 
+			case 'clear-persistent-cache':
+				persistentTileCache.clear();
+				routeGraphCache.clear();
+				postMessage({
+					type: 'persistent-cache-cleared',
+					data: 'Persistent tile cache cleared',
+					id
+				});
+				break;
+
+			case 'coverage-index-stats':
+				postMessage({
+					type: 'coverage-index-stats-response',
+					data: coverageIndex.getStats(),
+					id
+				});
+				break;
+
+			case 'close-databases':
+				try {
+					closeDatabases(data.filenames);
+					postMessage({
+						type: 'databases-closed',
+						data: { closed: data.filenames.length },
+						id
+					});
+				} catch (error) {
+					postMessage({
+						type: 'error',
+						data: error instanceof Error ? error.message : 'Close databases failed',
+						id,
+						error: true
+					});
+				}
+				break;
+
+			case 'open-databases':
+				try {
+					const opened = await reopenDatabases(data.filenames);
+					postMessage({
+						type: 'databases-opened',
+						data: { opened },
+						id
+					});
+				} catch (error) {
+					postMessage({
+						type: 'error',
+						data: error instanceof Error ? error.message : 'Open databases failed',
+						id,
+						error: true
+					});
+				}
+				break;
+
 			case 'ping':
 				postMessage({
 					type: 'pong',
@@ -164,17 +270,148 @@ async function scanDatabases(): Promise<void> {
 
 	for await (const [name, handle] of (opfsRoot as any).entries()) {
 		if (name.endsWith('.mbtiles') && handle.kind === 'file') {
+			await openDatabaseFile(name, handle);
+		}
+	}
+
+	await loadAccessLog();
+
+	persistentTileCache.open(sqlite3, databaseVersions);
+	routeGraphCache.open(sqlite3, databaseVersions);
+
+	// Initialize tile cache after databases are loaded
+	initializeTileCache();
+}
+
+async function openDatabaseFile(name: string, handle: FileSystemFileHandle): Promise<void> {
+	if (!sqlite3) return;
+
+	try {
+		const db: OpfsDatabase = new sqlite3.oo1.OpfsDb(name, 'r');
+		openDatabases.set(name, db);
+		const file = await handle.getFile();
+		databaseVersions.set(name, `${file.size}-${file.lastModified}`);
+		coverageIndex.addDatabase(name, db, readDatabaseMetadata(db));
+	} catch (error) {
+		console.warn(`Failed to open ${name} in tile worker:`, error);
+	}
+}
+
+// Open databases again after the search worker replaced or patched them
+async function reopenDatabases(filenames: string[]): Promise<number> {
+	if (!opfsRoot) return 0;
+
+	let opened = 0;
+	for (const filename of filenames) {
+		if (openDatabases.has(filename)) continue;
+		try {
+			await openDatabaseFile(filename, await opfsRoot.getFileHandle(filename));
+			opened++;
+		} catch (error) {
+			console.warn(`${filename} is not in OPFS, not reopening it:`, error);
+		}
+	}
+
+	// Cached tiles may have been merged from the old versions
+	tileCache.clear();
+	return opened;
+}
+
+// Close databases that are about to be removed from OPFS so their files can be deleted
+function closeDatabases(filenames: string[]): void {
+	for (const filename of filenames) {
+		const db = openDatabases.get(filename);
+		if (db) {
 			try {
-				const db: OpfsDatabase = new sqlite3.oo1.OpfsDb(name, 'r');
-				openDatabases.set(name, db);
+				db.close();
 			} catch (error) {
-				console.warn(`Failed to open ${name} in tile worker:`, error);
+				console.warn(`Failed to close ${filename} in tile worker:`, error);
 			}
+			openDatabases.delete(filename);
 		}
+		databaseVersions.delete(filename);
+		databaseLastAccess.delete(filename);
+		coverageIndex.removeDatabase(filename);
 	}
 
-	// Initialize tile cache after databases are loaded
-	initializeTileCache();
+	// Cached tiles may have been merged from the removed files
+	tileCache.clear();
+	persistentTileCache.invalidateDatabases(filenames);
+	routeGraphCache.invalidateDatabases(filenames);
+	scheduleAccessLogFlush();
+}
+
+// Bounds and zoom range from the MBTiles metadata table
+function readDatabaseMetadata(db: OpfsDatabase): {
+	bounds?: [number, number, number, number];
+	minzoom?: number;
+	maxzoom?: number;
+} {
+	const metadata: {
+		bounds?: [number, number, number, number];
+		minzoom?: number;
+		maxzoom?: number;
+	} = {};
+
+	try {
+		const rows = db.selectArrays(
+			"SELECT name, value FROM metadata WHERE name IN ('bounds', 'minzoom', 'maxzoom')"
+		);
+		for (const [name, value] of rows) {
+			if (name === 'bounds' && typeof value === 'string') {
+				const bounds = value.split(',').map(Number);
+				if (bounds.length === 4 && bounds.every(Number.isFinite)) {
+					metadata.bounds = bounds as [number, number, number, number];
+				}
+			} else if (name === 'minzoom' || name === 'maxzoom') {
+				const zoom = parseInt(String(value));
+				if (Number.isFinite(zoom)) metadata[name] = zoom;
+			}
+		}
+	} catch (error) {
+		console.warn('Failed to read database metadata:', error);
+	}
+
+	return metadata;
+}
+
+async function loadAccessLog(): Promise<void> {
+	if (!opfsRoot) return;
+
+	try {
+		const fileHandle = await opfsRoot.getFileHandle(ACCESS_LOG_FILENAME);
+		const log = JSON.parse(await (await fileHandle.getFile()).text()) as Record<string, number>;
+		for (const [filename, lastAccess] of Object.entries(log)) {
+			if (!databaseLastAccess.has(filename)) {
+				databaseLastAccess.set(filename, lastAccess);
+			}
+		}
+	} catch {
+		// No access log yet
+	}
+}
+
+function recordDatabaseAccess(filename: string): void {
+	databaseLastAccess.set(filename, Date.now());
+	scheduleAccessLogFlush();
+}
+
+function scheduleAccessLogFlush(): void {
+	if (accessLogFlushTimer) return;
+
+	accessLogFlushTimer = setTimeout(async () => {
+		accessLogFlushTimer = null;
+		if (!opfsRoot) return;
+
+		try {
+			const fileHandle = await opfsRoot.getFileHandle(ACCESS_LOG_FILENAME, { create: true });
+			const writable = await fileHandle.createWritable();
+			await writable.write(JSON.stringify(Object.fromEntries(databaseLastAccess)));
+			await writable.close();
+		} catch (error) {
+			console.warn('Failed to save database access log:', error);
+		}
+	}, ACCESS_LOG_FLUSH_DELAY);
 }
 
 // Handle tile requests with intelligent caching
@@ -197,12 +434,9 @@ async function handleTileRequest(
 			return cached.data.slice();
 		}
 
-		// 2. FAST: Load from OPFS MBTiles (milliseconds)
-		const tileData = await loadTileFromOPFS(source, z, x, y);
+		// 2. FAST: Load from the persistent cache or OPFS MBTiles (milliseconds)
+		const tileData = await loadTile(source, z, x, y);
 		if (tileData) {
-			// Increment OPFS fetch counter
-			tileCache.incrementOPFSFetch();
-
 			// Store in memory cache for future requests (async, don't wait)
 			tileCache.storeInMemory(source, z, x, y, tileData, false).catch((error) => {
 				console.warn('Failed to cache tile:', error);
@@ -226,19 +460,100 @@ async function handleTileRequest(
 	}
 }
 
-// Load tile from OPFS MBTiles
-async function loadTileFromOPFS(
+// Route graph of a transportation tile for a routing profile, from the route graph cache or
+// built from the tile. Building here keeps tile decoding and clipping off the main thread.
+async function handleRouteGraphTileRequest(
+	profile: RoutingProfileId,
+	x: number,
+	y: number
+): Promise<ArrayBuffer | null> {
+	const z = ROUTE_GRAPH_TILE_ZOOM;
+	const sourceDbs = coverageIndex.select(z, x, y, getDatabasesBySource(ROUTE_GRAPH_SOURCE));
+	if (sourceDbs.length === 0) {
+		return null;
+	}
+
+	// Versioned per profile, so format or profile rule changes don't serve stale graphs
+	const cacheSource = `route-graph-v${ROUTE_GRAPH_FORMAT_VERSION}-${profile}`;
+	const candidates = sourceDbs.map(({ filename }) => filename);
+	try {
+		const cached = await routeGraphCache.get(cacheSource, z, x, y, candidates, (filename) =>
+			databaseVersions.get(filename)
+		);
+		if (cached) return cached;
+	} catch (error) {
+		console.warn(`Route graph cache read failed for ${profile} ${z}/${x}/${y}:`, error);
+	}
+
+	const tileData = await handleTileRequest(ROUTE_GRAPH_SOURCE, z, x, y);
+	if (!tileData) {
+		return null;
+	}
+
+	const graphTile = buildRouteGraphTile(tileData, z, x, y, profile);
+
+	// Any candidate database may have contributed to the merged tile
+	const contributors = candidates.map(
+		(filename) => [filename, databaseVersions.get(filename) ?? ''] as [string, string]
+	);
+	// Persist a copy, since the result is transferred to the main thread
+	routeGraphCache
+		.put(cacheSource, z, x, y, graphTile.slice(0), candidates, contributors)
+		.catch((error) => console.warn('Failed to persist route graph tile:', error));
+
+	return graphTile;
+}
+
+// Load a merged tile from the persistent cache, falling back to the OPFS MBTiles
+async function loadTile(
 	source: string,
 	z: number,
 	x: number,
 	y: number
 ): Promise<ArrayBuffer | null> {
-	// Find databases for the source
-	const sourceDbs = getDatabasesBySource(source);
+	// Only databases whose coverage includes this tile
+	const sourceDbs = coverageIndex.select(z, x, y, getDatabasesBySource(source));
 	if (sourceDbs.length === 0) {
 		return null;
 	}
 
+	const candidates = sourceDbs.map(({ filename }) => filename);
+	try {
+		const cached = await persistentTileCache.get(source, z, x, y, candidates, (filename) =>
+			databaseVersions.get(filename)
+		);
+		if (cached) return cached;
+	} catch (error) {
+		console.warn(`Persistent cache read failed for ${source} ${z}/${x}/${y}:`, error);
+	}
+
+	const merged = await loadTileFromOPFS(sourceDbs, z, x, y);
+	if (!merged) {
+		return null;
+	}
+
+	tileCache.incrementOPFSFetch();
+	if (merged.contributors.length === 0) {
+		return merged.data;
+	}
+
+	const contributors = merged.contributors.map(
+		(filename) => [filename, databaseVersions.get(filename) ?? ''] as [string, string]
+	);
+	persistentTileCache
+		.put(source, z, x, y, merged.data, candidates, contributors)
+		.catch((error) => console.warn('Failed to persist tile:', error));
+
+	return merged.data;
+}
+
+// Load tile from OPFS MBTiles
+async function loadTileFromOPFS(
+	sourceDbs: { filename: string; db: OpfsDatabase }[],
+	z: number,
+	x: number,
+	y: number
+): Promise<{ data: ArrayBuffer; contributors: string[] } | null> {
 	// Convert XYZ to TMS Y coordinate (MBTiles use TMS scheme)
 	const tmsY = (1 << z) - 1 - y;
 
@@ -249,8 +564,8 @@ async function loadTileFromOPFS(
 	return result;
 }
 
-function getDatabasesBySource(source: string): OpfsDatabase[] {
-	const matchingDbs: OpfsDatabase[] = [];
+function getDatabasesBySource(source: string): { filename: string; db: OpfsDatabase }[] {
+	const matchingDbs: { filename: string; db: OpfsDatabase }[] = [];
 	const sourceLower = source.toLowerCase();
 
 	// Universal matching - check ALL databases for any source
@@ -259,7 +574,7 @@ function getDatabasesBySource(source: string): OpfsDatabase[] {
 
 		// Simple substring matching - works for any source
 		if (filenameLower.includes(sourceLower)) {
-			matchingDbs.push(db);
+			matchingDbs.push({ filename, db });
 		}
 	}
 
@@ -321,25 +636,16 @@ async function processRawTileData(tileData: Uint8Array): Promise<ArrayBuffer> {
 
 // Merge multiple vector tiles
 async function mergeVectorTiles(
-	sourceDbs: OpfsDatabase[],
+	sourceDbs: { filename: string; db: OpfsDatabase }[],
 	z: number,
 	x: number,
 	tmsY: number
-): Promise<ArrayBuffer | null> {
+): Promise<{ data: ArrayBuffer; contributors: string[] } | null> {
 	// Phase 1: Fast boundary check - only query tile existence first
 	const availableDbs: { db: OpfsDatabase; filename: string }[] = [];
 
-	for (const db of sourceDbs) {
+	for (const { db, filename } of sourceDbs) {
 		try {
-			// Get the filename for this database
-			let filename = 'unknown';
-			for (const [name, dbRef] of openDatabases) {
-				if (dbRef === db) {
-					filename = name;
-					break;
-				}
-			}
-
 			// Check if this database has tiles at this zoom level
 			const stmt = db.prepare(
 				'SELECT COUNT(*) FROM tiles WHERE zoom_level=? AND tile_column=? AND tile_row=?'
@@ -362,6 +668,8 @@ async function mergeVectorTiles(
 		}
 	}
 
+	coverageIndex.recordHits(sourceDbs.length, availableDbs.length);
+
 	// Early exit if no tiles exist at this zoom level
 	if (availableDbs.length === 0) {
 		return null;
@@ -385,6 +693,7 @@ async function mergeVectorTiles(
 					const processedData = await processRawTileData(rawTileData);
 					// Only add tiles with actual content
 					if (processedData.byteLength > 0) {
+						recordDatabaseAccess(filename);
 						tilesToMerge.push({
 							filename,
 							data: processedData
@@ -405,9 +714,11 @@ async function mergeVectorTiles(
 		return null;
 	}
 
+	const contributors = tilesToMerge.map(({ filename }) => filename);
+
 	// Avoid expensive merge for single tile
 	if (tilesToMerge.length === 1) {
-		return tilesToMerge[0].data;
+		return { data: tilesToMerge[0].data, contributors };
 	}
 
 	// Merge multiple tiles
@@ -422,14 +733,20 @@ async function mergeVectorTiles(
 
 		if (!(mergedTile.buffer instanceof ArrayBuffer)) {
 			new Uint8Array(resultBuffer).set(mergedTile);
-			return resultBuffer;
+			return { data: resultBuffer, contributors };
 		}
 
-		return resultBuffer.slice(mergedTile.byteOffset, mergedTile.byteOffset + mergedTile.byteLength);
+		return {
+			data: resultBuffer.slice(
+				mergedTile.byteOffset,
+				mergedTile.byteOffset + mergedTile.byteLength
+			),
+			contributors
+		};
 	} catch (error) {
 		console.error(`Vector tile merge failed:`, error);
-		// Fallback to first available tile on merge failure
-		return tilesToMerge[0].data;
+		// Fallback to first available tile on merge failure - no contributors, so it isn't persisted
+		return { data: tilesToMerge[0].data, contributors: [] };
 	}
 }
 
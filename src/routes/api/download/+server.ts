@@ -1,6 +1,37 @@
 import type { RequestHandler } from './$types';
 
-export const GET: RequestHandler = async ({ url, platform }) => {
+// Parse a single-range "bytes=start-end" header against the object size.
+// Returns null when the header is malformed or the range is unsatisfiable.
+function parseRangeHeader(
+	rangeHeader: string,
+	size: number
+): { offset: number; length: number } | null {
+	const match = /^bytes=(\d*)-(\d*)$/.exec(rangeHeader.trim());
+	if (!match || (match[1] === '' && match[2] === '')) {
+		return null;
+	}
+
+	let start: number;
+	let end: number;
+
+	if (match[1] === '') {
+		// Suffix range: last N bytes
+		const suffixLength = parseInt(match[2]);
+		start = Math.max(0, size - suffixLength);
+		end = size - 1;
+	} else {
+		start = parseInt(match[1]);
+		end = match[2] === '' ? size - 1 : Math.min(parseInt(match[2]), size - 1);
+	}
+
+	if (start >= size || end < start) {
+		return null;
+	}
+
+	return { offset: start, length: end - start + 1 };
+}
+
+export const GET: RequestHandler = async ({ url, request, platform }) => {
 	try {
 		const fileName = url.searchParams.get('file');
 
@@ -20,7 +51,66 @@ export const GET: RequestHandler = async ({ url, platform }) => {
 		}
 
 		try {
-			const object = await platform.env.cloudflare_bucket_mbtiles.get(fileName);
+			const bucket = platform.env.cloudflare_bucket_mbtiles;
+			const rangeHeader = request.headers.get('Range');
+
+			if (rangeHeader) {
+				// Resolve size/ETag first so the range can be validated before streaming
+				const head = await bucket.head(fileName);
+
+				if (!head) {
+					return new Response(JSON.stringify({ error: 'File not found' }), {
+						status: 404,
+						headers: { 'Content-Type': 'application/json' }
+					});
+				}
+
+				// If-Range: only honour the range while the object is unchanged,
+				// otherwise fall through and send the full (new) object
+				const ifRange = request.headers.get('If-Range');
+				const rangeStillValid = !ifRange || ifRange === head.httpEtag || ifRange === head.etag;
+
+				if (rangeStillValid) {
+					const range = parseRangeHeader(rangeHeader, head.size);
+
+					if (!range) {
+						return new Response(null, {
+							status: 416,
+							headers: {
+								'Content-Range': `bytes */${head.size}`,
+								'Accept-Ranges': 'bytes',
+								ETag: head.httpEtag || ''
+							}
+						});
+					}
+
+					const object = await bucket.get(fileName, { range });
+
+					if (!object) {
+						return new Response(JSON.stringify({ error: 'File not found' }), {
+							status: 404,
+							headers: { 'Content-Type': 'application/json' }
+						});
+					}
+
+					const rangeEnd = range.offset + range.length - 1;
+
+					return new Response(object.body, {
+						status: 206,
+						headers: {
+							'Content-Type': object.httpMetadata?.contentType || 'application/octet-stream',
+							'Content-Length': range.length.toString(),
+							'Content-Range': `bytes ${range.offset}-${rangeEnd}/${object.size}`,
+							'Accept-Ranges': 'bytes',
+							'Cache-Control': 'no-store',
+							'Last-Modified': object.uploaded.toUTCString(),
+							ETag: object.httpEtag || ''
+						}
+					});
+				}
+			}
+
+			const object = await bucket.get(fileName);
 
 			if (!object) {
 				return new Response(JSON.stringify({ error: 'File not found' }), {
@@ -33,7 +123,12 @@ export const GET: RequestHandler = async ({ url, platform }) => {
 				headers: {
 					'Content-Type': object.httpMetadata?.contentType || 'application/octet-stream',
 					'Content-Length': object.size.toString(),
-					'Cache-Control': 'public, max-age=31536000',
+					'Accept-Ranges': 'bytes',
+					// Delta manifests are rewritten in place on every release
+					'Cache-Control': fileName.endsWith('.delta.json')
+						? 'no-cache'
+						: 'public, max-age=31536000',
+					'Last-Modified': object.uploaded.toUTCString(),
 					ETag: object.httpEtag || ''
 				}
 			});
@@ -1,14 +1,26 @@
 import type { RequestHandler } from './$types';
+import { isMBTilesKey, listAllObjects, listObjectsPage } from '$lib/server/r2';
 
 export const GET: RequestHandler = async ({ url, platform }) => {
 	try {
 		const prefix = url.searchParams.get('prefix') || '';
-		const limit = parseInt(url.searchParams.get('limit') || '1000');
+		// Passing a limit or cursor returns a single page; otherwise every page is followed
+		const limitParam = url.searchParams.get('limit');
+		const cursor = url.searchParams.get('cursor') || undefined;
+		const limit = limitParam ? Number(limitParam) : undefined;
+		const paged = limit !== undefined || cursor !== undefined;
+
+		if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+			return new Response(JSON.stringify({ error: 'Limit must be a positive integer' }), {
+				status: 400,
+				headers: { 'Content-Type': 'application/json' }
+			});
+		}
 
 		console.log('=== FILES API DEBUG ===');
 		console.log('URL:', url.href);
 		console.log('Prefix:', prefix);
-		console.log('Limit:', limit);
+		console.log('Limit:', limit, 'Cursor:', cursor);
 		console.log('Platform available:', !!platform);
 		console.log('Platform.env available:', !!platform?.env);
 		console.log('cloudflare_bucket_mbtiles available:', !!platform?.env?.cloudflare_bucket_mbtiles);
@@ -19,31 +31,28 @@ export const GET: RequestHandler = async ({ url, platform }) => {
 
 		console.log('=== R2 BUCKET ACCESS ===');
 		console.log('Attempting to list R2 objects...');
-		console.log('Request params - prefix:', prefix, 'limit:', limit);
+		console.log('Request params - prefix:', prefix, 'limit:', limit, 'cursor:', cursor);
 
-		const objects = await platform.env.cloudflare_bucket_mbtiles.list({
-			prefix,
-			limit
-		});
+		const bucket = platform.env.cloudflare_bucket_mbtiles;
+		const page = paged
+			? await listObjectsPage(bucket, { prefix, limit, cursor })
+			: { objects: await listAllObjects(bucket, prefix), truncated: false, cursor: undefined };
 
 		console.log('=== R2 RESPONSE ===');
-		console.log('Total objects returned:', objects?.objects?.length || 0);
-		console.log('Truncated:', objects?.truncated);
+		console.log('Total objects returned:', page.objects.length);
+		console.log('Truncated:', page.truncated);
 
 		// Filter for .mbtiles files only
-		const mbtilesObjects = objects.objects.filter((obj: any) => {
-			const isMbtiles = obj.key.toLowerCase().endsWith('.mbtiles');
-			console.log(`File: ${obj.key}, is .mbtiles: ${isMbtiles}`);
-			return isMbtiles;
-		});
+		const mbtilesObjects = page.objects.filter((obj) => isMBTilesKey(obj.key));
 
 		console.log('=== FILTERING RESULTS ===');
 		console.log('Files ending with .mbtiles:', mbtilesObjects.length);
 
-		const files = mbtilesObjects.map((obj: any) => ({
+		const files: R2File[] = mbtilesObjects.map((obj) => ({
 			key: obj.key,
 			size: obj.size,
-			lastModified: obj.uploaded
+			lastModified: obj.uploaded.toISOString(),
+			etag: obj.etag
 		}));
 
 		console.log('=== FINAL RESULT ===');
@@ -52,13 +61,15 @@ export const GET: RequestHandler = async ({ url, platform }) => {
 		const responseData = {
 			success: true,
 			files,
-			truncated: objects.truncated,
-			totalObjects: objects.objects?.length || 0,
+			truncated: page.truncated,
+			cursor: page.cursor,
+			totalObjects: page.objects.length,
 			mbtilesCount: files.length,
 			debugInfo: {
 				hasR2: true,
 				requestPrefix: prefix,
-				requestLimit: limit
+				requestLimit: limit,
+				requestCursor: cursor
 			}
 		};
 
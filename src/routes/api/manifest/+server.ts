@@ -0,0 +1,55 @@
+import type { RequestHandler } from './$types';
+import { isMBTilesKey, listAllObjects } from '$lib/server/r2';
+import { buildManifest } from '$lib/server/mbtiles-manifest';
+
+/**
+ * Typed manifest of every .mbtiles file in the bucket: size/ETag from the R2 listing plus
+ * bounds, zoom range, vector layers and version from each file's metadata table.
+ */
+export const GET: RequestHandler = async ({ url, platform }) => {
+	try {
+		const prefix = url.searchParams.get('prefix') || '';
+
+		if (!platform?.env?.cloudflare_bucket_mbtiles) {
+			throw new Error('R2 bucket binding not available');
+		}
+
+		const bucket = platform.env.cloudflare_bucket_mbtiles;
+		const objects = (await listAllObjects(bucket, prefix)).filter((obj) => isMBTilesKey(obj.key));
+		const cache = platform.caches ? await platform.caches.open('mbtiles-manifest') : undefined;
+		const entries = await buildManifest(bucket, objects, cache);
+
+		console.log(
+			`📋 Manifest: ${entries.length} files, ${entries.filter((entry) => entry.error).length} without metadata`
+		);
+
+		return new Response(
+			JSON.stringify({
+				success: true,
+				generatedAt: new Date().toISOString(),
+				entries
+			}),
+			{
+				status: 200,
+				headers: {
+					'Content-Type': 'application/json',
+					'Cache-Control': 'no-cache'
+				}
+			}
+		);
+	} catch (error) {
+		console.error('Manifest API error:', error);
+
+		return new Response(
+			JSON.stringify({
+				error: 'Failed to build manifest',
+				details: error instanceof Error ? error.message : 'Unknown error',
+				timestamp: new Date().toISOString()
+			}),
+			{
+				status: 500,
+				headers: { 'Content-Type': 'application/json' }
+			}
+		);
+	}
+};
@@ -1,4 +1,6 @@
 import { build, files, version } from '$service-worker';
+import { OUTBOX_SYNC_TAG } from '$lib/utils/outbox/replay';
+import { replayOutboxFromServiceWorker } from '$lib/utils/outbox/service-worker-replay';
 
 // Create a unique cache name for this deployment
 const CACHE = `cache-${version}`;
@@ -507,8 +509,17 @@ self.addEventListener('notificationclick', (event) => {
 	);
 });
 
-// Optional: Handle background sync for offline actions
+// Handle background sync: replay offline edits from the sync outbox, even if the app is closed
 self.addEventListener('sync', (event) => {
 	console.log('Background sync:', event.tag);
-	// Add your background sync logic here
+	if (event.tag !== OUTBOX_SYNC_TAG) return;
+
+	event.waitUntil(
+		replayOutboxFromServiceWorker().then(async (result) => {
+			const clients = await self.clients.matchAll();
+			clients.forEach((client) => {
+				client.postMessage({ type: 'OUTBOX_REPLAYED', result });
+			});
+		})
+	);
 });